@@ -10,11 +10,14 @@ import { cors } from 'hono/cors';
 import { Logger } from '../utils/logger.js';
 import { configManager } from '../config/config-manager.js';
 import { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicySimulator, PolicySimulationRequest } from '../policy/policy-simulator.js';
+import { PolicyAnalyzer } from '../policy/policy-analyzer.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { CostTracker } from '../cost/cost-tracker.js';
 import { AnalyticsEngine } from '../analytics/analytics-engine.js';
 import { ScannerOrchestrator } from '../scanners/scanner-orchestrator.js';
-import { Policy } from '../types/index.js';
+import { ApprovalManager, ApprovalStatus } from '../approval/approval-manager.js';
+import { Policy, ProxilionError } from '../types/index.js';
 
 export interface AdminAPIConfig {
   enableAuth?: boolean;
@@ -31,6 +34,7 @@ export class AdminAPI {
   private costTracker: CostTracker;
   private analyticsEngine: AnalyticsEngine;
   private scannerOrchestrator: ScannerOrchestrator;
+  private approvalManager?: ApprovalManager;
   private config: AdminAPIConfig;
 
   constructor(
@@ -39,7 +43,8 @@ export class AdminAPI {
     costTracker: CostTracker,
     analyticsEngine: AnalyticsEngine,
     scannerOrchestrator: ScannerOrchestrator,
-    config: AdminAPIConfig = {}
+    config: AdminAPIConfig = {},
+    approvalManager?: ApprovalManager // Enables the /api/approvals review endpoints
   ) {
     this.app = new Hono();
     this.logger = new Logger();
@@ -48,6 +53,7 @@ export class AdminAPI {
     this.costTracker = costTracker;
     this.analyticsEngine = analyticsEngine;
     this.scannerOrchestrator = scannerOrchestrator;
+    this.approvalManager = approvalManager;
     this.config = {
       enableAuth: config.enableAuth ?? true,
       apiKey: config.apiKey,
@@ -63,8 +69,8 @@ export class AdminAPI {
    * Setup middleware
    */
   private setupMiddleware(): void {
-    // CORS
-    this.app.use('/*', cors({
+    // CORS (this and request logging are scoped to /api/* to stay off the proxy routes when mounted)
+    this.app.use('/api/*', cors({
       origin: this.config.corsOrigins!,
       allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
       allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
@@ -84,7 +90,7 @@ export class AdminAPI {
     }
 
     // Request logging
-    this.app.use('/*', async (c, next) => {
+    this.app.use('/api/*', async (c, next) => {
       const start = Date.now();
       await next();
       const duration = Date.now() - start;
@@ -115,12 +121,33 @@ export class AdminAPI {
 
     // Policy endpoints
     this.app.get('/api/policies', (c) => this.getPolicies(c));
+    this.app.get('/api/policies/shadow-report', (c) => this.getShadowReport(c));
+    this.app.post('/api/policies/simulate', async (c) => this.simulatePolicies(c));
+    this.app.get('/api/policies/analysis', (c) => this.analyzePolicies(c));
+    this.app.get('/api/policies/settings', (c) => this.getPolicySettings(c));
+    this.app.put('/api/policies/settings', async (c) => this.updatePolicySettings(c));
+    this.app.delete('/api/policies/settings/:tenantId', (c) => this.resetPolicySettings(c));
+    this.app.get('/api/policies/calendar', (c) => this.getPolicyCalendar(c));
+    this.app.put('/api/policies/calendar/business-hours', async (c) => this.updateBusinessHours(c));
+    this.app.delete('/api/policies/calendar/business-hours/:tenantId', (c) => this.resetBusinessHours(c));
+    this.app.put('/api/policies/calendar/holidays/:name', async (c) => this.updateHolidayCalendar(c));
+    this.app.delete('/api/policies/calendar/holidays/:name', (c) => this.deleteHolidayCalendar(c));
     this.app.get('/api/policies/:id', (c) => this.getPolicy(c));
     this.app.post('/api/policies', async (c) => this.createPolicy(c));
     this.app.put('/api/policies/:id', async (c) => this.updatePolicy(c));
     this.app.delete('/api/policies/:id', (c) => this.deletePolicy(c));
     this.app.post('/api/policies/:id/enable', (c) => this.enablePolicy(c));
     this.app.post('/api/policies/:id/disable', (c) => this.disablePolicy(c));
+    this.app.get('/api/policies/:id/shadow-report', (c) => this.getPolicyShadowReport(c));
+    this.app.post('/api/policies/:id/shadow-report/reset', (c) => this.resetPolicyShadowReport(c));
+
+    // Approval endpoints (requests held by QUEUE policies)
+    this.app.get('/api/approvals', (c) => this.getApprovals(c));
+    this.app.get('/api/approvals/audit', (c) => this.getApprovalAudit(c));
+    this.app.get('/api/approvals/:id', (c) => this.getApproval(c));
+    this.app.post('/api/approvals/:id/approve', async (c) => this.approveRequest(c));
+    this.app.post('/api/approvals/:id/deny', async (c) => this.denyRequest(c));
+    this.app.post('/api/approvals/:id/edit', async (c) => this.editRequest(c));
 
     // Metrics endpoints
     this.app.get('/api/metrics', (c) => this.getMetrics(c));
@@ -149,6 +176,9 @@ export class AdminAPI {
     this.app.delete('/api/security/pii-patterns/:name', async (c) => this.deleteCustomPattern(c));
     this.app.post('/api/security/pii-patterns/bulk-update', async (c) => this.bulkUpdatePatterns(c));
     this.app.post('/api/security/pii-patterns/reset', async (c) => this.resetPatterns(c));
+    this.app.get('/api/security/pii-packs', (c) => this.getPIIPacks(c));
+    this.app.patch('/api/security/pii-packs/:id', async (c) => this.updatePIIPack(c));
+    this.app.put('/api/security/pii-packs/tenants/:tenantId', async (c) => this.setTenantPIIPacks(c));
     this.app.get('/api/security/compliance-rules', (c) => this.getComplianceRules(c));
     this.app.patch('/api/security/compliance-rules/:id', async (c) => this.updateComplianceRule(c));
     this.app.post('/api/security/test-pattern', async (c) => this.testPattern(c));
@@ -319,6 +349,7 @@ export class AdminAPI {
 
       // Merge updates with existing policy
       const updated: Policy = { ...existing, ...updates, id }; // Preserve ID
+      this.policyEngine.validatePolicy(updated);
 
       // Remove old and add updated
       this.policyEngine.removePolicy(id);
@@ -412,6 +443,342 @@ export class AdminAPI {
     }
   }
 
+  private getShadowReport(c: any) {
+    try {
+      const reports = this.policyEngine.getShadowReport();
+      return c.json({ success: true, data: reports, count: reports.length });
+    } catch (error) {
+      this.logger.error('Failed to get shadow report', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private async simulatePolicies(c: any) {
+    try {
+      const recorder = this.policyEngine.getTrafficRecorder();
+      if (!recorder) {
+        return c.json({ success: false, error: 'Traffic recording is not enabled' }, 409);
+      }
+
+      const body: PolicySimulationRequest = await c.req.json();
+      if (!Array.isArray(body.policies)) {
+        return c.json({ success: false, error: 'policies must be an array' }, 400);
+      }
+
+      const simulator = new PolicySimulator(recorder, this.policyEngine);
+      const result = await simulator.simulate(body);
+
+      return c.json({ success: true, data: result });
+    } catch (error) {
+      this.logger.error('Failed to simulate policies', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 400);
+    }
+  }
+
+  private analyzePolicies(c: any) {
+    try {
+      const report = new PolicyAnalyzer(this.policyEngine).analyze(c.req.query('tenantId'));
+      return c.json({ success: true, data: report });
+    } catch (error) {
+      this.logger.error('Failed to analyze policies', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private getPolicySettings(c: any) {
+    try {
+      const tenantId = c.req.query('tenantId');
+      if (tenantId) {
+        return c.json({ success: true, data: this.policyEngine.getEvaluationSettings(tenantId) });
+      }
+
+      return c.json({ success: true, data: this.policyEngine.exportEvaluationSettings() });
+    } catch (error) {
+      this.logger.error('Failed to get policy settings', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private async updatePolicySettings(c: any) {
+    try {
+      const { tenantId, defaultAction, evaluationMode } = await c.req.json();
+      const settings = this.policyEngine.updateEvaluationSettings({ defaultAction, evaluationMode }, tenantId);
+
+      this.logger.info('Policy settings updated via API', { tenantId });
+
+      return c.json({ success: true, data: settings });
+    } catch (error) {
+      this.logger.error('Failed to update policy settings', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 400);
+    }
+  }
+
+  private resetPolicySettings(c: any) {
+    try {
+      const tenantId = c.req.param('tenantId');
+
+      if (!this.policyEngine.resetEvaluationSettings(tenantId)) {
+        return c.json({ success: false, error: 'Tenant has no policy settings' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Policy settings reset successfully',
+      });
+    } catch (error) {
+      this.logger.error('Failed to reset policy settings', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private getPolicyCalendar(c: any) {
+    try {
+      const calendar = this.policyEngine.getCalendar();
+      const tenantId = c.req.query('tenantId');
+
+      return c.json({
+        success: true,
+        data: {
+          businessHours: tenantId ? calendar.getBusinessHours(tenantId) : calendar.exportBusinessHours(),
+          holidayCalendars: calendar.getHolidayCalendars(),
+        },
+      });
+    } catch (error) {
+      this.logger.error('Failed to get policy calendar', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private async updateBusinessHours(c: any) {
+    try {
+      const { tenantId, ...hours } = await c.req.json();
+      const businessHours = this.policyEngine.getCalendar().setBusinessHours(hours, tenantId);
+
+      this.logger.info('Business hours updated via API', { tenantId });
+
+      return c.json({ success: true, data: businessHours });
+    } catch (error) {
+      this.logger.error('Failed to update business hours', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 400);
+    }
+  }
+
+  private resetBusinessHours(c: any) {
+    try {
+      const tenantId = c.req.param('tenantId');
+
+      if (!this.policyEngine.getCalendar().resetBusinessHours(tenantId)) {
+        return c.json({ success: false, error: 'Tenant has no business hours' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Business hours reset successfully',
+      });
+    } catch (error) {
+      this.logger.error('Failed to reset business hours', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private async updateHolidayCalendar(c: any) {
+    try {
+      const name = c.req.param('name');
+      const { timezone, holidays } = await c.req.json();
+
+      if (!Array.isArray(holidays)) {
+        return c.json({ success: false, error: 'holidays must be an array' }, 400);
+      }
+
+      const calendar = {
+        name,
+        timezone,
+        holidays: holidays.map((h: any) => (typeof h === 'string' ? { date: h } : h)),
+      };
+      this.policyEngine.getCalendar().setHolidayCalendar(calendar);
+
+      this.logger.info('Holiday calendar updated via API', { name, holidays: holidays.length });
+
+      return c.json({ success: true, data: calendar });
+    } catch (error) {
+      this.logger.error('Failed to update holiday calendar', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 400);
+    }
+  }
+
+  private deleteHolidayCalendar(c: any) {
+    try {
+      const name = c.req.param('name');
+
+      if (!this.policyEngine.getCalendar().removeHolidayCalendar(name)) {
+        return c.json({ success: false, error: 'Holiday calendar not found' }, 404);
+      }
+
+      return c.json({
+        success: true,
+        message: 'Holiday calendar deleted successfully',
+      });
+    } catch (error) {
+      this.logger.error('Failed to delete holiday calendar', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private getPolicyShadowReport(c: any) {
+    try {
+      const id = c.req.param('id');
+
+      if (!this.policyEngine.getPolicy(id)) {
+        return c.json({ success: false, error: 'Policy not found' }, 404);
+      }
+
+      const [report] = this.policyEngine.getShadowReport(id);
+      if (!report) {
+        return c.json({ success: false, error: 'No shadow evaluations recorded for policy' }, 404);
+      }
+
+      return c.json({ success: true, data: report });
+    } catch (error) {
+      this.logger.error('Failed to get policy shadow report', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private resetPolicyShadowReport(c: any) {
+    try {
+      const id = c.req.param('id');
+
+      if (!this.policyEngine.getPolicy(id)) {
+        return c.json({ success: false, error: 'Policy not found' }, 404);
+      }
+
+      this.policyEngine.resetShadowReport(id);
+
+      this.logger.info('Policy shadow report reset via API', { policyId: id });
+
+      return c.json({
+        success: true,
+        message: 'Shadow report reset successfully',
+      });
+    } catch (error) {
+      this.logger.error('Failed to reset policy shadow report', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  // Approval handlers
+  private getApprovals(c: any) {
+    try {
+      if (!this.approvalManager) {
+        return c.json({ success: false, error: 'Approval queue is not enabled' }, 409);
+      }
+
+      const status = c.req.query('status') as ApprovalStatus | undefined;
+      const tickets = this.approvalManager.listTickets(status);
+      return c.json({ success: true, data: tickets, count: tickets.length });
+    } catch (error) {
+      this.logger.error('Failed to get approvals', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private getApprovalAudit(c: any) {
+    try {
+      if (!this.approvalManager) {
+        return c.json({ success: false, error: 'Approval queue is not enabled' }, 409);
+      }
+
+      const events = this.approvalManager.getAuditTrail(c.req.query('ticketId'));
+      return c.json({ success: true, data: events, count: events.length });
+    } catch (error) {
+      this.logger.error('Failed to get approval audit trail', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private getApproval(c: any) {
+    try {
+      if (!this.approvalManager) {
+        return c.json({ success: false, error: 'Approval queue is not enabled' }, 409);
+      }
+
+      const ticket = this.approvalManager.getTicket(c.req.param('id'));
+      if (!ticket) {
+        return c.json({ success: false, error: 'Approval ticket not found' }, 404);
+      }
+
+      return c.json({ success: true, data: ticket });
+    } catch (error) {
+      this.logger.error('Failed to get approval', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private async approveRequest(c: any) {
+    try {
+      if (!this.approvalManager) {
+        return c.json({ success: false, error: 'Approval queue is not enabled' }, 409);
+      }
+
+      const body = await c.req.json().catch(() => ({}));
+      const ticket = this.approvalManager.approve(c.req.param('id'), body.reviewer || 'admin', body.note);
+
+      this.logger.info('Held request approved via API', { ticketId: ticket.id });
+
+      return c.json({ success: true, data: ticket });
+    } catch (error) {
+      return this.approvalError(c, 'Failed to approve request', error);
+    }
+  }
+
+  private async denyRequest(c: any) {
+    try {
+      if (!this.approvalManager) {
+        return c.json({ success: false, error: 'Approval queue is not enabled' }, 409);
+      }
+
+      const body = await c.req.json().catch(() => ({}));
+      const ticket = this.approvalManager.deny(c.req.param('id'), body.reviewer || 'admin', body.note);
+
+      this.logger.info('Held request denied via API', { ticketId: ticket.id });
+
+      return c.json({ success: true, data: ticket });
+    } catch (error) {
+      return this.approvalError(c, 'Failed to deny request', error);
+    }
+  }
+
+  private async editRequest(c: any) {
+    try {
+      if (!this.approvalManager) {
+        return c.json({ success: false, error: 'Approval queue is not enabled' }, 409);
+      }
+
+      const body = await c.req.json();
+      const ticket = this.approvalManager.edit(
+        c.req.param('id'),
+        body.request,
+        body.reviewer || 'admin',
+        body.note
+      );
+
+      this.logger.info('Held request edited and approved via API', { ticketId: ticket.id });
+
+      return c.json({ success: true, data: ticket });
+    } catch (error) {
+      return this.approvalError(c, 'Failed to edit request', error);
+    }
+  }
+
+  private approvalError(c: any, message: string, error: unknown) {
+    if (error instanceof ProxilionError) {
+      return c.json({ success: false, error: error.message, code: error.code }, error.statusCode);
+    }
+
+    this.logger.error(message, error instanceof Error ? error : undefined);
+    return c.json({ success: false, error: (error as Error).message }, 400);
+  }
+
   // Metrics handlers
   private getMetrics(c: any) {
     try {
@@ -701,6 +1068,8 @@ export class AdminAPI {
         enabled: p.enabled,
         complianceStandards: p.complianceStandards,
         description: p.description || '',
+        pack: p.pack,
+        locale: p.locale,
       }));
 
       return c.json({ success: true, data: patterns });
@@ -911,6 +1280,70 @@ export class AdminAPI {
     }
   }
 
+  private getPIIPacks(c: any) {
+    try {
+      const piiScanner = this.scannerOrchestrator.getPIIScanner();
+      if (!piiScanner) {
+        return c.json({ success: false, error: 'PII Scanner not available' }, 500);
+      }
+
+      return c.json({ success: true, data: piiScanner.getPatternPacks() });
+    } catch (error) {
+      this.logger.error('Failed to get PII pattern packs', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 500);
+    }
+  }
+
+  private async updatePIIPack(c: any) {
+    try {
+      const id = c.req.param('id');
+      const { enabled } = await c.req.json();
+      const piiScanner = this.scannerOrchestrator.getPIIScanner();
+
+      if (!piiScanner) {
+        return c.json({ success: false, error: 'PII Scanner not available' }, 500);
+      }
+      if (!piiScanner.getPatternPacks().some(p => p.id === id)) {
+        return c.json({ success: false, error: 'Pattern pack not found' }, 404);
+      }
+
+      if (enabled) {
+        piiScanner.enablePatternPack(id);
+      } else {
+        piiScanner.disablePatternPack(id);
+      }
+
+      this.logger.info('PII pattern pack updated', { id, enabled });
+
+      return c.json({ success: true, data: { id, enabled: !!enabled } });
+    } catch (error) {
+      this.logger.error('Failed to update PII pattern pack', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 400);
+    }
+  }
+
+  private async setTenantPIIPacks(c: any) {
+    try {
+      const tenantId = c.req.param('tenantId');
+      const { packs } = await c.req.json();
+      const piiScanner = this.scannerOrchestrator.getPIIScanner();
+
+      if (!piiScanner) {
+        return c.json({ success: false, error: 'PII Scanner not available' }, 500);
+      }
+
+      // null clears the tenant override
+      piiScanner.setTenantPatternPacks(tenantId, packs ?? undefined);
+
+      this.logger.info('Tenant PII pattern packs updated', { tenantId, packs });
+
+      return c.json({ success: true, data: { tenantId, packs: piiScanner.getTenantPatternPacks(tenantId) ?? null } });
+    } catch (error) {
+      this.logger.error('Failed to set tenant PII pattern packs', error instanceof Error ? error : undefined);
+      return c.json({ success: false, error: (error as Error).message }, 400);
+    }
+  }
+
   private getPatternCategories(c: any) {
     try {
       const categories = [
@@ -1022,17 +1455,40 @@ export class AdminAPI {
 
   private async testPattern(c: any) {
     try {
-      const { pattern, testText } = await c.req.json();
+      const { pattern, patternName, testText } = await c.req.json();
+
+      // Raw regex: plain matching, no validation
+      if (pattern) {
+        const regex = new RegExp(pattern, 'gi');
+        const matches = testText.match(regex) || [];
+
+        return c.json({
+          success: true,
+          data: {
+            matches: matches.length,
+            found: matches,
+          },
+        });
+      }
+
+      // Named (or all enabled) PII patterns: show why each match was accepted or rejected
+      const piiScanner = this.scannerOrchestrator.getPIIScanner();
+      if (!piiScanner) {
+        return c.json({ success: false, error: 'PII Scanner not available' }, 500);
+      }
+      if (patternName && !piiScanner.getAllPatterns().some(p => p.name === patternName)) {
+        return c.json({ success: false, error: 'Pattern not found' }, 404);
+      }
 
-      // Test the pattern against the text
-      const regex = new RegExp(pattern, 'gi');
-      const matches = testText.match(regex) || [];
+      const evaluations = piiScanner.explainMatches(testText, patternName ? [patternName] : undefined);
+      const found = evaluations.filter(e => e.accepted).map(e => e.value);
 
       return c.json({
         success: true,
         data: {
-          matches: matches.length,
-          found: matches,
+          matches: found.length,
+          found,
+          evaluations,
         },
       });
     } catch (error) {
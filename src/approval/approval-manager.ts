@@ -0,0 +1,411 @@
+/**
+ * Approval Manager
+ *
+ * Human-in-the-loop review for requests held by QUEUE policy actions:
+ * - Held requests wait in the ActionQueue with their scan findings attached
+ * - Reviewers approve, deny, or edit the request body and approve it
+ * - Pending tickets expire after a timeout and are rejected
+ * - Callers long-poll for the outcome or check their ticket later
+ * - Every decision is recorded as an audit event
+ */
+
+import { Logger } from '../utils/logger.js';
+import { MetricsCollector } from '../utils/metrics.js';
+import { ActionQueue } from '../queue/action-queue.js';
+import { PriorityLevel } from '../queue/priority-queue-manager.js';
+import {
+  AIServiceProvider,
+  AuditEvent,
+  Finding,
+  LogLevel,
+  ProxilionError,
+  ProxilionResponse,
+  ThreatLevel,
+} from '../types/index.js';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'completed' | 'failed';
+
+export type ApprovalDecisionType = 'approve' | 'edit' | 'deny' | 'expire';
+
+export interface ApprovalDecision {
+  type: ApprovalDecisionType;
+  reviewer: string;
+  note?: string;
+  decidedAt: number;
+}
+
+export interface ApprovalTicket {
+  id: string;
+  status: ApprovalStatus;
+  policyId: string;
+  reason: string;
+  threatLevel: ThreatLevel;
+  findings: Finding[];
+  userId: string;
+  tenantId?: string;
+  provider: AIServiceProvider;
+  model: string;
+  request: unknown; // Provider request body, replaced when a reviewer edits it
+  edited: boolean;
+  createdAt: number;
+  expiresAt: number;
+  decision?: ApprovalDecision;
+  completedAt?: number;
+  response?: ProxilionResponse;
+  error?: string;
+}
+
+/** Caller polling a ticket; must match the user and tenant the request was held for */
+export interface ApprovalRequester {
+  userId?: string;
+  tenantId?: string;
+}
+
+export interface ApprovalHoldRequest {
+  id: string;
+  policyId: string;
+  reason: string;
+  threatLevel: ThreatLevel;
+  findings: Finding[];
+  userId: string;
+  tenantId?: string;
+  provider: AIServiceProvider;
+  model: string;
+  request: unknown;
+  priority?: PriorityLevel;
+  delayMs?: number;
+  timeoutMs?: number;
+  execute: (request: unknown) => Promise<ProxilionResponse>;
+}
+
+export interface ApprovalManagerConfig {
+  defaultTimeoutMs?: number; // Pending tickets expire after this long
+  retentionPeriod?: number; // Resolved tickets stay queryable this long
+  maxAuditEvents?: number;
+  onAudit?: (event: AuditEvent) => void | Promise<void>;
+}
+
+interface TicketRecord {
+  ticket: ApprovalTicket;
+  expiryTimer?: NodeJS.Timeout;
+  waiters: Array<() => void>;
+}
+
+const RESOLVED_STATUSES: ReadonlySet<ApprovalStatus> = new Set(['denied', 'expired', 'completed', 'failed']);
+
+const DECISION_MESSAGES: Record<ApprovalDecisionType, string> = {
+  approve: 'Held request approved',
+  edit: 'Held request edited and approved',
+  deny: 'Held request denied',
+  expire: 'Held request expired without a decision',
+};
+
+export class ApprovalManager {
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private actionQueue: ActionQueue;
+  private config: Required<Omit<ApprovalManagerConfig, 'onAudit'>> & Pick<ApprovalManagerConfig, 'onAudit'>;
+  private records: Map<string, TicketRecord> = new Map();
+  private auditTrail: AuditEvent[] = [];
+
+  constructor(actionQueue: ActionQueue, config: ApprovalManagerConfig = {}) {
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+    this.actionQueue = actionQueue;
+    this.config = {
+      defaultTimeoutMs: config.defaultTimeoutMs ?? 60 * 60 * 1000, // 1 hour
+      retentionPeriod: config.retentionPeriod ?? 24 * 60 * 60 * 1000, // 24 hours
+      maxAuditEvents: config.maxAuditEvents ?? 1000,
+      onAudit: config.onAudit,
+    };
+  }
+
+  /**
+   * Hold a request until a reviewer decides on it
+   */
+  hold(input: ApprovalHoldRequest): ApprovalTicket {
+    this.prune();
+
+    if (this.records.has(input.id)) {
+      throw new ProxilionError(`Approval ticket ${input.id} already exists`, 'APPROVAL_DUPLICATE', 409);
+    }
+
+    const now = Date.now();
+    const timeoutMs = input.timeoutMs ?? this.config.defaultTimeoutMs;
+    const ticket: ApprovalTicket = {
+      id: input.id,
+      status: 'pending',
+      policyId: input.policyId,
+      reason: input.reason,
+      threatLevel: input.threatLevel,
+      findings: input.findings,
+      userId: input.userId,
+      tenantId: input.tenantId,
+      provider: input.provider,
+      model: input.model,
+      request: input.request,
+      edited: false,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+    };
+    const record: TicketRecord = { ticket, waiters: [] };
+    this.records.set(ticket.id, record);
+
+    const { result } = this.actionQueue.submit({
+      id: ticket.id,
+      userId: ticket.userId,
+      tenantId: ticket.tenantId,
+      parameters: { priority: input.priority, delayMs: input.delayMs, requireApproval: true },
+      metadata: { policyId: ticket.policyId, reason: ticket.reason, threatLevel: ticket.threatLevel },
+      // Read the body at execution time so reviewer edits are forwarded
+      execute: () => input.execute(ticket.request),
+    });
+
+    result.then(
+      (response) => this.resolve(record, 'completed', response),
+      (error: Error) => {
+        // Denied and expired tickets are resolved before the queue rejects them
+        if (ticket.status === 'approved') {
+          this.resolve(record, 'failed', undefined, error.message);
+        }
+      }
+    );
+
+    record.expiryTimer = setTimeout(() => this.expire(ticket.id), timeoutMs);
+
+    this.logger.info('Request held for approval', {
+      ticketId: ticket.id,
+      policyId: ticket.policyId,
+      findings: ticket.findings.length,
+      expiresAt: ticket.expiresAt,
+    });
+    this.metrics.increment('approval_tickets_created_total', 1, { policyId: ticket.policyId });
+
+    return this.copy(ticket);
+  }
+
+  /**
+   * Approve a pending ticket and forward the request
+   */
+  approve(id: string, reviewer: string, note?: string): ApprovalTicket {
+    const record = this.decide(id, 'approve', reviewer, note);
+    this.release(record);
+    return this.copy(record.ticket);
+  }
+
+  /**
+   * Replace the request body of a pending ticket and forward the edited request
+   */
+  edit(id: string, request: unknown, reviewer: string, note?: string): ApprovalTicket {
+    if (request === undefined || request === null || typeof request !== 'object') {
+      throw new ProxilionError('Edited request must be a JSON object', 'APPROVAL_INVALID_EDIT', 400);
+    }
+
+    const record = this.decide(id, 'edit', reviewer, note, (ticket) => {
+      ticket.request = request;
+      ticket.edited = true;
+    });
+    this.release(record);
+    return this.copy(record.ticket);
+  }
+
+  /**
+   * Deny a pending ticket; the request is never forwarded
+   */
+  deny(id: string, reviewer: string, note?: string): ApprovalTicket {
+    const record = this.decide(id, 'deny', reviewer, note);
+    this.resolve(record, 'denied');
+    this.actionQueue.reject(id, note ? `Denied by reviewer: ${note}` : 'Denied by reviewer');
+    return this.copy(record.ticket);
+  }
+
+  /** Get a ticket by ID */
+  getTicket(id: string): ApprovalTicket | undefined {
+    const record = this.records.get(id);
+    return record ? this.copy(record.ticket) : undefined;
+  }
+
+  /** List tickets, oldest first, optionally filtered by status */
+  listTickets(status?: ApprovalStatus): ApprovalTicket[] {
+    this.prune();
+    return Array.from(this.records.values())
+      .map((r) => r.ticket)
+      .filter((t) => !status || t.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((t) => this.copy(t));
+  }
+
+  /**
+   * Wait until a ticket is resolved or the timeout elapses, whichever comes first.
+   * With a requester, tickets held for another user or tenant are reported as missing.
+   */
+  waitForResolution(id: string, timeoutMs: number, requester?: ApprovalRequester): Promise<ApprovalTicket | undefined> {
+    const record = this.records.get(id);
+    if (!record || (requester && !this.isRequester(record.ticket, requester))) {
+      return Promise.resolve(undefined);
+    }
+    if (RESOLVED_STATUSES.has(record.ticket.status) || timeoutMs <= 0) {
+      return Promise.resolve(this.copy(record.ticket));
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        record.waiters = record.waiters.filter((waiter) => waiter !== done);
+        resolve(this.copy(record.ticket));
+      };
+      const timer = setTimeout(done, timeoutMs);
+      record.waiters.push(done);
+    });
+  }
+
+  /** Get recorded decisions, newest last, optionally for a single ticket */
+  getAuditTrail(ticketId?: string): AuditEvent[] {
+    return this.auditTrail.filter((e) => !ticketId || e.correlationId === ticketId);
+  }
+
+  /**
+   * Stop expiry timers and release long-polling callers
+   */
+  cleanup(): void {
+    for (const record of this.records.values()) {
+      if (record.expiryTimer) {
+        clearTimeout(record.expiryTimer);
+      }
+      for (const waiter of [...record.waiters]) {
+        waiter();
+      }
+    }
+  }
+
+  private isRequester(ticket: ApprovalTicket, requester: ApprovalRequester): boolean {
+    return ticket.userId === (requester.userId || 'anonymous') && ticket.tenantId === requester.tenantId;
+  }
+
+  private expire(id: string): void {
+    const record = this.records.get(id);
+    if (!record || record.ticket.status !== 'pending') return;
+
+    this.decide(id, 'expire', 'system', 'Approval timeout elapsed');
+    this.resolve(record, 'expired');
+    this.actionQueue.reject(id, 'Approval request expired');
+  }
+
+  /**
+   * Record a reviewer decision on a pending ticket
+   */
+  private decide(
+    id: string,
+    type: ApprovalDecisionType,
+    reviewer: string,
+    note?: string,
+    apply?: (ticket: ApprovalTicket) => void
+  ): TicketRecord {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new ProxilionError(`Approval ticket ${id} not found`, 'APPROVAL_NOT_FOUND', 404);
+    }
+    if (record.ticket.status !== 'pending') {
+      throw new ProxilionError(
+        `Approval ticket ${id} is already ${record.ticket.status}`,
+        'APPROVAL_ALREADY_DECIDED',
+        409,
+        { status: record.ticket.status }
+      );
+    }
+
+    if (record.expiryTimer) {
+      clearTimeout(record.expiryTimer);
+      record.expiryTimer = undefined;
+    }
+
+    apply?.(record.ticket);
+    record.ticket.decision = { type, reviewer, note, decidedAt: Date.now() };
+
+    this.logger.info(DECISION_MESSAGES[type], { ticketId: id, reviewer });
+    this.metrics.increment('approval_decisions_total', 1, { decision: type });
+    this.metrics.histogram('approval_decision_latency_ms', record.ticket.decision.decidedAt - record.ticket.createdAt);
+
+    this.audit(record.ticket);
+    return record;
+  }
+
+  private release(record: TicketRecord): void {
+    record.ticket.status = 'approved';
+    this.actionQueue.approve(record.ticket.id);
+  }
+
+  private resolve(record: TicketRecord, status: ApprovalStatus, response?: ProxilionResponse, error?: string): void {
+    record.ticket.status = status;
+    record.ticket.completedAt = Date.now();
+    record.ticket.response = response;
+    record.ticket.error = error;
+
+    if (status === 'failed') {
+      this.logger.warn('Approved request failed', { ticketId: record.ticket.id, error });
+    }
+
+    for (const waiter of [...record.waiters]) {
+      waiter();
+    }
+  }
+
+  private audit(ticket: ApprovalTicket): void {
+    const decision = ticket.decision!;
+    const event: AuditEvent = {
+      id: crypto.randomUUID(),
+      timestamp: decision.decidedAt,
+      level: decision.type === 'deny' || decision.type === 'expire' ? LogLevel.WARN : LogLevel.INFO,
+      type: `approval.${decision.type}`,
+      message: DECISION_MESSAGES[decision.type],
+      correlationId: ticket.id,
+      requestId: ticket.id,
+      userId: ticket.userId,
+      eventType: `approval.${decision.type}`,
+      action: 'approval',
+      threatLevel: ticket.threatLevel,
+      provider: ticket.provider,
+      model: ticket.model,
+      findings: ticket.findings,
+      policyId: ticket.policyId,
+      duration: decision.decidedAt - ticket.createdAt,
+      data: {
+        reviewer: decision.reviewer,
+        note: decision.note,
+        edited: ticket.edited,
+        tenantId: ticket.tenantId,
+      },
+    };
+
+    this.auditTrail.push(event);
+    if (this.auditTrail.length > this.config.maxAuditEvents) {
+      this.auditTrail.shift();
+    }
+
+    if (this.config.onAudit) {
+      Promise.resolve()
+        .then(() => this.config.onAudit!(event))
+        .catch((error) => this.logger.error('Failed to forward approval audit event', error as Error));
+    }
+  }
+
+  /**
+   * Drop resolved tickets older than the retention period
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.config.retentionPeriod;
+    for (const [id, record] of this.records) {
+      if (RESOLVED_STATUSES.has(record.ticket.status) && (record.ticket.completedAt ?? 0) < cutoff) {
+        this.records.delete(id);
+      }
+    }
+  }
+
+  private copy(ticket: ApprovalTicket): ApprovalTicket {
+    return {
+      ...ticket,
+      findings: [...ticket.findings],
+      decision: ticket.decision ? { ...ticket.decision } : undefined,
+    };
+  }
+}
@@ -12,6 +12,7 @@
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { AIProvider, AIServiceProvider } from '../types/index.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
 
 export interface ModelPricing {
   provider: AIProvider;
@@ -65,6 +66,9 @@ export class CostTracker {
   private budgetLimits: Map<string, BudgetLimit>;
   private pricing: Map<string, ModelPricing>;
   private maxEntries: number;
+  private entryStore?: PersistentCollection<CostEntry>;
+  private budgetStore?: PersistentCollection<BudgetLimit>;
+  private pricingStore?: PersistentCollection<ModelPricing>;
 
   constructor(maxEntries: number = 100000) {
     this.logger = new Logger();
@@ -77,6 +81,55 @@ export class CostTracker {
     this.initializeDefaultPricing();
   }
 
+  /**
+   * Load cost history, budgets and pricing from durable storage and
+   * write through all future changes
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const entryStore = new PersistentCollection<CostEntry>(storage, 'cost_entries');
+    const budgetStore = new PersistentCollection<BudgetLimit>(storage, 'budget_limits');
+    const pricingStore = new PersistentCollection<ModelPricing>(storage, 'model_pricing');
+
+    const [entries, budgets, pricing] = await Promise.all([
+      entryStore.load(),
+      budgetStore.load(),
+      pricingStore.load(),
+    ]);
+
+    const knownEntryIds = new Set(this.costEntries.map((e) => e.id));
+    const restored = Array.from(entries.values()).filter((e) => !knownEntryIds.has(e.id));
+    this.costEntries = [...restored, ...this.costEntries].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const [id, limit] of budgets) {
+      this.budgetLimits.set(id, limit);
+    }
+    for (const [key, modelPricing] of pricing) {
+      this.pricing.set(key, modelPricing);
+    }
+
+    // Persist anything recorded before storage was attached
+    for (const entry of this.costEntries) {
+      if (!entries.has(entry.id)) entryStore.save(entry.id, entry);
+    }
+    for (const [id, limit] of this.budgetLimits) {
+      if (!budgets.has(id)) budgetStore.save(id, limit);
+    }
+    for (const [key, modelPricing] of this.pricing) {
+      if (!pricing.has(key)) pricingStore.save(key, modelPricing);
+    }
+
+    this.entryStore = entryStore;
+    this.budgetStore = budgetStore;
+    this.pricingStore = pricingStore;
+
+    this.trimEntries();
+
+    this.logger.info('Cost storage attached', {
+      entries: this.costEntries.length,
+      budgets: this.budgetLimits.size,
+    });
+  }
+
   /**
    * Initialize default pricing for common models
    */
@@ -162,6 +215,7 @@ export class CostTracker {
   addPricing(pricing: ModelPricing): void {
     const key = `${pricing.provider}:${pricing.model}`;
     this.pricing.set(key, pricing);
+    this.pricingStore?.save(key, pricing);
     this.logger.info('Added pricing', { provider: pricing.provider, model: pricing.model });
   }
 
@@ -227,11 +281,10 @@ export class CostTracker {
 
     // Store entry
     this.costEntries.push(entry);
+    this.entryStore?.save(entry.id, entry);
 
     // Trim old entries if needed
-    if (this.costEntries.length > this.maxEntries) {
-      this.costEntries = this.costEntries.slice(-this.maxEntries);
-    }
+    this.trimEntries();
 
     // Update metrics
     this.metrics.counter('cost_total_dollars', totalCost);
@@ -247,6 +300,22 @@ export class CostTracker {
     return entry;
   }
 
+  /**
+   * Drop the oldest entries beyond maxEntries
+   */
+  private trimEntries(): void {
+    if (this.costEntries.length <= this.maxEntries) {
+      return;
+    }
+
+    const dropped = this.costEntries.slice(0, this.costEntries.length - this.maxEntries);
+    this.costEntries = this.costEntries.slice(-this.maxEntries);
+
+    for (const entry of dropped) {
+      this.entryStore?.remove(entry.id);
+    }
+  }
+
   /**
    * Get pricing for a model
    */
@@ -260,6 +329,7 @@ export class CostTracker {
    */
   addBudgetLimit(limit: BudgetLimit): void {
     this.budgetLimits.set(limit.id, limit);
+    this.budgetStore?.save(limit.id, limit);
     this.logger.info('Budget limit added', {
       id: limit.id,
       scope: limit.scope,
@@ -273,6 +343,7 @@ export class CostTracker {
    */
   removeBudgetLimit(limitId: string): void {
     this.budgetLimits.delete(limitId);
+    this.budgetStore?.remove(limitId);
     this.logger.info('Budget limit removed', { id: limitId });
   }
 
@@ -481,6 +552,11 @@ export class CostTracker {
    */
   clearOldEntries(olderThan: number): number {
     const before = this.costEntries.length;
+    for (const entry of this.costEntries) {
+      if (entry.timestamp < olderThan) {
+        this.entryStore?.remove(entry.id);
+      }
+    }
     this.costEntries = this.costEntries.filter((e) => e.timestamp >= olderThan);
     const removed = before - this.costEntries.length;
 
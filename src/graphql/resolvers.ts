@@ -16,6 +16,8 @@ import { PromptVersionManager } from '../prompts/prompt-version-manager.js';
 import { PromptLibrary } from '../prompts/prompt-library.js';
 import { ModelRegistry } from '../models/model-registry.js';
 import { RealtimeMonitor } from '../monitoring/realtime-monitor.js';
+import { ApprovalManager, ApprovalTicket } from '../approval/approval-manager.js';
+import { ProxilionError } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 
@@ -31,10 +33,12 @@ export interface GraphQLContext {
   promptLibrary: PromptLibrary;
   modelRegistry: ModelRegistry;
   realtimeMonitor: RealtimeMonitor;
+  approvalManager?: ApprovalManager;
   logger: Logger;
   metrics: MetricsCollector;
   userId?: string;
   isAuthenticated: boolean;
+  isReviewer: boolean; // Presented the configured API key; false whenever no key is configured
 }
 
 // Custom scalar resolvers
@@ -68,6 +72,42 @@ const scalarResolvers = {
   },
 };
 
+// Map an approval ticket to the GraphQL ApprovalTicket type
+function toApprovalTicket(ticket: ApprovalTicket) {
+  return {
+    ...ticket,
+    status: ticket.status.toUpperCase(),
+    threatLevel: ticket.threatLevel.toUpperCase(),
+    responseStatus: ticket.response?.status,
+  };
+}
+
+// Approval manager, when the server was given one
+function getApprovalManager(context: GraphQLContext): ApprovalManager {
+  // Held requests carry prompts and are released upstream on approval, so
+  // development mode (no API key configured) does not open them to every caller
+  if (!context.isReviewer) {
+    throw new GraphQLError('Approval review requires the GraphQL API key', { extensions: { code: 'FORBIDDEN' } });
+  }
+  if (!context.approvalManager) {
+    throw new GraphQLError('Approval queue is not enabled', { extensions: { code: 'NOT_IMPLEMENTED' } });
+  }
+  return context.approvalManager;
+}
+
+// Run a reviewer decision, surfacing approval errors as GraphQL errors
+function decideApproval(decide: () => ApprovalTicket) {
+  try {
+    return toApprovalTicket(decide());
+  } catch (error) {
+    if (error instanceof ProxilionError) {
+      const code = error.statusCode === 404 ? 'NOT_FOUND' : error.statusCode === 409 ? 'CONFLICT' : 'BAD_USER_INPUT';
+      throw new GraphQLError(error.message, { extensions: { code } });
+    }
+    throw error;
+  }
+}
+
 // Query resolvers
 const queryResolvers = {
   health: async (_: any, __: any, context: GraphQLContext) => {
@@ -518,6 +558,22 @@ const queryResolvers = {
     // Return empty array for now - would need audit log storage
     return [];
   },
+
+  approvals: async (_: any, args: { status?: string }, context: GraphQLContext) => {
+    if (!context.isAuthenticated) {
+      throw new GraphQLError('Unauthorized', { extensions: { code: 'UNAUTHORIZED' } });
+    }
+    const status = args.status?.toLowerCase() as ApprovalTicket['status'] | undefined;
+    return getApprovalManager(context).listTickets(status).map(toApprovalTicket);
+  },
+
+  approval: async (_: any, args: { id: string }, context: GraphQLContext) => {
+    if (!context.isAuthenticated) {
+      throw new GraphQLError('Unauthorized', { extensions: { code: 'UNAUTHORIZED' } });
+    }
+    const ticket = getApprovalManager(context).getTicket(args.id);
+    return ticket ? toApprovalTicket(ticket) : null;
+  },
 };
 
 // Mutation resolvers
@@ -532,6 +588,7 @@ const mutationResolvers = {
       description: args.input.description,
       enabled: true,
       priority: args.input.priority,
+      mode: args.input.mode,
       conditions: args.input.conditions,
       actions: args.input.actions,
     };
@@ -776,6 +833,33 @@ const mutationResolvers = {
       cached: false,
     };
   },
+
+  approveRequest: async (_: any, args: { id: string; note?: string }, context: GraphQLContext) => {
+    if (!context.isAuthenticated) {
+      throw new GraphQLError('Unauthorized', { extensions: { code: 'UNAUTHORIZED' } });
+    }
+    return decideApproval(() =>
+      getApprovalManager(context).approve(args.id, context.userId || 'graphql', args.note)
+    );
+  },
+
+  denyRequest: async (_: any, args: { id: string; note?: string }, context: GraphQLContext) => {
+    if (!context.isAuthenticated) {
+      throw new GraphQLError('Unauthorized', { extensions: { code: 'UNAUTHORIZED' } });
+    }
+    return decideApproval(() =>
+      getApprovalManager(context).deny(args.id, context.userId || 'graphql', args.note)
+    );
+  },
+
+  editRequest: async (_: any, args: { id: string; request: unknown; note?: string }, context: GraphQLContext) => {
+    if (!context.isAuthenticated) {
+      throw new GraphQLError('Unauthorized', { extensions: { code: 'UNAUTHORIZED' } });
+    }
+    return decideApproval(() =>
+      getApprovalManager(context).edit(args.id, args.request, context.userId || 'graphql', args.note)
+    );
+  },
 };
 
 // Subscription resolvers
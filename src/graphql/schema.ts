@@ -42,6 +42,15 @@ export const typeDefs = `#graphql
     COMPLIANCE
   }
 
+  enum ApprovalStatus {
+    PENDING
+    APPROVED
+    DENIED
+    EXPIRED
+    COMPLETED
+    FAILED
+  }
+
   enum WorkflowStatus {
     PENDING
     RUNNING
@@ -92,6 +101,10 @@ export const typeDefs = `#graphql
     
     # Audit Logs
     auditLogs(filters: AuditLogFilters, limit: Int): [AuditLog!]!
+    
+    # Approvals
+    approvals(status: ApprovalStatus): [ApprovalTicket!]!
+    approval(id: ID!): ApprovalTicket
   }
 
   type Mutation {
@@ -130,6 +143,11 @@ export const typeDefs = `#graphql
     # Alert Management
     acknowledgeAlert(id: ID!): Alert!
     resolveAlert(id: ID!, resolution: String): Alert!
+    
+    # Approval Management
+    approveRequest(id: ID!, note: String): ApprovalTicket!
+    denyRequest(id: ID!, note: String): ApprovalTicket!
+    editRequest(id: ID!, request: JSON!, note: String): ApprovalTicket!
   }
 
   type Subscription {
@@ -169,6 +187,7 @@ export const typeDefs = `#graphql
     description: String
     enabled: Boolean!
     priority: Int!
+    mode: String
     conditions: [PolicyCondition!]!
     actions: [PolicyActionConfig!]!
     createdAt: DateTime!
@@ -177,9 +196,10 @@ export const typeDefs = `#graphql
 
   type PolicyCondition {
     type: String!
-    field: String!
-    operator: String!
-    value: JSON!
+    field: String
+    operator: String
+    value: JSON
+    conditions: [PolicyCondition!]
   }
 
   type PolicyActionConfig {
@@ -191,6 +211,7 @@ export const typeDefs = `#graphql
     name: String!
     description: String
     priority: Int!
+    mode: String
     conditions: [PolicyConditionInput!]!
     actions: [PolicyActionInput!]!
   }
@@ -199,15 +220,17 @@ export const typeDefs = `#graphql
     name: String
     description: String
     priority: Int
+    mode: String
     conditions: [PolicyConditionInput!]
     actions: [PolicyActionInput!]
   }
 
   input PolicyConditionInput {
     type: String!
-    field: String!
-    operator: String!
-    value: JSON!
+    field: String
+    operator: String
+    value: JSON
+    conditions: [PolicyConditionInput!]
   }
 
   input PolicyActionInput {
@@ -480,6 +503,35 @@ export const typeDefs = `#graphql
     timestamp: DateTime!
   }
 
+  # Approval Types
+  type ApprovalTicket {
+    id: ID!
+    status: ApprovalStatus!
+    policyId: String!
+    reason: String!
+    threatLevel: ThreatLevel!
+    findings: JSON!
+    userId: ID!
+    tenantId: String
+    provider: String!
+    model: String!
+    request: JSON
+    edited: Boolean!
+    createdAt: DateTime!
+    expiresAt: DateTime!
+    decision: ApprovalDecision
+    completedAt: DateTime
+    responseStatus: Int
+    error: String
+  }
+
+  type ApprovalDecision {
+    type: String!
+    reviewer: String!
+    note: String
+    decidedAt: DateTime!
+  }
+
   # Audit Log Types
   type AuditLog {
     id: ID!
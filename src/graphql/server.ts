@@ -19,6 +19,7 @@ import { PromptVersionManager } from '../prompts/prompt-version-manager.js';
 import { PromptLibrary } from '../prompts/prompt-library.js';
 import { ModelRegistry } from '../models/model-registry.js';
 import { RealtimeMonitor } from '../monitoring/realtime-monitor.js';
+import { ApprovalManager } from '../approval/approval-manager.js';
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 
@@ -46,6 +47,7 @@ export class GraphQLServer {
   private promptLibrary: PromptLibrary;
   private modelRegistry: ModelRegistry;
   private realtimeMonitor: RealtimeMonitor;
+  private approvalManager?: ApprovalManager;
   private metrics: MetricsCollector;
 
   constructor(
@@ -60,7 +62,8 @@ export class GraphQLServer {
     promptLibrary: PromptLibrary,
     modelRegistry: ModelRegistry,
     realtimeMonitor: RealtimeMonitor,
-    config: GraphQLServerConfig = {}
+    config: GraphQLServerConfig = {},
+    approvalManager?: ApprovalManager // Enables the approval queries and mutations
   ) {
     this.logger = new Logger();
     this.policyEngine = policyEngine;
@@ -74,6 +77,7 @@ export class GraphQLServer {
     this.promptLibrary = promptLibrary;
     this.modelRegistry = modelRegistry;
     this.realtimeMonitor = realtimeMonitor;
+    this.approvalManager = approvalManager;
     this.metrics = MetricsCollector.getInstance();
 
     this.config = {
@@ -134,10 +138,12 @@ export class GraphQLServer {
           promptLibrary: this.promptLibrary,
           modelRegistry: this.modelRegistry,
           realtimeMonitor: this.realtimeMonitor,
+          approvalManager: this.approvalManager,
           logger: this.logger,
           metrics: this.metrics,
           userId,
           isAuthenticated,
+          isReviewer: Boolean(this.config.apiKey) && isAuthenticated,
         };
       },
       graphiql: this.config.enablePlayground,
@@ -13,6 +13,7 @@
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { APIKeyMetadata } from './identity-extractor.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
 
 export interface APIKeyUsage {
   apiKey: string;
@@ -44,12 +45,44 @@ export class APIKeyManager {
   private metrics: MetricsCollector;
   private keyRegistry: Map<string, APIKeyMetadata> = new Map();
   private keyUsage: Map<string, APIKeyUsage> = new Map();
+  private registryStore?: PersistentCollection<APIKeyMetadata>;
+  private usageStore?: PersistentCollection<APIKeyUsage>;
 
   constructor() {
     this.logger = new Logger();
     this.metrics = MetricsCollector.getInstance();
   }
 
+  /**
+   * Load key registrations and usage from durable storage and write through
+   * all future changes. Only key prefixes are ever persisted.
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const registryStore = new PersistentCollection<APIKeyMetadata>(storage, 'api_keys');
+    const usageStore = new PersistentCollection<APIKeyUsage>(storage, 'api_key_usage');
+
+    const [registry, usage] = await Promise.all([registryStore.load(), usageStore.load()]);
+
+    for (const [keyPrefix, metadata] of registry) {
+      this.keyRegistry.set(keyPrefix, metadata);
+    }
+    for (const [keyPrefix, keyUsage] of usage) {
+      this.keyUsage.set(keyPrefix, keyUsage);
+    }
+
+    // Persist anything registered before storage was attached
+    for (const [keyPrefix, metadata] of this.keyRegistry) {
+      if (!registry.has(keyPrefix)) registryStore.save(keyPrefix, metadata);
+    }
+    for (const [keyPrefix, keyUsage] of this.keyUsage) {
+      if (!usage.has(keyPrefix)) usageStore.save(keyPrefix, keyUsage);
+    }
+
+    this.registryStore = registryStore;
+    this.usageStore = usageStore;
+    this.logger.info('API key storage attached', { totalKeys: this.keyRegistry.size });
+  }
+
   /**
    * Register a single API key
    */
@@ -72,9 +105,10 @@ export class APIKeyManager {
     };
 
     this.keyRegistry.set(keyPrefix, metadata);
+    this.registryStore?.save(keyPrefix, metadata);
 
     // Initialize usage tracking
-    this.keyUsage.set(keyPrefix, {
+    const usage: APIKeyUsage = {
       apiKey: keyPrefix,
       totalRequests: 0,
       successfulRequests: 0,
@@ -82,7 +116,9 @@ export class APIKeyManager {
       totalCost: 0,
       lastUsed: 0,
       firstUsed: 0,
-    });
+    };
+    this.keyUsage.set(keyPrefix, usage);
+    this.usageStore?.save(keyPrefix, usage);
 
     this.logger.info('API key registered', {
       keyPrefix,
@@ -181,7 +217,7 @@ export class APIKeyManager {
 
     if (!usage) {
       // Key not registered, create usage entry
-      this.keyUsage.set(keyPrefix, {
+      const created: APIKeyUsage = {
         apiKey: keyPrefix,
         totalRequests: 1,
         successfulRequests: success ? 1 : 0,
@@ -189,7 +225,9 @@ export class APIKeyManager {
         totalCost: cost,
         lastUsed: Date.now(),
         firstUsed: Date.now(),
-      });
+      };
+      this.keyUsage.set(keyPrefix, created);
+      this.usageStore?.save(keyPrefix, created);
       return;
     }
 
@@ -204,6 +242,7 @@ export class APIKeyManager {
     if (usage.firstUsed === 0) {
       usage.firstUsed = Date.now();
     }
+    this.usageStore?.save(keyPrefix, usage);
   }
 
   /**
@@ -221,6 +260,7 @@ export class APIKeyManager {
   revokeKey(apiKey: string): void {
     const keyPrefix = this.getKeyPrefix(apiKey);
     this.keyRegistry.delete(keyPrefix);
+    this.registryStore?.remove(keyPrefix);
     
     this.logger.info('API key revoked', { keyPrefix });
     this.metrics.increment('api_key_revoked_total');
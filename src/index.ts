@@ -3,30 +3,46 @@
  * Main entry point
  */
 
-import { Hono } from 'hono';
-import { ProxilionRequest, PolicyAction, ProxilionError, AuditEvent, LogLevel, ThreatLevel, UnifiedAIRequest, AggregatedScanResult } from './types/index.js';
+import { Hono, Context } from 'hono';
+import { ProxilionRequest, PolicyAction, ProxilionError, AuditEvent, LogLevel, ThreatLevel, UnifiedAIRequest, PolicyDecision, PolicyEvaluationMode, AIServiceProvider, AggregatedScanResult } from './types/index.js';
 import { logger } from './utils/logger.js';
+import { estimateTokens } from './utils/token-estimator.js';
+import { textExtractionCache } from './utils/text-extractor.js';
 import { metrics } from './utils/metrics.js';
 import { ConnectionPool } from './proxy/connection-pool.js';
 import { RequestHandler } from './proxy/request-handler.js';
 import { ParserRegistry } from './parsers/parser-registry.js';
 import { ScannerOrchestrator } from './scanners/scanner-orchestrator.js';
+import { MLClassifierScanner } from './scanners/ml-classifier-scanner.js';
+import { EntityScanner } from './scanners/entity-scanner.js';
+import { MultimodalScanner, CommandOcrProvider } from './scanners/multimodal-scanner.js';
+import { SecretsScanner } from './scanners/secrets-scanner.js';
+import { InventoryVerifier } from './scanners/secret-verifiers.js';
 import { PolicyEngine } from './policy/policy-engine.js';
+import { TrafficRecorder } from './policy/traffic-recorder.js';
+import { RequestModifier, ModifyActionParameters } from './policy/request-modifier.js';
+import { TokenVault } from './policy/token-vault.js';
+import { RequestRedirector, RedirectActionParameters } from './policy/request-redirector.js';
+import { PriorityQueueManager } from './queue/priority-queue-manager.js';
+import { ActionQueue, QueueActionParameters } from './queue/action-queue.js';
+import { ApprovalManager, ApprovalTicket } from './approval/approval-manager.js';
 import { CacheManager } from './cache/cache-manager.js';
 import { RequestDeduplicator } from './cache/request-deduplicator.js';
 import { RateLimiter } from './performance/rate-limiter.js';
 import { RequestOptimizer } from './performance/request-optimizer.js';
-import { ResponseProcessor } from './response/response-processor.js';
+import { ResponseProcessor, ProcessedResponse } from './response/response-processor.js';
+import { ResponseAuditLogger } from './response/response-audit-logger.js';
+import { ResponseScanner } from './response/response-scanner.js';
 import { HealthChecker, createMemoryHealthCheck, createDependencyHealthCheck } from './health/health-checker.js';
 import { SIEMForwarder } from './integrations/siem/siem-forwarder.js';
 import { WebhookManager } from './integrations/webhooks/webhook-manager.js';
-import { AuthProvider } from './integrations/auth/auth-provider.js';
+import { AuthProvider, AuthMethod, AuthContext, JWTAlgorithm } from './integrations/auth/auth-provider.js';
 import { AlertManager } from './integrations/alerting/alert-manager.js';
-import { CostTracker } from './cost/cost-tracker.js';
+import { CostTracker, CostEntry } from './cost/cost-tracker.js';
 import { AnalyticsEngine } from './analytics/analytics-engine.js';
 import { TenantManager } from './tenancy/tenant-manager.js';
-import { StreamProcessor } from './streaming/stream-processor.js';
-import { IdentityExtractor } from './identity/identity-extractor.js';
+import { StreamProcessor, StreamProcessingOptions } from './streaming/stream-processor.js';
+import { IdentityExtractor, UserIdentity } from './identity/identity-extractor.js';
 import { APIKeyManager } from './identity/api-key-manager.js';
 import { BrowserSessionTracker } from './identity/browser-session-tracker.js';
 import { UserAnalytics } from './analytics/user-analytics.js';
@@ -34,12 +50,15 @@ import { PrometheusExporter } from './observability/prometheus-exporter.js';
 import { OpenTelemetryTracer } from './observability/opentelemetry-tracer.js';
 import { GrafanaDashboardGenerator } from './observability/grafana-dashboards.js';
 import { GraphQLServer } from './graphql/server.js';
+import { AdminAPI } from './admin/admin-api.js';
 import { WorkflowExecutor } from './workflows/workflow-executor.js';
 import { WorkflowTemplateManager } from './workflows/workflow-template-manager.js';
+import { WorkflowVersionManager } from './workflows/workflow-version-manager.js';
 import { PromptVersionManager } from './prompts/prompt-version-manager.js';
 import { PromptLibrary } from './prompts/prompt-library.js';
 import { ModelRegistry } from './models/model-registry.js';
 import { RealtimeMonitor } from './monitoring/realtime-monitor.js';
+import { FileStorageAdapter } from './storage/file-storage.js';
 
 const app = new Hono();
 
@@ -64,10 +83,92 @@ const parserRegistry = new ParserRegistry();
 const scannerOrchestrator = new ScannerOrchestrator({
   enableParallelScanning: true,
   scanTimeout: 10000,
+  // e.g. [{"name":"patterns","scannerIds":["pii-scanner"]},{"name":"ml","scannerIds":["ml-classifier-scanner"],"runWhen":"inconclusive"}]
+  stages: process.env.SCANNER_STAGES ? JSON.parse(process.env.SCANNER_STAGES) : undefined,
+  stopOnCritical: process.env.SCANNER_STOP_ON_CRITICAL === 'true',
+  scannerBudgets: process.env.SCANNER_BUDGETS_MS ? JSON.parse(process.env.SCANNER_BUDGETS_MS) : undefined,
+  tenantScanners: process.env.TENANT_SCANNERS ? JSON.parse(process.env.TENANT_SCANNERS) : undefined,
 });
 
+const piiScanner = scannerOrchestrator.getPIIScanner();
+for (const packId of (process.env.PII_PATTERN_PACKS || '').split(',').filter(Boolean)) {
+  piiScanner?.enablePatternPack(packId.trim());
+}
+if (process.env.TENANT_PII_PACKS) {
+  for (const [tenantId, packIds] of Object.entries<string[]>(JSON.parse(process.env.TENANT_PII_PACKS))) {
+    piiScanner?.setTenantPatternPacks(tenantId, packIds);
+  }
+}
+
+const secretsScanner = new SecretsScanner();
+if (process.env.SECRETS_RULES_FILE) {
+  await secretsScanner.loadRules(process.env.SECRETS_RULES_FILE);
+}
+if (process.env.SECRETS_INVENTORY_FILE) {
+  secretsScanner.registerVerifier(await InventoryVerifier.fromFile(process.env.SECRETS_INVENTORY_FILE));
+}
+scannerOrchestrator.register(secretsScanner);
+
+const entityScanner = new EntityScanner({
+  minConfidence: process.env.ENTITY_MIN_CONFIDENCE ? parseFloat(process.env.ENTITY_MIN_CONFIDENCE) : undefined,
+});
+if (process.env.ENTITY_DICTIONARY_FILE) {
+  await entityScanner.loadDictionary(process.env.ENTITY_DICTIONARY_FILE);
+}
+scannerOrchestrator.register(entityScanner);
+
+// Attachments: size and type limits, EXIF location, and text extraction for the other scanners
+const [ocrCommand, ...ocrArgs] = (process.env.OCR_COMMAND || '').split(' ').filter(Boolean);
+scannerOrchestrator.register(new MultimodalScanner({
+  maxAttachmentBytes: process.env.MAX_ATTACHMENT_BYTES ? parseInt(process.env.MAX_ATTACHMENT_BYTES, 10) : undefined,
+  allowedMimeTypes: process.env.ALLOWED_ATTACHMENT_TYPES
+    ? process.env.ALLOWED_ATTACHMENT_TYPES.split(',').map((t) => t.trim()).filter(Boolean)
+    : undefined,
+  ocr: ocrCommand
+    ? new CommandOcrProvider({
+      command: ocrCommand,
+      args: ocrArgs.length > 0 ? ocrArgs : undefined, // A bare command keeps the default stdin/stdout arguments
+      timeoutMs: process.env.OCR_TIMEOUT_MS ? parseInt(process.env.OCR_TIMEOUT_MS, 10) : undefined,
+      maxConcurrency: process.env.OCR_MAX_CONCURRENCY ? parseInt(process.env.OCR_MAX_CONCURRENCY, 10) : undefined,
+    })
+    : undefined,
+}));
+
+// Local ML classifier runs alongside the pattern-based scanners when its model is present
+if (process.env.ML_CLASSIFIER_MODEL) {
+  const classifierScanner = await MLClassifierScanner.load({ modelPath: process.env.ML_CLASSIFIER_MODEL });
+  if (classifierScanner) {
+    scannerOrchestrator.register(classifierScanner);
+  }
+}
+
 const policyEngine = new PolicyEngine();
 
+// Recorded traffic backs policy simulation (POST /api/policies/simulate)
+if (process.env.TRAFFIC_RECORDING_ENABLED === 'true') {
+  policyEngine.setTrafficRecorder(new TrafficRecorder({
+    maxEntries: parseInt(process.env.TRAFFIC_RECORDING_MAX_ENTRIES || '1000'),
+  }));
+}
+
+// Policy action executors (MODIFY, REDIRECT, QUEUE)
+// Holds PII tokenized by MODIFY actions until the response restores it
+const tokenVault = new TokenVault({
+  ttlMs: process.env.TOKEN_VAULT_TTL_MS ? parseInt(process.env.TOKEN_VAULT_TTL_MS) : undefined,
+});
+const requestModifier = new RequestModifier({ piiScanner: scannerOrchestrator.getPIIScanner(), vault: tokenVault });
+const requestRedirector = new RequestRedirector({
+  credentials: {
+    openai: process.env.OPENAI_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY,
+    google: process.env.GOOGLE_API_KEY,
+    cohere: process.env.COHERE_API_KEY,
+  },
+});
+const actionQueue = new ActionQueue(new PriorityQueueManager({
+  maxConcurrent: parseInt(process.env.QUEUE_MAX_CONCURRENT || '10'),
+}));
+
 // Performance optimization components
 const cacheManager = new CacheManager({
   maxSize: 100 * 1024 * 1024, // 100MB
@@ -95,10 +196,16 @@ const requestOptimizer = new RequestOptimizer({
   maxCacheSize: 10000,
 });
 
+const responseAuditLogger = new ResponseAuditLogger();
+
 const responseProcessor = new ResponseProcessor({
   enablePIIRedaction: true,
   enableContentFiltering: true,
   enableValidation: true,
+  tokenVault,
+  parsers: parserRegistry,
+  responseScanner: new ResponseScanner(),
+  auditLogger: responseAuditLogger,
 });
 
 const streamProcessor = new StreamProcessor({
@@ -107,7 +214,11 @@ const streamProcessor = new StreamProcessor({
   bufferSize: 1024,
   chunkTimeout: 5000,
   maxBufferedChunks: 100,
+  holdBackChars: process.env.STREAM_HOLDBACK_CHARS ? parseInt(process.env.STREAM_HOLDBACK_CHARS, 10) : undefined,
+  maxHoldBackMs: process.env.STREAM_MAX_HOLDBACK_MS ? parseInt(process.env.STREAM_MAX_HOLDBACK_MS, 10) : undefined,
 });
+// Default for policies without terminateStreamOn; unset never stops a stream
+const STREAM_TERMINATE_ON = process.env.STREAM_TERMINATE_ON as ThreatLevel | undefined;
 
 // Enterprise integration components
 const siemForwarder = new SIEMForwarder({
@@ -122,11 +233,27 @@ const siemForwarder = new SIEMForwarder({
 
 const webhookManager = new WebhookManager();
 
+// AUTH_METHOD may list several methods (e.g. "API_KEY,JWT"); they are tried in order
+const authMethods = (process.env.AUTH_METHOD || 'API_KEY').split(',').map((m) => m.trim()) as AuthMethod[];
+
 const authProvider = new AuthProvider({
-  method: (process.env.AUTH_METHOD as any) || 'API_KEY',
+  method: authMethods[0],
+  methods: authMethods,
+  routeMethods: process.env.AUTH_ROUTE_METHODS ? JSON.parse(process.env.AUTH_ROUTE_METHODS) : undefined,
+  tenantMethods: process.env.AUTH_TENANT_METHODS ? JSON.parse(process.env.AUTH_TENANT_METHODS) : undefined,
   apiKeys: process.env.API_KEYS?.split(',') || [],
   jwtSecret: process.env.JWT_SECRET,
   jwtIssuer: process.env.JWT_ISSUER,
+  jwtAudience: process.env.JWT_AUDIENCE?.split(','),
+  jwtAlgorithms: process.env.JWT_ALGORITHMS?.split(',') as JWTAlgorithm[] | undefined,
+  jwksUri: process.env.JWKS_URI,
+  jwksCacheTtlMs: parseInt(process.env.JWKS_CACHE_TTL_MS || '600000'),
+  clockSkewSeconds: parseInt(process.env.JWT_CLOCK_SKEW_SECONDS || '60'),
+  rolesClaim: process.env.AUTH_ROLES_CLAIM,
+  tenantClaim: process.env.AUTH_TENANT_CLAIM,
+  oauthEndpoint: process.env.OAUTH_ENDPOINT,
+  oauthClientId: process.env.OAUTH_CLIENT_ID,
+  oauthClientSecret: process.env.OAUTH_CLIENT_SECRET,
 });
 
 const alertManager = new AlertManager({
@@ -144,6 +271,12 @@ const alertManager = new AlertManager({
   },
 });
 
+// Human review of requests held by QUEUE policies; every decision is sent to the SIEM
+const approvalManager = new ApprovalManager(actionQueue, {
+  defaultTimeoutMs: parseInt(process.env.APPROVAL_TIMEOUT_MS || '3600000'),
+  onAudit: (event) => siemForwarder.forward(event),
+});
+
 // Advanced features
 const costTracker = new CostTracker();
 const analyticsEngine = new AnalyticsEngine();
@@ -212,6 +345,7 @@ const openTelemetryTracer = new OpenTelemetryTracer({
 // Workflow and Prompt Management components
 const workflowExecutor = new WorkflowExecutor();
 const workflowTemplates = new WorkflowTemplateManager();
+const workflowVersionManager = new WorkflowVersionManager();
 const promptVersionManager = new PromptVersionManager();
 const promptLibrary = new PromptLibrary();
 const modelRegistry = new ModelRegistry();
@@ -241,9 +375,59 @@ const graphqlServer = new GraphQLServer(
     enableIntrospection: process.env.NODE_ENV !== 'production',
     enablePlayground: process.env.NODE_ENV !== 'production',
     corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['*'],
-  }
+  },
+  approvalManager
+);
+
+// Admin API (/api/*): configuration, policies, simulation, shadow reports, approvals and security patterns
+// Every route requires ADMIN_API_KEY unless ENABLE_ADMIN_AUTH=false
+const adminAPI = new AdminAPI(
+  policyEngine,
+  metrics,
+  costTracker,
+  analyticsEngine,
+  scannerOrchestrator,
+  {
+    enableAuth: process.env.ENABLE_ADMIN_AUTH !== 'false',
+    apiKey: process.env.ADMIN_API_KEY,
+    corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['*'],
+    rateLimit: parseInt(process.env.ADMIN_API_RATE_LIMIT || '100'),
+  },
+  approvalManager
 );
 
+// Durable storage for governance state (policies, tenants, budgets, keys, prompts, audit trails)
+// Without STORAGE_DIR everything stays in memory and is lost on restart
+if (process.env.STORAGE_DIR) {
+  const storageAdapter = new FileStorageAdapter({ directory: process.env.STORAGE_DIR });
+
+  await Promise.all([
+    policyEngine.attachStorage(storageAdapter),
+    tenantManager.attachStorage(storageAdapter),
+    costTracker.attachStorage(storageAdapter),
+    apiKeyManager.attachStorage(storageAdapter),
+    promptLibrary.attachStorage(storageAdapter),
+    policyEngine.getCalendar().attachStorage(storageAdapter),
+    responseAuditLogger.attachStorage(storageAdapter),
+    workflowVersionManager.attachStorage(storageAdapter),
+  ]);
+
+  logger.info('Durable storage attached', { directory: process.env.STORAGE_DIR });
+}
+
+// Deployment-wide policy evaluation settings; per-tenant overrides are managed via the admin API
+if (process.env.POLICY_DEFAULT_ACTION || process.env.POLICY_EVALUATION_MODE) {
+  policyEngine.updateEvaluationSettings({
+    defaultAction: process.env.POLICY_DEFAULT_ACTION as PolicyAction | undefined,
+    evaluationMode: process.env.POLICY_EVALUATION_MODE as PolicyEvaluationMode | undefined,
+  });
+}
+
+// Holiday calendars referenced by 'time' policy conditions
+if (process.env.HOLIDAY_CALENDAR_FILE) {
+  await policyEngine.getCalendar().loadHolidayFile(process.env.HOLIDAY_CALENDAR_FILE);
+}
+
 // Health checker
 const healthChecker = new HealthChecker();
 
@@ -354,6 +538,9 @@ app.all('/graphql', async (c) => {
   return response;
 });
 
+// Admin API endpoints; registered before the proxy catch-all
+app.route('/', adminAPI.getApp());
+
 // Grafana dashboards endpoint
 app.get('/admin/dashboards', (c) => {
   const dashboards = GrafanaDashboardGenerator.exportAll();
@@ -790,8 +977,8 @@ app.all('/proxy/*', async (c) => {
   });
 
   try {
-    // Extract target URL from path
-    const targetPath = c.req.path.replace('/proxy/', '');
+    // Extract target URL from path, keeping the query (e.g. Azure's api-version)
+    const targetPath = c.req.path.replace('/proxy/', '') + new URL(c.req.url).search;
     const targetUrl = targetPath.startsWith('http') ? targetPath : `https://${targetPath}`;
 
     span.setAttribute('target.url', targetUrl);
@@ -815,7 +1002,10 @@ app.all('/proxy/*', async (c) => {
     });
 
     // Step 0: Authentication
-    const authContext = await authProvider.authenticate(proxilionRequest.headers);
+    const authContext = await authProvider.authenticate(proxilionRequest.headers, {
+      path: c.req.path,
+      tenantId: c.req.header('x-tenant-id'),
+    });
     if (!authContext.authenticated) {
       logger.warn('Authentication failed', { correlationId });
       return c.json(
@@ -862,8 +1052,9 @@ app.all('/proxy/*', async (c) => {
       });
     }
 
-    // Step 0.5: Tenant validation (if tenantId provided)
-    const tenantId = authContext.tenantId || c.req.header('x-tenant-id');
+    // Step 0.5: Tenant validation (if the credential carries a tenant)
+    // The caller-chosen x-tenant-id header only selects the auth chain; policies, scanners and budgets follow the credential
+    const tenantId = authContext.tenantId;
     if (tenantId) {
       const tenant = tenantManager.getTenant(tenantId);
       if (!tenant) {
@@ -908,6 +1099,14 @@ app.all('/proxy/*', async (c) => {
       );
     }
 
+    // Parsers mint their own ID; use the one returned to the client and sent to audit/SIEM
+    unifiedRequest.metadata.correlationId = correlationId;
+    attachRequestContext(unifiedRequest, proxilionRequest, {
+      userId: authContext.userId || userIdentity.userId,
+      tenantId,
+      department: authenticatedDepartment(authContext, userIdentity),
+    });
+
     // Step 1.5: Rate limiting
     const rateLimitKey = `user:${proxilionRequest.sourceIp || 'unknown'}`;
     const rateLimitResult = await rateLimiter.checkLimit(rateLimitKey);
@@ -966,6 +1165,7 @@ app.all('/proxy/*', async (c) => {
       correlationId,
       action: policyDecision.action,
       policyId: policyDecision.policyId,
+      shadowDecisions: summarizeShadowDecisions(policyDecision),
     });
 
     // Step 3.5: Create audit event
@@ -989,6 +1189,9 @@ app.all('/proxy/*', async (c) => {
       findings: scanResult.findings,
       policyId: policyDecision.policyId,
       targetService: new URL(targetUrl).hostname,
+      data: policyDecision.shadowDecisions
+        ? { shadowDecisions: summarizeShadowDecisions(policyDecision) }
+        : undefined,
     };
 
     // Forward to SIEM
@@ -1042,6 +1245,15 @@ app.all('/proxy/*', async (c) => {
     }
 
     // Step 4: Execute policy action
+    const actionContext: ActionContext = {
+      correlationId,
+      tenantId,
+      proxilionRequest,
+      unifiedRequest,
+      scanResult,
+      policyDecision,
+    };
+
     switch (policyDecision.action) {
       case PolicyAction.BLOCK:
         metrics.counter('request.blocked', 1);
@@ -1068,6 +1280,16 @@ app.all('/proxy/*', async (c) => {
           403
         );
 
+      case PolicyAction.ALERT:
+        // Log the alert, then forward exactly like ALLOW (stream scanning, response processing, usage)
+        logger.warn('Security alert triggered', {
+          correlationId,
+          reason: policyDecision.reason,
+          threatLevel: scanResult.overallThreatLevel,
+          findings: scanResult.scanResults.flatMap((r) => r.findings),
+        });
+        // falls through
+
       case PolicyAction.ALLOW:
         // Forward request to AI service with deduplication
         const response = await requestDeduplicator.execute(unifiedRequest, async () => {
@@ -1082,7 +1304,8 @@ app.all('/proxy/*', async (c) => {
           // Process stream with security scanning
           const processedStream = streamProcessor.processStream(
             response.body as ReadableStream<Uint8Array>,
-            correlationId
+            correlationId,
+            streamProcessingOptions(policyDecision, unifiedRequest, proxilionRequest)
           );
 
           // Return streaming response
@@ -1099,10 +1322,10 @@ app.all('/proxy/*', async (c) => {
         }
 
         // Non-streaming response - process normally
-        const processedResponse = await responseProcessor.process(response);
+        const processedResponse = await responseProcessor.process(response, { request: unifiedRequest });
 
-        // Cache the response if applicable
-        if (processedResponse.response.status === 200) {
+        // Cache the response if applicable; alerted requests are not cached so repeats are alerted again
+        if (processedResponse.response.status === 200 && policyDecision.action === PolicyAction.ALLOW) {
           await cacheManager.set(unifiedRequest, processedResponse.response);
         }
 
@@ -1110,58 +1333,24 @@ app.all('/proxy/*', async (c) => {
         metrics.histogram('request.total.duration', duration);
         metrics.counter('request.allowed', 1);
 
-        // Track cost (estimate tokens from response)
-        const responseBody = processedResponse.response.body as any;
-        const inputTokens = responseBody?.usage?.prompt_tokens || 0;
-        const outputTokens = responseBody?.usage?.completion_tokens || 0;
+        // Track cost from the provider's reported usage
+        const inputTokens = processedResponse.decoded?.usage?.promptTokens || 0;
+        const outputTokens = processedResponse.decoded?.usage?.completionTokens || 0;
 
-        if (inputTokens > 0 || outputTokens > 0) {
-          costTracker.trackCost({
+        const costEntry = inputTokens > 0 || outputTokens > 0
+          ? await trackTokenCost({
+            correlationId,
             provider: unifiedRequest.provider,
             model: unifiedRequest.model,
             inputTokens,
             outputTokens,
             userId: authContext.userId,
             tenantId,
-            requestId: correlationId,
-            cached: false,
-          });
-
-          // Check budget limits
-          const budgetStatuses = costTracker.checkBudgetLimits(authContext.userId, tenantId);
-          for (const status of budgetStatuses) {
-            if (status.alertTriggered) {
-              const budgetAlertEvent: AuditEvent = {
-                id: `${correlationId}-budget`,
-                requestId: correlationId,
-                timestamp: Date.now(),
-                level: LogLevel.WARN,
-                type: 'budget.alert',
-                message: `Budget alert: ${status.percentage.toFixed(1)}% of limit reached`,
-                correlationId,
-                eventType: 'budget.alert',
-                action: 'alert',
-                decision: PolicyAction.ALERT,
-                threatLevel: ThreatLevel.MEDIUM,
-                userId: authContext.userId,
-                sourceIp: proxilionRequest.sourceIp,
-                provider: unifiedRequest.provider,
-                model: unifiedRequest.model,
-                duration,
-                findings: [{
-                  type: 'budget',
-                  severity: ThreatLevel.MEDIUM,
-                  message: `Budget alert: ${status.percentage.toFixed(1)}% of limit reached`,
-                  location: { path: 'cost_tracker' },
-                  confidence: 1.0,
-                }],
-                policyId: 'budget-limit',
-                targetService: new URL(targetUrl).hostname,
-              };
-              await alertManager.alert(budgetAlertEvent);
-            }
-          }
-        }
+            sourceIp: proxilionRequest.sourceIp,
+            targetService: new URL(targetUrl).hostname,
+            duration,
+          })
+          : undefined;
 
         // Record analytics
         analyticsEngine.recordDataPoint('request.latency', duration);
@@ -1171,11 +1360,37 @@ app.all('/proxy/*', async (c) => {
             tenantId,
             requests: 1,
             tokens: inputTokens + outputTokens,
-            cost: 0, // Would be calculated from costTracker
+            cost: costEntry?.totalCost || 0,
             cacheHit: false,
           });
         }
 
+        const completedEvent: AuditEvent = {
+          id: correlationId,
+          requestId: correlationId,
+          timestamp: Date.now(),
+          level: LogLevel.INFO,
+          type: 'request.completed',
+          message: 'Request completed successfully',
+          correlationId,
+          eventType: 'request.completed',
+          action: 'process',
+          decision: policyDecision.action,
+          threatLevel: scanResult.overallThreatLevel,
+          userId: authContext.userId,
+          sourceIp: proxilionRequest.sourceIp,
+          provider: unifiedRequest.provider,
+          model: unifiedRequest.model,
+          duration,
+          data: {
+            finishReason: processedResponse.decoded?.finishReason,
+            usage: processedResponse.decoded?.usage,
+            responseThreatLevel: processedResponse.responseScan?.threatLevel,
+          },
+        };
+        await siemForwarder.forward(completedEvent);
+        await webhookManager.trigger(completedEvent);
+
         logger.info('Request completed successfully', {
           correlationId,
           duration,
@@ -1203,69 +1418,14 @@ app.all('/proxy/*', async (c) => {
           'X-Content-Modified': processedResponse.modified ? 'true' : 'false',
         });
 
-      case PolicyAction.ALERT:
-        // Log alert and allow
-        logger.warn('Security alert triggered', {
-          correlationId,
-          reason: policyDecision.reason,
-          threatLevel: scanResult.overallThreatLevel,
-          findings: scanResult.scanResults.flatMap((r) => r.findings),
-        });
-
-        const alertResponse = await requestDeduplicator.execute(unifiedRequest, async () => {
-          return await requestHandler.handleRequest(proxilionRequest);
-        });
-
-        const processedAlertResponse = await responseProcessor.process(alertResponse);
-
-        return c.json(
-          processedAlertResponse.response.body,
-          processedAlertResponse.response.status as any,
-          processedAlertResponse.response.headers
-        );
-
       case PolicyAction.MODIFY:
-        // Redact sensitive data from request before forwarding
-        logger.info('Modifying request to redact sensitive data', {
-          correlationId,
-          findingsCount: scanResult.findings.length,
-        });
-
-        // Create a modified version of the request with redacted content
-        const modifiedRequest = redactSensitiveData(unifiedRequest, scanResult);
-
-        // Convert back to ProxilionRequest format
-        const modifiedProxilionRequest = {
-          ...proxilionRequest,
-          body: modifiedRequest,
-        };
-
-        metrics.counter('request.modified', 1);
-        metrics.counter('request.redactions', scanResult.findings.length);
-
-        // Forward the modified request
-        const modifyResponse = await requestDeduplicator.execute(modifiedRequest, async () => {
-          return await requestHandler.handleRequest(modifiedProxilionRequest);
-        });
-
-        const processedModifyResponse = await responseProcessor.process(modifyResponse);
-
-        return c.json(
-          processedModifyResponse.response.body,
-          processedModifyResponse.response.status as any,
-          processedModifyResponse.response.headers
-        );
+        return await modifyActionResponse(c, actionContext);
 
       case PolicyAction.QUEUE:
-        metrics.counter('request.queued', 1);
-        return c.json(
-          {
-            message: 'Request queued for manual review',
-            correlationId,
-            estimatedReviewTime: '1-2 hours',
-          },
-          202
-        );
+        return await queueActionResponse(c, actionContext);
+
+      case PolicyAction.REDIRECT:
+        return await redirectActionResponse(c, actionContext);
 
       default:
         logger.warn(`Unknown policy action: ${policyDecision.action}`, {
@@ -1321,47 +1481,574 @@ app.all('/proxy/*', async (c) => {
   }
 });
 
+// Approval ticket status for callers whose request was held for review
+// Long-poll with ?wait=<seconds> or "Prefer: wait=<seconds>"
+app.get('/approvals/:id', async (c) => {
+  const authContext = await authProvider.authenticate(Object.fromEntries(c.req.raw.headers.entries()), {
+    path: c.req.path,
+    tenantId: c.req.header('x-tenant-id'),
+  });
+  if (!authContext.authenticated) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  const ticketId = c.req.param('id');
+  const waitParam = c.req.query('wait');
+  const waitMs = waitParam !== undefined
+    ? Math.min(Math.max(0, parseInt(waitParam) || 0) * 1000, MAX_APPROVAL_WAIT_MS)
+    : parsePreferWait(c.req.header('prefer'));
+
+  // Only the user and tenant the request was held for may read it, since approved tickets carry the model response
+  const ticket = await approvalManager.waitForResolution(ticketId, waitMs, {
+    userId: authContext.userId,
+    tenantId: authContext.tenantId,
+  });
+  if (!ticket) {
+    return c.json({ error: 'Approval ticket not found', ticketId }, 404);
+  }
+
+  return approvalTicketResponse(c, ticket);
+});
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Longest time a caller may hold a connection open waiting for a reviewer
+const MAX_APPROVAL_WAIT_MS = 120000;
+
 /**
- * Redact sensitive data from request based on scan findings
+ * Parse an RFC 7240 "Prefer: wait=<seconds>" header into a capped wait in milliseconds
  */
-function redactSensitiveData(request: UnifiedAIRequest, scanResult: AggregatedScanResult): UnifiedAIRequest {
-  const redactedRequest = JSON.parse(JSON.stringify(request)) as UnifiedAIRequest;
-
-  // Define PII patterns to redact
-  const piiPatterns: Array<{ type: string; pattern: RegExp }> = [
-    { type: 'Email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g },
-    { type: 'Phone', pattern: /\b(\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g },
-    { type: 'Social Security', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
-    { type: 'Credit Card', pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g },
-    { type: 'IP Address', pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g },
-    { type: 'API Key', pattern: /\b[A-Za-z0-9]{32,}\b/g },
-    { type: 'AWS', pattern: /AKIA[0-9A-Z]{16}/g },
-    { type: 'GitHub', pattern: /ghp_[a-zA-Z0-9]{36}/g },
-  ];
+function parsePreferWait(prefer: string | undefined): number {
+  const match = prefer?.match(/\bwait=(\d+)/);
+  return match ? Math.min(parseInt(match[1]) * 1000, MAX_APPROVAL_WAIT_MS) : 0;
+}
+
+/**
+ * Respond with the outcome of an approval ticket: the upstream response once
+ * approved and forwarded, an error once denied or expired, otherwise 202
+ */
+function approvalTicketResponse(c: Context, ticket: ApprovalTicket): Response {
+  const statusUrl = `/approvals/${ticket.id}`;
+  const note = ticket.decision?.note;
+
+  switch (ticket.status) {
+    case 'completed':
+      return c.json(ticket.response!.body, ticket.response!.status as any, {
+        ...ticket.response!.headers,
+        'X-Proxilion-Approval-Ticket': ticket.id,
+        'X-Proxilion-Request-Edited': ticket.edited ? 'true' : 'false',
+      });
+
+    case 'denied':
+      return c.json(
+        { error: 'Request denied by reviewer', code: 'APPROVAL_DENIED', ticketId: ticket.id, note },
+        403
+      );
+
+    case 'expired':
+      return c.json(
+        { error: 'Request expired before it was reviewed', code: 'APPROVAL_EXPIRED', ticketId: ticket.id },
+        410
+      );
+
+    case 'failed':
+      return c.json(
+        { error: 'Approved request failed', code: 'APPROVAL_FORWARD_FAILED', ticketId: ticket.id, message: ticket.error },
+        502
+      );
+
+    default:
+      return c.json(
+        {
+          message: 'Request held for manual review',
+          correlationId: ticket.id,
+          ticketId: ticket.id,
+          status: ticket.status,
+          statusUrl,
+          expiresAt: ticket.expiresAt,
+          findings: ticket.findings.map((f) => ({ type: f.type, severity: f.severity })),
+        },
+        202,
+        { Location: statusUrl }
+      );
+  }
+}
+
+/**
+ * Request state the MODIFY, QUEUE and REDIRECT handlers act on; shared by
+ * /proxy/* and transparent mode so both apply policy actions the same way
+ */
+interface ActionContext {
+  correlationId: string;
+  tenantId?: string;
+  proxilionRequest: ProxilionRequest;
+  unifiedRequest: UnifiedAIRequest;
+  scanResult: AggregatedScanResult;
+  policyDecision: PolicyDecision;
+}
+
+/**
+ * MODIFY: redact or transform the provider request body before forwarding
+ */
+async function modifyActionResponse(c: Context, ctx: ActionContext): Promise<Response> {
+  const { correlationId, proxilionRequest, unifiedRequest, scanResult, policyDecision } = ctx;
+
+  const modification = requestModifier.modify(
+    proxilionRequest.body,
+    scanResult,
+    policyDecision.parameters as ModifyActionParameters,
+    unifiedRequest
+  );
+
+  logger.info('Modifying request before forwarding', {
+    correlationId,
+    redactions: modification.redactions,
+    tokens: modification.tokens,
+    changedFields: modification.changedFields,
+  });
+
+  const modifiedProxilionRequest = {
+    ...proxilionRequest,
+    body: modification.body,
+  };
+
+  metrics.counter('request.modified', 1);
+  metrics.counter('request.redactions', modification.redactions);
+  metrics.counter('request.tokenized', modification.tokens);
+
+  // Forward the modified request
+  const modifyResponse = await requestDeduplicator.execute(unifiedRequest, async () => {
+    return await requestHandler.handleRequest(modifiedProxilionRequest);
+  });
 
-  // Redact content in messages
-  for (const message of redactedRequest.messages) {
-    if (typeof message.content === 'string') {
-      let content = message.content;
-
-      // Apply redactions based on findings
-      for (const finding of scanResult.findings) {
-        for (const pattern of piiPatterns) {
-          if (finding.type.toLowerCase().includes(pattern.type.toLowerCase())) {
-            content = content.replace(pattern.pattern, '[REDACTED]');
-          }
+  if (modifyResponse.streaming && modifyResponse.body instanceof ReadableStream) {
+    const modifiedStream = streamProcessor.processStream(
+      modifyResponse.body as ReadableStream<Uint8Array>,
+      correlationId,
+      streamProcessingOptions(policyDecision, unifiedRequest, proxilionRequest)
+    );
+
+    return new Response(modifiedStream, {
+      status: modifyResponse.status,
+      headers: {
+        ...modifyResponse.headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Proxilion-Streaming': 'true',
+        'X-Proxilion-Request-Modified': 'true',
+      },
+    });
+  }
+
+  const processedModifyResponse = await responseProcessor.process(modifyResponse, {
+    correlationId,
+    request: unifiedRequest,
+  });
+  await recordResponseUsage(ctx, processedModifyResponse);
+
+  return c.json(
+    processedModifyResponse.response.body,
+    processedModifyResponse.response.status as any,
+    {
+      ...processedModifyResponse.response.headers,
+      'X-Proxilion-Request-Modified': 'true',
+    }
+  );
+}
+
+/**
+ * QUEUE: hold for a reviewer, or delay and rate-shape execution without review
+ */
+async function queueActionResponse(c: Context, ctx: ActionContext): Promise<Response> {
+  const { correlationId, tenantId, proxilionRequest, unifiedRequest, scanResult, policyDecision } = ctx;
+  const queueParameters = (policyDecision.parameters || {}) as QueueActionParameters;
+
+  // Queued responses are delivered later as JSON (ticket polling included), so there is no stream to hand back
+  if (unifiedRequest.streaming) {
+    metrics.counter('request.queued', 1, { status: 'rejected_streaming' });
+    return c.json(
+      {
+        error: 'Streaming requests cannot be queued; retry without streaming',
+        code: 'QUEUE_STREAMING_UNSUPPORTED',
+        correlationId,
+      },
+      400
+    );
+  }
+
+  if (queueParameters.requireApproval ?? true) {
+    // Hold for a reviewer; the caller gets a ticket and may long-poll with "Prefer: wait=<seconds>"
+    const ticket = approvalManager.hold({
+      id: correlationId,
+      policyId: policyDecision.policyId,
+      reason: policyDecision.reason,
+      threatLevel: scanResult.overallThreatLevel,
+      findings: scanResult.findings,
+      userId: unifiedRequest.metadata.userId || 'anonymous',
+      tenantId,
+      provider: unifiedRequest.provider,
+      model: unifiedRequest.model,
+      request: proxilionRequest.body,
+      priority: queueParameters.priority,
+      delayMs: queueParameters.delayMs,
+      timeoutMs: queueParameters.approvalTimeoutMs,
+      execute: async (body) => {
+        const approvedResponse = await requestHandler.handleRequest({ ...proxilionRequest, body });
+        if (approvedResponse.streaming && approvedResponse.body instanceof ReadableStream) {
+          // A reviewer edit turned streaming on
+          await approvedResponse.body.cancel();
+          throw new Error('Approved request was answered with a stream; held requests must not enable streaming');
         }
-      }
+        const processedApprovedResponse = await responseProcessor.process(approvedResponse, { request: unifiedRequest });
+        await recordResponseUsage(ctx, processedApprovedResponse);
+        return processedApprovedResponse.response;
+      },
+    });
+
+    metrics.counter('request.queued', 1, { status: 'awaiting_approval' });
+
+    const resolvedTicket = await approvalManager.waitForResolution(
+      ticket.id,
+      parsePreferWait(c.req.header('prefer'))
+    );
+
+    return approvalTicketResponse(c, resolvedTicket || ticket);
+  }
 
-      message.content = content;
+  // Delayed or rate-shaped execution without review
+  const queued = actionQueue.submit({
+    id: correlationId,
+    userId: unifiedRequest.metadata.userId || 'anonymous',
+    tenantId,
+    parameters: queueParameters,
+    metadata: {
+      policyId: policyDecision.policyId,
+      reason: policyDecision.reason,
+      threatLevel: scanResult.overallThreatLevel,
+    },
+    execute: async () => {
+      const queuedResponse = await requestHandler.handleRequest(proxilionRequest);
+      return await responseProcessor.process(queuedResponse, { request: unifiedRequest });
+    },
+  });
+
+  metrics.counter('request.queued', 1, { status: queued.entry.status });
+
+  const processedQueuedResponse = await queued.result;
+  await recordResponseUsage(ctx, processedQueuedResponse);
+
+  return c.json(
+    processedQueuedResponse.response.body,
+    processedQueuedResponse.response.status as any,
+    {
+      ...processedQueuedResponse.response.headers,
+      'X-Proxilion-Queued': 'true',
+      'X-Queue-Wait-Time': `${Date.now() - queued.entry.submittedAt}ms`,
+    }
+  );
+}
+
+/**
+ * REDIRECT: reroute to a different provider and/or model
+ */
+async function redirectActionResponse(c: Context, ctx: ActionContext): Promise<Response> {
+  const { correlationId, proxilionRequest, unifiedRequest, policyDecision } = ctx;
+
+  const redirect = await requestRedirector.redirect(
+    proxilionRequest,
+    unifiedRequest,
+    policyDecision.parameters as RedirectActionParameters
+  );
+
+  metrics.counter('request.redirected', 1, {
+    from: redirect.sourceProvider,
+    to: redirect.targetProvider,
+  });
+
+  const redirectResponse = await requestHandler.handleRequest(redirect.request);
+
+  if (redirectResponse.streaming && redirectResponse.body instanceof ReadableStream) {
+    const redirectedStream = streamProcessor.processStream(
+      redirectResponse.body as ReadableStream<Uint8Array>,
+      correlationId,
+      streamProcessingOptions(
+        policyDecision,
+        unifiedRequest,
+        proxilionRequest,
+        redirect.targetProvider as AIServiceProvider,
+        redirect.model
+      )
+    );
+
+    return new Response(redirectedStream, {
+      status: redirectResponse.status,
+      headers: {
+        ...redirectResponse.headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Proxilion-Streaming': 'true',
+        'X-Proxilion-Redirected': `${redirect.targetProvider}/${redirect.model}`,
+      },
+    });
+  }
+
+  const processedRedirectResponse = await responseProcessor.process(
+    await requestRedirector.restoreResponse(redirect, redirectResponse),
+    { request: unifiedRequest }
+  );
+  // Charged at the price of the provider and model that served the request
+  await recordResponseUsage(ctx, processedRedirectResponse, redirect.targetProvider as AIServiceProvider, redirect.model);
+
+  return c.json(
+    processedRedirectResponse.response.body,
+    processedRedirectResponse.response.status as any,
+    {
+      ...processedRedirectResponse.response.headers,
+      'X-Proxilion-Redirected': `${redirect.targetProvider}/${redirect.model}`,
+    }
+  );
+}
+
+// Headers that carry credentials are never copied into request metadata
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'cookie',
+]);
+
+/**
+ * Attach caller context to the unified request so policy conditions
+ * (user, tenant, department, header) can match on it
+ */
+function attachRequestContext(
+  request: UnifiedAIRequest,
+  proxilionRequest: ProxilionRequest,
+  context: { userId?: string; tenantId?: string; department?: string }
+): void {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(proxilionRequest.headers)) {
+    if (!CREDENTIAL_HEADERS.has(name.toLowerCase())) {
+      headers[name.toLowerCase()] = value;
     }
   }
 
-  return redactedRequest;
+  // Caller-supplied values (request body, headers) never override the authenticated identity
+  request.metadata.userId = context.userId || request.metadata.userId;
+  request.metadata.tenantId = context.tenantId || request.metadata.tenantId;
+  request.metadata.department = context.department;
+  request.metadata.headers = headers;
+}
+
+/**
+ * Department from a verified source: a token claim, or the metadata an
+ * administrator registered for the API key. Identity headers and cookies are
+ * client-controlled and cannot satisfy department conditions.
+ */
+function authenticatedDepartment(authContext: AuthContext, identity: UserIdentity): string | undefined {
+  const claim = authContext.metadata?.department;
+  if (typeof claim === 'string' && claim) {
+    return claim;
+  }
+  return identity.source === 'api-key' ? identity.teamId : undefined;
+}
+
+/**
+ * Compact view of shadow policy decisions for logs and audit events
+ */
+function summarizeShadowDecisions(
+  decision: PolicyDecision
+): Array<{ policyId: string; action: PolicyAction }> | undefined {
+  return decision.shadowDecisions?.map((d) => ({ policyId: d.policyId, action: d.action }));
+}
+
+/**
+ * Cost of a response's tokens, with a budget alert for every limit that
+ * reaches its alert threshold
+ */
+async function trackTokenCost(params: {
+  correlationId: string;
+  provider: AIServiceProvider;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  userId?: string;
+  tenantId?: string;
+  sourceIp?: string;
+  targetService?: string;
+  duration?: number;
+}): Promise<CostEntry> {
+  const entry = costTracker.trackCost({
+    provider: params.provider,
+    model: params.model,
+    inputTokens: params.inputTokens,
+    outputTokens: params.outputTokens,
+    userId: params.userId,
+    tenantId: params.tenantId,
+    requestId: params.correlationId,
+    cached: false,
+  });
+
+  const budgetStatuses = costTracker.checkBudgetLimits(params.userId, params.tenantId);
+  for (const status of budgetStatuses) {
+    if (status.alertTriggered) {
+      const budgetAlertEvent: AuditEvent = {
+        id: `${params.correlationId}-budget`,
+        requestId: params.correlationId,
+        timestamp: Date.now(),
+        level: LogLevel.WARN,
+        type: 'budget.alert',
+        message: `Budget alert: ${status.percentage.toFixed(1)}% of limit reached`,
+        correlationId: params.correlationId,
+        eventType: 'budget.alert',
+        action: 'alert',
+        decision: PolicyAction.ALERT,
+        threatLevel: ThreatLevel.MEDIUM,
+        userId: params.userId,
+        sourceIp: params.sourceIp,
+        provider: params.provider,
+        model: params.model,
+        duration: params.duration,
+        findings: [{
+          type: 'budget',
+          severity: ThreatLevel.MEDIUM,
+          message: `Budget alert: ${status.percentage.toFixed(1)}% of limit reached`,
+          location: { path: 'cost_tracker' },
+          confidence: 1.0,
+        }],
+        policyId: 'budget-limit',
+        targetService: params.targetService,
+      };
+      await alertManager.alert(budgetAlertEvent);
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Charge the tokens a non-streaming response reported to the user and tenant,
+ * as the ALLOW path does, so policy actions do not bypass budgets
+ */
+async function recordResponseUsage(
+  ctx: ActionContext,
+  processed: ProcessedResponse,
+  provider: AIServiceProvider = ctx.unifiedRequest.provider,
+  model: string = ctx.unifiedRequest.model
+): Promise<void> {
+  const inputTokens = processed.decoded?.usage?.promptTokens || 0;
+  const outputTokens = processed.decoded?.usage?.completionTokens || 0;
+
+  const costEntry = inputTokens > 0 || outputTokens > 0
+    ? await trackTokenCost({
+      correlationId: ctx.correlationId,
+      provider,
+      model,
+      inputTokens,
+      outputTokens,
+      userId: ctx.unifiedRequest.metadata.userId,
+      tenantId: ctx.tenantId,
+      sourceIp: ctx.proxilionRequest.sourceIp,
+      targetService: new URL(ctx.proxilionRequest.url).hostname,
+    })
+    : undefined;
+
+  if (ctx.tenantId) {
+    tenantManager.recordUsage({
+      tenantId: ctx.tenantId,
+      requests: 1,
+      tokens: inputTokens + outputTokens,
+      cost: costEntry?.totalCost || 0,
+      cacheHit: false,
+    });
+  }
+}
+
+/**
+ * Stream processing for a forwarded request: the policy's terminateStreamOn
+ * (or STREAM_TERMINATE_ON) stops the stream at findings of that level, and
+ * the stop is audited with the transcript the client received. Once the
+ * stream ends its tokens are charged to the user and tenant; counts the
+ * provider did not report are estimated from the request and streamed text.
+ */
+function streamProcessingOptions(
+  decision: PolicyDecision,
+  request: UnifiedAIRequest,
+  proxilionRequest: ProxilionRequest,
+  provider: AIServiceProvider = request.provider,
+  model: string = request.model
+): StreamProcessingOptions {
+  return {
+    provider,
+    terminateOn: (decision.parameters?.terminateStreamOn as ThreatLevel | undefined) || STREAM_TERMINATE_ON,
+    tokenVault,
+    onTerminate: async (termination) => {
+      const terminatedEvent: AuditEvent = {
+        id: `${termination.correlationId}-stream-terminated`,
+        requestId: termination.correlationId,
+        timestamp: Date.now(),
+        level: LogLevel.WARN,
+        type: 'stream.terminated',
+        message: termination.reason,
+        correlationId: termination.correlationId,
+        eventType: 'stream.terminated',
+        action: 'terminate',
+        decision: PolicyAction.BLOCK,
+        threatLevel: termination.threatLevel,
+        userId: request.metadata.userId,
+        sourceIp: proxilionRequest.sourceIp,
+        provider: termination.provider,
+        model: request.model,
+        policyId: decision.policyId,
+        data: { findingType: termination.findingType, transcript: termination.transcript },
+      };
+      await siemForwarder.forward(terminatedEvent);
+      await webhookManager.trigger(terminatedEvent);
+    },
+    onComplete: async (completion) => {
+      const inputTokens =
+        completion.usage.inputTokens ?? estimateTokens(textExtractionCache.get(request).fullText);
+      const outputTokens = completion.usage.outputTokens ?? completion.estimatedOutputTokens;
+      const { tenantId, userId } = request.metadata;
+
+      const entry = await trackTokenCost({
+        correlationId: completion.correlationId,
+        provider,
+        model,
+        inputTokens,
+        outputTokens,
+        userId,
+        tenantId,
+        sourceIp: proxilionRequest.sourceIp,
+        targetService: new URL(proxilionRequest.url).hostname,
+        duration: completion.duration,
+      });
+
+      if (tenantId) {
+        tenantManager.recordUsage({
+          tenantId,
+          requests: 1,
+          tokens: inputTokens + outputTokens,
+          cost: entry.totalCost,
+          cacheHit: false,
+        });
+      }
+
+      logger.info('Stream usage recorded', {
+        correlationId: completion.correlationId,
+        outcome: completion.outcome,
+        inputTokens,
+        outputTokens,
+        estimated: completion.usage.inputTokens === undefined || completion.usage.outputTokens === undefined,
+        cost: entry.totalCost,
+      });
+    },
+  };
 }
 
 // ============================================================================
@@ -1382,6 +2069,8 @@ app.all('*', async (c) => {
     'generativelanguage.googleapis.com',
     'api.cohere.ai',
     'api.cohere.com',
+    '.openai.azure.com',
+    'bedrock-runtime.',
     // Browser-based UIs
     'chat.openai.com',
     'chatgpt.com',
@@ -1412,9 +2101,9 @@ app.all('*', async (c) => {
   const startTime = Date.now();
 
   try {
-    // Build target URL from Host header and path
+    // Build target URL from Host header, path and query
     const protocol = c.req.header('x-forwarded-proto') || 'https';
-    const targetUrl = `${protocol}://${host}${path}`;
+    const targetUrl = `${protocol}://${host}${path}${new URL(c.req.url).search}`;
 
     // Build Proxilion request
     const proxilionRequest: ProxilionRequest = {
@@ -1436,7 +2125,10 @@ app.all('*', async (c) => {
     });
 
     // Step 0: Authentication (optional in transparent mode - can be disabled via config)
-    const authContext = await authProvider.authenticate(proxilionRequest.headers);
+    const authContext = await authProvider.authenticate(proxilionRequest.headers, {
+      path: c.req.path,
+      tenantId: c.req.header('x-tenant-id'),
+    });
     if (!authContext.authenticated) {
       logger.warn('Authentication failed in transparent mode', { correlationId });
       // In transparent mode, we might want to allow unauthenticated requests
@@ -1473,8 +2165,9 @@ app.all('*', async (c) => {
       });
     }
 
-    // Step 0.5: Tenant validation (if tenantId provided)
-    const tenantId = authContext.tenantId || c.req.header('x-tenant-id');
+    // Step 0.5: Tenant validation (if the credential carries a tenant)
+    // The caller-chosen x-tenant-id header only selects the auth chain; policies, scanners and budgets follow the credential
+    const tenantId = authContext.tenantId;
     if (tenantId) {
       const tenant = tenantManager.getTenant(tenantId);
       if (!tenant) {
@@ -1517,6 +2210,14 @@ app.all('*', async (c) => {
       model: unifiedRequest.model,
     });
 
+    // Parsers mint their own ID; use the one returned to the client and sent to audit/SIEM
+    unifiedRequest.metadata.correlationId = correlationId;
+    attachRequestContext(unifiedRequest, proxilionRequest, {
+      userId: authContext.userId || userIdentity.userId,
+      tenantId,
+      department: authenticatedDepartment(authContext, userIdentity),
+    });
+
     // Step 2: Check rate limits
     const userId = authContext.userId || proxilionRequest.sourceIp || 'anonymous';
     const rateLimitResult = await rateLimiter.checkLimit(userId);
@@ -1568,6 +2269,7 @@ app.all('*', async (c) => {
       correlationId,
       action: policyDecision.action,
       reason: policyDecision.reason,
+      shadowDecisions: summarizeShadowDecisions(policyDecision),
     });
 
     // Step 5.5: Track user analytics (transparent mode)
@@ -1612,7 +2314,24 @@ app.all('*', async (c) => {
     }
 
     // Step 6: Execute action based on policy decision
+    const actionContext: ActionContext = {
+      correlationId,
+      tenantId,
+      proxilionRequest,
+      unifiedRequest,
+      scanResult,
+      policyDecision,
+    };
+
     switch (policyDecision.action) {
+      case PolicyAction.ALERT:
+        // Log the alert, then forward exactly like ALLOW (stream scanning, response processing, usage)
+        logger.warn('Security alert triggered', {
+          correlationId,
+          reason: policyDecision.reason,
+        });
+        // falls through
+
       case PolicyAction.ALLOW:
         // Forward request to AI service
         const response = await requestDeduplicator.execute(unifiedRequest, async () => {
@@ -1627,7 +2346,8 @@ app.all('*', async (c) => {
           // Process stream with security scanning
           const processedStream = streamProcessor.processStream(
             response.body as ReadableStream<Uint8Array>,
-            correlationId
+            correlationId,
+            streamProcessingOptions(policyDecision, unifiedRequest, proxilionRequest)
           );
 
           // Return streaming response
@@ -1644,35 +2364,42 @@ app.all('*', async (c) => {
         }
 
         // Non-streaming response - process normally
-        const processedResponse = await responseProcessor.process(response);
+        const processedResponse = await responseProcessor.process(response, { request: unifiedRequest });
 
-        // Cache the response if applicable
-        if (processedResponse.response.status === 200) {
+        // Cache the response if applicable; alerted requests are not cached so repeats are alerted again
+        if (processedResponse.response.status === 200 && policyDecision.action === PolicyAction.ALLOW) {
           await cacheManager.set(unifiedRequest, processedResponse.response);
         }
 
-        // Track cost - extract tokens from response body
-        try {
-          const responseBody = typeof processedResponse.response.body === 'string'
-            ? JSON.parse(processedResponse.response.body)
-            : processedResponse.response.body;
-
-          const inputTokens = responseBody?.usage?.prompt_tokens || 0;
-          const outputTokens = responseBody?.usage?.completion_tokens || 0;
-
-          if (inputTokens || outputTokens) {
-            costTracker.trackCost({
-              provider: unifiedRequest.provider,
-              model: unifiedRequest.model,
-              inputTokens,
-              outputTokens,
-              requestId: correlationId,
-              userId: authContext.userId,
-              tenantId,
-            });
-          }
-        } catch (error) {
-          // Ignore cost tracking errors
+        const duration = Date.now() - startTime;
+
+        // Track cost from the provider's reported usage
+        const inputTokens = processedResponse.decoded?.usage?.promptTokens || 0;
+        const outputTokens = processedResponse.decoded?.usage?.completionTokens || 0;
+
+        const costEntry = inputTokens > 0 || outputTokens > 0
+          ? await trackTokenCost({
+            correlationId,
+            provider: unifiedRequest.provider,
+            model: unifiedRequest.model,
+            inputTokens,
+            outputTokens,
+            userId: authContext.userId,
+            tenantId,
+            sourceIp: proxilionRequest.sourceIp,
+            targetService: new URL(proxilionRequest.url).hostname,
+            duration,
+          })
+          : undefined;
+
+        if (tenantId) {
+          tenantManager.recordUsage({
+            tenantId,
+            requests: 1,
+            tokens: inputTokens + outputTokens,
+            cost: costEntry?.totalCost || 0,
+            cacheHit: false,
+          });
         }
 
         // Send to SIEM
@@ -1692,7 +2419,12 @@ app.all('*', async (c) => {
           sourceIp: proxilionRequest.sourceIp,
           provider: unifiedRequest.provider,
           model: unifiedRequest.model,
-          duration: Date.now() - startTime,
+          duration,
+          data: {
+            finishReason: processedResponse.decoded?.finishReason,
+            usage: processedResponse.decoded?.usage,
+            responseThreatLevel: processedResponse.responseScan?.threatLevel,
+          },
         };
         await siemForwarder.forward(completedEvent);
 
@@ -1744,24 +2476,14 @@ app.all('*', async (c) => {
           403
         );
 
-      case PolicyAction.ALERT:
-        // Log alert and allow
-        logger.warn('Security alert triggered', {
-          correlationId,
-          reason: policyDecision.reason,
-        });
-
-        const alertResponse = await requestDeduplicator.execute(unifiedRequest, async () => {
-          return await requestHandler.handleRequest(proxilionRequest);
-        });
+      case PolicyAction.MODIFY:
+        return await modifyActionResponse(c, actionContext);
 
-        const processedAlertResponse = await responseProcessor.process(alertResponse);
+      case PolicyAction.QUEUE:
+        return await queueActionResponse(c, actionContext);
 
-        return c.json(
-          processedAlertResponse.response.body,
-          processedAlertResponse.response.status as any,
-          processedAlertResponse.response.headers
-        );
+      case PolicyAction.REDIRECT:
+        return await redirectActionResponse(c, actionContext);
 
       default:
         throw new Error(`Unknown policy action: ${policyDecision.action}`);
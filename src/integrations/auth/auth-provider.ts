@@ -3,23 +3,37 @@
  * 
  * Supports multiple authentication methods:
  * - API Key
- * - JWT (JSON Web Token)
- * - OAuth 2.0
+ * - JWT (JSON Web Token): HS256 with a shared secret, RS256/ES256 with a JWKS
+ * - OAuth 2.0 (RFC 7662 token introspection)
  * - Basic Auth
  * - Custom headers
+ *
+ * Methods can be chained: they are tried in order and the first one that
+ * authenticates the request wins. The chain can differ per route or tenant.
  */
 
 import { Logger } from '../../utils/logger.js';
 import { MetricsCollector } from '../../utils/metrics.js';
 import crypto from 'crypto';
+import { JwksClient } from './jwks-client.js';
 
 export type AuthMethod = 'API_KEY' | 'JWT' | 'OAUTH' | 'BASIC' | 'CUSTOM';
 
 export interface AuthConfig {
   method: AuthMethod;
+  methods?: AuthMethod[]; // Ordered chain; overrides method when set
+  routeMethods?: Record<string, AuthMethod[]>; // Chains by path prefix, longest prefix wins
+  tenantMethods?: Record<string, AuthMethod[]>; // Chains by tenant; take precedence over routes and require credentials carrying the tenant
   apiKeys?: string[];
   jwtSecret?: string;
   jwtIssuer?: string;
+  jwtAudience?: string | string[]; // Tokens must name at least one of these audiences
+  jwtAlgorithms?: JWTAlgorithm[]; // Accepted algorithms; defaults to those the configured keys support
+  jwksUri?: string; // HTTP(S) URL, file:// URL or local path of a JWKS document
+  jwksCacheTtlMs?: number;
+  clockSkewSeconds?: number; // Tolerance for exp/nbf/iat checks (default 60)
+  rolesClaim?: string; // Claim holding roles (default 'roles')
+  tenantClaim?: string; // Claim holding the tenant ID (default 'tenant', then 'tenant_id')
   oauthEndpoint?: string;
   oauthClientId?: string;
   oauthClientSecret?: string;
@@ -27,6 +41,11 @@ export interface AuthConfig {
   customValidator?: (value: string) => Promise<boolean>;
 }
 
+export interface AuthRequestOptions {
+  path?: string;
+  tenantId?: string; // Tenant hint from the request, used only to select the chain
+}
+
 export interface AuthContext {
   authenticated: boolean;
   method: AuthMethod;
@@ -37,10 +56,14 @@ export interface AuthContext {
   metadata?: Record<string, any>;
 }
 
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
 export interface JWTPayload {
   sub: string;
   iss?: string;
+  aud?: string | string[];
   exp?: number;
+  nbf?: number;
   iat?: number;
   roles?: string[];
   permissions?: string[];
@@ -52,7 +75,15 @@ export class AuthProvider {
   private config: AuthConfig;
   private logger: Logger;
   private metrics: MetricsCollector;
-  private tokenCache: Map<string, { context: AuthContext; expiry: number }>;
+  private tokenCache: Map<string, { context: AuthContext; expiry: number }>; // Keyed by method and token
+  private jwksClient?: JwksClient;
+
+  // Hash, key type and signature encoding per JWS algorithm
+  private static readonly ALGORITHMS: Record<JWTAlgorithm, { hash: string; kty: string; dsaEncoding?: 'ieee-p1363' }> = {
+    HS256: { hash: 'sha256', kty: 'oct' },
+    RS256: { hash: 'sha256', kty: 'RSA' },
+    ES256: { hash: 'sha256', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+  };
 
   constructor(config: AuthConfig) {
     this.config = config;
@@ -60,63 +91,113 @@ export class AuthProvider {
     this.metrics = MetricsCollector.getInstance();
     this.tokenCache = new Map();
 
+    if (config.jwksUri) {
+      this.jwksClient = new JwksClient({ jwksUri: config.jwksUri, cacheTtlMs: config.jwksCacheTtlMs });
+    }
+
     // Start cache cleanup
     setInterval(() => this.cleanupCache(), 60000); // Every minute
   }
 
   /**
-   * Authenticate request
+   * Authenticate request with the chain selected for its route or tenant
    */
-  async authenticate(headers: Record<string, string>): Promise<AuthContext> {
+  async authenticate(headers: Record<string, string>, options: AuthRequestOptions = {}): Promise<AuthContext> {
     const startTime = Date.now();
+    const methods = this.getMethodChain(options);
+    let context: AuthContext = { authenticated: false, method: methods[0] };
+
+    for (const method of methods) {
+      const result = await this.authenticateWith(method, headers);
+      if (result.authenticated) {
+        context = result;
+        break;
+      }
+    }
 
-    try {
-      let context: AuthContext;
+    // The tenant hint is client-supplied; a tenant's chain must not let callers
+    // from elsewhere swap a route's chain for a weaker one
+    if (context.authenticated && this.getTenantChain(options) && context.tenantId !== options.tenantId) {
+      this.metrics.increment('auth_tenant_mismatch_total');
+      this.logger.warn('Credentials do not belong to the tenant whose chain was selected', {
+        tenantId: options.tenantId,
+        method: context.method,
+      });
+      context = { authenticated: false, method: context.method };
+    }
+
+    const duration = Date.now() - startTime;
+    this.metrics.histogram('auth_duration_ms', duration);
 
-      switch (this.config.method) {
+    if (context.authenticated) {
+      this.metrics.increment('auth_success_total');
+      this.metrics.increment('auth_method_success_total', 1, { method: context.method });
+      this.logger.debug('Authentication successful', {
+        method: context.method,
+        userId: context.userId,
+      });
+    } else {
+      this.metrics.increment('auth_failed_total');
+      this.logger.warn('Authentication failed', {
+        methods,
+      });
+    }
+
+    return context;
+  }
+
+  /**
+   * Ordered methods for a request: tenant chain, else route chain, else the default chain
+   */
+  getMethodChain(options: AuthRequestOptions = {}): AuthMethod[] {
+    const tenantChain = this.getTenantChain(options);
+    if (tenantChain) {
+      return tenantChain;
+    }
+
+    if (options.path && this.config.routeMethods) {
+      const prefix = Object.keys(this.config.routeMethods)
+        .filter((p) => options.path!.startsWith(p))
+        .sort((a, b) => b.length - a.length)[0];
+      if (prefix && this.config.routeMethods[prefix].length) {
+        return this.config.routeMethods[prefix];
+      }
+    }
+
+    return this.config.methods?.length ? this.config.methods : [this.config.method];
+  }
+
+  private getTenantChain(options: AuthRequestOptions): AuthMethod[] | undefined {
+    const tenantChain = options.tenantId ? this.config.tenantMethods?.[options.tenantId] : undefined;
+    return tenantChain?.length ? tenantChain : undefined;
+  }
+
+  /**
+   * Run a single authentication method; errors count as a failed attempt
+   */
+  private async authenticateWith(method: AuthMethod, headers: Record<string, string>): Promise<AuthContext> {
+    try {
+      switch (method) {
         case 'API_KEY':
-          context = await this.authenticateApiKey(headers);
-          break;
+          return await this.authenticateApiKey(headers);
         case 'JWT':
-          context = await this.authenticateJWT(headers);
-          break;
+          return await this.authenticateJWT(headers);
         case 'OAUTH':
-          context = await this.authenticateOAuth(headers);
-          break;
+          return await this.authenticateOAuth(headers);
         case 'BASIC':
-          context = await this.authenticateBasic(headers);
-          break;
+          return await this.authenticateBasic(headers);
         case 'CUSTOM':
-          context = await this.authenticateCustom(headers);
-          break;
+          return await this.authenticateCustom(headers);
         default:
-          throw new Error(`Unsupported auth method: ${this.config.method}`);
+          throw new Error(`Unsupported auth method: ${method}`);
       }
-
-      const duration = Date.now() - startTime;
-      this.metrics.histogram('auth_duration_ms', duration);
-
-      if (context.authenticated) {
-        this.metrics.increment('auth_success_total');
-        this.logger.debug('Authentication successful', {
-          method: this.config.method,
-          userId: context.userId,
-        });
-      } else {
-        this.metrics.increment('auth_failed_total');
-        this.logger.warn('Authentication failed', {
-          method: this.config.method,
-        });
-      }
-
-      return context;
     } catch (error) {
-      this.metrics.increment('auth_error_total');
-      this.logger.error('Authentication error', error as Error);
+      this.metrics.increment('auth_error_total', 1, { method });
+      this.logger.error('Authentication error', error as Error, { method });
 
       return {
         authenticated: false,
-        method: this.config.method,
+        method,
       };
     }
   }
@@ -168,21 +249,17 @@ export class AuthProvider {
     const token = authHeader.substring(7);
 
     // Check cache first
-    const cached = this.tokenCache.get(token);
+    const cached = this.tokenCache.get(this.cacheKey('JWT', token));
     if (cached && cached.expiry > Date.now()) {
       return cached.context;
     }
 
     try {
       const payload = await this.verifyJWT(token);
+      const claimError = this.validateClaims(payload);
 
-      // Check expiration
-      if (payload.exp && payload.exp * 1000 < Date.now()) {
-        return { authenticated: false, method: 'JWT' };
-      }
-
-      // Check issuer
-      if (this.config.jwtIssuer && payload.iss !== this.config.jwtIssuer) {
+      if (claimError) {
+        this.logger.warn('JWT rejected', { reason: claimError });
         return { authenticated: false, method: 'JWT' };
       }
 
@@ -190,15 +267,15 @@ export class AuthProvider {
         authenticated: true,
         method: 'JWT',
         userId: payload.sub,
-        tenantId: payload.tenant,
-        roles: payload.roles || [],
+        tenantId: this.extractTenant(payload),
+        roles: this.extractRoles(payload),
         permissions: payload.permissions || [],
         metadata: payload,
       };
 
       // Cache the result
       const expiry = payload.exp ? payload.exp * 1000 : Date.now() + 3600000; // 1 hour default
-      this.tokenCache.set(token, { context, expiry });
+      this.tokenCache.set(this.cacheKey('JWT', token), { context, expiry });
 
       return context;
     } catch (error) {
@@ -210,7 +287,8 @@ export class AuthProvider {
   }
 
   /**
-   * Verify JWT token (simplified - in production use a proper JWT library)
+   * Verify a JWT signature and decode its payload.
+   * HS256 uses the shared secret; RS256/ES256 use the JWKS key named by the token's kid.
    */
   private async verifyJWT(token: string): Promise<JWTPayload> {
     const parts = token.split('.');
@@ -219,23 +297,95 @@ export class AuthProvider {
     }
 
     const [headerB64, payloadB64, signatureB64] = parts;
+    const header = JSON.parse(Buffer.from(headerB64, 'base64url').toString('utf-8'));
+    const alg = header.alg as JWTAlgorithm;
+
+    if (!this.getAllowedAlgorithms().includes(alg)) {
+      throw new Error(`JWT algorithm not allowed: ${header.alg}`);
+    }
+
+    const { hash, kty, dsaEncoding } = AuthProvider.ALGORITHMS[alg];
+    const data = Buffer.from(`${headerB64}.${payloadB64}`);
+    const signature = Buffer.from(signatureB64, 'base64url');
+    let valid: boolean;
+
+    if (alg === 'HS256') {
+      const expected = crypto.createHmac(hash, this.config.jwtSecret!).update(data).digest();
+      valid = expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+    } else {
+      const signingKey = await this.jwksClient!.getSigningKey(header.kid, kty);
+      if (signingKey.alg && signingKey.alg !== alg) {
+        throw new Error(`JWKS key ${header.kid} is not usable with ${alg}`);
+      }
+      valid = crypto.verify(hash, data, { key: signingKey.key, dsaEncoding }, signature);
+    }
+
+    if (!valid) {
+      throw new Error('Invalid JWT signature');
+    }
+
+    return JSON.parse(Buffer.from(payloadB64, 'base64url').toString('utf-8'));
+  }
+
+  /**
+   * Configured algorithms, limited to those with key material.
+   * Unsigned tokens are never accepted.
+   */
+  private getAllowedAlgorithms(): JWTAlgorithm[] {
+    const available: JWTAlgorithm[] = [];
+    if (this.config.jwtSecret) available.push('HS256');
+    if (this.jwksClient) available.push('RS256', 'ES256');
+
+    return this.config.jwtAlgorithms
+      ? this.config.jwtAlgorithms.filter((alg) => available.includes(alg))
+      : available;
+  }
+
+  /**
+   * Check time, issuer and audience claims; returns the reason for rejection, if any
+   */
+  private validateClaims(payload: Partial<JWTPayload>): string | undefined {
+    const now = Date.now() / 1000;
+    const skew = this.config.clockSkewSeconds ?? 60;
 
-    // Verify signature
-    if (this.config.jwtSecret) {
-      const data = `${headerB64}.${payloadB64}`;
-      const expectedSignature = crypto
-        .createHmac('sha256', this.config.jwtSecret)
-        .update(data)
-        .digest('base64url');
+    if (payload.exp !== undefined && payload.exp + skew < now) {
+      return 'Token expired';
+    }
+
+    if (payload.nbf !== undefined && payload.nbf - skew > now) {
+      return 'Token not yet valid';
+    }
+
+    if (payload.iat !== undefined && payload.iat - skew > now) {
+      return 'Token issued in the future';
+    }
 
-      if (signatureB64 !== expectedSignature) {
-        throw new Error('Invalid JWT signature');
+    if (this.config.jwtIssuer && payload.iss !== this.config.jwtIssuer) {
+      return 'Issuer mismatch';
+    }
+
+    if (this.config.jwtAudience) {
+      const expected = ([] as string[]).concat(this.config.jwtAudience);
+      const actual = ([] as string[]).concat(payload.aud ?? []);
+      if (!actual.some((aud) => expected.includes(aud))) {
+        return 'Audience mismatch';
       }
     }
 
-    // Decode payload
-    const payloadJson = Buffer.from(payloadB64, 'base64url').toString('utf-8');
-    return JSON.parse(payloadJson);
+    return undefined;
+  }
+
+  private extractRoles(claims: Record<string, any>): string[] {
+    const roles = claims[this.config.rolesClaim || 'roles'];
+    if (Array.isArray(roles)) return roles.map(String);
+    return typeof roles === 'string' ? roles.split(/[\s,]+/).filter(Boolean) : [];
+  }
+
+  private extractTenant(claims: Record<string, any>): string | undefined {
+    const tenant = this.config.tenantClaim
+      ? claims[this.config.tenantClaim]
+      : claims.tenant ?? claims.tenant_id;
+    return tenant !== undefined ? String(tenant) : undefined;
   }
 
   /**
@@ -251,20 +401,22 @@ export class AuthProvider {
     const token = authHeader.substring(7);
 
     // Check cache first
-    const cached = this.tokenCache.get(token);
+    const cached = this.tokenCache.get(this.cacheKey('OAUTH', token));
     if (cached && cached.expiry > Date.now()) {
       return cached.context;
     }
 
     try {
-      // Validate token with OAuth provider
+      // RFC 7662 token introspection
       const response = await fetch(this.config.oauthEndpoint!, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
         },
         body: new URLSearchParams({
           token,
+          token_type_hint: 'access_token',
           client_id: this.config.oauthClientId!,
           client_secret: this.config.oauthClientSecret!,
         }),
@@ -280,18 +432,25 @@ export class AuthProvider {
         return { authenticated: false, method: 'OAUTH' };
       }
 
+      const claimError = this.validateClaims(data);
+      if (claimError) {
+        this.logger.warn('Introspected token rejected', { reason: claimError });
+        return { authenticated: false, method: 'OAUTH' };
+      }
+
       const context: AuthContext = {
         authenticated: true,
         method: 'OAUTH',
         userId: data.sub || data.username,
-        roles: data.roles || [],
-        permissions: data.scope?.split(' ') || [],
+        tenantId: this.extractTenant(data),
+        roles: this.extractRoles(data),
+        permissions: typeof data.scope === 'string' ? data.scope.split(' ').filter(Boolean) : [],
         metadata: data as Record<string, any>,
       };
 
       // Cache the result
       const expiry = data.exp ? data.exp * 1000 : Date.now() + 3600000;
-      this.tokenCache.set(token, { context, expiry });
+      this.tokenCache.set(this.cacheKey('OAUTH', token), { context, expiry });
 
       return context;
     } catch (error) {
@@ -364,6 +523,13 @@ export class AuthProvider {
     return crypto.createHash('sha256').update(apiKey).digest('hex').substring(0, 16);
   }
 
+  /**
+   * A token accepted by one method must not authenticate a chain without that method
+   */
+  private cacheKey(method: AuthMethod, token: string): string {
+    return `${method}:${token}`;
+  }
+
   /**
    * Cleanup expired cache entries
    */
@@ -371,9 +537,9 @@ export class AuthProvider {
     const now = Date.now();
     let removed = 0;
 
-    for (const [token, cached] of this.tokenCache.entries()) {
+    for (const [key, cached] of this.tokenCache.entries()) {
       if (cached.expiry <= now) {
-        this.tokenCache.delete(token);
+        this.tokenCache.delete(key);
         removed++;
       }
     }
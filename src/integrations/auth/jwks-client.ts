@@ -0,0 +1,150 @@
+/**
+ * JWKS Client
+ *
+ * Resolves JWT signing keys from a JSON Web Key Set:
+ * - Fetched over HTTP(S), or read from a local file (file:// URL or path) for testing
+ * - Cached for a configurable TTL
+ * - Re-fetched when a token names an unknown key ID, so key rotation
+ *   needs no restart (rate limited to avoid refetch storms)
+ */
+
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { Logger } from '../../utils/logger.js';
+import { MetricsCollector } from '../../utils/metrics.js';
+
+export interface JsonWebKey {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+export interface JwksClientConfig {
+  jwksUri: string;
+  cacheTtlMs?: number;
+  minRefreshIntervalMs?: number; // Minimum time between refetches for unknown key IDs
+}
+
+interface CachedKey {
+  jwk: JsonWebKey;
+  key: crypto.KeyObject;
+}
+
+export class JwksClient {
+  private config: Required<JwksClientConfig>;
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private keys: CachedKey[] = [];
+  private fetchedAt = 0;
+  private pending?: Promise<void>;
+
+  constructor(config: JwksClientConfig) {
+    this.config = {
+      cacheTtlMs: 600000, // 10 minutes
+      minRefreshIntervalMs: 30000,
+      ...config,
+    };
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+  }
+
+  /**
+   * Public key for a token's key ID and key type.
+   * Without a key ID the set must hold exactly one key of that type.
+   */
+  async getSigningKey(kid: string | undefined, kty: string): Promise<{ key: crypto.KeyObject; alg?: string }> {
+    if (Date.now() - this.fetchedAt > this.config.cacheTtlMs) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        // Keep serving the last known keys while the issuer is unreachable
+        if (this.keys.length === 0) throw error;
+        this.logger.warn('JWKS refresh failed, using cached keys', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    let match = this.findKey(kid, kty);
+
+    // Unknown key ID: the issuer may have rotated keys since the last fetch
+    if (!match && kid && Date.now() - this.fetchedAt > this.config.minRefreshIntervalMs) {
+      await this.refresh();
+      match = this.findKey(kid, kty);
+    }
+
+    if (!match) {
+      throw new Error(kid ? `No signing key found for kid: ${kid}` : `No unique ${kty} signing key found`);
+    }
+
+    return { key: match.key, alg: match.jwk.alg };
+  }
+
+  /**
+   * Fetch the key set now; concurrent callers share one fetch
+   */
+  async refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  getKeyCount(): number {
+    return this.keys.length;
+  }
+
+  private findKey(kid: string | undefined, kty: string): CachedKey | undefined {
+    if (kid) {
+      return this.keys.find((k) => k.jwk.kid === kid && k.jwk.kty === kty);
+    }
+
+    const candidates = this.keys.filter((k) => k.jwk.kty === kty);
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private async load(): Promise<void> {
+    const document = await this.fetchDocument();
+    const keys: CachedKey[] = [];
+
+    for (const jwk of document.keys || []) {
+      // Skip encryption keys and anything Node cannot import
+      if (jwk.use && jwk.use !== 'sig') continue;
+
+      try {
+        keys.push({ jwk, key: crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' }) });
+      } catch (error) {
+        this.logger.warn('Skipping unusable JWKS key', {
+          kid: jwk.kid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    this.metrics.increment('auth_jwks_refresh_total');
+    this.logger.debug('JWKS refreshed', { jwksUri: this.config.jwksUri, keyCount: keys.length });
+  }
+
+  private async fetchDocument(): Promise<{ keys?: JsonWebKey[] }> {
+    const uri = this.config.jwksUri;
+
+    if (!/^https?:\/\//.test(uri)) {
+      const filePath = uri.startsWith('file://') ? fileURLToPath(uri) : uri;
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    }
+
+    const response = await fetch(uri, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`JWKS fetch failed: ${response.status}`);
+    }
+
+    return (await response.json()) as { keys?: JsonWebKey[] };
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Text Classifier
+ *
+ * Runs a small feedforward classifier exported to JSON entirely on the CPU,
+ * with no network access and no native runtime.
+ *
+ * Model file format:
+ * - features: hashed word and character n-grams (L2 normalized)
+ * - layers: dense layers, applied in order ([output][input] weights)
+ * - output: softmax (single label) or sigmoid (multi-label)
+ * - calibration: optional temperature scaling and per-label Platt scaling,
+ *   so probabilities can be used directly as confidence values
+ *
+ * See docs/ML_CLASSIFIER.md for training a model and exporting it to this format.
+ */
+
+import * as fs from 'fs/promises';
+import { Logger } from '../utils/logger.js';
+
+export interface FeatureConfig {
+  dimensions: number;
+  wordNgrams?: [number, number]; // Inclusive range (default [1, 2])
+  charNgrams?: [number, number]; // Inclusive range (default [3, 5]); [0, 0] disables
+  lowercase?: boolean; // Default true
+}
+
+export interface DenseLayer {
+  weights: number[][];
+  biases: number[];
+  activation?: 'relu' | 'tanh' | 'linear'; // Default linear
+}
+
+export interface TextClassifierModel {
+  version: 1;
+  labels: string[];
+  features: FeatureConfig;
+  layers: DenseLayer[];
+  output: 'softmax' | 'sigmoid';
+  calibration?: {
+    temperature?: number;
+    platt?: Record<string, { a: number; b: number }>; // p = 1 / (1 + exp(a * logit + b))
+  };
+  maxInputLength?: number; // Characters; longer text is truncated (default 10000)
+}
+
+export interface LabelPrediction {
+  label: string;
+  probability: number;
+}
+
+export class TextClassifier {
+  private logger: Logger;
+
+  constructor(private model: TextClassifierModel) {
+    this.logger = new Logger();
+    TextClassifier.validate(model);
+  }
+
+  /**
+   * Calibrated probability for every label, highest first
+   */
+  predict(text: string): LabelPrediction[] {
+    const input = text.slice(0, this.model.maxInputLength ?? 10000);
+    let activations = featurize(input, this.model.features);
+
+    for (const layer of this.model.layers) {
+      activations = this.layerForward(activations, layer);
+    }
+
+    const probabilities = this.model.output === 'softmax'
+      ? this.softmax(activations)
+      : activations.map((logit, i) => this.sigmoid(logit, this.model.labels[i]));
+
+    return this.model.labels
+      .map((label, i) => ({ label, probability: probabilities[i] }))
+      .sort((a, b) => b.probability - a.probability);
+  }
+
+  getLabels(): string[] {
+    return [...this.model.labels];
+  }
+
+  toJSON(): string {
+    return JSON.stringify(this.model);
+  }
+
+  static fromJSON(json: string): TextClassifier {
+    return new TextClassifier(JSON.parse(json));
+  }
+
+  static async fromFile(path: string): Promise<TextClassifier> {
+    const classifier = TextClassifier.fromJSON(await fs.readFile(path, 'utf-8'));
+    classifier.logger.info('Loaded text classifier', {
+      path,
+      labels: classifier.model.labels,
+      layers: classifier.model.layers.length,
+    });
+    return classifier;
+  }
+
+  private layerForward(input: number[], layer: DenseLayer): number[] {
+    return layer.weights.map((row, i) => {
+      let sum = layer.biases[i];
+      for (let j = 0; j < row.length; j++) {
+        if (input[j] !== 0) sum += row[j] * input[j];
+      }
+
+      switch (layer.activation) {
+        case 'relu':
+          return Math.max(0, sum);
+        case 'tanh':
+          return Math.tanh(sum);
+        default:
+          return sum;
+      }
+    });
+  }
+
+  private softmax(logits: number[]): number[] {
+    const temperature = this.model.calibration?.temperature ?? 1;
+    const scaled = logits.map((l) => l / temperature);
+    const max = Math.max(...scaled);
+    const exps = scaled.map((l) => Math.exp(l - max));
+    const total = exps.reduce((sum, e) => sum + e, 0);
+    return exps.map((e) => e / total);
+  }
+
+  private sigmoid(logit: number, label: string): number {
+    const platt = this.model.calibration?.platt?.[label];
+    if (platt) {
+      return 1 / (1 + Math.exp(platt.a * logit + platt.b));
+    }
+
+    const temperature = this.model.calibration?.temperature ?? 1;
+    return 1 / (1 + Math.exp(-logit / temperature));
+  }
+
+  private static validate(model: TextClassifierModel): void {
+    if (model.version !== 1) {
+      throw new Error(`Unsupported classifier model version: ${model.version}`);
+    }
+    if (!Array.isArray(model.labels) || model.labels.length === 0) {
+      throw new Error('Classifier model must define labels');
+    }
+    if (!Array.isArray(model.layers) || model.layers.length === 0) {
+      throw new Error('Classifier model must define at least one layer');
+    }
+    if (model.output !== 'softmax' && model.output !== 'sigmoid') {
+      throw new Error(`Unsupported classifier output: ${model.output}`);
+    }
+
+    let inputSize = model.features?.dimensions;
+    if (!Number.isInteger(inputSize) || inputSize <= 0) {
+      throw new Error('Classifier feature dimensions must be a positive integer');
+    }
+
+    model.layers.forEach((layer, index) => {
+      if (layer.weights.length !== layer.biases.length) {
+        throw new Error(`Layer ${index}: weights and biases differ in size`);
+      }
+      if (layer.weights.some((row) => row.length !== inputSize)) {
+        throw new Error(`Layer ${index}: expected ${inputSize} inputs per neuron`);
+      }
+      inputSize = layer.weights.length;
+    });
+
+    if (inputSize !== model.labels.length) {
+      throw new Error(`Output layer has ${inputSize} neurons for ${model.labels.length} labels`);
+    }
+  }
+}
+
+/**
+ * Hashed n-gram feature vector; exported so training tooling and tests
+ * produce exactly the features the classifier sees
+ */
+export function featurize(text: string, config: FeatureConfig): number[] {
+  const vector = new Array<number>(config.dimensions).fill(0);
+  const source = config.lowercase === false ? text : text.toLowerCase();
+  const [minWord, maxWord] = config.wordNgrams ?? [1, 2];
+  const [minChar, maxChar] = config.charNgrams ?? [3, 5];
+
+  const words = source.match(/[\p{L}\p{N}']+/gu) || [];
+  for (let n = minWord; n > 0 && n <= maxWord; n++) {
+    for (let i = 0; i + n <= words.length; i++) {
+      vector[hashFeature(`w:${words.slice(i, i + n).join(' ')}`, config.dimensions)] += 1;
+    }
+  }
+
+  for (const word of words) {
+    const padded = `<${word}>`;
+    for (let n = minChar; n > 0 && n <= maxChar; n++) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        vector[hashFeature(`c:${padded.slice(i, i + n)}`, config.dimensions)] += 1;
+      }
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+// FNV-1a
+function hashFeature(feature: string, dimensions: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % dimensions;
+}
@@ -4,6 +4,7 @@
 
 import {
   UnifiedAIRequest,
+  UnifiedAIResponse,
   AIServiceProvider,
   ProxilionRequest,
   Message,
@@ -29,6 +30,19 @@ interface AnthropicRequest {
   stream?: boolean;
 }
 
+interface AnthropicResponse {
+  id?: string;
+  type?: string;
+  model?: string;
+  content: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }>;
+  stop_reason?: string | null;
+  stop_sequence?: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
 export class AnthropicParser extends BaseParser {
   provider = AIServiceProvider.ANTHROPIC;
 
@@ -88,6 +102,30 @@ export class AnthropicParser extends BaseParser {
     }
   }
 
+  decodeResponse(body: unknown, request: UnifiedAIRequest): UnifiedAIResponse | undefined {
+    const response = body as AnthropicResponse;
+    if (!response || !Array.isArray(response.content) || response.type === 'error') {
+      return undefined;
+    }
+
+    const toolCalls = response.content.filter((block) => block.type === 'tool_use');
+    return {
+      provider: this.provider,
+      model: response.model || request.model,
+      content: response.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text || '')
+        .join('\n'),
+      finishReason: response.stop_reason ?? undefined,
+      usage: this.buildUsage(response.usage?.input_tokens, response.usage?.output_tokens),
+      metadata: {
+        id: response.id,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        stopSequence: response.stop_sequence ?? undefined,
+      },
+    };
+  }
+
   private convertMessages(messages: AnthropicMessage[], system?: string): Message[] {
     const converted: Message[] = [];
 
@@ -121,6 +159,13 @@ export class AnthropicParser extends BaseParser {
               type: 'image' as const,
               imageData: JSON.stringify(part.source),
             };
+          } else if (part.type === 'document') {
+            const source = (part.source || {}) as { type?: string; media_type?: string; data?: string };
+            return {
+              type: 'document' as const,
+              data: JSON.stringify(source),
+              mimeType: source.media_type,
+            };
           }
           return { type: 'text' as const, text: '' };
         });
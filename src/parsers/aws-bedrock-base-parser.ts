@@ -0,0 +1,101 @@
+/**
+ * AWS Bedrock Base Parser
+ * Wrapper for AWSBedrockParser that extends BaseParser
+ */
+
+import { BaseParser, ParserResult } from './base-parser.js';
+import {
+  AWSBedrockParser,
+  BedrockClaudeResponse,
+  BedrockConverseResponse,
+  BedrockTitanResponse,
+} from './aws-bedrock-parser.js';
+import { AIServiceProvider, ProxilionRequest, UnifiedAIRequest, UnifiedAIResponse } from '../types/index.js';
+
+// /model/{modelId}/invoke, /invoke-with-response-stream, /converse or /converse-stream
+const MODEL_PATH = /^\/model\/([^/]+)\/(invoke|invoke-with-response-stream|converse|converse-stream)$/;
+
+// Streaming operations answer with binary application/vnd.amazon.eventstream frames, which
+// StreamProcessor cannot scan or redact; they are rejected rather than forwarded unscanned
+const STREAMING_OPERATIONS = new Set(['invoke-with-response-stream', 'converse-stream']);
+
+export class AWSBedrockBaseParser extends BaseParser {
+  provider: AIServiceProvider = AIServiceProvider.CUSTOM; // Unified requests carry the model family's provider
+  hostPatterns = ['bedrock-runtime.*.amazonaws.com', 'bedrock-runtime-fips.*.amazonaws.com'];
+  private bedrockParser: AWSBedrockParser;
+
+  constructor() {
+    super();
+    this.bedrockParser = new AWSBedrockParser();
+  }
+
+  canParse(request: ProxilionRequest): boolean {
+    return this.extractModelId(request.url) !== undefined;
+  }
+
+  async parse(request: ProxilionRequest): Promise<ParserResult> {
+    try {
+      const modelId = this.extractModelId(request.url);
+      if (!modelId) {
+        return {
+          success: false,
+          error: 'Invalid Bedrock request: no model in path',
+        };
+      }
+
+      const operation = new URL(request.url).pathname.split('/').pop();
+      if (operation && STREAMING_OPERATIONS.has(operation)) {
+        return {
+          success: false,
+          error: `Bedrock ${operation} is not supported; use invoke or converse`,
+        };
+      }
+
+      // Create a Request object from ProxilionRequest
+      const req = new Request(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+      });
+
+      const unifiedRequest = await this.bedrockParser.parseRequest(req, modelId);
+
+      return {
+        success: true,
+        unifiedRequest,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  decodeResponse(body: unknown, request: UnifiedAIRequest): UnifiedAIResponse | undefined {
+    const response = body as Partial<BedrockConverseResponse & BedrockClaudeResponse & BedrockTitanResponse>;
+    if (!response) {
+      return undefined;
+    }
+
+    if (response.output?.message) {
+      return this.bedrockParser.parseConverseResponse(response as BedrockConverseResponse, request.model);
+    }
+    if (Array.isArray(response.results) || (Array.isArray(response.content) && response.usage)) {
+      return this.bedrockParser.parseResponse(response as BedrockClaudeResponse | BedrockTitanResponse, request.model);
+    }
+    return undefined;
+  }
+
+  /**
+   * Model ID (or URL-encoded ARN) from a Bedrock runtime path
+   */
+  private extractModelId(url: string): string | undefined {
+    try {
+      const match = MODEL_PATH.exec(new URL(url).pathname);
+      return match ? decodeURIComponent(match[1]) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * AWS Bedrock API Parser
- * Parses AWS Bedrock API requests and responses for Claude, Titan, and other models
+ * Parses AWS Bedrock API requests and responses for Claude, Titan, and other models,
+ * through InvokeModel (model-specific bodies) or the model-agnostic Converse API
  */
 
 import { AIServiceProvider, UnifiedAIRequest, UnifiedAIResponse, Message, Tool, ContentPart } from '../types/index.js';
@@ -68,6 +69,65 @@ export interface BedrockTitanResponse {
   }>;
 }
 
+export interface BedrockConverseContentBlock {
+  text?: string;
+  image?: { format: string; source: { bytes: string } };
+  document?: { format: string; name?: string; source: { bytes: string } };
+  toolUse?: { toolUseId: string; name: string; input: Record<string, unknown> };
+  toolResult?: { toolUseId: string; content: Array<{ text?: string; json?: unknown }>; status?: string };
+}
+
+export interface BedrockConverseRequest {
+  messages: Array<{
+    role: string;
+    content: BedrockConverseContentBlock[];
+  }>;
+  system?: Array<{ text?: string }>;
+  inferenceConfig?: {
+    maxTokens?: number;
+    temperature?: number;
+    topP?: number;
+    stopSequences?: string[];
+  };
+  toolConfig?: {
+    tools: Array<{
+      toolSpec: {
+        name: string;
+        description?: string;
+        inputSchema: { json: Record<string, unknown> };
+      };
+    }>;
+  };
+}
+
+export interface BedrockConverseResponse {
+  output: {
+    message: {
+      role: string;
+      content: BedrockConverseContentBlock[];
+    };
+  };
+  stopReason: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+  };
+}
+
+// Converse document formats
+const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  html: 'text/html',
+  txt: 'text/plain',
+  md: 'text/markdown',
+};
+
 /**
  * AWS Bedrock Parser
  */
@@ -96,13 +156,25 @@ export class AWSBedrockParser {
       const bodyText = await request.text();
       const body = JSON.parse(bodyText);
 
+      // Operation from the path: /model/{modelId}/invoke, invoke-with-response-stream, converse or converse-stream
+      const operation = new URL(request.url).pathname.split('/').pop() || '';
+      const streaming = operation.endsWith('-stream');
+
+      if (operation.startsWith('converse')) {
+        return this.parseConverseRequest(body, modelId, streaming);
+      }
+
+      let unified: UnifiedAIRequest;
       if (modelType === 'claude') {
-        return this.parseClaudeRequest(body, modelId);
+        unified = this.parseClaudeRequest(body, modelId);
       } else if (modelType === 'titan') {
-        return this.parseTitanRequest(body, modelId);
+        unified = this.parseTitanRequest(body, modelId);
+      } else {
+        throw new Error(`Unsupported Bedrock model type: ${modelId}`);
       }
 
-      throw new Error(`Unsupported Bedrock model type: ${modelId}`);
+      unified.streaming = unified.streaming || streaming;
+      return unified;
     } catch (error) {
       this.logger.error('Failed to parse Bedrock request', error instanceof Error ? error : undefined);
       throw new Error('Invalid Bedrock request format');
@@ -181,6 +253,70 @@ export class AWSBedrockParser {
     };
   }
 
+  /**
+   * Parse Converse request; the provider follows the model family
+   */
+  private parseConverseRequest(body: BedrockConverseRequest, modelId: string, streaming: boolean): UnifiedAIRequest {
+    const messages: Message[] = [];
+
+    const system = (body.system || []).map((block) => block.text || '').join('\n');
+    if (system) {
+      messages.push({ role: 'system', content: system });
+    }
+
+    body.messages.forEach((msg) => {
+      const parts: ContentPart[] = msg.content.map((block) => {
+        if (block.image) {
+          return { type: 'image', imageData: block.image.source.bytes, mimeType: `image/${block.image.format}` };
+        } else if (block.document) {
+          return {
+            type: 'document',
+            data: block.document.source.bytes,
+            mimeType: DOCUMENT_MIME_TYPES[block.document.format],
+          };
+        } else if (block.toolResult) {
+          const text = block.toolResult.content
+            .map((item) => item.text ?? JSON.stringify(item.json))
+            .join('\n');
+          return { type: 'text', text };
+        }
+        return { type: 'text', text: block.text || '' };
+      });
+
+      messages.push({
+        role: msg.role as 'user' | 'assistant',
+        content: parts,
+      });
+    });
+
+    const tools: Tool[] | undefined = body.toolConfig?.tools.map((tool) => ({
+      name: tool.toolSpec.name,
+      description: tool.toolSpec.description || '',
+      parameters: tool.toolSpec.inputSchema.json,
+    }));
+
+    return {
+      provider: this.detectModelType(modelId) === 'claude' ? AIServiceProvider.ANTHROPIC : AIServiceProvider.CUSTOM,
+      model: modelId,
+      messages,
+      parameters: {
+        temperature: body.inferenceConfig?.temperature,
+        maxTokens: body.inferenceConfig?.maxTokens,
+        topP: body.inferenceConfig?.topP,
+        stopSequences: body.inferenceConfig?.stopSequences,
+      },
+      streaming,
+      tools,
+      metadata: {
+        correlationId: crypto.randomUUID(),
+        tags: {
+          provider: 'aws-bedrock',
+          api: 'converse',
+        },
+      },
+    };
+  }
+
   /**
    * Parse Titan request
    */
@@ -230,6 +366,34 @@ export class AWSBedrockParser {
     }
   }
 
+  /**
+   * Parse Converse response
+   */
+  parseConverseResponse(response: BedrockConverseResponse, modelId: string): UnifiedAIResponse {
+    const content = response.output.message.content;
+    const toolCalls = content.filter((block) => block.toolUse).map((block) => block.toolUse);
+
+    return {
+      provider: this.detectModelType(modelId) === 'claude' ? AIServiceProvider.ANTHROPIC : AIServiceProvider.CUSTOM,
+      model: modelId,
+      content: content
+        .filter((block) => typeof block.text === 'string')
+        .map((block) => block.text)
+        .join(''),
+      finishReason: response.stopReason,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.inputTokens,
+            completionTokens: response.usage.outputTokens,
+            totalTokens: response.usage.totalTokens,
+          }
+        : undefined,
+      metadata: {
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+    };
+  }
+
   /**
    * Parse Claude response
    */
@@ -0,0 +1,68 @@
+/**
+ * Azure OpenAI Base Parser
+ * Wrapper for AzureOpenAIParser that extends BaseParser
+ */
+
+import { BaseParser, ParserResult } from './base-parser.js';
+import { AzureOpenAIParser, AzureOpenAIResponse } from './azure-openai-parser.js';
+import { AIServiceProvider, ProxilionRequest, UnifiedAIRequest, UnifiedAIResponse } from '../types/index.js';
+
+// https://{resource}.openai.azure.com/openai/deployments/{deployment-id}/chat/completions?api-version={version}
+const DEPLOYMENT_PATH = /\/openai\/deployments\/[^/]+\/chat\/completions$/;
+
+export class AzureOpenAIBaseParser extends BaseParser {
+  provider: AIServiceProvider = AIServiceProvider.OPENAI; // Azure serves OpenAI models
+  hostPatterns = ['*.openai.azure.com'];
+  private azureParser: AzureOpenAIParser;
+
+  constructor() {
+    super();
+    this.azureParser = new AzureOpenAIParser();
+  }
+
+  canParse(request: ProxilionRequest): boolean {
+    try {
+      return DEPLOYMENT_PATH.test(new URL(request.url).pathname);
+    } catch {
+      return false;
+    }
+  }
+
+  async parse(request: ProxilionRequest): Promise<ParserResult> {
+    try {
+      if (!new URL(request.url).searchParams.get('api-version')) {
+        return {
+          success: false,
+          error: 'Invalid Azure OpenAI request: missing api-version',
+        };
+      }
+
+      // Create a Request object from ProxilionRequest
+      const req = new Request(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+      });
+
+      const unifiedRequest = await this.azureParser.parseRequest(req);
+
+      return {
+        success: true,
+        unifiedRequest,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  decodeResponse(body: unknown): UnifiedAIResponse | undefined {
+    const response = body as AzureOpenAIResponse;
+    if (!response || !Array.isArray(response.choices) || !response.choices[0]?.message) {
+      return undefined;
+    }
+    return this.azureParser.parseResponse(response);
+  }
+}
@@ -2,7 +2,7 @@
  * Base parser interface for AI service protocol parsing
  */
 
-import { UnifiedAIRequest, AIServiceProvider, ProxilionRequest } from '../types/index.js';
+import { UnifiedAIRequest, UnifiedAIResponse, AIServiceProvider, ProxilionRequest } from '../types/index.js';
 
 export interface ParserResult {
   success: boolean;
@@ -13,10 +13,22 @@ export interface ParserResult {
 export abstract class BaseParser {
   abstract provider: AIServiceProvider;
 
+  /**
+   * Hostnames routed to this parser; `*` matches one label. Without them the
+   * registry uses its defaults for the parser's provider.
+   */
+  hostPatterns?: string[];
+
   abstract canParse(request: ProxilionRequest): boolean;
 
   abstract parse(request: ProxilionRequest): Promise<ParserResult>;
 
+  /**
+   * Normalize a (non-streaming) response body from this provider; undefined
+   * when the body is not in the provider's format, e.g. an error body
+   */
+  abstract decodeResponse(body: unknown, request: UnifiedAIRequest): UnifiedAIResponse | undefined;
+
   protected generateCorrelationId(): string {
     return crypto.randomUUID();
   }
@@ -29,6 +41,17 @@ export abstract class BaseParser {
     );
   }
 
+  protected buildUsage(promptTokens?: number, completionTokens?: number): UnifiedAIResponse['usage'] {
+    if (promptTokens === undefined && completionTokens === undefined) {
+      return undefined;
+    }
+    return {
+      promptTokens: promptTokens || 0,
+      completionTokens: completionTokens || 0,
+      totalTokens: (promptTokens || 0) + (completionTokens || 0),
+    };
+  }
+
   protected isStreamingRequest(body: unknown): boolean {
     if (typeof body === 'object' && body !== null) {
       return (body as { stream?: boolean }).stream === true;
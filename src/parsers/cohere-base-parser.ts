@@ -4,8 +4,8 @@
  */
 
 import { BaseParser, ParserResult } from './base-parser.js';
-import { CohereParser } from './cohere-parser.js';
-import { AIServiceProvider, ProxilionRequest } from '../types/index.js';
+import { CohereParser, CohereResponse } from './cohere-parser.js';
+import { AIServiceProvider, ProxilionRequest, UnifiedAIRequest, UnifiedAIResponse } from '../types/index.js';
 
 export class CohereBaseParser extends BaseParser {
   provider: AIServiceProvider = AIServiceProvider.COHERE;
@@ -51,5 +51,15 @@ export class CohereBaseParser extends BaseParser {
       };
     }
   }
-}
 
+  decodeResponse(body: unknown, request: UnifiedAIRequest): UnifiedAIResponse | undefined {
+    const response = body as CohereResponse;
+    if (
+      !response ||
+      (typeof response.text !== 'string' && !Array.isArray(response.generations) && !Array.isArray(response.message?.content))
+    ) {
+      return undefined;
+    }
+    return this.cohereParser.parseResponse(response, request.model);
+  }
+}
@@ -8,7 +8,7 @@
  * - Embed API
  */
 
-import { AIProvider, UnifiedAIRequest, ContentPart, Message, Tool } from '../types/index.js';
+import { AIProvider, UnifiedAIRequest, UnifiedAIResponse, ContentPart, Message, Tool } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
 import crypto from 'crypto';
 
@@ -63,6 +63,29 @@ export interface CohereGenerateRequest {
   stream?: boolean;
 }
 
+/**
+ * Chat (v1 `text`, v2 `message.content`) and generate (`generations`) responses
+ */
+export interface CohereResponse {
+  id?: string;
+  generation_id?: string;
+  text?: string;
+  message?: {
+    role: string;
+    content?: Array<{ type: string; text?: string }>;
+    tool_calls?: unknown[];
+  };
+  generations?: Array<{ id?: string; text: string; finish_reason?: string }>;
+  finish_reason?: string;
+  tool_calls?: unknown[];
+  meta?: {
+    billed_units?: { input_tokens?: number; output_tokens?: number };
+  };
+  usage?: {
+    billed_units?: { input_tokens?: number; output_tokens?: number };
+  };
+}
+
 export class CohereParser {
   private logger: Logger;
 
@@ -240,6 +263,36 @@ export class CohereParser {
       .map(([name, _]) => name);
   }
 
+  /**
+   * Convert a chat or generate response to unified format; token counts are
+   * the billed units
+   */
+  parseResponse(response: CohereResponse, model: string): UnifiedAIResponse {
+    const content =
+      response.text ??
+      response.message?.content?.map((part) => part.text || '').join('') ??
+      (response.generations || []).map((generation) => generation.text).join('\n');
+    const billed = response.usage?.billed_units || response.meta?.billed_units;
+
+    return {
+      provider: 'cohere' as AIProvider,
+      model,
+      content,
+      finishReason: response.finish_reason ?? response.generations?.[0]?.finish_reason,
+      usage: billed
+        ? {
+            promptTokens: billed.input_tokens || 0,
+            completionTokens: billed.output_tokens || 0,
+            totalTokens: (billed.input_tokens || 0) + (billed.output_tokens || 0),
+          }
+        : undefined,
+      metadata: {
+        id: response.id ?? response.generation_id,
+        toolCalls: response.tool_calls ?? response.message?.tool_calls,
+      },
+    };
+  }
+
   /**
    * Extract all text content from request
    */
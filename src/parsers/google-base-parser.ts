@@ -4,8 +4,8 @@
  */
 
 import { BaseParser, ParserResult } from './base-parser.js';
-import { GoogleParser } from './google-parser.js';
-import { AIServiceProvider, ProxilionRequest } from '../types/index.js';
+import { GoogleParser, GoogleResponse } from './google-parser.js';
+import { AIServiceProvider, ProxilionRequest, UnifiedAIRequest, UnifiedAIResponse } from '../types/index.js';
 
 export class GoogleBaseParser extends BaseParser {
   provider: AIServiceProvider = AIServiceProvider.GOOGLE;
@@ -51,5 +51,12 @@ export class GoogleBaseParser extends BaseParser {
       };
     }
   }
-}
 
+  decodeResponse(body: unknown, request: UnifiedAIRequest): UnifiedAIResponse | undefined {
+    const response = body as GoogleResponse;
+    if (!response || !Array.isArray(response.candidates)) {
+      return undefined;
+    }
+    return this.googleParser.parseResponse(response, request.model);
+  }
+}
@@ -9,7 +9,7 @@
  * - Multimodal content
  */
 
-import { AIProvider, UnifiedAIRequest, ContentPart, Message, Tool } from '../types/index.js';
+import { AIProvider, UnifiedAIRequest, UnifiedAIResponse, ContentPart, Message, Tool } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
 import crypto from 'crypto';
 
@@ -70,6 +70,21 @@ export interface GoogleFunctionDeclaration {
   };
 }
 
+export interface GoogleResponse {
+  candidates: Array<{
+    content?: GoogleContent;
+    finishReason?: string;
+    index?: number;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+  responseId?: string;
+}
+
 export class GoogleParser {
   private logger: Logger;
 
@@ -229,6 +244,35 @@ export class GoogleParser {
     return unifiedTools;
   }
 
+  /**
+   * Convert a generateContent response to unified format
+   */
+  parseResponse(response: GoogleResponse, model: string): UnifiedAIResponse {
+    const first = response.candidates[0];
+    const usage = response.usageMetadata;
+
+    return {
+      provider: 'google' as AIProvider,
+      model: response.modelVersion || model,
+      content: response.candidates
+        .map((candidate) => (candidate.content?.parts || []).map((part) => part.text || '').join(''))
+        .filter(Boolean)
+        .join('\n'),
+      finishReason: first?.finishReason,
+      usage: usage
+        ? {
+            promptTokens: usage.promptTokenCount || 0,
+            completionTokens: usage.candidatesTokenCount || 0,
+            totalTokens: usage.totalTokenCount ?? (usage.promptTokenCount || 0) + (usage.candidatesTokenCount || 0),
+          }
+        : undefined,
+      metadata: {
+        id: response.responseId,
+        functionCalls: first?.content?.parts.filter((part) => part.functionCall).map((part) => part.functionCall),
+      },
+    };
+  }
+
   /**
    * Extract all text content from request
    */
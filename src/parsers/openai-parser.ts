@@ -4,6 +4,7 @@
 
 import {
   UnifiedAIRequest,
+  UnifiedAIResponse,
   AIServiceProvider,
   ProxilionRequest,
   Message,
@@ -14,7 +15,9 @@ import { logger } from '../utils/logger.js';
 
 interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
-  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+  content:
+    | string
+    | Array<{ type: string; text?: string; image_url?: { url: string }; file?: { file_data?: string; filename?: string } }>;
   name?: string;
   tool_call_id?: string;
 }
@@ -39,6 +42,22 @@ interface OpenAIRequest {
   }>;
 }
 
+interface OpenAIResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index?: number;
+    message?: { role: string; content: string | null; tool_calls?: unknown[] };
+    text?: string; // Legacy completions
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
 export class OpenAIParser extends BaseParser {
   provider = AIServiceProvider.OPENAI;
 
@@ -101,6 +120,29 @@ export class OpenAIParser extends BaseParser {
     }
   }
 
+  decodeResponse(body: unknown, request: UnifiedAIRequest): UnifiedAIResponse | undefined {
+    const response = body as OpenAIResponse;
+    if (!response || !Array.isArray(response.choices)) {
+      return undefined;
+    }
+
+    const first = response.choices[0];
+    return {
+      provider: this.provider,
+      model: response.model || request.model,
+      content: response.choices
+        .map((choice) => choice.message?.content ?? choice.text)
+        .filter(Boolean)
+        .join('\n'),
+      finishReason: first?.finish_reason ?? undefined,
+      usage: this.buildUsage(response.usage?.prompt_tokens, response.usage?.completion_tokens),
+      metadata: {
+        id: response.id,
+        toolCalls: first?.message?.tool_calls,
+      },
+    };
+  }
+
   private convertMessages(messages: OpenAIMessage[]): Message[] {
     return messages.map((msg) => {
       const converted: Message = {
@@ -123,6 +165,11 @@ export class OpenAIParser extends BaseParser {
               type: 'image' as const,
               imageUrl: part.image_url?.url,
             };
+          } else if (part.type === 'file' && part.file?.file_data) {
+            return {
+              type: 'document' as const,
+              data: part.file.file_data,
+            };
           }
           return { type: 'text' as const, text: '' };
         });
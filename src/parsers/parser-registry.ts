@@ -2,17 +2,20 @@
  * Parser registry for managing multiple AI service parsers
  */
 
-import { ProxilionRequest, UnifiedAIRequest } from '../types/index.js';
+import { ProxilionRequest, UnifiedAIRequest, UnifiedAIResponse } from '../types/index.js';
 import { BaseParser, ParserResult } from './base-parser.js';
 import { OpenAIParser } from './openai-parser.js';
 import { AnthropicParser } from './anthropic-parser.js';
 import { GoogleBaseParser } from './google-base-parser.js';
 import { CohereBaseParser } from './cohere-base-parser.js';
+import { AzureOpenAIBaseParser } from './azure-openai-base-parser.js';
+import { AWSBedrockBaseParser } from './aws-bedrock-base-parser.js';
 import { logger } from '../utils/logger.js';
 
 export class ParserRegistry {
   private parsers: BaseParser[] = [];
   private parserIndex: Map<string, BaseParser> = new Map();
+  private wildcardIndex: Array<{ pattern: RegExp; parser: BaseParser }> = [];
 
   constructor() {
     this.registerDefaultParsers();
@@ -23,6 +26,8 @@ export class ParserRegistry {
     this.register(new AnthropicParser());
     this.register(new GoogleBaseParser());
     this.register(new CohereBaseParser());
+    this.register(new AzureOpenAIBaseParser());
+    this.register(new AWSBedrockBaseParser());
   }
 
   register(parser: BaseParser): void {
@@ -32,16 +37,35 @@ export class ParserRegistry {
   }
 
   /**
-   * Build index for O(1) parser lookup based on URL patterns
+   * Build index for O(1) parser lookup based on URL patterns; wildcard
+   * hostnames are matched in registration order after exact ones
    */
   private buildParserIndex(parser: BaseParser): void {
     // Extract common URL patterns for each provider
-    const patterns = this.getProviderPatterns(parser.provider);
+    const patterns = parser.hostPatterns || this.getProviderPatterns(parser.provider);
     patterns.forEach(pattern => {
-      this.parserIndex.set(pattern, parser);
+      if (pattern.includes('*')) {
+        const source = pattern
+          .split('*')
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^.]+');
+        this.wildcardIndex.push({ pattern: new RegExp(`^${source}$`, 'i'), parser });
+      } else {
+        this.parserIndex.set(pattern, parser);
+      }
     });
   }
 
+  /**
+   * Parser indexed for the hostname, if any
+   */
+  private findIndexedParser(hostname: string): BaseParser | undefined {
+    return (
+      this.parserIndex.get(hostname) ||
+      this.wildcardIndex.find((entry) => entry.pattern.test(hostname))?.parser
+    );
+  }
+
   /**
    * Get URL patterns for provider-based routing
    */
@@ -81,7 +105,7 @@ export class ParserRegistry {
   async parse(request: ProxilionRequest): Promise<UnifiedAIRequest | null> {
     // Try O(1) indexed lookup first
     const urlKey = this.extractUrlKey(request.url);
-    const indexedParser = this.parserIndex.get(urlKey);
+    const indexedParser = this.findIndexedParser(urlKey);
 
     if (indexedParser && indexedParser.canParse(request)) {
       logger.debug(`Using indexed ${indexedParser.provider} parser for request`);
@@ -116,6 +140,41 @@ export class ParserRegistry {
     return null;
   }
 
+  /**
+   * Normalize a response body for the request it answers. The parser for the
+   * request's provider is tried first, then the others by body shape.
+   */
+  decodeResponse(request: UnifiedAIRequest, body: unknown): UnifiedAIResponse | undefined {
+    let parsed = body;
+    if (typeof body === 'string') {
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        return undefined;
+      }
+    }
+
+    const ordered = [
+      ...this.parsers.filter((p) => p.provider === request.provider),
+      ...this.parsers.filter((p) => p.provider !== request.provider),
+    ];
+
+    for (const parser of ordered) {
+      try {
+        const response = parser.decodeResponse(parsed, request);
+        if (response) {
+          return response;
+        }
+      } catch (error) {
+        logger.warn(`Parser ${parser.provider} failed to decode response`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return undefined;
+  }
+
   getRegisteredParsers(): string[] {
     return this.parsers.map((p) => p.provider);
   }
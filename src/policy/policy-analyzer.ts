@@ -0,0 +1,424 @@
+/**
+ * Policy Analyzer
+ *
+ * Static analysis of the live policy set, without any traffic:
+ * - Shadowed policies: never applied because an earlier policy matches every
+ *   request they match (first-match evaluation)
+ * - Unsatisfiable policies: conditions that contradict each other
+ * - Conflicting policies: overlapping policies with different actions where the
+ *   outcome depends on insertion order, or where merging always discards one
+ *
+ * The analysis is conservative and only reports what it can prove from the
+ * conditions. 'any', 'not', 'time', 'contains' and 'matches' conditions are
+ * only compared for equality.
+ */
+
+import { Logger } from '../utils/logger.js';
+import {
+  Policy,
+  PolicyAction,
+  PolicyCondition,
+  PolicyEvaluationMode,
+  ThreatLevel,
+} from '../types/index.js';
+import { ACTION_PRECEDENCE, PolicyEngine } from './policy-engine.js';
+
+export type PolicyIssueType = 'shadowed' | 'unsatisfiable' | 'conflict';
+
+export interface PolicyIssue {
+  type: PolicyIssueType;
+  policyId: string;
+  relatedPolicyIds: string[];
+  message: string;
+}
+
+export interface PolicyAnalysisReport {
+  evaluationMode: PolicyEvaluationMode;
+  policyCount: number; // Enabled, enforced policies analyzed
+  issues: PolicyIssue[];
+  analyzedAt: number;
+}
+
+/**
+ * What a single condition allows for one request attribute:
+ * - set: the value is one of `values`
+ * - exclude: the value is none of `values` (or missing)
+ * - range: the value lies between the bounds
+ */
+type Constraint =
+  | { kind: 'set'; values: unknown[] }
+  | { kind: 'exclude'; values: unknown[] }
+  | { kind: 'range'; min: number; minInclusive: boolean; max: number; maxInclusive: boolean };
+
+interface Atom {
+  key?: string; // Attribute compared, e.g. 'model' or 'header:x-team'; undefined when opaque
+  multiValued: boolean; // Attributes with several values per request (finding types, tool names)
+  constraint?: Constraint;
+  condition: PolicyCondition;
+}
+
+interface AnalyzedPolicy {
+  policy: Policy;
+  action: PolicyAction;
+  atoms: Atom[];
+}
+
+const THREAT_LEVELS: ThreatLevel[] = [
+  ThreatLevel.NONE,
+  ThreatLevel.LOW,
+  ThreatLevel.MEDIUM,
+  ThreatLevel.HIGH,
+  ThreatLevel.CRITICAL,
+];
+
+const SINGLE_VALUED_TYPES = new Set(['threat_level', 'user', 'model', 'provider', 'tenant', 'department', 'header']);
+const MULTI_VALUED_TYPES = new Set(['finding_type', 'tool_name']);
+const NUMERIC_TYPES = new Set(['token_estimate', 'scanner']);
+
+export class PolicyAnalyzer {
+  private logger: Logger;
+
+  constructor(private engine: PolicyEngine) {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Analyze the live policy set under a tenant's evaluation mode
+   */
+  analyze(tenantId?: string): PolicyAnalysisReport {
+    const { evaluationMode } = this.engine.getEvaluationSettings(tenantId);
+    const policies = this.engine
+      .getPolicies()
+      .filter((p) => p.enabled && p.mode !== 'shadow')
+      .map((policy) => ({
+        policy,
+        action: this.getPrimaryAction(policy),
+        atoms: this.flatten(policy.conditions).map((c) => this.toAtom(c)),
+      }));
+
+    const issues: PolicyIssue[] = [];
+    const satisfiable: AnalyzedPolicy[] = [];
+
+    for (const analyzed of policies) {
+      const contradiction = this.findContradiction(analyzed.atoms);
+      if (contradiction) {
+        issues.push({
+          type: 'unsatisfiable',
+          policyId: analyzed.policy.id,
+          relatedPolicyIds: [],
+          message: `Policy "${analyzed.policy.name}" can never match: ${contradiction}`,
+        });
+      } else {
+        satisfiable.push(analyzed);
+      }
+    }
+
+    // Policies are in evaluation order: earlier entries win in first-match mode
+    for (let i = 0; i < satisfiable.length; i++) {
+      const later = satisfiable[i];
+      let shadowed = false;
+
+      for (let j = 0; j < i; j++) {
+        const earlier = satisfiable[j];
+        const laterWithinEarlier = this.implies(later.atoms, earlier.atoms);
+        const earlierWithinLater = this.implies(earlier.atoms, later.atoms);
+        if (!laterWithinEarlier && !earlierWithinLater) continue;
+
+        const samePriority = earlier.policy.priority === later.policy.priority;
+        const differentAction = earlier.action !== later.action;
+
+        if (evaluationMode === 'first_match') {
+          if (laterWithinEarlier && !shadowed) {
+            shadowed = true;
+            issues.push({
+              type: 'shadowed',
+              policyId: later.policy.id,
+              relatedPolicyIds: [earlier.policy.id],
+              message: `Policy "${later.policy.name}" is never applied: "${earlier.policy.name}" ` +
+                `(priority ${earlier.policy.priority}) matches every request it matches`,
+            });
+          }
+
+          if (samePriority && differentAction) {
+            issues.push({
+              type: 'conflict',
+              policyId: later.policy.id,
+              relatedPolicyIds: [earlier.policy.id],
+              message: `Policies "${earlier.policy.name}" (${earlier.action}) and "${later.policy.name}" ` +
+                `(${later.action}) overlap at priority ${later.policy.priority}; the outcome depends on insertion order`,
+            });
+          }
+        } else if (differentAction) {
+          // Merged decisions take the most restrictive action, so the narrower
+          // policy's action is lost whenever the broader one is more restrictive
+          const [narrower, broader] = laterWithinEarlier ? [later, earlier] : [earlier, later];
+          if (this.outranks(broader.action, narrower.action)) {
+            issues.push({
+              type: 'conflict',
+              policyId: narrower.policy.id,
+              relatedPolicyIds: [broader.policy.id],
+              message: `Policy "${narrower.policy.name}" (${narrower.action}) never takes effect: ` +
+                `"${broader.policy.name}" (${broader.action}) always matches too and is more restrictive`,
+            });
+          }
+        }
+      }
+    }
+
+    this.logger.info('Policy set analyzed', {
+      tenantId,
+      evaluationMode,
+      policyCount: policies.length,
+      issues: issues.length,
+    });
+
+    return {
+      evaluationMode,
+      policyCount: policies.length,
+      issues,
+      analyzedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Expand nested 'all' groups into a flat conjunction
+   */
+  private flatten(conditions: PolicyCondition[]): PolicyCondition[] {
+    return conditions.flatMap((c) => (c.type === 'all' ? this.flatten(c.conditions || []) : [c]));
+  }
+
+  private toAtom(condition: PolicyCondition): Atom {
+    const { type, operator, value, field } = condition;
+    const opaque: Atom = { multiValued: false, condition };
+
+    if (SINGLE_VALUED_TYPES.has(type) || MULTI_VALUED_TYPES.has(type)) {
+      if (type === 'header' && !field) return opaque;
+
+      const key = type === 'header' ? `header:${field!.toLowerCase()}` : type;
+      const multiValued = MULTI_VALUED_TYPES.has(type);
+      const constraint = type === 'threat_level'
+        ? this.threatLevelConstraint(operator, value)
+        : this.valueConstraint(operator, value);
+
+      return constraint ? { key, multiValued, constraint, condition } : opaque;
+    }
+
+    if (NUMERIC_TYPES.has(type) && typeof value === 'number') {
+      // Scanner score comparisons; 'eq' on a scanner compares its pass/fail flag instead
+      if (type === 'scanner' && (!field || operator === 'eq')) return opaque;
+
+      const key = `${type}:${field || 'prompt'}`;
+      const constraint = this.rangeConstraint(operator, value);
+      return constraint ? { key, multiValued: false, constraint, condition } : opaque;
+    }
+
+    return opaque;
+  }
+
+  private valueConstraint(operator: PolicyCondition['operator'], value: unknown): Constraint | undefined {
+    switch (operator) {
+      case 'eq':
+        return { kind: 'set', values: [value] };
+      case 'in':
+        return Array.isArray(value) ? { kind: 'set', values: value } : undefined;
+      case 'ne':
+        return { kind: 'exclude', values: [value] };
+      case 'not_in':
+        return Array.isArray(value) ? { kind: 'exclude', values: value } : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Threat levels are ordered and finite, so every comparison becomes a set of levels
+   */
+  private threatLevelConstraint(operator: PolicyCondition['operator'], value: unknown): Constraint | undefined {
+    if (operator === 'in') {
+      return Array.isArray(value) ? { kind: 'set', values: value } : undefined;
+    }
+
+    const index = THREAT_LEVELS.indexOf(value as ThreatLevel);
+    if (index === -1) return undefined;
+
+    const select = (predicate: (i: number) => boolean): Constraint => ({
+      kind: 'set',
+      values: THREAT_LEVELS.filter((_, i) => predicate(i)),
+    });
+
+    switch (operator) {
+      case 'eq':
+        return select((i) => i === index);
+      case 'ne':
+        return select((i) => i !== index);
+      case 'gt':
+        return select((i) => i > index);
+      case 'gte':
+        return select((i) => i >= index);
+      case 'lt':
+        return select((i) => i < index);
+      case 'lte':
+        return select((i) => i <= index);
+      default:
+        return undefined;
+    }
+  }
+
+  private rangeConstraint(operator: PolicyCondition['operator'], value: number): Constraint | undefined {
+    const unbounded = { min: -Infinity, minInclusive: false, max: Infinity, maxInclusive: false };
+
+    switch (operator) {
+      case 'eq':
+        return { kind: 'range', min: value, minInclusive: true, max: value, maxInclusive: true };
+      case 'gt':
+        return { kind: 'range', ...unbounded, min: value, minInclusive: false };
+      case 'gte':
+        return { kind: 'range', ...unbounded, min: value, minInclusive: true };
+      case 'lt':
+        return { kind: 'range', ...unbounded, max: value, maxInclusive: false };
+      case 'lte':
+        return { kind: 'range', ...unbounded, max: value, maxInclusive: true };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * True when every request matching `conditions` also matches `implied`
+   */
+  private implies(conditions: Atom[], implied: Atom[]): boolean {
+    return implied.every((target) => conditions.some((source) => this.atomImplies(source, target)));
+  }
+
+  private atomImplies(source: Atom, target: Atom): boolean {
+    if (this.sameCondition(source.condition, target.condition)) return true;
+    if (!source.key || source.key !== target.key || !source.constraint || !target.constraint) return false;
+
+    const a = source.constraint;
+    const b = target.constraint;
+
+    if (source.multiValued) {
+      // "some value is in A" implies "some value is in B" when A ⊆ B;
+      // "no value is in A" implies "no value is in B" when B ⊆ A
+      if (a.kind === 'set' && b.kind === 'set') return this.isSubset(a.values, b.values);
+      if (a.kind === 'exclude' && b.kind === 'exclude') return this.isSubset(b.values, a.values);
+      return false;
+    }
+
+    if (a.kind === 'set' && b.kind === 'set') return this.isSubset(a.values, b.values);
+    if (a.kind === 'set' && b.kind === 'exclude') return !a.values.some((v) => b.values.includes(v));
+    if (a.kind === 'exclude' && b.kind === 'exclude') return this.isSubset(b.values, a.values);
+    if (a.kind === 'set' && b.kind === 'range') return a.values.every((v) => this.inRange(v, b));
+    if (a.kind === 'range' && b.kind === 'range') return this.rangeWithin(a, b);
+
+    return false;
+  }
+
+  /**
+   * Describe why a conjunction of conditions can never hold, if it provably cannot
+   */
+  private findContradiction(atoms: Atom[]): string | undefined {
+    for (const atom of atoms) {
+      const { type, conditions } = atom.condition;
+      if (type === 'any' && (!conditions || conditions.length === 0)) {
+        return 'empty "any" group';
+      }
+    }
+
+    const byKey = new Map<string, Atom[]>();
+    for (const atom of atoms) {
+      if (!atom.key || !atom.constraint) continue;
+      byKey.set(atom.key, [...(byKey.get(atom.key) || []), atom]);
+    }
+
+    for (const [key, group] of byKey) {
+      const constraints = group.map((a) => a.constraint!);
+      const excluded = constraints.flatMap((c) => (c.kind === 'exclude' ? c.values : []));
+
+      if (group[0].multiValued) {
+        // Some value must be in each positive set, but none may be excluded
+        const impossible = constraints.find(
+          (c) => c.kind === 'set' && c.values.every((v) => excluded.includes(v))
+        );
+        if (impossible) return `${key} conditions exclude every allowed value`;
+        continue;
+      }
+
+      const sets = constraints.filter((c): c is Extract<Constraint, { kind: 'set' }> => c.kind === 'set');
+      const ranges = constraints.filter((c): c is Extract<Constraint, { kind: 'range' }> => c.kind === 'range');
+
+      if (sets.length > 0) {
+        const allowed = sets
+          .reduce((acc, c) => acc.filter((v) => c.values.includes(v)), sets[0].values)
+          .filter((v) => !excluded.includes(v) && ranges.every((r) => this.inRange(v, r)));
+        if (allowed.length === 0) return `${key} conditions allow no value`;
+      } else if (ranges.length > 1 && this.isEmptyRange(ranges)) {
+        return `${key} conditions allow no value`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private isEmptyRange(ranges: Array<Extract<Constraint, { kind: 'range' }>>): boolean {
+    let min = -Infinity;
+    let minInclusive = false;
+    let max = Infinity;
+    let maxInclusive = false;
+
+    for (const r of ranges) {
+      if (r.min > min || (r.min === min && !r.minInclusive)) {
+        min = r.min;
+        minInclusive = r.minInclusive;
+      }
+      if (r.max < max || (r.max === max && !r.maxInclusive)) {
+        max = r.max;
+        maxInclusive = r.maxInclusive;
+      }
+    }
+
+    return min > max || (min === max && !(minInclusive && maxInclusive));
+  }
+
+  private inRange(value: unknown, range: Extract<Constraint, { kind: 'range' }>): boolean {
+    if (typeof value !== 'number') return false;
+    const aboveMin = range.minInclusive ? value >= range.min : value > range.min;
+    const belowMax = range.maxInclusive ? value <= range.max : value < range.max;
+    return aboveMin && belowMax;
+  }
+
+  private rangeWithin(
+    inner: Extract<Constraint, { kind: 'range' }>,
+    outer: Extract<Constraint, { kind: 'range' }>
+  ): boolean {
+    const minOk = inner.min > outer.min || (inner.min === outer.min && (outer.minInclusive || !inner.minInclusive));
+    const maxOk = inner.max < outer.max || (inner.max === outer.max && (outer.maxInclusive || !inner.maxInclusive));
+    return minOk && maxOk;
+  }
+
+  private isSubset(values: unknown[], of: unknown[]): boolean {
+    return values.every((v) => of.includes(v));
+  }
+
+  private sameCondition(a: PolicyCondition, b: PolicyCondition): boolean {
+    return JSON.stringify(this.normalize(a)) === JSON.stringify(this.normalize(b));
+  }
+
+  private normalize(condition: PolicyCondition): unknown {
+    return {
+      type: condition.type,
+      operator: condition.operator,
+      field: condition.field,
+      value: Array.isArray(condition.value) ? [...condition.value].map(String).sort() : condition.value,
+      conditions: condition.conditions?.map((c) => this.normalize(c)),
+    };
+  }
+
+  private getPrimaryAction(policy: Policy): PolicyAction {
+    return ACTION_PRECEDENCE.find((action) => policy.actions.some((a) => a.action === action)) || PolicyAction.ALLOW;
+  }
+
+  private outranks(a: PolicyAction, b: PolicyAction): boolean {
+    return ACTION_PRECEDENCE.indexOf(a) < ACTION_PRECEDENCE.indexOf(b);
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Policy Calendar
+ *
+ * Time zone aware evaluation of 'time' policy conditions:
+ * - Time-of-day windows (including overnight windows) in an explicit IANA time zone
+ * - Day-of-week sets and inclusive date ranges
+ * - Named holiday calendars, loaded from a JSON file or managed at runtime;
+ *   runtime calendars are persisted and take precedence over the file
+ * - Business hours, with a global definition and per-tenant overrides
+ *
+ * All checks use the wall-clock time of the configured time zone, so
+ * decisions do not depend on where the proxy runs.
+ */
+
+import * as fs from 'fs/promises';
+import { Logger } from '../utils/logger.js';
+import { ProxilionError } from '../types/index.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface TimeWindow {
+  timezone?: string; // IANA time zone, defaults to UTC
+  days?: Weekday[];
+  start?: string; // 'HH:MM', inclusive
+  end?: string; // 'HH:MM', exclusive; an end before the start spans midnight
+  from?: string; // 'YYYY-MM-DD', inclusive
+  to?: string; // 'YYYY-MM-DD', inclusive
+  excludeHolidays?: string; // Holiday calendar name
+}
+
+export interface BusinessHours {
+  timezone: string;
+  days: Weekday[];
+  start: string;
+  end: string;
+  holidays?: string; // Holiday calendar name
+}
+
+export interface Holiday {
+  date: string; // 'YYYY-MM-DD'
+  name?: string;
+}
+
+export interface HolidayCalendar {
+  name: string;
+  timezone?: string; // Used when a condition does not name one
+  holidays: Holiday[];
+}
+
+interface ZonedTime {
+  date: string; // 'YYYY-MM-DD'
+  weekday: Weekday;
+  minutes: number; // Minutes since local midnight
+}
+
+const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Storage key of the global business hours; other keys are tenant IDs
+const DEFAULT_BUSINESS_HOURS_KEY = '*';
+
+export class PolicyCalendar {
+  private logger: Logger;
+  private businessHours: BusinessHours = {
+    timezone: 'UTC',
+    days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    start: '09:00',
+    end: '17:00',
+  };
+  private tenantBusinessHours: Map<string, BusinessHours> = new Map();
+  private holidayCalendars: Map<string, { calendar: HolidayCalendar; dates: Set<string> }> = new Map();
+  private managedCalendars: Set<string> = new Set(); // Set at runtime rather than from the holiday file
+  private formatters: Map<string, Intl.DateTimeFormat> = new Map();
+  private store?: PersistentCollection<BusinessHours>;
+  private holidayStore?: PersistentCollection<HolidayCalendar>;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Load business hours and runtime holiday calendars from durable storage and
+   * write through all future changes
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const store = new PersistentCollection<BusinessHours>(storage, 'business_hours');
+    const holidayStore = new PersistentCollection<HolidayCalendar>(storage, 'holiday_calendars');
+    const [persisted, persistedCalendars] = await Promise.all([store.load(), holidayStore.load()]);
+
+    for (const [key, hours] of persisted) {
+      if (key === DEFAULT_BUSINESS_HOURS_KEY) {
+        this.businessHours = hours;
+      } else {
+        this.tenantBusinessHours.set(key, hours);
+      }
+    }
+
+    for (const [name, calendar] of persistedCalendars) {
+      if (this.managedCalendars.has(name)) continue;
+      this.applyHolidayCalendar(calendar);
+      this.managedCalendars.add(name);
+    }
+
+    // Persist calendars managed before storage was attached
+    for (const name of this.managedCalendars) {
+      if (!persistedCalendars.has(name)) holidayStore.save(name, this.holidayCalendars.get(name)!.calendar);
+    }
+
+    this.store = store;
+    this.holidayStore = holidayStore;
+    this.logger.info('Calendar storage attached', {
+      tenantCount: this.tenantBusinessHours.size,
+      holidayCalendars: persistedCalendars.size,
+    });
+  }
+
+  /**
+   * Load holiday calendars from a JSON file:
+   * { "<name>": { "timezone"?: string, "holidays": ["YYYY-MM-DD" | { "date", "name" }] } }
+   */
+  async loadHolidayFile(filePath: string): Promise<number> {
+    const raw = JSON.parse(await fs.readFile(filePath, 'utf-8')) as Record<
+      string,
+      { timezone?: string; holidays: Array<string | Holiday> }
+    >;
+
+    for (const [name, definition] of Object.entries(raw)) {
+      if (this.managedCalendars.has(name)) {
+        this.logger.info('Holiday calendar managed at runtime, ignoring file definition', { name });
+        continue;
+      }
+      this.applyHolidayCalendar({
+        name,
+        timezone: definition.timezone,
+        holidays: (definition.holidays || []).map((h) => (typeof h === 'string' ? { date: h } : h)),
+      });
+    }
+
+    this.logger.info('Holiday calendars loaded', { filePath, calendars: Object.keys(raw).length });
+    return Object.keys(raw).length;
+  }
+
+  /** Add or replace a holiday calendar */
+  setHolidayCalendar(calendar: HolidayCalendar): void {
+    this.applyHolidayCalendar(calendar);
+    this.managedCalendars.add(calendar.name);
+    this.holidayStore?.save(calendar.name, calendar);
+  }
+
+  getHolidayCalendar(name: string): HolidayCalendar | undefined {
+    return this.holidayCalendars.get(name)?.calendar;
+  }
+
+  getHolidayCalendars(): HolidayCalendar[] {
+    return Array.from(this.holidayCalendars.values()).map((c) => c.calendar);
+  }
+
+  removeHolidayCalendar(name: string): boolean {
+    if (!this.holidayCalendars.delete(name)) {
+      return false;
+    }
+    if (this.managedCalendars.delete(name)) {
+      this.holidayStore?.remove(name);
+    }
+    return true;
+  }
+
+  /**
+   * Business hours for a tenant, falling back to the global definition
+   */
+  getBusinessHours(tenantId?: string): BusinessHours {
+    return (tenantId && this.tenantBusinessHours.get(tenantId)) || this.businessHours;
+  }
+
+  /**
+   * Set the global business hours, or a tenant's business hours when a tenant ID is given
+   */
+  setBusinessHours(hours: BusinessHours, tenantId?: string): BusinessHours {
+    this.assertWindow(hours);
+    if (!hours.start || !hours.end || !hours.days || hours.days.length === 0) {
+      throw new ProxilionError('Business hours require days, start and end', 'INVALID_CALENDAR', 400);
+    }
+
+    const normalized: BusinessHours = {
+      timezone: hours.timezone,
+      days: hours.days.map((d) => d.toLowerCase() as Weekday),
+      start: hours.start,
+      end: hours.end,
+      holidays: hours.holidays,
+    };
+
+    if (tenantId) {
+      this.tenantBusinessHours.set(tenantId, normalized);
+    } else {
+      this.businessHours = normalized;
+    }
+    this.store?.save(tenantId || DEFAULT_BUSINESS_HOURS_KEY, normalized);
+
+    this.logger.info('Business hours updated', { tenantId, timezone: normalized.timezone });
+    return normalized;
+  }
+
+  /** Remove a tenant's business hours so the global definition applies */
+  resetBusinessHours(tenantId: string): boolean {
+    if (!this.tenantBusinessHours.delete(tenantId)) {
+      return false;
+    }
+    this.store?.remove(tenantId);
+    return true;
+  }
+
+  /** Global business hours and every tenant's definition */
+  exportBusinessHours(): { default: BusinessHours; tenants: Record<string, BusinessHours> } {
+    return {
+      default: this.businessHours,
+      tenants: Object.fromEntries(this.tenantBusinessHours),
+    };
+  }
+
+  /**
+   * True when the instant falls inside the window
+   */
+  isWithinWindow(window: TimeWindow, now: Date = new Date()): boolean {
+    this.assertWindow(window);
+
+    const local = this.toZonedTime(now, window.timezone || 'UTC');
+
+    if (window.days && !window.days.some((d) => d.toLowerCase() === local.weekday)) return false;
+    if (window.from && local.date < window.from) return false;
+    if (window.to && local.date > window.to) return false;
+    if (window.excludeHolidays && this.isHolidayDate(window.excludeHolidays, local.date)) return false;
+
+    if (window.start && window.end) {
+      const start = this.toMinutes(window.start);
+      const end = this.toMinutes(window.end);
+      return start <= end
+        ? local.minutes >= start && local.minutes < end
+        : local.minutes >= start || local.minutes < end;
+    }
+    if (window.start) return local.minutes >= this.toMinutes(window.start);
+    if (window.end) return local.minutes < this.toMinutes(window.end);
+
+    return true;
+  }
+
+  /**
+   * True during a tenant's business hours (outside its holidays)
+   */
+  isBusinessHours(tenantId?: string, now: Date = new Date()): boolean {
+    const hours = this.getBusinessHours(tenantId);
+    return this.isWithinWindow({ ...hours, excludeHolidays: hours.holidays }, now);
+  }
+
+  /**
+   * True when the local date is a holiday in the named calendar.
+   * The date is taken in the given time zone, else the calendar's, else UTC.
+   */
+  isHoliday(calendarName: string, now: Date = new Date(), timezone?: string): boolean {
+    const entry = this.holidayCalendars.get(calendarName);
+    if (!entry) {
+      this.logger.warn('Unknown holiday calendar', { calendar: calendarName });
+      return false;
+    }
+
+    const zone = timezone || entry.calendar.timezone || 'UTC';
+    return entry.dates.has(this.toZonedTime(now, zone).date);
+  }
+
+  private applyHolidayCalendar(calendar: HolidayCalendar): void {
+    if (calendar.timezone) this.assertTimezone(calendar.timezone);
+
+    for (const holiday of calendar.holidays) {
+      if (!DATE_PATTERN.test(holiday.date)) {
+        throw new ProxilionError(`Invalid holiday date: ${holiday.date}`, 'INVALID_CALENDAR', 400);
+      }
+    }
+
+    this.holidayCalendars.set(calendar.name, {
+      calendar,
+      dates: new Set(calendar.holidays.map((h) => h.date)),
+    });
+  }
+
+  private isHolidayDate(calendarName: string, date: string): boolean {
+    const entry = this.holidayCalendars.get(calendarName);
+    if (!entry) {
+      this.logger.warn('Unknown holiday calendar', { calendar: calendarName });
+      return false;
+    }
+    return entry.dates.has(date);
+  }
+
+  private toZonedTime(now: Date, timezone: string): ZonedTime {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      this.formatters.set(timezone, formatter);
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(now).map((p) => [p.type, p.value]));
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: parts.weekday.toLowerCase() as Weekday,
+      minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute),
+    };
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private assertWindow(window: TimeWindow): void {
+    if (window.timezone) this.assertTimezone(window.timezone);
+
+    for (const time of [window.start, window.end]) {
+      if (time !== undefined && !TIME_PATTERN.test(time)) {
+        throw new ProxilionError(`Invalid time of day: ${time} (expected HH:MM)`, 'INVALID_CALENDAR', 400);
+      }
+    }
+
+    for (const date of [window.from, window.to]) {
+      if (date !== undefined && !DATE_PATTERN.test(date)) {
+        throw new ProxilionError(`Invalid date: ${date} (expected YYYY-MM-DD)`, 'INVALID_CALENDAR', 400);
+      }
+    }
+
+    for (const day of window.days || []) {
+      if (!WEEKDAYS.includes(String(day).toLowerCase() as Weekday)) {
+        throw new ProxilionError(`Invalid weekday: ${day}`, 'INVALID_CALENDAR', 400);
+      }
+    }
+  }
+
+  private assertTimezone(timezone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new ProxilionError(`Invalid time zone: ${timezone}`, 'INVALID_CALENDAR', 400);
+    }
+  }
+}
@@ -6,19 +6,97 @@ import {
   Policy,
   PolicyCondition,
   PolicyDecision,
+  PolicyEvaluationMode,
+  PolicyEvaluationSettings,
+  PolicyMode,
   PolicyAction,
   AggregatedScanResult,
+  ProxilionError,
   ThreatLevel,
   UnifiedAIRequest,
 } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { metrics } from '../utils/metrics.js';
+import { textExtractionCache } from '../utils/text-extractor.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
+import { TrafficRecorder } from './traffic-recorder.js';
+import { PolicyCalendar, TimeWindow } from './policy-calendar.js';
 
 // Re-export Policy type for external use
 export type { Policy } from '../types/index.js';
 
+// Most restrictive first: decides a policy's primary action and the winner of merged decisions
+export const ACTION_PRECEDENCE: PolicyAction[] = [
+  PolicyAction.BLOCK,
+  PolicyAction.QUEUE,
+  PolicyAction.MODIFY,
+  PolicyAction.REDIRECT,
+  PolicyAction.ALERT,
+  PolicyAction.LOG,
+  PolicyAction.ALLOW,
+];
+
+const EVALUATION_MODES: PolicyEvaluationMode[] = ['first_match', 'merge'];
+
+// Storage key of the global evaluation settings; other keys are tenant IDs
+const GLOBAL_SETTINGS_KEY = '*';
+
+export interface ShadowDecisionExample {
+  correlationId: string;
+  shadowAction: PolicyAction;
+  enforcedAction: PolicyAction;
+  enforcedPolicyId: string;
+  timestamp: number;
+}
+
+export interface ShadowPolicyReport {
+  policyId: string;
+  policyName: string;
+  mode: PolicyMode;
+  evaluated: number;
+  matched: number;
+  wouldChange: number; // Requests whose enforced action would have differed
+  wouldBlock: number;
+  wouldModify: number;
+  examples: ShadowDecisionExample[]; // Most recent outcome changes
+  since: number;
+  lastMatchedAt?: number;
+}
+
+/**
+ * Named predicate behind a 'custom' condition; the condition's field selects it
+ */
+export type ConditionPredicate = (
+  request: UnifiedAIRequest,
+  scanResult: AggregatedScanResult,
+  condition: PolicyCondition
+) => boolean;
+
+interface ShadowMatch {
+  decision: PolicyDecision;
+  precedesEnforced: boolean;
+}
+
+interface PolicyMatch {
+  policy: Policy;
+  matched: PolicyCondition[];
+}
+
 export class PolicyEngine {
   private policies: Policy[] = [];
+  private store?: PersistentCollection<Policy>;
+  private shadowStats: Map<string, ShadowPolicyReport> = new Map();
+  private trafficRecorder?: TrafficRecorder;
+  private evaluationSettings: PolicyEvaluationSettings = {
+    defaultAction: PolicyAction.BLOCK,
+    evaluationMode: 'first_match',
+  };
+  private tenantSettings: Map<string, Partial<PolicyEvaluationSettings>> = new Map();
+  private settingsStore?: PersistentCollection<Partial<PolicyEvaluationSettings>>;
+  private calendar: PolicyCalendar = new PolicyCalendar();
+  private predicates: Map<string, ConditionPredicate> = new Map();
+
+  private static readonly MAX_SHADOW_EXAMPLES = 10;
 
   // Static threat level values for efficient comparison
   private static readonly THREAT_LEVEL_VALUES: Record<ThreatLevel, number> = {
@@ -29,8 +107,15 @@ export class PolicyEngine {
     [ThreatLevel.CRITICAL]: 4,
   };
 
-  constructor() {
-    this.loadDefaultPolicies();
+  /**
+   * @param policies Initial policy set; the built-in defaults are used when omitted
+   */
+  constructor(policies?: Policy[]) {
+    if (policies) {
+      this.policies = [...policies].sort((a, b) => b.priority - a.priority);
+    } else {
+      this.loadDefaultPolicies();
+    }
   }
 
   private loadDefaultPolicies(): void {
@@ -131,17 +216,176 @@ export class PolicyEngine {
     });
   }
 
+  /**
+   * Load policies from durable storage and write through all future changes.
+   * An empty store is seeded with the policies currently loaded.
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const store = new PersistentCollection<Policy>(storage, 'policies');
+    const settingsStore = new PersistentCollection<Partial<PolicyEvaluationSettings>>(storage, 'policy_settings');
+    const [persisted, settings] = await Promise.all([store.load(), settingsStore.load()]);
+
+    for (const [key, value] of settings) {
+      if (key === GLOBAL_SETTINGS_KEY) {
+        this.evaluationSettings = { ...this.evaluationSettings, ...value };
+      } else {
+        this.tenantSettings.set(key, value);
+      }
+    }
+
+    if (persisted.size > 0) {
+      this.policies = Array.from(persisted.values());
+      this.policies.sort((a, b) => b.priority - a.priority);
+    } else {
+      for (const policy of this.policies) {
+        store.save(policy.id, policy);
+      }
+    }
+
+    this.store = store;
+    this.settingsStore = settingsStore;
+    logger.info('Policy storage attached', { policyCount: this.policies.length });
+  }
+
+  /**
+   * Record every evaluated request so candidate policies can be simulated against it
+   */
+  setTrafficRecorder(recorder: TrafficRecorder): void {
+    this.trafficRecorder = recorder;
+  }
+
+  getTrafficRecorder(): TrafficRecorder | undefined {
+    return this.trafficRecorder;
+  }
+
+  /**
+   * Business hours and holiday calendars used by 'time' conditions
+   */
+  setCalendar(calendar: PolicyCalendar): void {
+    this.calendar = calendar;
+  }
+
+  getCalendar(): PolicyCalendar {
+    return this.calendar;
+  }
+
+  /**
+   * Register a predicate for 'custom' conditions ({ type: 'custom', field: name })
+   */
+  registerPredicate(name: string, predicate: ConditionPredicate): void {
+    this.predicates.set(name, predicate);
+    logger.info(`Registered condition predicate: ${name}`);
+  }
+
+  getPredicates(): ReadonlyMap<string, ConditionPredicate> {
+    return this.predicates;
+  }
+
+  /**
+   * Effective evaluation settings: the tenant's overrides on top of the global settings
+   */
+  getEvaluationSettings(tenantId?: string): PolicyEvaluationSettings {
+    const overrides = tenantId ? this.tenantSettings.get(tenantId) : undefined;
+    return { ...this.evaluationSettings, ...overrides };
+  }
+
+  /**
+   * Update the global evaluation settings, or a tenant's overrides when a tenant ID is given
+   */
+  updateEvaluationSettings(
+    updates: Partial<PolicyEvaluationSettings>,
+    tenantId?: string
+  ): PolicyEvaluationSettings {
+    const changes: Partial<PolicyEvaluationSettings> = {};
+
+    if (updates.defaultAction !== undefined) {
+      if (!Object.values(PolicyAction).includes(updates.defaultAction)) {
+        throw new ProxilionError(`Invalid default action: ${updates.defaultAction}`, 'INVALID_POLICY_SETTINGS', 400);
+      }
+      changes.defaultAction = updates.defaultAction;
+    }
+
+    if (updates.evaluationMode !== undefined) {
+      if (!EVALUATION_MODES.includes(updates.evaluationMode)) {
+        throw new ProxilionError(`Invalid evaluation mode: ${updates.evaluationMode}`, 'INVALID_POLICY_SETTINGS', 400);
+      }
+      changes.evaluationMode = updates.evaluationMode;
+    }
+
+    if (tenantId) {
+      const overrides = { ...this.tenantSettings.get(tenantId), ...changes };
+      this.tenantSettings.set(tenantId, overrides);
+      this.settingsStore?.save(tenantId, overrides);
+    } else {
+      this.evaluationSettings = { ...this.evaluationSettings, ...changes };
+      this.settingsStore?.save(GLOBAL_SETTINGS_KEY, this.evaluationSettings);
+    }
+
+    logger.info('Policy evaluation settings updated', { tenantId, ...changes });
+    return this.getEvaluationSettings(tenantId);
+  }
+
+  /** Remove a tenant's overrides so the global settings apply */
+  resetEvaluationSettings(tenantId: string): boolean {
+    if (!this.tenantSettings.delete(tenantId)) {
+      return false;
+    }
+    this.settingsStore?.remove(tenantId);
+    logger.info('Policy evaluation settings reset', { tenantId });
+    return true;
+  }
+
+  /** Global settings and every tenant's overrides */
+  exportEvaluationSettings(): {
+    global: PolicyEvaluationSettings;
+    tenants: Record<string, Partial<PolicyEvaluationSettings>>;
+  } {
+    return {
+      global: { ...this.evaluationSettings },
+      tenants: Object.fromEntries(
+        Array.from(this.tenantSettings.entries()).map(([id, overrides]) => [id, { ...overrides }])
+      ),
+    };
+  }
+
+  /**
+   * Reject conditions the engine cannot evaluate, so they fail when the policy is saved
+   * rather than silently never matching
+   */
+  validatePolicy(policy: Pick<Policy, 'conditions'>): void {
+    const check = (conditions: PolicyCondition[] = []): void => {
+      for (const condition of conditions) {
+        if (condition.type === 'custom' && !(condition.field && this.predicates.has(condition.field))) {
+          throw new ProxilionError(
+            `Unknown custom condition predicate: ${condition.field}`,
+            'INVALID_POLICY',
+            400,
+            { registered: Array.from(this.predicates.keys()) }
+          );
+        }
+        check(condition.conditions);
+      }
+    };
+    check(policy.conditions);
+  }
+
   addPolicy(policy: Policy): void {
+    this.validatePolicy(policy);
     this.policies.push(policy);
     this.policies.sort((a, b) => b.priority - a.priority);
+    this.store?.save(policy.id, policy);
     logger.info(`Added policy: ${policy.name}`, { policyId: policy.id });
   }
 
   updatePolicy(policyId: string, updates: Partial<Policy>): boolean {
     const policy = this.policies.find((p) => p.id === policyId);
     if (policy) {
+      if (updates.conditions) {
+        this.validatePolicy({ conditions: updates.conditions });
+      }
       Object.assign(policy, updates);
       this.policies.sort((a, b) => b.priority - a.priority);
+      this.store?.save(policy.id, policy);
       logger.info(`Updated policy: ${policyId}`);
       return true;
     }
@@ -152,6 +396,7 @@ export class PolicyEngine {
     const index = this.policies.findIndex((p) => p.id === policyId);
     if (index !== -1) {
       this.policies.splice(index, 1);
+      this.store?.remove(policyId);
       logger.info(`Removed policy: ${policyId}`);
       return true;
     }
@@ -175,59 +420,207 @@ export class PolicyEngine {
       scanResult.scanResults.map(r => [r.scannerId, r])
     );
 
-    // Find first matching policy
+    const settings = this.getEvaluationSettings(request.metadata.tenantId);
+    const mergeMatches = settings.evaluationMode === 'merge';
+    const enforcedMatches: PolicyMatch[] = [];
+    const shadowMatches: ShadowMatch[] = [];
+
+    // In first-match mode only the first matching enforced policy applies;
+    // shadow policies are always evaluated
     for (const policy of this.policies) {
       if (!policy.enabled) continue;
 
+      const isShadow = policy.mode === 'shadow';
+      if (!isShadow && !mergeMatches && enforcedMatches.length > 0) continue;
+
       const matches = this.evaluateConditions(policy.conditions, request, scanResult, scannerResultMap);
 
+      if (isShadow) {
+        this.getShadowStats(policy).evaluated++;
+        if (matches.allMatched) {
+          shadowMatches.push({
+            decision: this.createDecision(policy, matches.matched),
+            precedesEnforced: mergeMatches || enforcedMatches.length === 0,
+          });
+        }
+        continue;
+      }
+
       if (matches.allMatched) {
-        const decision: PolicyDecision = {
-          policyId: policy.id,
-          action: this.getPrimaryAction(policy.actions),
-          reason: `Policy "${policy.name}" matched`,
-          matchedConditions: matches.matched,
-          timestamp: Date.now(),
-          metadata: {
-            policyName: policy.name,
-            policyPriority: policy.priority,
-            allActions: policy.actions.map((a) => a.action),
-          },
-        };
-
-        const duration = Date.now() - startTime;
-        metrics.histogram('policy.evaluation.duration', duration);
+        enforcedMatches.push({ policy, matched: matches.matched });
+
+        const action = this.getPrimaryAction(policy.actions);
         metrics.counter('policy.matched', 1, {
           policyId: policy.id,
-          action: decision.action,
+          action,
         });
 
         logger.info('Policy matched', {
           correlationId: request.metadata.correlationId,
           policyId: policy.id,
           policyName: policy.name,
-          action: decision.action,
-          duration,
+          action,
+          duration: Date.now() - startTime,
         });
-
-        return decision;
       }
     }
 
-    // No policy matched - default to block for safety
-    const decision: PolicyDecision = {
-      policyId: 'default-fallback',
-      action: PolicyAction.BLOCK,
-      reason: 'No matching policy found - defaulting to block',
-      matchedConditions: [],
+    let decision: PolicyDecision;
+
+    if (enforcedMatches.length === 0) {
+      // No policy matched - apply the configured default (block unless overridden)
+      decision = {
+        policyId: 'default-fallback',
+        action: settings.defaultAction,
+        reason: `No matching policy found - defaulting to ${settings.defaultAction}`,
+        matchedConditions: [],
+        timestamp: Date.now(),
+      };
+
+      logger.warn('No policy matched - using fallback', {
+        correlationId: request.metadata.correlationId,
+        action: settings.defaultAction,
+        tenantId: request.metadata.tenantId,
+      });
+    } else {
+      decision = enforcedMatches.length === 1
+        ? this.createDecision(enforcedMatches[0].policy, enforcedMatches[0].matched)
+        : this.mergeDecisions(enforcedMatches);
+
+      metrics.histogram('policy.evaluation.duration', Date.now() - startTime);
+    }
+
+    if (shadowMatches.length > 0) {
+      this.recordShadowMatches(request, decision, shadowMatches, mergeMatches);
+      decision.shadowDecisions = shadowMatches.map((m) => m.decision);
+    }
+
+    this.trafficRecorder?.record(request, scanResult, decision);
+
+    return decision;
+  }
+
+  private createDecision(policy: Policy, matchedConditions: PolicyCondition[]): PolicyDecision {
+    const action = this.getPrimaryAction(policy.actions);
+
+    return {
+      policyId: policy.id,
+      action,
+      reason: `Policy "${policy.name}" matched`,
+      matchedConditions,
       timestamp: Date.now(),
+      parameters: policy.actions.find((a) => a.action === action)?.parameters,
+      metadata: {
+        policyName: policy.name,
+        policyPriority: policy.priority,
+        allActions: policy.actions.map((a) => a.action),
+      },
     };
+  }
 
-    logger.warn('No policy matched - using fallback', {
-      correlationId: request.metadata.correlationId,
-    });
+  /**
+   * Combine every matching policy into one decision: the most restrictive action wins,
+   * and its parameters are merged with higher-priority policies taking precedence
+   */
+  private mergeDecisions(matches: PolicyMatch[]): PolicyDecision {
+    const actions = matches.flatMap((m) => m.policy.actions);
+    const action = this.getPrimaryAction(actions);
+    const primary = matches.find((m) => m.policy.actions.some((a) => a.action === action))!.policy;
 
-    return decision;
+    const parameterSets = actions
+      .filter((a) => a.action === action && a.parameters)
+      .map((a) => a.parameters!)
+      .reverse();
+
+    return {
+      policyId: primary.id,
+      action,
+      reason: `${matches.length} policies matched - "${primary.name}" determined the action`,
+      matchedConditions: matches.flatMap((m) => m.matched),
+      timestamp: Date.now(),
+      parameters: parameterSets.length > 0 ? Object.assign({}, ...parameterSets) : undefined,
+      metadata: {
+        policyName: primary.name,
+        policyPriority: primary.priority,
+        allActions: Array.from(new Set(actions.map((a) => a.action))),
+        mergedPolicyIds: matches.map((m) => m.policy.id),
+      },
+    };
+  }
+
+  /**
+   * Record what each matching shadow policy would have done if enforced.
+   * In first-match mode a shadow policy only changes the outcome when it outranks
+   * the enforced match; in merge mode when its action is more restrictive.
+   */
+  private recordShadowMatches(
+    request: UnifiedAIRequest,
+    enforced: PolicyDecision,
+    shadowMatches: ShadowMatch[],
+    mergeMatches: boolean
+  ): void {
+    const correlationId = request.metadata.correlationId;
+
+    for (const { decision, precedesEnforced } of shadowMatches) {
+      const stats = this.shadowStats.get(decision.policyId)!;
+      const changesOutcome = precedesEnforced &&
+        decision.action !== enforced.action &&
+        (!mergeMatches || ACTION_PRECEDENCE.indexOf(decision.action) < ACTION_PRECEDENCE.indexOf(enforced.action));
+
+      stats.matched++;
+      stats.lastMatchedAt = decision.timestamp;
+
+      if (changesOutcome) {
+        stats.wouldChange++;
+        if (decision.action === PolicyAction.BLOCK) stats.wouldBlock++;
+        if (decision.action === PolicyAction.MODIFY) stats.wouldModify++;
+
+        stats.examples.push({
+          correlationId,
+          shadowAction: decision.action,
+          enforcedAction: enforced.action,
+          enforcedPolicyId: enforced.policyId,
+          timestamp: decision.timestamp,
+        });
+        if (stats.examples.length > PolicyEngine.MAX_SHADOW_EXAMPLES) {
+          stats.examples.shift();
+        }
+      }
+
+      metrics.counter('policy.shadow.matched', 1, {
+        policyId: decision.policyId,
+        action: decision.action,
+        changesOutcome: String(changesOutcome),
+      });
+
+      logger.info('Shadow policy matched', {
+        correlationId,
+        policyId: decision.policyId,
+        shadowAction: decision.action,
+        enforcedAction: enforced.action,
+        changesOutcome,
+      });
+    }
+  }
+
+  private getShadowStats(policy: Policy): ShadowPolicyReport {
+    let stats = this.shadowStats.get(policy.id);
+    if (!stats) {
+      stats = {
+        policyId: policy.id,
+        policyName: policy.name,
+        mode: 'shadow',
+        evaluated: 0,
+        matched: 0,
+        wouldChange: 0,
+        wouldBlock: 0,
+        wouldModify: 0,
+        examples: [],
+        since: Date.now(),
+      };
+      this.shadowStats.set(policy.id, stats);
+    }
+    return stats;
   }
 
   private evaluateConditions(
@@ -257,17 +650,69 @@ export class PolicyEngine {
     scannerResultMap: Map<string, any>
   ): boolean {
     switch (condition.type) {
+      // Boolean composition
+      case 'all':
+        return (condition.conditions || []).every((c) =>
+          this.evaluateCondition(c, request, scanResult, scannerResultMap)
+        );
+
+      case 'any':
+        return (condition.conditions || []).some((c) =>
+          this.evaluateCondition(c, request, scanResult, scannerResultMap)
+        );
+
+      case 'not':
+        return !(condition.conditions || []).every((c) =>
+          this.evaluateCondition(c, request, scanResult, scannerResultMap)
+        );
+
+      // Scan results
       case 'threat_level':
         return this.evaluateThreatLevel(condition, scanResult.overallThreatLevel);
 
       case 'scanner':
         return this.evaluateScanner(condition, scannerResultMap);
 
+      case 'finding_type':
+        return this.compareValues(
+          scanResult.findings.map((f) => f.type),
+          condition
+        );
+
+      // Request fields
       case 'user':
         return this.evaluateUser(condition, request);
 
+      case 'model':
+        return this.compareValue(request.model, condition);
+
+      case 'provider':
+        return this.compareValue(request.provider, condition);
+
+      case 'tenant':
+        return this.compareValue(request.metadata.tenantId, condition);
+
+      case 'department':
+        return this.compareValue(request.metadata.department, condition);
+
+      case 'token_estimate':
+        return this.compareValue(this.estimateTokens(request, condition.field), condition);
+
+      case 'tool_name':
+        return this.compareValues(
+          (request.tools || []).map((t) => t.name),
+          condition
+        );
+
+      case 'header':
+        return this.compareValue(this.getHeader(request, condition.field), condition);
+
+      // Environment
       case 'time':
-        return this.evaluateTime(condition);
+        return this.evaluateTime(condition, request);
+
+      case 'custom':
+        return this.evaluateCustom(condition, request, scanResult);
 
       default:
         logger.warn(`Unknown condition type: ${condition.type}`);
@@ -275,6 +720,26 @@ export class PolicyEngine {
     }
   }
 
+  private evaluateCustom(
+    condition: PolicyCondition,
+    request: UnifiedAIRequest,
+    scanResult: AggregatedScanResult
+  ): boolean {
+    // Policies loaded from storage can name a predicate that has not been registered (yet)
+    const predicate = condition.field ? this.predicates.get(condition.field) : undefined;
+    if (!predicate) {
+      logger.warn(`Unknown custom condition predicate: ${condition.field}`);
+      return false;
+    }
+
+    try {
+      return predicate(request, scanResult, condition);
+    } catch (error) {
+      logger.error(`Custom condition predicate failed: ${condition.field}`, error as Error);
+      return false;
+    }
+  }
+
   private evaluateThreatLevel(condition: PolicyCondition, threatLevel: ThreatLevel): boolean {
     // Use static threat level values for efficient comparison
     const currentValue = PolicyEngine.THREAT_LEVEL_VALUES[threatLevel];
@@ -355,31 +820,146 @@ export class PolicyEngine {
     }
   }
 
-  private evaluateTime(condition: PolicyCondition): boolean {
-    const now = new Date();
-    const currentHour = now.getHours();
+  /**
+   * Time conditions, evaluated in explicit time zones:
+   * - field 'business_hours': the request tenant's business hours
+   * - field 'holiday': value names a holiday calendar
+   * - field 'window': value is a TimeWindow
+   * 'ne' negates the check; value false does the same for business hours and holidays.
+   */
+  private evaluateTime(condition: PolicyCondition, request: UnifiedAIRequest): boolean {
+    let inside: boolean;
+
+    try {
+      switch (condition.field) {
+        case 'business_hours':
+          inside = this.calendar.isBusinessHours(request.metadata.tenantId);
+          if (condition.value === false) inside = !inside;
+          break;
+
+        case 'holiday':
+          inside = this.calendar.isHoliday(String(condition.value));
+          break;
+
+        case 'window':
+          inside = this.calendar.isWithinWindow((condition.value || {}) as TimeWindow);
+          break;
+
+        default:
+          logger.warn(`Unknown time condition field: ${condition.field}`);
+          return false;
+      }
+    } catch (error) {
+      // A malformed window never matches rather than failing the request
+      logger.warn('Invalid time condition', { field: condition.field, error: (error as Error).message });
+      return false;
+    }
+
+    return condition.operator === 'ne' ? !inside : inside;
+  }
+
+  /**
+   * Compare a single request value against a condition.
+   * Missing values never match, except for negative operators.
+   */
+  private compareValue(actual: string | number | undefined, condition: PolicyCondition): boolean {
+    const expected = condition.value;
 
-    // Example: business hours check
-    if (condition.field === 'business_hours') {
-      return currentHour >= 9 && currentHour < 17;
+    if (actual === undefined || actual === '') {
+      return condition.operator === 'ne' || condition.operator === 'not_in';
     }
 
-    return false;
+    switch (condition.operator) {
+      case 'eq':
+        return actual === expected;
+
+      case 'ne':
+        return actual !== expected;
+
+      case 'gt':
+        return typeof actual === 'number' && actual > (expected as number);
+
+      case 'gte':
+        return typeof actual === 'number' && actual >= (expected as number);
+
+      case 'lt':
+        return typeof actual === 'number' && actual < (expected as number);
+
+      case 'lte':
+        return typeof actual === 'number' && actual <= (expected as number);
+
+      case 'in':
+        return Array.isArray(expected) && expected.includes(actual);
+
+      case 'not_in':
+        return Array.isArray(expected) && !expected.includes(actual);
+
+      case 'contains':
+        return String(actual).toLowerCase().includes(String(expected).toLowerCase());
+
+      case 'matches':
+        return this.matchesPattern(String(actual), expected);
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Compare a set of request values (finding types, tool names) against a condition.
+   * Positive operators match if any value matches; 'ne' and 'not_in' match only if none do.
+   */
+  private compareValues(actual: string[], condition: PolicyCondition): boolean {
+    switch (condition.operator) {
+      case 'ne':
+        return !actual.includes(condition.value as string);
+
+      case 'not_in':
+        return Array.isArray(condition.value) && !actual.some((v) => (condition.value as unknown[]).includes(v));
+
+      default:
+        return actual.some((v) => this.compareValue(v, condition));
+    }
+  }
+
+  private matchesPattern(actual: string, pattern: unknown): boolean {
+    try {
+      return new RegExp(String(pattern), 'i').test(actual);
+    } catch {
+      logger.warn('Invalid policy condition pattern', { pattern: String(pattern) });
+      return false;
+    }
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token).
+   * field 'total' adds the requested completion budget to the prompt estimate.
+   */
+  private estimateTokens(request: UnifiedAIRequest, field?: string): number {
+    const promptTokens = Math.ceil(textExtractionCache.get(request).fullText.length / 4);
+
+    if (field === 'total') {
+      return promptTokens + (request.parameters.maxTokens || 0);
+    }
+
+    return promptTokens;
+  }
+
+  private getHeader(request: UnifiedAIRequest, name?: string): string | undefined {
+    if (!name || !request.metadata.headers) return undefined;
+
+    const target = name.toLowerCase();
+    for (const [key, value] of Object.entries(request.metadata.headers)) {
+      if (key.toLowerCase() === target) {
+        return value;
+      }
+    }
+
+    return undefined;
   }
 
   private getPrimaryAction(actions: Policy['actions']): PolicyAction {
-    // Priority order for actions
-    const actionPriority = [
-      PolicyAction.BLOCK,
-      PolicyAction.QUEUE,
-      PolicyAction.MODIFY,
-      PolicyAction.REDIRECT,
-      PolicyAction.ALERT,
-      PolicyAction.LOG,
-      PolicyAction.ALLOW,
-    ];
-
-    for (const priority of actionPriority) {
+    for (const priority of ACTION_PRECEDENCE) {
       if (actions.some((a) => a.action === priority)) {
         return priority;
       }
@@ -395,5 +975,38 @@ export class PolicyEngine {
   getPolicy(policyId: string): Policy | undefined {
     return this.policies.find((p) => p.id === policyId);
   }
+
+  /**
+   * Get shadow evaluation results, optionally for a single policy.
+   * Results are kept after a policy is promoted so the rollout can be reviewed.
+   */
+  getShadowReport(policyId?: string): ShadowPolicyReport[] {
+    const reports: ShadowPolicyReport[] = [];
+
+    for (const stats of this.shadowStats.values()) {
+      if (policyId && stats.policyId !== policyId) continue;
+
+      const policy = this.getPolicy(stats.policyId);
+      if (!policy) continue;
+
+      reports.push({
+        ...stats,
+        policyName: policy.name,
+        mode: policy.mode || 'enforce',
+        examples: [...stats.examples],
+      });
+    }
+
+    return reports.sort((a, b) => b.wouldChange - a.wouldChange);
+  }
+
+  /** Reset shadow evaluation results */
+  resetShadowReport(policyId?: string): void {
+    if (policyId) {
+      this.shadowStats.delete(policyId);
+    } else {
+      this.shadowStats.clear();
+    }
+  }
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Policy Simulator
+ *
+ * Replays recorded traffic through a candidate policy set to show the
+ * blast radius of a policy change before it is applied:
+ * - Candidate policies overlay the live set by ID, or replace it entirely
+ * - Each recorded request is re-evaluated against its recorded scan result
+ * - Decisions are diffed against what was actually enforced
+ *
+ * Time-based conditions are evaluated at simulation time, not at the
+ * time the request was recorded. Default decisions, evaluation modes,
+ * business hours and holiday calendars are taken from the live engine.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { Policy, PolicyAction } from '../types/index.js';
+import { PolicyEngine } from './policy-engine.js';
+import { TrafficRecorder, TrafficQuery } from './traffic-recorder.js';
+
+export interface PolicySimulationRequest extends TrafficQuery {
+  policies: Policy[];
+  replace?: boolean; // Use only the candidate policies instead of overlaying the live set
+  maxDiffs?: number;
+}
+
+export interface PolicySimulationDiff {
+  correlationId: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  userId?: string;
+  tenantId?: string;
+  recorded: { policyId: string; action: PolicyAction };
+  simulated: { policyId: string; action: PolicyAction; reason: string };
+}
+
+export interface PolicySimulationResult {
+  window: { startTime?: number; endTime?: number };
+  totalRequests: number;
+  changedRequests: number;
+  recordedActions: Record<string, number>;
+  simulatedActions: Record<string, number>;
+  transitions: Record<string, number>; // e.g. 'allow->block': 12
+  diffs: PolicySimulationDiff[];
+  truncated: boolean;
+  durationMs: number;
+}
+
+export class PolicySimulator {
+  private logger: Logger;
+
+  constructor(
+    private recorder: TrafficRecorder,
+    private liveEngine: PolicyEngine
+  ) {
+    this.logger = new Logger();
+  }
+
+  async simulate(request: PolicySimulationRequest): Promise<PolicySimulationResult> {
+    const startTime = Date.now();
+    const maxDiffs = request.maxDiffs ?? 100;
+    const engine = this.buildEngine(request.policies, request.replace);
+    const entries = this.recorder.getEntries(request);
+
+    const result: PolicySimulationResult = {
+      window: {
+        startTime: entries[0]?.timestamp,
+        endTime: entries[entries.length - 1]?.timestamp,
+      },
+      totalRequests: entries.length,
+      changedRequests: 0,
+      recordedActions: {},
+      simulatedActions: {},
+      transitions: {},
+      diffs: [],
+      truncated: false,
+      durationMs: 0,
+    };
+
+    for (const entry of entries) {
+      const decision = await engine.evaluate(entry.request, entry.scanResult);
+
+      this.increment(result.recordedActions, entry.decision.action);
+      this.increment(result.simulatedActions, decision.action);
+
+      if (decision.action === entry.decision.action) continue;
+
+      result.changedRequests++;
+      this.increment(result.transitions, `${entry.decision.action}->${decision.action}`);
+
+      if (result.diffs.length < maxDiffs) {
+        result.diffs.push({
+          correlationId: entry.correlationId,
+          timestamp: entry.timestamp,
+          provider: entry.request.provider,
+          model: entry.request.model,
+          userId: entry.request.metadata.userId,
+          tenantId: entry.request.metadata.tenantId,
+          recorded: { policyId: entry.decision.policyId, action: entry.decision.action },
+          simulated: { policyId: decision.policyId, action: decision.action, reason: decision.reason },
+        });
+      } else {
+        result.truncated = true;
+      }
+    }
+
+    result.durationMs = Date.now() - startTime;
+
+    this.logger.info('Policy simulation completed', {
+      totalRequests: result.totalRequests,
+      changedRequests: result.changedRequests,
+      candidatePolicies: request.policies.length,
+      replace: request.replace ?? false,
+      durationMs: result.durationMs,
+    });
+
+    return result;
+  }
+
+  /**
+   * Candidate engine with the live default decisions, evaluation modes, calendar and predicates
+   */
+  private buildEngine(candidates: Policy[], replace?: boolean): PolicyEngine {
+    const engine = new PolicyEngine(this.buildPolicySet(candidates, replace));
+    const { global, tenants } = this.liveEngine.exportEvaluationSettings();
+
+    engine.setCalendar(this.liveEngine.getCalendar());
+    for (const [name, predicate] of this.liveEngine.getPredicates()) {
+      engine.registerPredicate(name, predicate);
+    }
+    engine.updateEvaluationSettings(global);
+    for (const [tenantId, overrides] of Object.entries(tenants)) {
+      engine.updateEvaluationSettings(overrides, tenantId);
+    }
+
+    return engine;
+  }
+
+  private buildPolicySet(candidates: Policy[], replace?: boolean): Policy[] {
+    const policies = new Map<string, Policy>();
+
+    if (!replace) {
+      for (const policy of this.liveEngine.getPolicies()) {
+        policies.set(policy.id, policy);
+      }
+    }
+
+    for (const policy of candidates) {
+      policies.set(policy.id, policy);
+    }
+
+    // Copy so simulated evaluation can never mutate live policies
+    return JSON.parse(JSON.stringify(Array.from(policies.values())));
+  }
+
+  private increment(counts: Record<string, number>, key: string): void {
+    counts[key] = (counts[key] || 0) + 1;
+  }
+}
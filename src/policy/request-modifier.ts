@@ -0,0 +1,328 @@
+/**
+ * Request Modifier
+ *
+ * Applies MODIFY policy actions to the provider request body before forwarding:
+ * - Redacts sensitive values for the finding types reported by the scanners
+ *   (by pattern, or by the exact span for findings with an offset)
+ * - Redacts additional patterns configured on the policy action
+ * - Tokenizes PII reversibly (`tokenize`): values become stable placeholders
+ *   such as <EMAIL_1>, kept in the TokenVault under the correlation ID so
+ *   the response processor can restore them in the model's answer
+ * - Overrides or removes body fields (e.g. cap max_tokens, drop tools)
+ *
+ * The body keeps its provider format so it can be forwarded unchanged.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { AggregatedScanResult, Finding, UnifiedAIRequest } from '../types/index.js';
+import { PIIScanner } from '../scanners/pii-scanner.js';
+import { TokenVault } from './token-vault.js';
+
+export interface ModifyActionParameters {
+  redact?: boolean | string[]; // true: all finding types, list: only these finding types
+  tokenize?: boolean | string[]; // Like redact, but reversible placeholders restored in the response
+  patterns?: string[]; // Extra regular expressions to redact
+  replacement?: string;
+  set?: Record<string, unknown>; // Body fields to override, by dot path
+  remove?: string[]; // Body fields to delete, by dot path
+}
+
+export interface ModificationResult {
+  body: unknown;
+  redactions: number;
+  tokens: number; // Distinct values replaced by placeholders
+  changedFields: string[];
+}
+
+export interface RequestModifierConfig {
+  piiScanner?: PIIScanner; // Finds the raw values behind PII findings for tokenization
+  vault?: TokenVault;
+}
+
+export class RequestModifier {
+  private logger: Logger;
+
+  // Finding types are matched by substring against these names
+  private static readonly REDACTION_PATTERNS: Array<{ type: string; pattern: RegExp }> = [
+    { type: 'Email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g },
+    { type: 'Phone', pattern: /\b(\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g },
+    { type: 'Social Security', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+    { type: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+    { type: 'Credit Card', pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+    { type: 'IP Address', pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g },
+    { type: 'API Key', pattern: /\b[A-Za-z0-9]{32,}\b/g },
+    { type: 'AWS', pattern: /AKIA[0-9A-Z]{16}/g },
+    { type: 'GitHub', pattern: /ghp_[a-zA-Z0-9]{36}/g },
+  ];
+
+  // Body keys whose values are identifiers or binary data, never prompt text
+  private static readonly SKIPPED_KEYS = new Set([
+    'model',
+    'role',
+    'type',
+    'id',
+    'tool_call_id',
+    'data',
+    'url',
+    'media_type',
+    'mime_type',
+    'mimeType',
+  ]);
+
+  // Placeholder labels by finding type substring; first match wins
+  private static readonly TOKEN_LABELS: Array<[string, string]> = [
+    ['email', 'EMAIL'],
+    ['phone', 'PHONE'],
+    ['social security', 'SSN'],
+    ['credit card', 'CREDIT_CARD'],
+    ['ip address', 'IP_ADDRESS'],
+    ['person', 'PERSON'],
+    ['address', 'ADDRESS'],
+    ['date of birth', 'DATE_OF_BIRTH'],
+  ];
+
+  private piiScanner?: PIIScanner;
+  private vault?: TokenVault;
+
+  constructor(config: RequestModifierConfig = {}) {
+    this.logger = new Logger();
+    this.piiScanner = config.piiScanner;
+    this.vault = config.vault;
+  }
+
+  /**
+   * Apply modification parameters to a copy of the request body. With the
+   * unified request, findings that carry an offset (e.g. names and addresses
+   * from the entity scanner) are redacted by their exact text.
+   */
+  modify(
+    body: unknown,
+    scanResult: AggregatedScanResult,
+    parameters: ModifyActionParameters = {},
+    request?: UnifiedAIRequest
+  ): ModificationResult {
+    const modified = body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+    const changedFields: string[] = [];
+    let redactions = 0;
+    let tokens = 0;
+
+    // Tokenize first so redaction only catches what tokenization missed
+    if (parameters.tokenize && request && this.vault && modified && typeof modified === 'object') {
+      const findings = this.selectFindings(scanResult, { redact: parameters.tokenize });
+      tokens = this.tokenizeStrings(modified, this.tokenizableValues(findings, request), request.metadata.correlationId);
+    }
+
+    const patterns = this.selectPatterns(scanResult, parameters);
+    if (request) {
+      patterns.push(
+        ...this.spanValues(this.selectFindings(scanResult, parameters), request).map(
+          ({ value }) => new RegExp(this.escapeRegex(value), 'g')
+        )
+      );
+    }
+    const replacement = parameters.replacement ?? '[REDACTED]';
+
+    if (patterns.length > 0 && modified !== undefined) {
+      redactions = this.redactStrings(modified, patterns, replacement);
+    }
+
+    if (modified && typeof modified === 'object') {
+      for (const [path, value] of Object.entries(parameters.set || {})) {
+        this.setPath(modified as Record<string, unknown>, path, value);
+        changedFields.push(path);
+      }
+
+      for (const path of parameters.remove || []) {
+        if (this.deletePath(modified as Record<string, unknown>, path)) {
+          changedFields.push(path);
+        }
+      }
+    }
+
+    this.logger.debug('Request modified', { redactions, tokens, changedFields });
+
+    return { body: modified, redactions, tokens, changedFields };
+  }
+
+  private selectPatterns(scanResult: AggregatedScanResult, parameters: ModifyActionParameters): RegExp[] {
+    const patterns: RegExp[] = [];
+    const findingTypes = this.selectFindings(scanResult, parameters).map((f) => f.type.toLowerCase());
+
+    for (const { type, pattern } of RequestModifier.REDACTION_PATTERNS) {
+      if (findingTypes.some((findingType) => findingType.includes(type.toLowerCase()))) {
+        patterns.push(pattern);
+      }
+    }
+
+    for (const source of parameters.patterns || []) {
+      try {
+        patterns.push(new RegExp(source, 'g'));
+      } catch {
+        this.logger.warn('Invalid redaction pattern', { pattern: source });
+      }
+    }
+
+    return patterns;
+  }
+
+  private selectFindings(scanResult: AggregatedScanResult, parameters: Pick<ModifyActionParameters, 'redact'>): Finding[] {
+    const redact = parameters.redact ?? true;
+    if (redact === false) return [];
+
+    return scanResult.findings.filter(
+      (f) => redact === true || redact.some((t) => f.type.toLowerCase().includes(t.toLowerCase()))
+    );
+  }
+
+  /**
+   * The text that offset-carrying findings point at
+   */
+  private spanValues(findings: Finding[], request: UnifiedAIRequest): Array<{ value: string; type: string }> {
+    const values: Array<{ value: string; type: string }> = [];
+
+    for (const finding of findings) {
+      const { path, offset, length } = finding.location || {};
+      const match = path?.match(/^request\.messages\[(\d+)\](?:\.content\[(\d+)\])?$/);
+      if (!match || offset === undefined || !length) continue;
+
+      const content = request.messages[Number(match[1])]?.content;
+      const text = typeof content === 'string'
+        ? (match[2] === undefined ? content : undefined)
+        : match[2] !== undefined ? content?.[Number(match[2])]?.text : undefined;
+      const value = text?.slice(offset, offset + length);
+      if (value) values.push({ value, type: finding.type });
+    }
+
+    return values;
+  }
+
+  /**
+   * Raw values behind the findings: spans for offset-carrying findings, and
+   * accepted PII scanner matches for findings named after a PII pattern
+   */
+  private tokenizableValues(findings: Finding[], request: UnifiedAIRequest): Array<{ value: string; type: string }> {
+    const values = this.spanValues(findings, request);
+    const patternNames = new Set(this.piiScanner?.getAllPatterns().map((p) => p.name) || []);
+    const types = [...new Set(findings.map((f) => f.type).filter((type) => patternNames.has(type)))];
+
+    if (this.piiScanner && types.length > 0) {
+      for (const message of request.messages) {
+        const texts = typeof message.content === 'string'
+          ? [message.content]
+          : message.content.filter((part) => part.text).map((part) => part.text!);
+
+        for (const text of texts) {
+          for (const evaluation of this.piiScanner.explainMatches(text, types)) {
+            if (evaluation.accepted) values.push({ value: evaluation.value, type: evaluation.pattern });
+          }
+        }
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Replace each value with its vault placeholder in every prompt-bearing
+   * string; returns the number of distinct values tokenized
+   */
+  private tokenizeStrings(node: any, values: Array<{ value: string; type: string }>, correlationId: string): number {
+    // Longest first so a value never replaces part of a longer one
+    const replacements = [...new Map(values.map((v) => [v.value, v.type])).entries()]
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([value, type]) => ({ value, label: this.tokenLabel(type) }));
+    const tokenized = new Set<string>();
+
+    this.rewriteStrings(node, (text) => {
+      let result = text;
+      for (const { value, label } of replacements) {
+        if (result.includes(value)) {
+          result = result.split(value).join(this.vault!.tokenize(correlationId, value, label));
+          tokenized.add(value);
+        }
+      }
+      return result;
+    });
+
+    return tokenized.size;
+  }
+
+  private tokenLabel(type: string): string {
+    const lower = type.toLowerCase();
+    const known = RequestModifier.TOKEN_LABELS.find(([substring]) => lower.includes(substring));
+    return known ? known[1] : type.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'PII';
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Redact matches in every prompt-bearing string in the body, in place
+   */
+  private redactStrings(node: any, patterns: RegExp[], replacement: string): number {
+    let redactions = 0;
+
+    this.rewriteStrings(node, (text) => {
+      let redacted = text;
+      for (const pattern of patterns) {
+        redacted = redacted.replace(pattern, () => {
+          redactions++;
+          return replacement;
+        });
+      }
+      return redacted;
+    });
+
+    return redactions;
+  }
+
+  /**
+   * Apply the rewrite to every prompt-bearing string in the body, in place
+   */
+  private rewriteStrings(node: any, rewrite: (text: string) => string): void {
+    const entries: Array<[string | number, any]> = Array.isArray(node)
+      ? node.map((value, index) => [index, value])
+      : Object.entries(node);
+
+    for (const [key, value] of entries) {
+      if (typeof key === 'string' && RequestModifier.SKIPPED_KEYS.has(key)) continue;
+
+      if (typeof value === 'string') {
+        node[key] = rewrite(value);
+      } else if (value && typeof value === 'object') {
+        this.rewriteStrings(value, rewrite);
+      }
+    }
+  }
+
+  private setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let current: Record<string, unknown> = target;
+
+    for (const key of keys.slice(0, -1)) {
+      if (!current[key] || typeof current[key] !== 'object') {
+        current[key] = {};
+      }
+      current = current[key] as Record<string, unknown>;
+    }
+
+    current[keys[keys.length - 1]] = value;
+  }
+
+  private deletePath(target: Record<string, unknown>, path: string): boolean {
+    const keys = path.split('.');
+    let current: unknown = target;
+
+    for (const key of keys.slice(0, -1)) {
+      if (!current || typeof current !== 'object') return false;
+      current = (current as Record<string, unknown>)[key];
+    }
+
+    const last = keys[keys.length - 1];
+    if (!current || typeof current !== 'object' || !(last in current)) return false;
+
+    delete (current as Record<string, unknown>)[last];
+    return true;
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Request Redirector
+ *
+ * Applies REDIRECT policy actions by rerouting a request before forwarding:
+ * - Swap the model within the same provider
+ * - Send the request to a different provider, translating the request body
+ *   and translating the response back into the caller's format
+ * - Send the request to an explicit endpoint URL
+ *
+ * Cross-provider redirects use proxy-held credentials for the target provider;
+ * the caller's credentials are never forwarded to another provider.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { RequestTransformer } from '../transformation/request-transformer.js';
+import { ResponseTransformer } from '../transformation/response-transformer.js';
+import {
+  AIServiceProvider,
+  ProxilionError,
+  ProxilionRequest,
+  ProxilionResponse,
+  UnifiedAIRequest,
+} from '../types/index.js';
+
+export interface RedirectActionParameters {
+  provider?: string;
+  model?: string;
+  url?: string;
+}
+
+export interface RequestRedirectorConfig {
+  credentials?: Partial<Record<string, string>>; // API keys by target provider
+}
+
+export interface RedirectResult {
+  request: ProxilionRequest;
+  sourceProvider: string;
+  targetProvider: string;
+  model: string;
+  translated: boolean;
+  warnings: string[];
+}
+
+type TranslatableProvider = 'openai' | 'anthropic' | 'google' | 'cohere';
+
+export class RequestRedirector {
+  private logger: Logger;
+  private requestTransformer: RequestTransformer;
+  private responseTransformer: ResponseTransformer;
+  private credentials: Partial<Record<string, string>>;
+
+  // Request translation is only implemented from the OpenAI format
+  private static readonly TRANSLATABLE_ROUTES = new Set([
+    'openai->anthropic',
+    'openai->google',
+    'openai->cohere',
+  ]);
+
+  private static readonly PROVIDER_ENDPOINTS: Record<TranslatableProvider, (model: string) => string> = {
+    openai: () => 'https://api.openai.com/v1/chat/completions',
+    anthropic: () => 'https://api.anthropic.com/v1/messages',
+    google: (model) => `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+    cohere: () => 'https://api.cohere.ai/v1/chat',
+  };
+
+  // Headers that carry the caller's provider credentials
+  private static readonly CREDENTIAL_HEADERS = [
+    'authorization',
+    'x-api-key',
+    'api-key',
+    'x-goog-api-key',
+    'anthropic-version',
+  ];
+
+  constructor(config: RequestRedirectorConfig = {}) {
+    this.logger = new Logger();
+    this.requestTransformer = new RequestTransformer();
+    this.responseTransformer = new ResponseTransformer();
+    this.credentials = config.credentials || {};
+  }
+
+  /**
+   * Build the rerouted request for a REDIRECT decision
+   */
+  async redirect(
+    request: ProxilionRequest,
+    unifiedRequest: UnifiedAIRequest,
+    parameters: RedirectActionParameters = {}
+  ): Promise<RedirectResult> {
+    const sourceProvider = unifiedRequest.provider;
+    const targetProvider = parameters.provider || sourceProvider;
+
+    if (!parameters.provider && !parameters.model && !parameters.url) {
+      throw new ProxilionError(
+        'Redirect policy must specify a provider, model or url',
+        'REDIRECT_TARGET_MISSING',
+        500
+      );
+    }
+
+    if (targetProvider === sourceProvider) {
+      return this.redirectWithinProvider(request, unifiedRequest, parameters);
+    }
+
+    const route = `${sourceProvider}->${targetProvider}`;
+    if (!RequestRedirector.TRANSLATABLE_ROUTES.has(route)) {
+      throw new ProxilionError(
+        `Redirect from ${sourceProvider} to ${targetProvider} is not supported`,
+        'REDIRECT_UNSUPPORTED',
+        502,
+        { sourceProvider, targetProvider }
+      );
+    }
+
+    if (unifiedRequest.streaming) {
+      throw new ProxilionError(
+        'Streaming requests cannot be redirected to a different provider',
+        'REDIRECT_STREAMING_UNSUPPORTED',
+        400,
+        { sourceProvider, targetProvider }
+      );
+    }
+
+    const apiKey = this.credentials[targetProvider];
+    if (!apiKey) {
+      throw new ProxilionError(
+        `No credentials configured for redirect target ${targetProvider}`,
+        'REDIRECT_CREDENTIALS_MISSING',
+        502,
+        { targetProvider }
+      );
+    }
+
+    const transformation = await this.requestTransformer.transform(request.body, {
+      sourceProvider: sourceProvider as TranslatableProvider,
+      targetProvider: targetProvider as TranslatableProvider,
+    });
+
+    if (!transformation.success) {
+      throw new ProxilionError('Failed to translate redirected request', 'REDIRECT_TRANSLATION_FAILED', 502, {
+        sourceProvider,
+        targetProvider,
+      });
+    }
+
+    const body = transformation.transformedRequest;
+    const model = parameters.model || body.model;
+    if (targetProvider === AIServiceProvider.GOOGLE) {
+      // Gemini takes the model from the URL path
+      delete body.model;
+    } else {
+      body.model = model;
+    }
+
+    const url = parameters.url ||
+      RequestRedirector.PROVIDER_ENDPOINTS[targetProvider as TranslatableProvider](model);
+
+    this.logger.info('Request redirected to another provider', {
+      correlationId: unifiedRequest.metadata.correlationId,
+      sourceProvider,
+      targetProvider,
+      model,
+      warnings: transformation.warnings.length,
+    });
+
+    return {
+      request: {
+        ...request,
+        url,
+        headers: this.buildHeaders(request.headers, targetProvider, apiKey),
+        body,
+      },
+      sourceProvider,
+      targetProvider,
+      model,
+      translated: true,
+      warnings: transformation.warnings,
+    };
+  }
+
+  /**
+   * Translate a redirected response back into the caller's provider format
+   */
+  async restoreResponse(result: RedirectResult, response: ProxilionResponse): Promise<ProxilionResponse> {
+    if (!result.translated || response.status >= 400) {
+      return response;
+    }
+
+    const transformation = await this.responseTransformer.transform(response.body, {
+      sourceProvider: result.targetProvider as TranslatableProvider,
+      targetProvider: result.sourceProvider as TranslatableProvider,
+    });
+
+    if (!transformation.success) {
+      throw new ProxilionError('Failed to translate redirected response', 'REDIRECT_TRANSLATION_FAILED', 502, {
+        sourceProvider: result.sourceProvider,
+        targetProvider: result.targetProvider,
+      });
+    }
+
+    return { ...response, body: transformation.transformedResponse };
+  }
+
+  private redirectWithinProvider(
+    request: ProxilionRequest,
+    unifiedRequest: UnifiedAIRequest,
+    parameters: RedirectActionParameters
+  ): RedirectResult {
+    const model = parameters.model || unifiedRequest.model;
+    const body = request.body && typeof request.body === 'object'
+      ? { ...(request.body as Record<string, unknown>) }
+      : request.body;
+    let url = parameters.url || request.url;
+
+    if (parameters.model) {
+      if (body && typeof body === 'object' && 'model' in body) {
+        (body as Record<string, unknown>).model = model;
+      } else {
+        // Providers such as Gemini carry the model in the URL path
+        url = url.replace(/\/models\/[^/:]+/, `/models/${model}`);
+      }
+    }
+
+    this.logger.info('Request redirected within provider', {
+      correlationId: unifiedRequest.metadata.correlationId,
+      provider: unifiedRequest.provider,
+      fromModel: unifiedRequest.model,
+      toModel: model,
+    });
+
+    return {
+      request: { ...request, url, body },
+      sourceProvider: unifiedRequest.provider,
+      targetProvider: unifiedRequest.provider,
+      model,
+      translated: false,
+      warnings: [],
+    };
+  }
+
+  private buildHeaders(
+    headers: Record<string, string>,
+    targetProvider: string,
+    apiKey: string
+  ): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      const lower = name.toLowerCase();
+      if (!RequestRedirector.CREDENTIAL_HEADERS.includes(lower) && lower !== 'host' && lower !== 'content-length') {
+        result[name] = value;
+      }
+    }
+
+    switch (targetProvider) {
+      case AIServiceProvider.ANTHROPIC:
+        result['x-api-key'] = apiKey;
+        result['anthropic-version'] = '2023-06-01';
+        break;
+      case AIServiceProvider.GOOGLE:
+        result['x-goog-api-key'] = apiKey;
+        break;
+      default:
+        result['authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return result;
+  }
+}
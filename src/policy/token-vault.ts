@@ -0,0 +1,122 @@
+/**
+ * Token Vault
+ *
+ * Holds the placeholder-to-value mapping for reversible tokenization
+ * (pseudonymization) of PII in prompts. MODIFY actions with `tokenize`
+ * replace values such as email addresses with stable tokens (`<EMAIL_1>`)
+ * before the request leaves the proxy; the response processor (or the
+ * stream processor, for streamed answers) swaps the tokens back in the
+ * model's answer and releases the mapping.
+ *
+ * Mappings are kept in memory only, per correlation ID, and expire after
+ * the TTL if the response never arrives.
+ */
+
+export interface TokenVaultConfig {
+  ttlMs?: number; // Default 10 minutes
+}
+
+interface VaultEntry {
+  valueToToken: Map<string, string>;
+  tokenToValue: Map<string, string>;
+  counters: Map<string, number>;
+  expiresAt: number;
+}
+
+const TOKEN_PATTERN = /<([A-Z][A-Z0-9_]*_\d+)>/g;
+
+export class TokenVault {
+  private entries = new Map<string, VaultEntry>();
+  private ttlMs: number;
+
+  constructor(config: TokenVaultConfig = {}) {
+    this.ttlMs = config.ttlMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Token for the value within this correlation ID; the same value always
+   * gets the same token
+   */
+  tokenize(correlationId: string, value: string, label: string): string {
+    this.purgeExpired();
+
+    let entry = this.entries.get(correlationId);
+    if (!entry) {
+      entry = { valueToToken: new Map(), tokenToValue: new Map(), counters: new Map(), expiresAt: 0 };
+      this.entries.set(correlationId, entry);
+    }
+    entry.expiresAt = Date.now() + this.ttlMs;
+
+    const existing = entry.valueToToken.get(value);
+    if (existing) return existing;
+
+    const count = (entry.counters.get(label) || 0) + 1;
+    entry.counters.set(label, count);
+    const token = `<${label}_${count}>`;
+    entry.valueToToken.set(value, token);
+    entry.tokenToValue.set(token, value);
+
+    return token;
+  }
+
+  /**
+   * Replace this correlation ID's tokens in the text with the original values
+   */
+  restore(correlationId: string, text: string): { text: string; restored: number } {
+    const entry = this.entries.get(correlationId);
+    if (!entry) return { text, restored: 0 };
+
+    let restored = 0;
+    const result = text.replace(TOKEN_PATTERN, (token) => {
+      const value = entry.tokenToValue.get(token);
+      if (value === undefined) return token;
+      restored++;
+      return value;
+    });
+
+    return { text: result, restored };
+  }
+
+  /**
+   * This correlation ID's tokens in the text with their offsets and original
+   * values, for callers that rewrite the text themselves (streams)
+   */
+  findTokens(correlationId: string, text: string): Array<{ start: number; end: number; value: string }> {
+    const entry = this.entries.get(correlationId);
+    if (!entry) return [];
+
+    const tokens: Array<{ start: number; end: number; value: string }> = [];
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+      const value = entry.tokenToValue.get(match[0]);
+      if (value !== undefined) {
+        tokens.push({ start: match.index!, end: match.index! + match[0].length, value });
+      }
+    }
+    return tokens;
+  }
+
+  has(correlationId: string): boolean {
+    this.purgeExpired();
+    return this.entries.has(correlationId);
+  }
+
+  /**
+   * Number of values tokenized for the correlation ID
+   */
+  count(correlationId: string): number {
+    return this.entries.get(correlationId)?.valueToToken.size || 0;
+  }
+
+  release(correlationId: string): void {
+    this.entries.delete(correlationId);
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [correlationId, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(correlationId);
+      }
+    }
+  }
+}
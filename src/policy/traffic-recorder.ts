@@ -0,0 +1,117 @@
+/**
+ * Traffic Recorder
+ *
+ * Keeps a bounded window of evaluated traffic for policy simulation:
+ * - The unified request and aggregated scan result as they were evaluated
+ * - The decision that was actually enforced
+ * - Size and age limits so memory use stays predictable
+ */
+
+import { Logger } from '../utils/logger.js';
+import {
+  AggregatedScanResult,
+  PolicyAction,
+  PolicyDecision,
+  UnifiedAIRequest,
+} from '../types/index.js';
+
+export interface TrafficRecorderConfig {
+  maxEntries?: number;
+  retentionPeriod?: number; // ms
+}
+
+export interface RecordedTraffic {
+  correlationId: string;
+  timestamp: number;
+  request: UnifiedAIRequest;
+  scanResult: AggregatedScanResult;
+  decision: {
+    policyId: string;
+    action: PolicyAction;
+    reason: string;
+  };
+}
+
+export interface TrafficQuery {
+  startTime?: number;
+  endTime?: number;
+  limit?: number; // Most recent N entries within the window
+}
+
+export class TrafficRecorder {
+  private logger: Logger;
+  private entries: RecordedTraffic[] = [];
+  private maxEntries: number;
+  private retentionPeriod: number;
+
+  constructor(config: TrafficRecorderConfig = {}) {
+    this.logger = new Logger();
+    this.maxEntries = config.maxEntries ?? 1000;
+    this.retentionPeriod = config.retentionPeriod ?? 24 * 60 * 60 * 1000; // 24 hours
+
+    this.logger.info('Traffic recorder initialized', {
+      maxEntries: this.maxEntries,
+      retentionPeriod: this.retentionPeriod,
+    });
+  }
+
+  /**
+   * Record an evaluated request. Inputs are copied so later redaction or
+   * modification of the live request does not change the recording.
+   */
+  record(request: UnifiedAIRequest, scanResult: AggregatedScanResult, decision: PolicyDecision): void {
+    this.entries.push({
+      correlationId: request.metadata.correlationId,
+      timestamp: decision.timestamp,
+      request: JSON.parse(JSON.stringify(request)),
+      scanResult: JSON.parse(JSON.stringify(scanResult)),
+      decision: {
+        policyId: decision.policyId,
+        action: decision.action,
+        reason: decision.reason,
+      },
+    });
+
+    this.prune();
+  }
+
+  /** Get recorded traffic, oldest first */
+  getEntries(query: TrafficQuery = {}): RecordedTraffic[] {
+    this.prune();
+
+    let entries = this.entries.filter(
+      (e) =>
+        (query.startTime === undefined || e.timestamp >= query.startTime) &&
+        (query.endTime === undefined || e.timestamp <= query.endTime)
+    );
+
+    if (query.limit !== undefined && entries.length > query.limit) {
+      entries = entries.slice(entries.length - query.limit);
+    }
+
+    return entries;
+  }
+
+  getSize(): number {
+    return this.entries.length;
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionPeriod;
+    const firstRetained = this.entries.findIndex((e) => e.timestamp >= cutoff);
+
+    if (firstRetained === -1) {
+      this.entries = [];
+    } else if (firstRetained > 0) {
+      this.entries.splice(0, firstRetained);
+    }
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+}
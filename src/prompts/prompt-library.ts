@@ -12,6 +12,7 @@
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { PromptVersion } from './prompt-version-manager.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
 
 export interface Prompt {
   id: string;
@@ -78,11 +79,64 @@ export class PromptLibrary {
   private tagIndex: Map<string, Set<string>> = new Map();
   private authorIndex: Map<string, Set<string>> = new Map();
 
+  // Durable storage (optional)
+  private promptStore?: PersistentCollection<Prompt>;
+  private ratingStore?: PersistentCollection<PromptRating[]>;
+  private favoriteStore?: PersistentCollection<string[]>;
+
   constructor() {
     this.logger = new Logger();
     this.metrics = MetricsCollector.getInstance();
   }
 
+  /**
+   * Load prompts, ratings and favorites from durable storage and write
+   * through all future changes
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const promptStore = new PersistentCollection<Prompt>(storage, 'prompts');
+    const ratingStore = new PersistentCollection<PromptRating[]>(storage, 'prompt_ratings');
+    const favoriteStore = new PersistentCollection<string[]>(storage, 'prompt_favorites');
+
+    const [prompts, ratings, favorites] = await Promise.all([
+      promptStore.load(),
+      ratingStore.load(),
+      favoriteStore.load(),
+    ]);
+
+    for (const [promptId, prompt] of prompts) {
+      const existing = this.prompts.get(promptId);
+      if (existing) {
+        this.removeFromIndexes(existing);
+      }
+      this.prompts.set(promptId, prompt);
+      this.updateIndexes(prompt);
+    }
+    for (const [promptId, promptRatings] of ratings) {
+      this.ratings.set(promptId, promptRatings);
+    }
+    for (const [userId, promptIds] of favorites) {
+      this.favorites.set(userId, new Set(promptIds));
+    }
+
+    // Persist anything created before storage was attached
+    for (const [promptId, prompt] of this.prompts) {
+      if (!prompts.has(promptId)) promptStore.save(promptId, prompt);
+    }
+    for (const [promptId, promptRatings] of this.ratings) {
+      if (!ratings.has(promptId)) ratingStore.save(promptId, promptRatings);
+    }
+    for (const [userId, promptIds] of this.favorites) {
+      if (!favorites.has(userId)) favoriteStore.save(userId, Array.from(promptIds));
+    }
+
+    this.promptStore = promptStore;
+    this.ratingStore = ratingStore;
+    this.favoriteStore = favoriteStore;
+
+    this.logger.info('Prompt library storage attached', { totalPrompts: this.prompts.size });
+  }
+
   /**
    * Create a new prompt
    */
@@ -120,6 +174,7 @@ export class PromptLibrary {
 
     this.prompts.set(prompt.id, prompt);
     this.updateIndexes(prompt);
+    this.promptStore?.save(prompt.id, prompt);
 
     this.logger.info('Prompt created', {
       promptId: prompt.id,
@@ -160,6 +215,7 @@ export class PromptLibrary {
 
     // Update indexes
     this.updateIndexes(prompt);
+    this.promptStore?.save(promptId, prompt);
 
     this.logger.info('Prompt updated', {
       promptId,
@@ -181,10 +237,14 @@ export class PromptLibrary {
     this.removeFromIndexes(prompt);
     this.prompts.delete(promptId);
     this.ratings.delete(promptId);
+    this.promptStore?.remove(promptId);
+    this.ratingStore?.remove(promptId);
 
     // Remove from favorites
-    for (const favoriteSet of this.favorites.values()) {
-      favoriteSet.delete(promptId);
+    for (const [userId, favoriteSet] of this.favorites) {
+      if (favoriteSet.delete(promptId)) {
+        this.favoriteStore?.save(userId, Array.from(favoriteSet));
+      }
     }
 
     this.logger.info('Prompt deleted', { promptId });
@@ -360,6 +420,9 @@ export class PromptLibrary {
     prompt.rating = totalRating / ratings.length;
     prompt.ratingCount = ratings.length;
 
+    this.ratingStore?.save(params.promptId, ratings);
+    this.promptStore?.save(prompt.id, prompt);
+
     this.logger.info('Prompt rated', {
       promptId: params.promptId,
       userId: params.userId,
@@ -392,6 +455,9 @@ export class PromptLibrary {
       userFavorites.add(promptId);
       prompt.favoriteCount++;
 
+      this.favoriteStore?.save(userId, Array.from(userFavorites));
+      this.promptStore?.save(promptId, prompt);
+
       this.logger.info('Prompt favorited', { userId, promptId });
 
       this.metrics.increment('prompt_library_favorited_total', 1, {
@@ -412,10 +478,12 @@ export class PromptLibrary {
     }
 
     userFavorites.delete(promptId);
+    this.favoriteStore?.save(userId, Array.from(userFavorites));
     
     const prompt = this.prompts.get(promptId);
     if (prompt) {
       prompt.favoriteCount = Math.max(0, prompt.favoriteCount - 1);
+      this.promptStore?.save(promptId, prompt);
     }
 
     this.logger.info('Prompt unfavorited', { userId, promptId });
@@ -445,6 +513,7 @@ export class PromptLibrary {
     if (prompt) {
       prompt.usageCount++;
       prompt.updatedAt = Date.now();
+      this.promptStore?.save(promptId, prompt);
     }
   }
 
@@ -0,0 +1,257 @@
+/**
+ * Action Queue
+ *
+ * Executes QUEUE policy actions through the PriorityQueueManager:
+ * - Requests are held until their delay has elapsed and, when required, until approved
+ * - Released requests are scheduled by priority, fairness and concurrency limits
+ * - Callers receive a promise for the eventual execution result
+ */
+
+import { Logger } from '../utils/logger.js';
+import { MetricsCollector } from '../utils/metrics.js';
+import { ProxilionError } from '../types/index.js';
+import { PriorityLevel, PriorityQueueManager, QueuedRequest } from './priority-queue-manager.js';
+
+export interface QueueActionParameters {
+  priority?: PriorityLevel;
+  delayMs?: number;
+  requireApproval?: boolean; // Defaults to true: hold until approved
+  approvalTimeoutMs?: number; // Held requests expire if not decided within this time
+}
+
+export type ActionQueueStatus =
+  | 'awaiting_approval'
+  | 'delayed'
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'rejected';
+
+export interface ActionQueueEntry {
+  id: string;
+  userId: string;
+  tenantId?: string;
+  priority: PriorityLevel;
+  status: ActionQueueStatus;
+  submittedAt: number;
+  releaseAt?: number;
+  approvedAt?: number;
+  startedAt?: number;
+  completedAt?: number;
+  error?: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface ActionQueueSubmission<T> {
+  id: string;
+  userId: string;
+  tenantId?: string;
+  parameters?: QueueActionParameters;
+  metadata?: Record<string, unknown>;
+  execute: () => Promise<T>;
+}
+
+interface ActionQueueRecord {
+  entry: ActionQueueEntry;
+  execute: () => Promise<unknown>;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  delayTimer?: NodeJS.Timeout;
+}
+
+export class ActionQueue {
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private queueManager: PriorityQueueManager;
+  private records: Map<string, ActionQueueRecord> = new Map();
+
+  constructor(queueManager: PriorityQueueManager) {
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+    this.queueManager = queueManager;
+  }
+
+  /**
+   * Submit a request for deferred execution
+   */
+  submit<T>(submission: ActionQueueSubmission<T>): { entry: ActionQueueEntry; result: Promise<T> } {
+    if (this.records.has(submission.id)) {
+      throw new ProxilionError(`Request ${submission.id} is already queued`, 'QUEUE_DUPLICATE', 409);
+    }
+
+    const parameters = submission.parameters || {};
+    const now = Date.now();
+    const requireApproval = parameters.requireApproval ?? true;
+    const delayMs = Math.max(0, parameters.delayMs ?? 0);
+
+    const entry: ActionQueueEntry = {
+      id: submission.id,
+      userId: submission.userId,
+      tenantId: submission.tenantId,
+      priority: parameters.priority || 'normal',
+      status: requireApproval ? 'awaiting_approval' : 'delayed',
+      submittedAt: now,
+      releaseAt: delayMs > 0 ? now + delayMs : undefined,
+      metadata: submission.metadata || {},
+    };
+
+    let resolve!: (result: unknown) => void;
+    let reject!: (error: Error) => void;
+    const result = new Promise<T>((res, rej) => {
+      resolve = res as (result: unknown) => void;
+      reject = rej;
+    });
+
+    this.records.set(entry.id, { entry, execute: submission.execute, resolve, reject });
+
+    this.logger.info('Request submitted to action queue', {
+      requestId: entry.id,
+      priority: entry.priority,
+      status: entry.status,
+      delayMs,
+    });
+    this.metrics.increment('action_queue_submitted_total', 1, { status: entry.status });
+
+    if (!requireApproval) {
+      this.scheduleRelease(entry.id);
+    }
+
+    return { entry: { ...entry }, result };
+  }
+
+  /**
+   * Approve a held request; it runs once any remaining delay has elapsed
+   */
+  approve(id: string): boolean {
+    const record = this.records.get(id);
+    if (!record || record.entry.status !== 'awaiting_approval') {
+      return false;
+    }
+
+    record.entry.status = 'delayed';
+    record.entry.approvedAt = Date.now();
+    this.metrics.increment('action_queue_approved_total');
+    this.logger.info('Queued request approved', { requestId: id });
+
+    this.scheduleRelease(id);
+    return true;
+  }
+
+  /**
+   * Reject a request that has not started executing
+   */
+  reject(id: string, reason = 'Request rejected'): boolean {
+    const record = this.records.get(id);
+    if (!record || (record.entry.status !== 'awaiting_approval' && record.entry.status !== 'delayed')) {
+      return false;
+    }
+
+    if (record.delayTimer) {
+      clearTimeout(record.delayTimer);
+    }
+
+    this.settle(record, 'rejected', new ProxilionError(reason, 'QUEUE_REJECTED', 403, { requestId: id }));
+    this.metrics.increment('action_queue_rejected_total');
+    this.logger.info('Queued request rejected', { requestId: id, reason });
+    return true;
+  }
+
+  /** Get a pending or running entry by ID */
+  getEntry(id: string): ActionQueueEntry | undefined {
+    const record = this.records.get(id);
+    return record ? { ...record.entry } : undefined;
+  }
+
+  /** Get pending and running entries, optionally filtered by status */
+  getEntries(status?: ActionQueueStatus): ActionQueueEntry[] {
+    return Array.from(this.records.values())
+      .map((r) => ({ ...r.entry }))
+      .filter((e) => !status || e.status === status);
+  }
+
+  /**
+   * Stop delay timers
+   */
+  cleanup(): void {
+    for (const record of this.records.values()) {
+      if (record.delayTimer) {
+        clearTimeout(record.delayTimer);
+      }
+    }
+  }
+
+  private scheduleRelease(id: string): void {
+    const record = this.records.get(id)!;
+    const delay = record.entry.releaseAt ? record.entry.releaseAt - Date.now() : 0;
+
+    if (delay > 0) {
+      record.delayTimer = setTimeout(() => this.release(id), delay);
+    } else {
+      this.release(id);
+    }
+  }
+
+  /**
+   * Hand a ready request to the priority queue and start draining it
+   */
+  private release(id: string): void {
+    const record = this.records.get(id);
+    if (!record || record.entry.status !== 'delayed') return;
+
+    record.delayTimer = undefined;
+    record.entry.status = 'queued';
+
+    this.queueManager
+      .enqueue({
+        id,
+        priority: record.entry.priority,
+        userId: record.entry.userId,
+        tenantId: record.entry.tenantId,
+        payload: record.execute,
+        metadata: record.entry.metadata,
+        onComplete: (result) => this.settle(record, 'completed', undefined, result),
+        onError: (error) => this.settle(record, 'failed', error),
+      })
+      .then(() => this.drain())
+      .catch((error) => this.settle(record, 'failed', error instanceof Error ? error : new Error(String(error))));
+  }
+
+  private async drain(): Promise<void> {
+    let next = await this.queueManager.dequeue();
+    while (next) {
+      void this.run(next);
+      next = await this.queueManager.dequeue();
+    }
+  }
+
+  private async run(request: QueuedRequest): Promise<void> {
+    const record = this.records.get(request.id);
+    if (record) {
+      record.entry.status = 'processing';
+      record.entry.startedAt = Date.now();
+    }
+
+    try {
+      const result = await (request.payload as () => Promise<unknown>)();
+      await this.queueManager.complete(request.id, result);
+    } catch (error) {
+      await this.queueManager.fail(request.id, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    await this.drain();
+  }
+
+  private settle(record: ActionQueueRecord, status: ActionQueueStatus, error?: Error, result?: unknown): void {
+    record.entry.status = status;
+    record.entry.completedAt = Date.now();
+    record.entry.error = error?.message;
+    this.records.delete(record.entry.id);
+
+    if (error) {
+      record.reject(error);
+    } else {
+      record.resolve(result);
+    }
+  }
+}
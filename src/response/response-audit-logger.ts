@@ -9,6 +9,7 @@ import { MetricsCollector } from '../utils/metrics.js';
 import { UnifiedAIResponse } from '../types/index.js';
 import { ResponseScanResult } from './response-scanner.js';
 import { FilterResult } from './response-filter.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
 
 export interface ResponseAuditEntry {
   id: string;
@@ -72,6 +73,7 @@ export class ResponseAuditLogger {
   private auditLog: ResponseAuditEntry[] = [];
   private maxLogSize: number;
   private retentionPeriod: number;
+  private store?: PersistentCollection<ResponseAuditEntry>;
 
   constructor(config?: { maxLogSize?: number; retentionPeriod?: number }) {
     this.logger = new Logger();
@@ -88,6 +90,33 @@ export class ResponseAuditLogger {
     setInterval(() => this.cleanup(), 60 * 60 * 1000); // Every hour
   }
 
+  /**
+   * Load the audit trail from durable storage and write through all future entries
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const store = new PersistentCollection<ResponseAuditEntry>(storage, 'response_audit');
+    const persisted = await store.load();
+
+    const knownIds = new Set(this.auditLog.map((e) => e.id));
+    const restored = Array.from(persisted.values()).filter((e) => !knownIds.has(e.id));
+    this.auditLog = [...restored, ...this.auditLog].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const entry of this.auditLog) {
+      if (!persisted.has(entry.id)) store.save(entry.id, entry);
+    }
+
+    this.store = store;
+
+    // Apply retention and size limits to what was restored
+    this.cleanup();
+    while (this.auditLog.length > this.maxLogSize) {
+      const evicted = this.auditLog.shift()!;
+      store.remove(evicted.id);
+    }
+
+    this.logger.info('Response audit storage attached', { entries: this.auditLog.length });
+  }
+
   /**
    * Log response audit entry
    */
@@ -136,10 +165,12 @@ export class ResponseAuditLogger {
     };
 
     this.auditLog.push(entry);
+    this.store?.save(entry.id, entry);
 
     // Enforce max log size
     if (this.auditLog.length > this.maxLogSize) {
-      this.auditLog.shift();
+      const evicted = this.auditLog.shift()!;
+      this.store?.remove(evicted.id);
     }
 
     // Log to structured logger
@@ -286,6 +317,9 @@ export class ResponseAuditLogger {
    */
   clearAuditLog(): void {
     const count = this.auditLog.length;
+    for (const entry of this.auditLog) {
+      this.store?.remove(entry.id);
+    }
     this.auditLog = [];
     this.logger.info('Audit log cleared', { entriesCleared: count });
   }
@@ -296,6 +330,11 @@ export class ResponseAuditLogger {
   private cleanup(): void {
     const cutoffTime = Date.now() - this.retentionPeriod;
     const before = this.auditLog.length;
+    for (const entry of this.auditLog) {
+      if (entry.timestamp < cutoffTime) {
+        this.store?.remove(entry.id);
+      }
+    }
     this.auditLog = this.auditLog.filter((e) => e.timestamp >= cutoffTime);
     const after = this.auditLog.length;
 
@@ -4,28 +4,55 @@
  * Processes AI service responses with:
  * - Content scanning and filtering
  * - PII redaction
+ * - Restoring PII tokenized in the request (see TokenVault)
+ * - Normalizing the body into a UnifiedAIResponse with the provider's parser
+ * - Scanning the normalized response with the ResponseScanner and recording
+ *   the outcome in the response audit log
  * - Content transformation
  * - Response validation
  * - Streaming support
  */
 
-import { ProxilionResponse, ThreatLevel, ScanResult, AIServiceProvider } from '../types/index.js';
+import {
+  ProxilionResponse,
+  ThreatLevel,
+  ScanResult,
+  AIServiceProvider,
+  UnifiedAIRequest,
+  UnifiedAIResponse,
+} from '../types/index.js';
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { PIIScanner } from '../scanners/pii-scanner.js';
+import { TokenVault } from '../policy/token-vault.js';
+import { ParserRegistry } from '../parsers/parser-registry.js';
+import { ResponseScanner, ResponseScanResult } from './response-scanner.js';
+import { ResponseAuditLogger } from './response-audit-logger.js';
 
 export interface ResponseProcessingConfig {
   enablePIIRedaction: boolean;
   enableContentFiltering: boolean;
   enableValidation: boolean;
   redactionPlaceholder: string;
+  tokenVault?: TokenVault;
+  parsers?: ParserRegistry; // Decodes provider response bodies
+  responseScanner?: ResponseScanner; // Scans decoded responses; findings are reported, not applied
+  auditLogger?: ResponseAuditLogger; // Receives an entry for every scanned response
+}
+
+export interface ResponseProcessingContext {
+  correlationId?: string; // Restores placeholders tokenized for this request
+  request?: UnifiedAIRequest; // Request the response answers, for decoding its body
 }
 
 export interface ProcessedResponse {
   response: ProxilionResponse;
   modified: boolean;
   redactions: number;
+  restoredTokens: number;
   scanResults: ScanResult[];
+  decoded?: UnifiedAIResponse; // Normalized body as received from the provider
+  responseScan?: ResponseScanResult; // ResponseScanner result for the decoded body
 }
 
 export class ResponseProcessor {
@@ -41,6 +68,10 @@ export class ResponseProcessor {
       enableContentFiltering: config.enableContentFiltering ?? true,
       enableValidation: config.enableValidation ?? true,
       redactionPlaceholder: config.redactionPlaceholder || '[REDACTED]',
+      tokenVault: config.tokenVault,
+      parsers: config.parsers,
+      responseScanner: config.responseScanner,
+      auditLogger: config.auditLogger,
     };
 
     this.logger = new Logger();
@@ -51,11 +82,15 @@ export class ResponseProcessor {
   /**
    * Process response
    */
-  async process(response: ProxilionResponse): Promise<ProcessedResponse> {
+  async process(response: ProxilionResponse, context: ResponseProcessingContext = {}): Promise<ProcessedResponse> {
     const startTime = Date.now();
     let modified = false;
     let redactions = 0;
+    let restoredTokens = 0;
     const scanResults: ScanResult[] = [];
+    const appliedFilters: string[] = [];
+    let decoded: UnifiedAIResponse | undefined;
+    let responseScan: ResponseScanResult | undefined;
 
     try {
       // Validate response structure
@@ -63,8 +98,13 @@ export class ResponseProcessor {
         this.validateResponse(response);
       }
 
-      // Extract text content from response
-      const content = this.extractContent(response);
+      // Extract text content from response, through the provider's parser when it knows the format
+      decoded = this.decode(response, context.request);
+      const content = decoded ? decoded.content || null : this.extractContent(response);
+
+      if (decoded && this.config.responseScanner) {
+        responseScan = await this.config.responseScanner.scanResponse(decoded);
+      }
 
       if (content) {
         // Scan for PII
@@ -90,6 +130,7 @@ export class ResponseProcessor {
             this.replaceContent(response, redactedContent);
             modified = true;
             redactions = scanResult.findings.length;
+            appliedFilters.push('pii_redaction');
 
             this.logger.info('PII redacted from response', {
               redactions,
@@ -106,18 +147,56 @@ export class ResponseProcessor {
           if (filtered !== content) {
             this.replaceContent(response, filtered);
             modified = true;
+            appliedFilters.push('content_filter');
           }
         }
       }
 
+      // Restore last: the values are the caller's own and must not be redacted
+      const vault = this.config.tokenVault;
+      if (vault && context.correlationId && vault.has(context.correlationId)) {
+        restoredTokens = this.restoreTokens(response, vault, context.correlationId);
+        vault.release(context.correlationId);
+
+        if (restoredTokens > 0) {
+          modified = true;
+          appliedFilters.push('token_restore');
+          this.metrics.increment('response_tokens_restored_total', restoredTokens);
+        }
+      }
+
       const duration = Date.now() - startTime;
       this.metrics.histogram('response_processing_duration_ms', duration);
 
+      if (decoded && responseScan && this.config.auditLogger) {
+        this.config.auditLogger.logAudit(
+          decoded,
+          responseScan,
+          {
+            allowed: true,
+            modified,
+            blocked: false,
+            response: decoded,
+            appliedFilters,
+            metadata: { filteredAt: Date.now(), duration },
+          },
+          {
+            correlationId: context.correlationId || context.request?.metadata.correlationId || 'unknown',
+            userId: context.request?.metadata.userId,
+            provider: decoded.provider,
+            model: decoded.model,
+          }
+        );
+      }
+
       return {
         response,
         modified,
         redactions,
+        restoredTokens,
         scanResults,
+        decoded,
+        responseScan,
       };
     } catch (error) {
       this.logger.error('Response processing failed', error instanceof Error ? error : undefined);
@@ -158,6 +237,25 @@ export class ResponseProcessor {
     return parsed;
   }
 
+  /**
+   * Normalized copy of the body, decoded before any redaction
+   */
+  private decode(response: ProxilionResponse, request?: UnifiedAIRequest): UnifiedAIResponse | undefined {
+    if (!request || !this.config.parsers) {
+      return undefined;
+    }
+
+    try {
+      const decoded = this.config.parsers.decodeResponse(request, this.getParsedBody(response));
+      return decoded && structuredClone(decoded);
+    } catch (error) {
+      this.logger.warn('Failed to decode response', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Extract text content from response
    */
@@ -239,6 +337,41 @@ export class ResponseProcessor {
     return redacted;
   }
 
+  /**
+   * Replace vault placeholders in every string of the response body
+   */
+  private restoreTokens(response: ProxilionResponse, vault: TokenVault, correlationId: string): number {
+    let restored = 0;
+
+    const visit = (node: any): any => {
+      if (typeof node === 'string') {
+        const result = vault.restore(correlationId, node);
+        restored += result.restored;
+        return result.text;
+      }
+      if (Array.isArray(node)) {
+        return node.map(visit);
+      }
+      if (node && typeof node === 'object') {
+        for (const key of Object.keys(node)) {
+          node[key] = visit(node[key]);
+        }
+      }
+      return node;
+    };
+
+    try {
+      const body = visit(this.getParsedBody(response));
+      if (restored > 0) {
+        response.body = typeof response.body === 'string' && typeof body !== 'string' ? JSON.stringify(body) : body;
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore tokens in response', error instanceof Error ? error : undefined);
+    }
+
+    return restored;
+  }
+
   /**
    * Escape regex special characters
    */
@@ -275,6 +408,33 @@ export class ResponseProcessor {
         });
       }
 
+      // Gemini format
+      else if (body.candidates && Array.isArray(body.candidates)) {
+        body.candidates.forEach((candidate: any) => {
+          const parts = candidate.content?.parts || [];
+          const first = parts.findIndex((part: any) => typeof part.text === 'string');
+          parts.forEach((part: any, i: number) => {
+            if (typeof part.text === 'string') {
+              part.text = i === first ? newContent : '';
+            }
+          });
+        });
+      }
+
+      // Cohere v2 chat format
+      else if (Array.isArray(body.message?.content)) {
+        body.message.content = body.message.content.map((item: any) =>
+          item.type === 'text' ? { ...item, text: newContent } : item
+        );
+      }
+
+      // Cohere generate format
+      else if (Array.isArray(body.generations)) {
+        body.generations.forEach((generation: any) => {
+          generation.text = newContent;
+        });
+      }
+
       // Generic format
       else if (body.text) {
         body.text = newContent;
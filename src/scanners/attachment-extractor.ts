@@ -0,0 +1,369 @@
+/**
+ * Attachment Extractor
+ *
+ * Offline helpers for the multimodal scanner:
+ * - Decodes attachment payloads (base64, data: URLs, Anthropic source objects)
+ * - Sniffs the real file type from magic bytes
+ * - Extracts text from PDFs (text operators in plain and Flate streams),
+ *   DOCX (word/document.xml in the ZIP container) and plain text files
+ * - Reads GPS coordinates from EXIF blocks in JPEG, PNG and WebP images
+ *
+ * Only what a well-formed, unencrypted file exposes is extracted; anything
+ * that cannot be parsed yields no text rather than an error.
+ */
+
+import * as zlib from 'zlib';
+
+export interface DecodedAttachment {
+  data: Buffer;
+  mimeType?: string; // Declared by the client
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/x-yaml'];
+
+/**
+ * Decode an attachment payload: a data: URL, an Anthropic-style source object
+ * (as JSON), or bare base64. Remote URLs are never fetched.
+ */
+export function decodeAttachment(payload: string, mimeType?: string): DecodedAttachment | undefined {
+  const dataUrl = payload.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (dataUrl) {
+    const data = dataUrl[2] ? Buffer.from(dataUrl[3], 'base64') : Buffer.from(decodeURIComponent(dataUrl[3]), 'utf-8');
+    return { data, mimeType: dataUrl[1] || mimeType };
+  }
+
+  if (payload.startsWith('{')) {
+    try {
+      const source = JSON.parse(payload);
+      if (source.type === 'base64' && typeof source.data === 'string') {
+        return { data: Buffer.from(source.data, 'base64'), mimeType: source.media_type || mimeType };
+      }
+      if (source.type === 'text' && typeof source.data === 'string') {
+        return { data: Buffer.from(source.data, 'utf-8'), mimeType: source.media_type || 'text/plain' };
+      }
+    } catch {
+      // Not JSON; fall through to base64
+    }
+    return undefined;
+  }
+
+  if (/^https?:\/\//i.test(payload)) return undefined;
+
+  const compact = payload.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(compact)) return undefined;
+  return { data: Buffer.from(compact, 'base64'), mimeType };
+}
+
+/**
+ * File type from magic bytes; undefined when unrecognized
+ */
+export function sniffMimeType(data: Buffer): string | undefined {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 4).toString('latin1') === 'GIF8') return 'image/gif';
+  if (data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) {
+    return readZipEntry(data, 'word/document.xml') !== undefined ? DOCX_MIME_TYPE : 'application/zip';
+  }
+  if (isPlainText(data)) return 'text/plain';
+  return undefined;
+}
+
+/**
+ * Whether the declared type can hold content of the sniffed type
+ */
+export function isCompatibleMimeType(declared: string, sniffed: string): boolean {
+  const normalized = declared.toLowerCase().split(';')[0].trim();
+  if (normalized === sniffed) return true;
+  if (normalized === 'image/jpg') return sniffed === 'image/jpeg';
+  if (sniffed === 'text/plain') return isTextMimeType(normalized);
+  return false;
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Text of a PDF's content streams
+ */
+export function extractPdfText(data: Buffer): string {
+  const source = data.toString('latin1');
+  const lines: string[] = [];
+  const streamPattern = /<<(.*?)>>\s*stream\r?\n/gs;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(source)) !== null) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+
+    let content = data.subarray(start, end);
+    if (/\/FlateDecode/.test(match[1])) {
+      try {
+        content = zlib.inflateSync(content);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(match[1])) {
+      continue; // Images and other encodings carry no text
+    }
+
+    lines.push(...pdfContentText(content.toString('latin1')));
+    streamPattern.lastIndex = end;
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Strings shown by the text operators (Tj, TJ, ' and ") inside BT/ET blocks
+ */
+function pdfContentText(content: string): string[] {
+  const lines: string[] = [];
+
+  for (const block of content.match(/BT\b.*?\bET\b/gs) || []) {
+    let line = '';
+    const tokens = /\((?:\\.|[^\\)])*\)|\[(?:\((?:\\.|[^\\)])*\)|[^\]])*\]|\b(?:Tj|TJ|T\*|Td|TD|Tm)\b|'|"/gs;
+    let pending: string[] = [];
+    let token: RegExpExecArray | null;
+
+    while ((token = tokens.exec(block)) !== null) {
+      const value = token[0];
+      if (value.startsWith('(')) {
+        pending = [decodePdfString(value.slice(1, -1))];
+      } else if (value.startsWith('[')) {
+        pending = (value.match(/\((?:\\.|[^\\)])*\)/g) || []).map((s) => decodePdfString(s.slice(1, -1)));
+      } else if (value === 'Tj' || value === 'TJ') {
+        line += pending.join('');
+        pending = [];
+      } else if (value === "'" || value === '"') {
+        if (line) lines.push(line);
+        line = pending.join('');
+        pending = [];
+      } else if (line) {
+        // Text positioning starts a new line
+        lines.push(line);
+        line = '';
+      }
+    }
+
+    if (line) lines.push(line);
+  }
+
+  return lines;
+}
+
+function decodePdfString(value: string): string {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+  return value.replace(/\\([0-7]{1,3}|.)/gs, (_, escaped: string) => {
+    if (/^[0-7]+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    if (escaped === '\n' || escaped === '\r') return '';
+    return escapes[escaped] ?? escaped;
+  });
+}
+
+/**
+ * Paragraph text of a DOCX document
+ */
+export function extractDocxText(data: Buffer): string {
+  const xml = readZipEntry(data, 'word/document.xml');
+  if (xml === undefined) return '';
+
+  return decodeXmlEntities(
+    xml
+      .toString('utf-8')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).trim();
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Contents of a ZIP entry (stored or deflated), found via the central directory
+ */
+function readZipEntry(data: Buffer, name: string): Buffer | undefined {
+  // End of central directory record: last 22 bytes plus up to 64KB of comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return undefined;
+
+  const entries = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entries && offset + 46 <= data.length; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) return undefined;
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+
+    if (entryName === name) {
+      if (data.readUInt32LE(localOffset) !== 0x04034b50) return undefined;
+      const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+      try {
+        if (method === 0) return compressed;
+        if (method === 8) return zlib.inflateRawSync(compressed);
+      } catch {
+        return undefined;
+      }
+      return undefined;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return undefined;
+}
+
+/**
+ * UTF-8 text without control characters other than whitespace
+ */
+function isPlainText(data: Buffer): boolean {
+  if (data.length === 0) return false;
+  const sample = data.subarray(0, 4096);
+  if (sample.includes(0)) return false;
+
+  const text = sample.toString('utf-8');
+  const controls = text.match(/[\x00-\x08\x0e-\x1f�]/g)?.length || 0;
+  return controls / text.length < 0.01;
+}
+
+/**
+ * GPS position from the image's EXIF block, if it has one
+ */
+export function readImageLocation(data: Buffer): GeoLocation | undefined {
+  const tiff = findExifTiff(data);
+  return tiff ? readTiffGps(tiff) : undefined;
+}
+
+/**
+ * The TIFF structure holding EXIF data: JPEG APP1 "Exif" segment, PNG eXIf
+ * chunk or WebP EXIF chunk
+ */
+function findExifTiff(data: Buffer): Buffer | undefined {
+  const mimeType = sniffMimeType(data);
+
+  if (mimeType === 'image/jpeg') {
+    let offset = 2;
+    while (offset + 4 <= data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break; // Start of scan: no more metadata
+      const length = data.readUInt16BE(offset + 2);
+      if (marker === 0xe1 && data.subarray(offset + 4, offset + 10).toString('latin1') === 'Exif\0\0') {
+        return data.subarray(offset + 10, offset + 2 + length);
+      }
+      offset += 2 + length;
+    }
+  } else if (mimeType === 'image/png') {
+    let offset = 8;
+    while (offset + 8 <= data.length) {
+      const length = data.readUInt32BE(offset);
+      const type = data.subarray(offset + 4, offset + 8).toString('latin1');
+      if (type === 'eXIf') return data.subarray(offset + 8, offset + 8 + length);
+      if (type === 'IEND') break;
+      offset += 12 + length;
+    }
+  } else if (mimeType === 'image/webp') {
+    let offset = 12;
+    while (offset + 8 <= data.length) {
+      const type = data.subarray(offset, offset + 4).toString('latin1');
+      const length = data.readUInt32LE(offset + 4);
+      if (type === 'EXIF') {
+        const chunk = data.subarray(offset + 8, offset + 8 + length);
+        return chunk.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? chunk.subarray(6) : chunk;
+      }
+      offset += 8 + length + (length % 2);
+    }
+  }
+
+  return undefined;
+}
+
+function readTiffGps(tiff: Buffer): GeoLocation | undefined {
+  if (tiff.length < 8) return undefined;
+  const order = tiff.subarray(0, 2).toString('latin1');
+  if (order !== 'II' && order !== 'MM') return undefined;
+  const little = order === 'II';
+  const u16 = (o: number) => (little ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+  const u32 = (o: number) => (little ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+
+  const readIfd = (offset: number): Map<number, { type: number; count: number; valueOffset: number }> => {
+    const tags = new Map<number, { type: number; count: number; valueOffset: number }>();
+    if (offset + 2 > tiff.length) return tags;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      tags.set(u16(entry), { type: u16(entry + 2), count: u32(entry + 4), valueOffset: entry + 8 });
+    }
+    return tags;
+  };
+
+  try {
+    const gpsPointer = readIfd(u32(4)).get(0x8825);
+    if (!gpsPointer) return undefined;
+    const gps = readIfd(u32(gpsPointer.valueOffset));
+
+    // Degrees, minutes and seconds as three RATIONALs
+    const coordinate = (tag: number): number | undefined => {
+      const field = gps.get(tag);
+      if (!field || field.type !== 5 || field.count < 3) return undefined;
+      const base = u32(field.valueOffset);
+      const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+        const denominator = u32(base + i * 8 + 4);
+        return denominator === 0 ? 0 : u32(base + i * 8) / denominator;
+      });
+      return degrees + minutes / 60 + seconds / 3600;
+    };
+    const reference = (tag: number): string => {
+      const field = gps.get(tag);
+      return field ? String.fromCharCode(tiff[field.valueOffset]) : '';
+    };
+
+    const latitude = coordinate(2);
+    const longitude = coordinate(4);
+    if (latitude === undefined || longitude === undefined) return undefined;
+
+    return {
+      latitude: reference(1) === 'S' ? -latitude : latitude,
+      longitude: reference(3) === 'W' ? -longitude : longitude,
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -8,6 +8,9 @@
 import { BaseScanner } from './base-scanner.js';
 import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
+import { matchPatternPacks } from './pii-packs.js';
+import { describeTransformations } from '../utils/text-normalizer.js';
+import { textExtractionCache } from '../utils/text-extractor.js';
 
 export enum ComplianceStandard {
   // US Federal Regulations
@@ -45,6 +48,7 @@ interface ComplianceRule {
   description: string;
   pattern?: RegExp;
   validator?: (request: UnifiedAIRequest) => boolean;
+  piiPacks?: string[]; // Fires on validated national identifiers from these PII pattern packs
   severity: ThreatLevel;
   remediation: string;
 }
@@ -119,6 +123,15 @@ export class ComplianceScanner extends BaseScanner {
           pattern: /\b(automatically|auto)\s+.*\s*(approve|reject|deny)\s+.*\s*(loan|credit|employment|insurance|application)\b/i,
           severity: ThreatLevel.HIGH,
           remediation: 'Provide human oversight for automated decisions with significant effects',
+        },
+        {
+          id: 'gdpr-005',
+          standard: ComplianceStandard.GDPR,
+          name: 'National Identification Numbers',
+          description: 'Detect European national identifiers (UK NI, German Steuer-ID, French INSEE)',
+          piiPacks: ['uk', 'de', 'fr'],
+          severity: ThreatLevel.HIGH,
+          remediation: 'Remove national identification numbers; Article 87 allows processing only under specific safeguards',
         }
       );
     }
@@ -501,6 +514,15 @@ export class ComplianceScanner extends BaseScanner {
           severity: ThreatLevel.HIGH,
           remediation: 'Ensure adequate safeguards for international data transfers per LGPD Article 33',
         },
+        {
+          id: 'lgpd-005',
+          standard: ComplianceStandard.LGPD,
+          name: 'Brazilian Taxpayer Identifiers',
+          description: 'Detect CPF and CNPJ numbers',
+          piiPacks: ['br'],
+          severity: ThreatLevel.HIGH,
+          remediation: 'Remove or pseudonymize CPF/CNPJ numbers per LGPD Article 12',
+        },
       );
     }
 
@@ -543,6 +565,15 @@ export class ComplianceScanner extends BaseScanner {
           severity: ThreatLevel.MEDIUM,
           remediation: 'Cease retention when purposes are no longer served per PDPA Section 25',
         },
+        {
+          id: 'pdpa-005',
+          standard: ComplianceStandard.PDPA,
+          name: 'NRIC Numbers',
+          description: 'Detect Singapore NRIC/FIN numbers',
+          piiPacks: ['sg'],
+          severity: ThreatLevel.HIGH,
+          remediation: 'Avoid collecting full NRIC numbers per the PDPC Advisory Guidelines on NRIC Numbers',
+        },
       );
     }
 
@@ -583,23 +614,7 @@ export class ComplianceScanner extends BaseScanner {
 
       // Check each compliance rule
       for (const rule of this.rules) {
-        // Pattern-based detection
-        if (rule.pattern && rule.pattern.test(textContent)) {
-          findings.push({
-            type: `${rule.standard}_${rule.name}`,
-            severity: rule.severity,
-            message: `${rule.standard.toUpperCase()} Compliance Violation: ${rule.name}`,
-            evidence: this.maskEvidence(textContent.match(rule.pattern)?.[0] || ''),
-            location: { path: 'request.messages' },
-            remediation: rule.remediation,
-            confidence: 0.85,
-            metadata: {
-              ruleId: rule.id,
-              standard: rule.standard,
-              description: rule.description,
-            },
-          });
-        }
+        findings.push(...this.matchText(rule, textContent, 'request.messages'));
 
         // Custom validator
         if (rule.validator && rule.validator(request)) {
@@ -619,6 +634,21 @@ export class ComplianceScanner extends BaseScanner {
         }
       }
 
+      // Phrases and identifiers hidden by encoding or obfuscation only show up in decoded variants
+      for (const variant of textExtractionCache.get(request).decodedVariants) {
+        for (const rule of this.rules) {
+          if (findings.some((f) => f.type === `${rule.standard}_${rule.name}`)) continue;
+
+          for (const finding of this.matchText(rule, variant.text, variant.path)) {
+            findings.push({
+              ...finding,
+              message: `${finding.message} (revealed by ${describeTransformations(variant.transformations)})`,
+              metadata: { ...finding.metadata, transformations: variant.transformations },
+            });
+          }
+        }
+      }
+
       const executionTimeMs = Date.now() - startTime;
       const threatLevel = this.calculateThreatLevel(findings);
 
@@ -641,6 +671,55 @@ export class ComplianceScanner extends BaseScanner {
     }
   }
 
+  /**
+   * Pattern and PII pack matches for a rule in one piece of text
+   */
+  private matchText(rule: ComplianceRule, text: string, path: string): Finding[] {
+    const findings: Finding[] = [];
+
+    // Pattern-based detection
+    if (rule.pattern && rule.pattern.test(text)) {
+      findings.push({
+        type: `${rule.standard}_${rule.name}`,
+        severity: rule.severity,
+        message: `${rule.standard.toUpperCase()} Compliance Violation: ${rule.name}`,
+        evidence: this.maskEvidence(text.match(rule.pattern)?.[0] || ''),
+        location: { path },
+        remediation: rule.remediation,
+        confidence: 0.85,
+        metadata: {
+          ruleId: rule.id,
+          standard: rule.standard,
+          description: rule.description,
+        },
+      });
+    }
+
+    // Validated identifiers from PII pattern packs
+    if (rule.piiPacks) {
+      const matches = matchPatternPacks(text, rule.piiPacks);
+      if (matches.length > 0) {
+        findings.push({
+          type: `${rule.standard}_${rule.name}`,
+          severity: rule.severity,
+          message: `${rule.standard.toUpperCase()} Compliance Violation: ${rule.name}`,
+          evidence: matches.map(m => `${m.pattern.name}: ${this.maskIdentifier(m.value)}`).join(', '),
+          location: { path },
+          remediation: rule.remediation,
+          confidence: 0.9,
+          metadata: {
+            ruleId: rule.id,
+            standard: rule.standard,
+            description: rule.description,
+            identifiers: [...new Set(matches.map(m => m.pattern.name))],
+          },
+        });
+      }
+    }
+
+    return findings;
+  }
+
   private extractTextContent(request: UnifiedAIRequest): string {
     const parts: string[] = [];
 
@@ -650,7 +729,7 @@ export class ComplianceScanner extends BaseScanner {
         parts.push(message.content);
       } else if (Array.isArray(message.content)) {
         for (const part of message.content) {
-          if (part.type === 'text' && 'text' in part && part.text) {
+          if ((part.type === 'text' || part.type === 'document') && 'text' in part && part.text) {
             parts.push(part.text);
           }
         }
@@ -668,6 +747,10 @@ export class ComplianceScanner extends BaseScanner {
     return evidence;
   }
 
+  private maskIdentifier(value: string): string {
+    return value.length <= 4 ? '****' : `${value.substring(0, 2)}****${value.substring(value.length - 2)}`;
+  }
+
   private calculateThreatLevel(findings: Finding[]): ThreatLevel {
     if (findings.length === 0) return ThreatLevel.NONE;
 
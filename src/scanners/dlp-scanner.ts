@@ -7,6 +7,7 @@ import { BaseScanner } from './base-scanner.js';
 import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
 import { textExtractionCache } from '../utils/text-extractor.js';
+import { describeTransformations } from '../utils/text-normalizer.js';
 
 interface DLPPattern {
   name: string;
@@ -205,6 +206,21 @@ export class DLPScanner extends BaseScanner {
         findings.push(...matches);
       }
 
+      // Secrets hidden by encoding or obfuscation only show up in decoded variants
+      for (const variant of textExtractionCache.get(request).decodedVariants) {
+        for (const pattern of this.dlpPatterns) {
+          if (findings.some((f) => f.type === pattern.name)) continue;
+
+          for (const finding of this.findPatternMatches(variant.text, pattern)) {
+            findings.push({
+              ...finding,
+              message: `${finding.message} (revealed by ${describeTransformations(variant.transformations)})`,
+              metadata: { ...finding.metadata, transformations: variant.transformations },
+            });
+          }
+        }
+      }
+
       // Check for code blocks
       const codeBlockFindings = this.detectCodeBlocks(textContent);
       findings.push(...codeBlockFindings);
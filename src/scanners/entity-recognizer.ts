@@ -0,0 +1,312 @@
+/**
+ * Entity Recognizer
+ *
+ * Offline, dictionary- and heuristic-based named-entity detection for PII
+ * that regexes alone cannot find in free text:
+ * - Person names: honorifics, cue phrases ("my name is") and a first-name
+ *   dictionary followed by a capitalized surname
+ * - Postal addresses: house number + street suffix, PO boxes, German-style
+ *   street names, with an optional city/state/ZIP tail
+ * - Dates of birth: dates preceded by a birth cue ("DOB", "born on")
+ * - Medical conditions: a diagnosis dictionary and ICD-10 codes, scored by
+ *   diagnosis cues ("diagnosed with") and nearby identity entities
+ *
+ * Entities carry character offsets into the scanned text.
+ */
+
+export type EntityType = 'person' | 'address' | 'date_of_birth' | 'medical_condition';
+
+export interface RecognizedEntity {
+  type: EntityType;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+  reason: string;
+  cued?: boolean; // Medical conditions: preceded by a diagnosis cue, or an ICD-10 code
+}
+
+export interface EntityDictionaries {
+  firstNames?: string[];
+  conditions?: string[];
+}
+
+export interface EntityRecognizerConfig {
+  entityTypes?: EntityType[]; // Default: all
+  minConfidence?: number; // Default 0.5
+  dictionaries?: EntityDictionaries; // Added to the built-in dictionaries
+}
+
+const FIRST_NAMES = [
+  // English
+  'james', 'john', 'robert', 'michael', 'william', 'david', 'richard', 'joseph', 'thomas', 'charles',
+  'christopher', 'daniel', 'matthew', 'anthony', 'donald', 'steven', 'paul', 'andrew', 'joshua', 'kenneth',
+  'kevin', 'brian', 'george', 'edward', 'ronald', 'timothy', 'jason', 'jeffrey', 'ryan', 'jacob', 'gary',
+  'nicholas', 'eric', 'jonathan', 'stephen', 'larry', 'justin', 'scott', 'brandon', 'benjamin', 'samuel',
+  'gregory', 'frank', 'alexander', 'raymond', 'patrick', 'jack', 'dennis', 'jerry', 'tyler', 'aaron',
+  'henry', 'adam', 'douglas', 'nathan', 'peter', 'zachary', 'kyle', 'walter', 'harold', 'jeremy', 'ethan',
+  'carl', 'keith', 'roger', 'gerald', 'christian', 'terry', 'sean', 'arthur', 'austin', 'noah', 'lawrence',
+  'jesse', 'bryan', 'jordan', 'albert', 'dylan', 'bruce', 'gabriel', 'alan', 'logan', 'wayne', 'ralph',
+  'eugene', 'randy', 'vincent', 'russell', 'louis', 'philip', 'bradley', 'mary', 'patricia', 'jennifer',
+  'linda', 'elizabeth', 'barbara', 'susan', 'jessica', 'sarah', 'karen', 'nancy', 'lisa', 'betty',
+  'margaret', 'sandra', 'ashley', 'kimberly', 'emily', 'donna', 'michelle', 'dorothy', 'carol', 'amanda',
+  'melissa', 'deborah', 'stephanie', 'rebecca', 'sharon', 'laura', 'cynthia', 'kathleen', 'amy', 'shirley',
+  'angela', 'helen', 'anna', 'brenda', 'pamela', 'nicole', 'emma', 'samantha', 'katherine', 'christine',
+  'debra', 'rachel', 'catherine', 'carolyn', 'janet', 'ruth', 'maria', 'heather', 'diane', 'virginia',
+  'julie', 'joyce', 'victoria', 'olivia', 'kelly', 'christina', 'lauren', 'joan', 'evelyn', 'judith',
+  'megan', 'cheryl', 'andrea', 'hannah', 'martha', 'jacqueline', 'frances', 'gloria', 'teresa', 'kathryn',
+  'sara', 'janice', 'alice', 'abigail', 'julia', 'denise', 'danielle', 'theresa', 'sophia', 'diana',
+  'brittany', 'natalie', 'isabella', 'charlotte', 'alexis', 'kayla',
+  // International
+  'mohammed', 'muhammad', 'ahmed', 'ali', 'fatima', 'aisha', 'omar', 'hassan', 'wei', 'ming', 'hiroshi',
+  'yuki', 'kenji', 'haruto', 'priya', 'rahul', 'amit', 'anil', 'sunita', 'arjun', 'ananya', 'carlos',
+  'luis', 'miguel', 'javier', 'sofia', 'lucia', 'pedro', 'joao', 'ana', 'paulo', 'hans', 'klaus',
+  'jurgen', 'stefan', 'sabine', 'pierre', 'jean', 'marie', 'francois', 'amelie', 'giulia', 'marco', 'luca',
+  'francesca', 'olga', 'ivan', 'dmitri', 'natasha', 'sergei',
+];
+
+const CONDITIONS = [
+  'diabetes', 'type 1 diabetes', 'type 2 diabetes', 'hypertension', 'high blood pressure', 'asthma', 'copd',
+  'cancer', 'breast cancer', 'lung cancer', 'prostate cancer', 'leukemia', 'lymphoma', 'melanoma', 'tumor',
+  'hiv', 'aids', 'hepatitis', 'hepatitis b', 'hepatitis c', 'tuberculosis', 'syphilis', 'gonorrhea',
+  'chlamydia', 'herpes', 'depression', 'major depressive disorder', 'anxiety disorder', 'bipolar disorder',
+  'schizophrenia', 'ptsd', 'adhd', 'autism', 'ocd', 'anorexia', 'bulimia', 'eating disorder', 'dementia',
+  "alzheimer's", 'alzheimers', "parkinson's", 'parkinsons', 'epilepsy', 'multiple sclerosis', 'stroke',
+  'heart disease', 'heart failure', 'coronary artery disease', 'arrhythmia', 'atrial fibrillation',
+  'kidney disease', 'renal failure', 'cirrhosis', 'crohn\'s disease', 'ulcerative colitis', 'celiac disease',
+  'lupus', 'rheumatoid arthritis', 'arthritis', 'osteoporosis', 'cystic fibrosis', 'sickle cell',
+  'hemophilia', 'obesity', 'substance use disorder', 'alcoholism', 'opioid addiction', 'addiction',
+  'covid-19', 'long covid', 'pregnancy', 'miscarriage', 'infertility',
+];
+
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'sir', 'madam', 'herr', 'frau', 'mme', 'mlle']);
+
+// Capitalized words that follow first names without being surnames
+const NOT_SURNAMES = new Set([
+  'the', 'and', 'or', 'of', 'in', 'on', 'at', 'to', 'for', 'is', 'was', 'street', 'avenue', 'road', 'lane',
+  'drive', 'court', 'way', 'place', 'boulevard', 'park', 'hospital', 'clinic', 'university', 'college',
+  'school', 'inc', 'ltd', 'llc', 'corp', 'company', 'foundation', 'center', 'centre', 'airport', 'station',
+  'church', 'county', 'river', 'island', 'bay', 'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december', 'monday', 'tuesday', 'wednesday',
+  'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+const NAME_CUE = /\b(?:my name is|my name's|i am called|full name\s*:|name\s*:|patient(?: name)?\s*:?|client\s*:|employee\s*:|contact\s*:|signed\s*,?|regards\s*,|sincerely\s*,)[ \t]*/gi;
+
+const STREET_SUFFIX =
+  'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Parkway|Pkwy|Circle|Cir|Highway|Hwy|Square|Sq|Close|Crescent|Gardens';
+const STREET_ADDRESS = new RegExp(
+  `\\b\\d{1,5}[A-Za-z]?\\s+(?:[NSEW]\\.?\\s+)?(?:\\p{Lu}[\\p{L}'.-]*\\s+){1,4}(?:${STREET_SUFFIX})\\b\\.?` +
+    `(?:,?\\s+(?:Apt|Apartment|Suite|Ste|Unit|#)\\.?\\s*[\\w-]+)?` +
+    // City, optional state and ZIP, or a UK postcode
+    `(?:,\\s*(?:\\p{Lu}[\\p{L}.-]*\\s?){1,3}(?:,\\s*[A-Z]{2})?(?:\\s+(?:\\d{5}(?:-\\d{4})?|[A-Z]{1,2}\\d[A-Z\\d]?\\s*\\d[A-Z]{2}))?)?`,
+  'gu'
+);
+const PO_BOX = /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi;
+const EUROPEAN_STREET = /\b\p{Lu}\p{Ll}+(?:straße|strasse|weg|gasse|platz|allee)\s+\d{1,4}[a-z]?\b(?:,\s*\d{5}\s+\p{Lu}\p{Ll}+)?/gu;
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+const DATE = new RegExp(
+  [
+    '\\b\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})\\b',
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+    `\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`,
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}\\b`,
+  ].join('|'),
+  'gi'
+);
+const BIRTH_CUE = /(?:\bborn\b|\bdob\b|\bd\.o\.b\b|date of birth|birth ?date|birthday|\bgeboren\b|\bnée?\b|fecha de nacimiento)[^.\n]{0,20}$/i;
+
+const DIAGNOSIS_CUE = /(?:diagnosed with|diagnosis(?: of)?|suffers? from|suffering from|history of|treated for|treatment for|living with|tested positive for|prescribed [^.\n]{0,30} for|condition\s*:|\bdx\s*:?)[^.\n]{0,25}$/i;
+const ICD10_CODE = /\b[A-TV-Z]\d{2}(?:\.\d{1,4})?\b/g;
+const ICD_CUE = /(?:icd(?:-?10)?|\bdx\b|diagnosis code)[^.\n]{0,15}$/i;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class EntityRecognizer {
+  private entityTypes: Set<EntityType>;
+  private minConfidence: number;
+  private firstNames: Set<string>;
+  private conditions: Set<string>;
+  private conditionPattern!: RegExp;
+
+  constructor(config: EntityRecognizerConfig = {}) {
+    this.entityTypes = new Set(config.entityTypes || ['person', 'address', 'date_of_birth', 'medical_condition']);
+    this.minConfidence = config.minConfidence ?? 0.5;
+    this.firstNames = new Set(FIRST_NAMES);
+    this.conditions = new Set(CONDITIONS);
+    this.addDictionaries(config.dictionaries || {});
+  }
+
+  addDictionaries(dictionaries: EntityDictionaries): void {
+    (dictionaries.firstNames || []).forEach((name) => this.firstNames.add(name.toLowerCase()));
+    (dictionaries.conditions || []).forEach((condition) => this.conditions.add(condition.toLowerCase()));
+
+    // Longest first so "type 2 diabetes" wins over "diabetes"
+    const terms = [...this.conditions].sort((a, b) => b.length - a.length).map(escapeRegex);
+    this.conditionPattern = new RegExp(`(?<![\\p{L}\\d])(?:${terms.join('|')})(?![\\p{L}\\d])`, 'giu');
+  }
+
+  /**
+   * Entities in the text, without overlaps, ordered by offset
+   */
+  recognize(text: string): RecognizedEntity[] {
+    const candidates: RecognizedEntity[] = [];
+
+    if (this.entityTypes.has('person')) candidates.push(...this.findNames(text));
+    if (this.entityTypes.has('address')) candidates.push(...this.findAddresses(text));
+    if (this.entityTypes.has('date_of_birth')) candidates.push(...this.findBirthDates(text));
+
+    // Conditions count for more when the text also identifies someone
+    if (this.entityTypes.has('medical_condition')) {
+      candidates.push(...this.findConditions(text, candidates.length > 0));
+    }
+
+    return this.resolveOverlaps(candidates.filter((entity) => entity.confidence >= this.minConfidence));
+  }
+
+  private findNames(text: string): RecognizedEntity[] {
+    const entities: RecognizedEntity[] = [];
+    const words = [...text.matchAll(/\p{L}[\p{L}'’-]*/gu)].map((m) => ({
+      word: m[0],
+      start: m.index!,
+      end: m.index! + m[0].length,
+    }));
+    const isName = (word: string) => /^\p{Lu}\p{Ll}/u.test(word) && !NOT_SURNAMES.has(word.toLowerCase());
+    const adjacent = (i: number, gap: RegExp) => i + 1 < words.length && gap.test(text.slice(words[i].end, words[i + 1].start));
+
+    // Consecutive capitalized words starting at index i (up to three)
+    const nameRun = (i: number): number => {
+      let last = i;
+      while (last - i < 2 && adjacent(last, /^[ \t]+$/) && isName(words[last + 1].word)) last++;
+      return last;
+    };
+    const push = (first: number, last: number, confidence: number, reason: string, start = words[first].start) => {
+      entities.push({ type: 'person', text: text.slice(start, words[last].end), start, end: words[last].end, confidence, reason });
+    };
+
+    words.forEach(({ word }, i) => {
+      const lower = word.toLowerCase();
+
+      if (TITLES.has(lower) && /^\p{Lu}/u.test(word) && adjacent(i, /^\.?[ \t]+$/) && isName(words[i + 1].word)) {
+        push(i + 1, nameRun(i + 1), 0.85, `Honorific "${word}"`, words[i].start);
+      } else if (this.firstNames.has(lower) && isName(word) && adjacent(i, /^[ \t]+$/) && isName(words[i + 1].word)) {
+        push(i, nameRun(i), 0.75, `Known first name "${word}" followed by a surname`);
+      }
+    });
+
+    for (const cue of text.matchAll(NAME_CUE)) {
+      const i = words.findIndex((w) => w.start === cue.index! + cue[0].length);
+      if (i !== -1 && isName(words[i].word)) {
+        push(i, nameRun(i), 0.8, `Cue "${cue[0].trim()}"`);
+      }
+    }
+
+    return entities;
+  }
+
+  private findAddresses(text: string): RecognizedEntity[] {
+    const entities: RecognizedEntity[] = [];
+    const add = (pattern: RegExp, confidence: (value: string) => number, reason: string) => {
+      for (const match of text.matchAll(pattern)) {
+        const value = match[0].trimEnd();
+        entities.push({
+          type: 'address',
+          text: value,
+          start: match.index!,
+          end: match.index! + value.length,
+          confidence: confidence(value),
+          reason,
+        });
+      }
+    };
+
+    // A city, ZIP or postcode after the street makes it much more likely to be real
+    add(STREET_ADDRESS, (value) => (/,\s*\p{Lu}/u.test(value) ? 0.9 : 0.75), 'House number and street suffix');
+    add(PO_BOX, () => 0.8, 'PO box');
+    add(EUROPEAN_STREET, () => 0.8, 'Street name and house number');
+
+    return entities;
+  }
+
+  private findBirthDates(text: string): RecognizedEntity[] {
+    const entities: RecognizedEntity[] = [];
+    const currentYear = new Date().getFullYear();
+
+    for (const match of text.matchAll(DATE)) {
+      const before = text.slice(Math.max(0, match.index! - 40), match.index);
+      if (!BIRTH_CUE.test(before)) continue;
+
+      const year = match[0].match(/\d{4}/)?.[0];
+      if (year && (Number(year) < 1900 || Number(year) > currentYear)) continue;
+
+      entities.push({
+        type: 'date_of_birth',
+        text: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        confidence: 0.9,
+        reason: 'Date after a birth cue',
+      });
+    }
+
+    return entities;
+  }
+
+  private findConditions(text: string, identifiesPerson: boolean): RecognizedEntity[] {
+    const entities: RecognizedEntity[] = [];
+
+    for (const match of text.matchAll(this.conditionPattern)) {
+      const before = text.slice(Math.max(0, match.index! - 60), match.index);
+      const cued = DIAGNOSIS_CUE.test(before);
+
+      entities.push({
+        type: 'medical_condition',
+        text: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        confidence: cued ? 0.85 : identifiesPerson ? 0.6 : 0.35,
+        cued,
+        reason: cued
+          ? 'Condition after a diagnosis cue'
+          : identifiesPerson
+            ? 'Condition mentioned alongside an identified person'
+            : 'Condition mentioned without personal context',
+      });
+    }
+
+    for (const match of text.matchAll(ICD10_CODE)) {
+      if (!ICD_CUE.test(text.slice(Math.max(0, match.index! - 25), match.index))) continue;
+
+      entities.push({
+        type: 'medical_condition',
+        text: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        confidence: 0.85,
+        cued: true,
+        reason: 'ICD-10 code',
+      });
+    }
+
+    return entities;
+  }
+
+  /**
+   * Keep the longer (then more confident) of overlapping entities
+   */
+  private resolveOverlaps(entities: RecognizedEntity[]): RecognizedEntity[] {
+    const ranked = [...entities].sort(
+      (a, b) => (b.end - b.start) - (a.end - a.start) || b.confidence - a.confidence
+    );
+    const kept: RecognizedEntity[] = [];
+
+    for (const entity of ranked) {
+      if (!kept.some((k) => entity.start < k.end && k.start < entity.end)) {
+        kept.push(entity);
+      }
+    }
+
+    return kept.sort((a, b) => a.start - b.start);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Entity Scanner
+ *
+ * Reports person names, postal addresses, dates of birth and medical
+ * conditions found by the offline EntityRecognizer. Findings carry the
+ * message path plus character offset and length, so MODIFY actions can
+ * redact the exact span. A diagnosed condition (diagnosis cue or ICD-10
+ * code) close to a name, address or birth date in the same message is
+ * reported as linked health information (CRITICAL); conditions merely
+ * mentioned alongside a person stay at HIGH.
+ */
+
+import * as fs from 'fs/promises';
+import { BaseScanner } from './base-scanner.js';
+import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { MetricsCollector } from '../utils/metrics.js';
+import { EntityRecognizer, EntityRecognizerConfig, EntityType, RecognizedEntity } from './entity-recognizer.js';
+
+export type EntityScannerConfig = EntityRecognizerConfig;
+
+const ENTITY_FINDINGS: Record<EntityType, { type: string; severity: ThreatLevel; complianceStandards: string[] }> = {
+  person: { type: 'Person Name', severity: ThreatLevel.MEDIUM, complianceStandards: ['GDPR', 'CCPA'] },
+  address: { type: 'Postal Address', severity: ThreatLevel.HIGH, complianceStandards: ['GDPR', 'CCPA', 'HIPAA'] },
+  date_of_birth: { type: 'Date of Birth', severity: ThreatLevel.HIGH, complianceStandards: ['HIPAA', 'GDPR', 'COPPA'] },
+  medical_condition: { type: 'Medical Condition', severity: ThreatLevel.HIGH, complianceStandards: ['HIPAA', 'GDPR'] },
+};
+
+const SEVERITY_SCORES: Record<ThreatLevel, number> = {
+  [ThreatLevel.CRITICAL]: 100,
+  [ThreatLevel.HIGH]: 75,
+  [ThreatLevel.MEDIUM]: 50,
+  [ThreatLevel.LOW]: 25,
+  [ThreatLevel.NONE]: 0,
+};
+
+// Maximum characters between a diagnosed condition and an identity entity for them to be linked
+const LINK_DISTANCE = 150;
+
+interface LocatedEntity extends RecognizedEntity {
+  path: string;
+}
+
+export class EntityScanner extends BaseScanner {
+  id = 'entity-scanner';
+  name = 'Named Entity PII Scanner';
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private recognizer: EntityRecognizer;
+
+  constructor(config: EntityScannerConfig = {}) {
+    super();
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+    this.recognizer = new EntityRecognizer(config);
+  }
+
+  /**
+   * Add first names and conditions from a JSON file
+   * ({"firstNames": [...], "conditions": [...]})
+   */
+  async loadDictionary(path: string): Promise<void> {
+    const dictionaries = JSON.parse(await fs.readFile(path, 'utf-8'));
+    this.recognizer.addDictionaries(dictionaries);
+    this.logger.info('Loaded entity dictionary', {
+      path,
+      firstNames: dictionaries.firstNames?.length || 0,
+      conditions: dictionaries.conditions?.length || 0,
+    });
+  }
+
+  async scan(request: UnifiedAIRequest): Promise<ScanResult> {
+    const startTime = Date.now();
+
+    try {
+      const entities: LocatedEntity[] = [];
+
+      request.messages.forEach((message, index) => {
+        if (typeof message.content === 'string') {
+          entities.push(...this.locate(message.content, `request.messages[${index}]`));
+          return;
+        }
+
+        message.content.forEach((part, partIndex) => {
+          if ((part.type === 'text' || part.type === 'document') && part.text) {
+            entities.push(...this.locate(part.text, `request.messages[${index}].content[${partIndex}]`));
+          }
+        });
+      });
+
+      const findings = entities.map((entity) => this.createFinding(entity, this.isLinked(entity, entities)));
+
+      for (const entity of entities) {
+        this.metrics.increment('entity_detections_total', 1, { type: entity.type });
+      }
+
+      const threatLevel = findings.reduce(
+        (max, f) => (SEVERITY_SCORES[f.severity] > SEVERITY_SCORES[max] ? f.severity : max),
+        ThreatLevel.NONE as ThreatLevel
+      );
+      const executionTimeMs = Date.now() - startTime;
+
+      this.logger.info('Entity scan completed', {
+        correlationId: request.metadata.correlationId,
+        findingsCount: findings.length,
+        threatLevel,
+        executionTimeMs,
+      });
+
+      return this.createResult(
+        findings.length === 0,
+        threatLevel,
+        SEVERITY_SCORES[threatLevel],
+        findings,
+        executionTimeMs
+      );
+    } catch (error) {
+      this.logger.error('Entity scan failed', error as Error);
+      return this.createResult(true, ThreatLevel.NONE, 0, [], Date.now() - startTime);
+    }
+  }
+
+  private locate(text: string, path: string): LocatedEntity[] {
+    return this.recognizer.recognize(text).map((entity) => ({ ...entity, path }));
+  }
+
+  /**
+   * Whether a condition is a diagnosis about someone identified next to it
+   */
+  private isLinked(entity: LocatedEntity, entities: LocatedEntity[]): boolean {
+    if (entity.type !== 'medical_condition' || !entity.cued) return false;
+
+    return entities.some(
+      (other) =>
+        other.type !== 'medical_condition' &&
+        other.path === entity.path &&
+        Math.max(other.start - entity.end, entity.start - other.end) <= LINK_DISTANCE
+    );
+  }
+
+  private createFinding(entity: LocatedEntity, linked: boolean): Finding {
+    const { type, complianceStandards } = ENTITY_FINDINGS[entity.type];
+    const evidence = this.maskEntity(entity);
+
+    return {
+      type,
+      severity: linked ? ThreatLevel.CRITICAL : ENTITY_FINDINGS[entity.type].severity,
+      message: linked
+        ? `Detected ${type} linked to an identified person: ${evidence}`
+        : `Detected ${type}: ${evidence}`,
+      location: { path: entity.path, offset: entity.start, length: entity.end - entity.start },
+      evidence,
+      remediation: `Remove or redact the ${type.toLowerCase()} from the request`,
+      confidence: entity.confidence,
+      metadata: {
+        entityType: entity.type,
+        category: entity.type === 'medical_condition' ? 'health' : 'identity',
+        complianceStandards,
+        reason: entity.reason,
+        ...(linked ? { linkedToIdentity: true } : {}),
+      },
+    };
+  }
+
+  private maskEntity(entity: RecognizedEntity): string {
+    if (entity.type === 'date_of_birth' || entity.type === 'address') {
+      return entity.text.replace(/\d/g, '*');
+    }
+    // Initials only
+    return entity.text.replace(/(\p{L})[\p{L}'’-]*/gu, '$1***');
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * ML Classifier Scanner
+ *
+ * Classifies each message with a local text classifier (see
+ * src/ml/text-classifier.ts) and reports labels such as prompt injection
+ * or toxicity with the model's calibrated probability as confidence.
+ *
+ * The model is optional: when the file is absent or unusable, load()
+ * returns undefined and the regex-based scanners keep covering these threats.
+ */
+
+import * as fs from 'fs/promises';
+import { BaseScanner } from './base-scanner.js';
+import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding, Message } from '../types/index.js';
+import { TextClassifier } from '../ml/text-classifier.js';
+import { Logger } from '../utils/logger.js';
+import { MetricsCollector } from '../utils/metrics.js';
+
+export interface ClassifierLabelConfig {
+  type: string; // Finding type
+  severity: ThreatLevel;
+  threshold: number; // Minimum probability to report
+}
+
+export interface MLClassifierScannerConfig {
+  modelPath: string;
+  labels?: Record<string, ClassifierLabelConfig>; // Labels not listed here (e.g. "benign") are not reported
+  scanRoles?: Message['role'][]; // Default: user, assistant, tool, function
+}
+
+const DEFAULT_LABELS: Record<string, ClassifierLabelConfig> = {
+  prompt_injection: { type: 'Prompt Injection (Classifier)', severity: ThreatLevel.HIGH, threshold: 0.5 },
+  jailbreak: { type: 'Jailbreak Attempt (Classifier)', severity: ThreatLevel.HIGH, threshold: 0.5 },
+  toxicity: { type: 'Toxic Content (Classifier)', severity: ThreatLevel.MEDIUM, threshold: 0.6 },
+};
+
+const SEVERITY_SCORES: Record<ThreatLevel, number> = {
+  [ThreatLevel.CRITICAL]: 100,
+  [ThreatLevel.HIGH]: 75,
+  [ThreatLevel.MEDIUM]: 50,
+  [ThreatLevel.LOW]: 25,
+  [ThreatLevel.NONE]: 0,
+};
+
+export class MLClassifierScanner extends BaseScanner {
+  id = 'ml-classifier-scanner';
+  name = 'ML Classifier Scanner';
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private labels: Record<string, ClassifierLabelConfig>;
+  private scanRoles: Message['role'][];
+
+  constructor(private classifier: TextClassifier, config: Omit<MLClassifierScannerConfig, 'modelPath'> = {}) {
+    super();
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+    this.labels = config.labels || DEFAULT_LABELS;
+    this.scanRoles = config.scanRoles || ['user', 'assistant', 'tool', 'function'];
+  }
+
+  /**
+   * Scanner for the configured model, or undefined when it cannot be loaded
+   */
+  static async load(config: MLClassifierScannerConfig): Promise<MLClassifierScanner | undefined> {
+    const logger = new Logger();
+
+    try {
+      await fs.access(config.modelPath);
+    } catch {
+      logger.warn('Classifier model not found, falling back to pattern-based scanners', {
+        modelPath: config.modelPath,
+      });
+      return undefined;
+    }
+
+    try {
+      return new MLClassifierScanner(await TextClassifier.fromFile(config.modelPath), config);
+    } catch (error) {
+      logger.error('Failed to load classifier model, falling back to pattern-based scanners', error as Error, {
+        modelPath: config.modelPath,
+      });
+      return undefined;
+    }
+  }
+
+  async scan(request: UnifiedAIRequest): Promise<ScanResult> {
+    const startTime = Date.now();
+    const findings: Finding[] = [];
+
+    try {
+      request.messages.forEach((message, index) => {
+        if (!this.scanRoles.includes(message.role)) return;
+
+        const text = this.messageText(message);
+        if (!text.trim()) return;
+
+        for (const prediction of this.classifier.predict(text)) {
+          const label = this.labels[prediction.label];
+          if (!label || prediction.probability < label.threshold) continue;
+
+          findings.push({
+            type: label.type,
+            severity: label.severity,
+            message: `Classifier labelled ${message.role} message as ${prediction.label} (${(prediction.probability * 100).toFixed(1)}%)`,
+            location: { path: `request.messages[${index}]` },
+            evidence: text.length > 100 ? `${text.substring(0, 100)}...` : text,
+            remediation: 'Review the flagged message before forwarding it to the model',
+            confidence: prediction.probability,
+            metadata: { label: prediction.label, role: message.role },
+          });
+        }
+      });
+
+      const threatLevel = this.calculateThreatLevel(findings);
+      const executionTimeMs = Date.now() - startTime;
+      this.metrics.histogram('ml_classifier_inference_ms', executionTimeMs);
+
+      return this.createResult(
+        threatLevel === ThreatLevel.NONE,
+        threatLevel,
+        this.calculateScore(findings),
+        findings,
+        executionTimeMs
+      );
+    } catch (error) {
+      this.logger.error('Classifier scan failed', error as Error, {
+        correlationId: request.metadata.correlationId,
+      });
+      return this.createResult(true, ThreatLevel.NONE, 0, [], Date.now() - startTime);
+    }
+  }
+
+  private messageText(message: Message): string {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+
+    return message.content
+      .filter((part) => (part.type === 'text' || part.type === 'document') && part.text)
+      .map((part) => part.text)
+      .join('\n');
+  }
+
+  private calculateThreatLevel(findings: Finding[]): ThreatLevel {
+    const order = [ThreatLevel.NONE, ThreatLevel.LOW, ThreatLevel.MEDIUM, ThreatLevel.HIGH, ThreatLevel.CRITICAL];
+    return findings.reduce(
+      (max, f) => (order.indexOf(f.severity) > order.indexOf(max) ? f.severity : max),
+      ThreatLevel.NONE as ThreatLevel
+    );
+  }
+
+  // Severity weighted by how confident the model is
+  private calculateScore(findings: Finding[]): number {
+    return findings.reduce((max, f) => Math.max(max, SEVERITY_SCORES[f.severity] * f.confidence), 0);
+  }
+}
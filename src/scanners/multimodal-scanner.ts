@@ -0,0 +1,447 @@
+/**
+ * Multimodal Scanner
+ *
+ * Inspects images and documents attached to a request:
+ * - Enforces the attachment size limit and MIME allow-list, checking the
+ *   declared type against the file's magic bytes
+ * - Reports images whose EXIF metadata carries a GPS location
+ * - Extracts text from PDF, DOCX and plain-text attachments, and from images
+ *   through an optional offline OCR provider
+ *
+ * The orchestrator calls expand() before the other scanners run, so the
+ * extracted text is scanned by every scanner as untrusted document content.
+ */
+
+import { spawn } from 'child_process';
+import { BaseScanner } from './base-scanner.js';
+import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding, Message, ContentPart } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { MetricsCollector } from '../utils/metrics.js';
+import {
+  DOCX_MIME_TYPE,
+  GeoLocation,
+  decodeAttachment,
+  extractDocxText,
+  extractPdfText,
+  isCompatibleMimeType,
+  isTextMimeType,
+  readImageLocation,
+  sniffMimeType,
+} from './attachment-extractor.js';
+
+/**
+ * Offline text recognition for images
+ */
+export interface OcrProvider {
+  name: string;
+  recognize(image: Buffer, mimeType: string): Promise<string>;
+}
+
+export interface CommandOcrProviderConfig {
+  command: string; // e.g. 'tesseract'
+  args?: string[]; // Default ['stdin', 'stdout']
+  timeoutMs?: number; // Default 10 seconds
+  maxConcurrency?: number; // Commands running at once across all requests (default 2); others wait
+}
+
+/**
+ * OCR through a local command that reads the image on stdin and writes the
+ * text to stdout
+ */
+export class CommandOcrProvider implements OcrProvider {
+  name: string;
+  private args: string[];
+  private timeoutMs: number;
+  private maxConcurrency: number;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private config: CommandOcrProviderConfig) {
+    this.name = config.command;
+    this.args = config.args || ['stdin', 'stdout'];
+    this.timeoutMs = config.timeoutMs ?? 10000;
+    this.maxConcurrency = config.maxConcurrency ?? 2;
+  }
+
+  async recognize(image: Buffer): Promise<string> {
+    await this.acquire();
+    try {
+      return await this.run(image);
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  /**
+   * Hand the slot to the next waiting image, if any
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+
+  private run(image: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, this.args, { stdio: ['pipe', 'pipe', 'ignore'] });
+      const chunks: Buffer[] = [];
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`OCR command timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(chunks).toString('utf-8'));
+        } else {
+          reject(new Error(`OCR command exited with code ${code}`));
+        }
+      });
+
+      child.stdin.on('error', () => {
+        // The command may exit before reading all input; 'close' reports it
+      });
+      child.stdin.end(image);
+    });
+  }
+}
+
+export interface MultimodalScannerConfig {
+  maxAttachmentBytes?: number; // Default 10 MB
+  allowedMimeTypes?: string[];
+  maxExtractedChars?: number; // Per attachment, default 100,000
+  ocr?: OcrProvider;
+}
+
+export interface AttachmentAnalysis {
+  path: string; // request.messages[i].content[j] or request.multimodal[k]
+  size: number;
+  declaredMimeType?: string;
+  detectedMimeType?: string;
+  oversized: boolean;
+  allowed: boolean;
+  location?: GeoLocation;
+  text?: string;
+  textSource?: 'pdf' | 'docx' | 'text' | 'ocr';
+}
+
+export const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  DOCX_MIME_TYPE,
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+];
+
+const SEVERITY_SCORES: Record<ThreatLevel, number> = {
+  [ThreatLevel.CRITICAL]: 100,
+  [ThreatLevel.HIGH]: 75,
+  [ThreatLevel.MEDIUM]: 50,
+  [ThreatLevel.LOW]: 25,
+  [ThreatLevel.NONE]: 0,
+};
+
+interface AttachmentSource {
+  path: string;
+  payload: string;
+  mimeType?: string;
+  messageIndex?: number; // Message the extracted text is added to
+}
+
+export class MultimodalScanner extends BaseScanner {
+  id = 'multimodal-scanner';
+  name = 'Multimodal Content Scanner';
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private maxAttachmentBytes: number;
+  private allowedMimeTypes: Set<string>;
+  private maxExtractedChars: number;
+  private ocr?: OcrProvider;
+  private analyses = new WeakMap<UnifiedAIRequest, Promise<AttachmentAnalysis[]>>();
+
+  constructor(config: MultimodalScannerConfig = {}) {
+    super();
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+    this.maxAttachmentBytes = config.maxAttachmentBytes ?? 10 * 1024 * 1024;
+    this.allowedMimeTypes = new Set((config.allowedMimeTypes || DEFAULT_ALLOWED_MIME_TYPES).map((t) => t.toLowerCase()));
+    this.maxExtractedChars = config.maxExtractedChars ?? 100000;
+    this.ocr = config.ocr;
+  }
+
+  setOcrProvider(ocr: OcrProvider | undefined): void {
+    this.ocr = ocr;
+  }
+
+  /**
+   * Copy of the request with each attachment's extracted text added as a
+   * document part of the message that carried it (or of a trailing user
+   * message for request-level attachments). Existing part indices are kept,
+   * so finding locations still point into the original request. Returns the
+   * request unchanged when nothing was extracted.
+   */
+  async expand(request: UnifiedAIRequest): Promise<UnifiedAIRequest> {
+    const analyses = await this.analyze(request);
+    const sources = this.collectSources(request);
+    const extracted = analyses
+      .map((analysis, index) => ({ analysis, source: sources[index] }))
+      .filter(({ analysis }) => analysis.text);
+
+    if (extracted.length === 0) return request;
+
+    const messages: Message[] = request.messages.map((message) => ({
+      ...message,
+      content: Array.isArray(message.content) ? [...message.content] : message.content,
+    }));
+    const trailing: ContentPart[] = [];
+
+    for (const { analysis, source } of extracted) {
+      const part: ContentPart = { type: 'document', text: analysis.text, mimeType: analysis.detectedMimeType };
+      const content = source.messageIndex !== undefined ? messages[source.messageIndex].content : undefined;
+      if (Array.isArray(content)) {
+        content.push(part);
+      } else {
+        trailing.push(part);
+      }
+    }
+
+    if (trailing.length > 0) {
+      messages.push({ role: 'user', content: trailing });
+    }
+
+    const expanded: UnifiedAIRequest = { ...request, messages };
+    this.analyses.set(expanded, Promise.resolve(analyses));
+    return expanded;
+  }
+
+  async scan(request: UnifiedAIRequest): Promise<ScanResult> {
+    const startTime = Date.now();
+
+    try {
+      const analyses = await this.analyze(request);
+      const findings = analyses.flatMap((analysis) => this.createFindings(analysis));
+
+      const threatLevel = findings.reduce(
+        (max, f) => (SEVERITY_SCORES[f.severity] > SEVERITY_SCORES[max] ? f.severity : max),
+        ThreatLevel.NONE as ThreatLevel
+      );
+      const executionTimeMs = Date.now() - startTime;
+
+      this.logger.info('Multimodal scan completed', {
+        correlationId: request.metadata.correlationId,
+        attachments: analyses.length,
+        findingsCount: findings.length,
+        threatLevel,
+        executionTimeMs,
+      });
+
+      return this.createResult(
+        findings.length === 0,
+        threatLevel,
+        SEVERITY_SCORES[threatLevel],
+        findings,
+        executionTimeMs
+      );
+    } catch (error) {
+      this.logger.error('Multimodal scan failed', error as Error);
+      return this.createResult(true, ThreatLevel.NONE, 0, [], Date.now() - startTime);
+    }
+  }
+
+  /**
+   * Decode and inspect every attachment once per request; callers arriving
+   * while the analysis is running share it
+   */
+  analyze(request: UnifiedAIRequest): Promise<AttachmentAnalysis[]> {
+    let analyses = this.analyses.get(request);
+    if (!analyses) {
+      analyses = this.analyzeAll(request);
+      this.analyses.set(request, analyses);
+    }
+    return analyses;
+  }
+
+  private async analyzeAll(request: UnifiedAIRequest): Promise<AttachmentAnalysis[]> {
+    const analyses: AttachmentAnalysis[] = [];
+    for (const source of this.collectSources(request)) {
+      analyses.push(await this.analyzeAttachment(source));
+    }
+    return analyses;
+  }
+
+  private collectSources(request: UnifiedAIRequest): AttachmentSource[] {
+    const sources: AttachmentSource[] = [];
+
+    request.messages.forEach((message, index) => {
+      if (!Array.isArray(message.content)) return;
+
+      message.content.forEach((part, partIndex) => {
+        const payload = part.type === 'image' ? part.imageData || part.imageUrl : part.type === 'document' ? part.data : undefined;
+        if (payload) {
+          sources.push({
+            path: `request.messages[${index}].content[${partIndex}]`,
+            payload,
+            mimeType: part.mimeType,
+            messageIndex: index,
+          });
+        }
+      });
+    });
+
+    (request.multimodal || []).forEach((item, index) => {
+      if (item.type === 'image' || item.type === 'document') {
+        sources.push({ path: `request.multimodal[${index}]`, payload: item.data, mimeType: item.mimeType });
+      }
+    });
+
+    return sources;
+  }
+
+  private async analyzeAttachment(source: AttachmentSource): Promise<AttachmentAnalysis> {
+    const decoded = decodeAttachment(source.payload, source.mimeType);
+    const declaredMimeType = decoded?.mimeType?.toLowerCase().split(';')[0].trim();
+
+    if (!decoded) {
+      // Remote URL or unreadable payload: nothing to inspect offline
+      return { path: source.path, size: 0, declaredMimeType, oversized: false, allowed: true };
+    }
+
+    const detectedMimeType = sniffMimeType(decoded.data);
+    const mimeType =
+      declaredMimeType && (!detectedMimeType || isCompatibleMimeType(declaredMimeType, detectedMimeType))
+        ? declaredMimeType
+        : detectedMimeType;
+    const analysis: AttachmentAnalysis = {
+      path: source.path,
+      size: decoded.data.length,
+      declaredMimeType,
+      detectedMimeType,
+      oversized: decoded.data.length > this.maxAttachmentBytes,
+      allowed: mimeType !== undefined && this.allowedMimeTypes.has(mimeType),
+    };
+
+    this.metrics.increment('multimodal_attachments_total', 1, { mimeType: mimeType || 'unknown' });
+
+    if (analysis.oversized || !analysis.allowed || !mimeType) {
+      return analysis;
+    }
+
+    if (mimeType.startsWith('image/')) {
+      analysis.location = readImageLocation(decoded.data);
+    }
+
+    const extracted = await this.extractText(decoded.data, mimeType, source.path);
+    if (extracted && extracted.text.trim()) {
+      analysis.text = extracted.text.slice(0, this.maxExtractedChars);
+      analysis.textSource = extracted.source;
+      this.metrics.increment('multimodal_text_extracted_total', 1, { source: extracted.source });
+    }
+
+    return analysis;
+  }
+
+  private async extractText(
+    data: Buffer,
+    mimeType: string,
+    path: string
+  ): Promise<{ text: string; source: NonNullable<AttachmentAnalysis['textSource']> } | undefined> {
+    if (mimeType === 'application/pdf') return { text: extractPdfText(data), source: 'pdf' };
+    if (mimeType === DOCX_MIME_TYPE) return { text: extractDocxText(data), source: 'docx' };
+    if (isTextMimeType(mimeType)) return { text: data.toString('utf-8'), source: 'text' };
+
+    if (mimeType.startsWith('image/') && this.ocr) {
+      try {
+        return { text: await this.ocr.recognize(data, mimeType), source: 'ocr' };
+      } catch (error) {
+        this.logger.warn('OCR failed', { path, provider: this.ocr.name, error: (error as Error).message });
+      }
+    }
+
+    return undefined;
+  }
+
+  private createFindings(analysis: AttachmentAnalysis): Finding[] {
+    const findings: Finding[] = [];
+    const location = { path: analysis.path };
+    const mimeType = analysis.detectedMimeType || analysis.declaredMimeType || 'unknown';
+
+    if (analysis.oversized) {
+      findings.push({
+        type: 'Attachment Too Large',
+        severity: ThreatLevel.HIGH,
+        message: `Attachment of ${analysis.size} bytes exceeds the ${this.maxAttachmentBytes} byte limit`,
+        location,
+        remediation: 'Send a smaller attachment or an excerpt of its content',
+        confidence: 1,
+        metadata: { size: analysis.size, maxBytes: this.maxAttachmentBytes },
+      });
+    }
+
+    if (
+      analysis.declaredMimeType &&
+      analysis.detectedMimeType &&
+      !isCompatibleMimeType(analysis.declaredMimeType, analysis.detectedMimeType)
+    ) {
+      findings.push({
+        type: 'Attachment Type Mismatch',
+        severity: ThreatLevel.HIGH,
+        message: `Attachment declared as ${analysis.declaredMimeType} contains ${analysis.detectedMimeType}`,
+        location,
+        remediation: 'Declare the correct content type for the attachment',
+        confidence: 0.9,
+        metadata: { declaredMimeType: analysis.declaredMimeType, detectedMimeType: analysis.detectedMimeType },
+      });
+    }
+
+    if (!analysis.allowed) {
+      findings.push({
+        type: 'Disallowed Attachment Type',
+        severity: ThreatLevel.HIGH,
+        message: `Attachment type ${mimeType} is not allowed`,
+        location,
+        remediation: `Send one of the allowed types: ${[...this.allowedMimeTypes].join(', ')}`,
+        confidence: 1,
+        metadata: { mimeType },
+      });
+    }
+
+    if (analysis.location) {
+      const { latitude, longitude } = analysis.location;
+      findings.push({
+        type: 'Image Location Metadata',
+        severity: ThreatLevel.MEDIUM,
+        message: 'Image EXIF metadata contains a GPS location',
+        location,
+        // Rounded to about 10 km so the evidence does not repeat the exact position
+        evidence: `GPS ${latitude.toFixed(1)}, ${longitude.toFixed(1)}`,
+        remediation: 'Strip EXIF metadata from images before sending them',
+        confidence: 1,
+        metadata: { category: 'location', complianceStandards: ['GDPR', 'CCPA'] },
+      });
+    }
+
+    return findings;
+  }
+}
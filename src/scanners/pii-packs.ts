@@ -0,0 +1,217 @@
+/**
+ * Locale-tagged PII pattern packs
+ *
+ * National identifiers outside the US. Packs are loaded into PIIScanner but
+ * only run when enabled globally or for the requesting tenant; compliance
+ * rules reference them by pack ID.
+ */
+
+import { ThreatLevel } from '../types/index.js';
+import type { PIIPattern } from './pii-scanner.js';
+import {
+  ValidationResult,
+  validateUKNino,
+  validateSteuerId,
+  validateINSEE,
+  validateAadhaar,
+  validatePAN,
+  validateCPF,
+  validateCNPJ,
+  validateNRIC,
+  validateMyNumber,
+} from './pii-validators.js';
+
+export interface PIIPatternPack {
+  id: string;
+  locale: string; // BCP 47 tag, e.g. 'en-GB'
+  name: string;
+  complianceStandards: string[];
+  patterns: PIIPattern[];
+}
+
+export const PII_PATTERN_PACKS: PIIPatternPack[] = [
+  {
+    id: 'uk',
+    locale: 'en-GB',
+    name: 'United Kingdom',
+    complianceStandards: ['UK-GDPR'],
+    patterns: [
+      {
+        name: 'UK National Insurance Number',
+        pattern: /\b[A-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['UK-GDPR'],
+        enabled: true,
+        validator: validateUKNino,
+        context: { keywords: ['national insurance', 'ni number', 'nino', 'nin', 'hmrc'] },
+        description: 'UK National Insurance number (NINO)',
+      },
+    ],
+  },
+  {
+    id: 'de',
+    locale: 'de-DE',
+    name: 'Germany',
+    complianceStandards: ['GDPR'],
+    patterns: [
+      {
+        name: 'German Tax ID (Steuer-ID)',
+        pattern: /\b\d{2}\s?\d{3}\s?\d{3}\s?\d{3}\b/g,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['GDPR'],
+        enabled: true,
+        validator: validateSteuerId,
+        context: {
+          keywords: ['steuer-id', 'steuerid', 'steuer', 'identifikationsnummer', 'idnr', 'tin', 'tax id'],
+          required: true,
+        },
+        description: 'German tax identification number (11 digits)',
+      },
+    ],
+  },
+  {
+    id: 'fr',
+    locale: 'fr-FR',
+    name: 'France',
+    complianceStandards: ['GDPR'],
+    patterns: [
+      {
+        name: 'French Social Security Number (INSEE)',
+        pattern: /\b[1-378]\s?\d{2}\s?\d{2}\s?(?:\d{2}|2[AB])\s?\d{3}\s?\d{3}\s?\d{2}\b/g,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['GDPR'],
+        enabled: true,
+        validator: validateINSEE,
+        context: { keywords: ['insee', 'nir', 'sécurité sociale', 'securite sociale', 'numéro de sécu', 'carte vitale'] },
+        description: 'French social security number (NIR) with key',
+      },
+    ],
+  },
+  {
+    id: 'in',
+    locale: 'en-IN',
+    name: 'India',
+    complianceStandards: ['DPDP'],
+    patterns: [
+      {
+        name: 'Indian Aadhaar Number',
+        pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['DPDP'],
+        enabled: true,
+        validator: validateAadhaar,
+        context: { keywords: ['aadhaar', 'aadhar', 'uid', 'uidai'] },
+        description: 'Indian Aadhaar number (12 digits, Verhoeff check)',
+      },
+      {
+        name: 'Indian PAN',
+        pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g,
+        severity: ThreatLevel.HIGH,
+        category: 'government',
+        complianceStandards: ['DPDP'],
+        enabled: true,
+        validator: validatePAN,
+        context: { keywords: ['pan', 'permanent account', 'income tax'] },
+        description: 'Indian Permanent Account Number',
+      },
+    ],
+  },
+  {
+    id: 'br',
+    locale: 'pt-BR',
+    name: 'Brazil',
+    complianceStandards: ['LGPD'],
+    patterns: [
+      {
+        name: 'Brazilian CPF',
+        pattern: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['LGPD'],
+        enabled: true,
+        validator: validateCPF,
+        context: { keywords: ['cpf', 'cadastro de pessoas', 'contribuinte'] },
+        description: 'Brazilian individual taxpayer number (CPF)',
+      },
+      {
+        name: 'Brazilian CNPJ',
+        pattern: /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g,
+        severity: ThreatLevel.HIGH,
+        category: 'government',
+        complianceStandards: ['LGPD'],
+        enabled: true,
+        validator: validateCNPJ,
+        context: { keywords: ['cnpj', 'empresa', 'razão social', 'razao social'] },
+        description: 'Brazilian company registration number (CNPJ)',
+      },
+    ],
+  },
+  {
+    id: 'sg',
+    locale: 'en-SG',
+    name: 'Singapore',
+    complianceStandards: ['PDPA'],
+    patterns: [
+      {
+        name: 'Singapore NRIC/FIN',
+        pattern: /\b[STFGM]\d{7}[A-Z]\b/gi,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['PDPA'],
+        enabled: true,
+        validator: validateNRIC,
+        context: { keywords: ['nric', 'fin', 'ic number', 'identity card'] },
+        description: 'Singapore NRIC or foreign identification number',
+      },
+    ],
+  },
+  {
+    id: 'jp',
+    locale: 'ja-JP',
+    name: 'Japan',
+    complianceStandards: ['APPI'],
+    patterns: [
+      {
+        name: 'Japanese My Number',
+        pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g,
+        severity: ThreatLevel.CRITICAL,
+        category: 'government',
+        complianceStandards: ['APPI'],
+        enabled: true,
+        validator: validateMyNumber,
+        context: { keywords: ['my number', 'mynumber', 'マイナンバー', '個人番号', 'individual number'], required: true },
+        description: 'Japanese Individual Number (My Number)',
+      },
+    ],
+  },
+];
+
+export function getPatternPack(id: string): PIIPatternPack | undefined {
+  return PII_PATTERN_PACKS.find((pack) => pack.id === id);
+}
+
+/**
+ * Validated matches of the given packs' patterns, for callers (such as
+ * ComplianceScanner) that only need to know which identifiers are present
+ */
+export function matchPatternPacks(text: string, packIds: string[]): Array<{ pattern: PIIPattern; value: string }> {
+  const matches: Array<{ pattern: PIIPattern; value: string }> = [];
+
+  for (const packId of packIds) {
+    for (const pattern of getPatternPack(packId)?.patterns || []) {
+      for (const match of text.matchAll(pattern.pattern)) {
+        const outcome = pattern.validator ? pattern.validator(match[0]) : true;
+        const valid = typeof outcome === 'boolean' ? outcome : (outcome as ValidationResult).valid;
+        if (valid) {
+          matches.push({ pattern, value: match[0] });
+        }
+      }
+    }
+  }
+
+  return matches;
+}
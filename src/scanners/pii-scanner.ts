@@ -1,11 +1,35 @@
 /**
  * PII (Personally Identifiable Information) detection scanner
- * Enhanced with comprehensive US-based compliance patterns
+ * Enhanced with comprehensive US-based compliance patterns, plus
+ * locale-tagged international packs enabled globally or per tenant
  */
 
 import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding } from '../types/index.js';
 import { BaseScanner } from './base-scanner.js';
 import { textExtractionCache } from '../utils/text-extractor.js';
+import { describeTransformations } from '../utils/text-normalizer.js';
+import {
+  ValidationResult,
+  validateCreditCard,
+  validateIBAN,
+  validateNPI,
+  validateVIN,
+  validateSSN,
+  validateUSPhone,
+  validateRoutingNumber,
+  validateIPv4,
+} from './pii-validators.js';
+import { PII_PATTERN_PACKS, getPatternPack } from './pii-packs.js';
+
+/**
+ * Nearby words that make a match more or less likely to be real PII
+ */
+export interface PatternContext {
+  keywords?: string[]; // Raise confidence
+  negativeKeywords?: string[]; // Lower confidence (e.g. "order", "invoice")
+  window?: number; // Characters searched on each side of the match (default 50)
+  required?: boolean; // Reject matches without a keyword nearby
+}
 
 export interface PIIPattern {
   name: string;
@@ -14,28 +38,59 @@ export interface PIIPattern {
   category: 'financial' | 'identity' | 'contact' | 'health' | 'government' | 'biometric';
   complianceStandards: string[]; // e.g., ['PCI-DSS', 'HIPAA', 'GDPR']
   enabled: boolean;
-  validator?: (match: string) => boolean;
+  validator?: (match: string) => boolean | ValidationResult;
+  context?: PatternContext;
   description?: string;
+  pack?: string; // Pattern pack ID; pack patterns only run when the pack is enabled
+  locale?: string;
 }
 
 export interface PIIScannerConfig {
   enabledCategories?: string[];
   customPatterns?: PIIPattern[];
-  strictMode?: boolean; // Enable full Luhn validation for credit cards
+  strictMode?: boolean; // Reject card numbers that fail Luhn instead of lowering confidence
+  minConfidence?: number; // Matches scored below this are dropped (default 0.5)
+  patternPacks?: string[]; // International packs enabled for every tenant
+  tenantPatternPacks?: Record<string, string[]>; // Per-tenant packs, replacing patternPacks for that tenant
+}
+
+/**
+ * Why a match was accepted or rejected, for the admin pattern tester
+ */
+export interface PIIMatchEvaluation {
+  pattern: string;
+  value: string;
+  index: number;
+  accepted: boolean;
+  confidence: number;
+  reasons: string[];
 }
 
+const CARD_CONTEXT: PatternContext = {
+  keywords: ['card', 'credit', 'debit', 'visa', 'mastercard', 'amex', 'discover', 'payment', 'cc', 'pan'],
+  negativeKeywords: ['order', 'tracking', 'invoice', 'reference', 'ref', 'sku', 'serial'],
+};
+
 export class PIIScanner extends BaseScanner {
   id = 'pii-scanner';
   name = 'PII Detection Scanner';
   private config: PIIScannerConfig;
   private patterns: PIIPattern[] = [];
+  private enabledPacks: Set<string>;
+  private tenantPacks: Map<string, string[]>;
 
   constructor(config: PIIScannerConfig = {}) {
     super();
+    for (const packId of [...(config.patternPacks || []), ...Object.values(config.tenantPatternPacks || {}).flat()]) {
+      this.assertPackExists(packId);
+    }
+    this.enabledPacks = new Set(config.patternPacks || []);
+    this.tenantPacks = new Map(Object.entries(config.tenantPatternPacks || {}));
     this.config = {
       enabledCategories: config.enabledCategories || ['financial', 'identity', 'contact', 'health', 'government', 'biometric'],
       customPatterns: config.customPatterns || [],
       strictMode: config.strictMode ?? false,
+      minConfidence: config.minConfidence ?? 0.5,
     };
     this.initializePatterns();
   }
@@ -50,7 +105,8 @@ export class PIIScanner extends BaseScanner {
         category: 'financial',
         complianceStandards: ['PCI-DSS'],
         enabled: true,
-        validator: this.validateCreditCard.bind(this),
+        validator: (value) => validateCreditCard(value, this.config.strictMode!),
+        context: CARD_CONTEXT,
         description: 'Visa credit card number (starts with 4)',
       },
       {
@@ -60,7 +116,8 @@ export class PIIScanner extends BaseScanner {
         category: 'financial',
         complianceStandards: ['PCI-DSS'],
         enabled: true,
-        validator: this.validateCreditCard.bind(this),
+        validator: (value) => validateCreditCard(value, this.config.strictMode!),
+        context: CARD_CONTEXT,
         description: 'Mastercard credit card number (starts with 51-55)',
       },
       {
@@ -70,7 +127,8 @@ export class PIIScanner extends BaseScanner {
         category: 'financial',
         complianceStandards: ['PCI-DSS'],
         enabled: true,
-        validator: this.validateCreditCard.bind(this),
+        validator: (value) => validateCreditCard(value, this.config.strictMode!),
+        context: CARD_CONTEXT,
         description: 'American Express credit card number (starts with 34 or 37)',
       },
       {
@@ -80,7 +138,8 @@ export class PIIScanner extends BaseScanner {
         category: 'financial',
         complianceStandards: ['PCI-DSS'],
         enabled: true,
-        validator: this.validateCreditCard.bind(this),
+        validator: (value) => validateCreditCard(value, this.config.strictMode!),
+        context: CARD_CONTEXT,
         description: 'Discover credit card number (starts with 6011 or 65)',
       },
       {
@@ -108,7 +167,8 @@ export class PIIScanner extends BaseScanner {
         category: 'financial',
         complianceStandards: ['GLBA', 'SOX'],
         enabled: false, // Too generic, enable with context
-        validator: this.validateRoutingNumber.bind(this),
+        validator: validateRoutingNumber,
+        context: { keywords: ['routing', 'aba', 'rtn', 'bank'], required: true },
         description: 'US bank routing number (9 digits)',
       },
       {
@@ -118,6 +178,8 @@ export class PIIScanner extends BaseScanner {
         category: 'financial',
         complianceStandards: ['GDPR', 'PSD2'],
         enabled: true,
+        validator: validateIBAN,
+        context: { keywords: ['iban', 'account', 'bank', 'transfer', 'wire'] },
         description: 'International Bank Account Number',
       },
       {
@@ -138,7 +200,11 @@ export class PIIScanner extends BaseScanner {
         category: 'identity',
         complianceStandards: ['HIPAA', 'GLBA', 'SOX'],
         enabled: true,
-        validator: this.validateSSN.bind(this),
+        validator: validateSSN,
+        context: {
+          keywords: ['ssn', 'social security', 'social', 'taxpayer'],
+          negativeKeywords: ['order', 'invoice', 'tracking', 'phone', 'tel', 'fax', 'ref'],
+        },
         description: 'US Social Security Number (SSN)',
       },
       {
@@ -195,6 +261,11 @@ export class PIIScanner extends BaseScanner {
         category: 'contact',
         complianceStandards: ['TCPA', 'GDPR', 'CCPA'],
         enabled: true,
+        validator: validateUSPhone,
+        context: {
+          keywords: ['phone', 'call', 'tel', 'telephone', 'mobile', 'cell', 'fax', 'contact', 'text'],
+          negativeKeywords: ['order', 'invoice', 'tracking', 'timestamp', 'id', 'ref', 'account'],
+        },
         description: 'US phone number',
       },
       {
@@ -222,7 +293,7 @@ export class PIIScanner extends BaseScanner {
         category: 'contact',
         complianceStandards: ['GDPR', 'CCPA'],
         enabled: true,
-        validator: this.validateIPAddress.bind(this),
+        validator: validateIPv4,
         description: 'IPv4 address',
       },
       {
@@ -260,7 +331,9 @@ export class PIIScanner extends BaseScanner {
         severity: ThreatLevel.HIGH,
         category: 'health',
         complianceStandards: ['HIPAA'],
-        enabled: false, // Too generic, enable with context
+        enabled: true,
+        validator: validateNPI,
+        context: { keywords: ['npi', 'provider', 'prescriber', 'physician', 'doctor'], required: true },
         description: 'US National Provider Identifier (10 digits)',
       },
       {
@@ -290,6 +363,8 @@ export class PIIScanner extends BaseScanner {
         category: 'government',
         complianceStandards: ['DPPA'],
         enabled: true,
+        validator: validateVIN,
+        context: { keywords: ['vin', 'vehicle', 'chassis', 'car', 'auto'] },
         description: 'Vehicle Identification Number',
       },
 
@@ -305,6 +380,11 @@ export class PIIScanner extends BaseScanner {
       },
     ];
 
+    // Pack patterns are copied so self-service edits do not leak between scanners
+    for (const pack of PII_PATTERN_PACKS) {
+      allPatterns.push(...pack.patterns.map(p => ({ ...p, pack: pack.id, locale: pack.locale })));
+    }
+
     // Filter patterns based on enabled categories and custom patterns
     this.patterns = [
       ...allPatterns.filter(p =>
@@ -414,24 +494,84 @@ export class PIIScanner extends BaseScanner {
     this.initializePatterns();
   }
 
+  /**
+   * International packs with their enabled state for all tenants
+   */
+  public getPatternPacks(): Array<{ id: string; locale: string; name: string; complianceStandards: string[]; patternCount: number; enabled: boolean }> {
+    return PII_PATTERN_PACKS.map(pack => ({
+      id: pack.id,
+      locale: pack.locale,
+      name: pack.name,
+      complianceStandards: pack.complianceStandards,
+      patternCount: pack.patterns.length,
+      enabled: this.enabledPacks.has(pack.id),
+    }));
+  }
+
+  public enablePatternPack(packId: string): void {
+    this.assertPackExists(packId);
+    this.enabledPacks.add(packId);
+  }
+
+  public disablePatternPack(packId: string): void {
+    this.enabledPacks.delete(packId);
+  }
+
+  /**
+   * Give a tenant its own set of packs; undefined falls back to the global set
+   */
+  public setTenantPatternPacks(tenantId: string, packIds: string[] | undefined): void {
+    if (packIds) {
+      packIds.forEach(packId => this.assertPackExists(packId));
+      this.tenantPacks.set(tenantId, [...packIds]);
+    } else {
+      this.tenantPacks.delete(tenantId);
+    }
+  }
+
+  public getTenantPatternPacks(tenantId: string): string[] | undefined {
+    return this.tenantPacks.get(tenantId);
+  }
+
+  /**
+   * Every match of the given (or all enabled) patterns in the text, with
+   * the validation and context reasons for accepting or rejecting it
+   */
+  public explainMatches(text: string, patternNames?: string[]): PIIMatchEvaluation[] {
+    const evaluations: PIIMatchEvaluation[] = [];
+    const patterns = patternNames
+      ? this.patterns.filter(p => patternNames.includes(p.name))
+      : this.patterns.filter(p => this.isActive(p));
+
+    for (const pattern of patterns) {
+      for (const match of text.matchAll(pattern.pattern)) {
+        evaluations.push(this.evaluateMatch(pattern, match[0], text, match.index!));
+      }
+    }
+
+    return evaluations;
+  }
+
   async scan(request: UnifiedAIRequest): Promise<ScanResult> {
     const startTime = Date.now();
     const findings: Finding[] = [];
 
     // Extract all text content from messages
     const textContent = this.extractTextContent(request);
+    const tenantId = request.metadata.tenantId;
 
     // Scan for each PII pattern
     for (const pattern of this.patterns) {
-      if (!pattern.enabled) continue;
+      if (!this.isActive(pattern, tenantId)) continue;
 
       const matches = textContent.matchAll(pattern.pattern);
 
       for (const match of matches) {
         const value = match[0];
 
-        // Apply validator if present
-        if (pattern.validator && !pattern.validator(value)) {
+        // Validators and nearby keywords decide whether the match is real PII
+        const evaluation = this.evaluateMatch(pattern, value, textContent, match.index!);
+        if (!evaluation.accepted) {
           continue;
         }
 
@@ -441,16 +581,21 @@ export class PIIScanner extends BaseScanner {
           message: `Detected ${pattern.name}: ${this.maskValue(value)}`,
           evidence: this.maskValue(value),
           remediation: `Remove or redact ${pattern.name} from the request`,
-          confidence: 0.9,
+          confidence: evaluation.confidence,
           metadata: {
             category: pattern.category,
             complianceStandards: pattern.complianceStandards,
             description: pattern.description,
+            validation: evaluation.reasons,
+            ...(pattern.locale ? { locale: pattern.locale } : {}),
           },
         });
       }
     }
 
+    // PII hidden by encoding or obfuscation only shows up in decoded variants
+    findings.push(...this.scanDecodedVariants(request, textContent));
+
     const executionTimeMs = Date.now() - startTime;
     const passed = findings.length === 0;
     const threatLevel = this.calculateThreatLevel(findings);
@@ -465,6 +610,125 @@ export class PIIScanner extends BaseScanner {
     return extracted.fullText;
   }
 
+  private scanDecodedVariants(request: UnifiedAIRequest, textContent: string): Finding[] {
+    const findings: Finding[] = [];
+    const reported = new Set<string>();
+
+    for (const variant of textExtractionCache.get(request).decodedVariants) {
+      for (const pattern of this.patterns) {
+        if (!this.isActive(pattern, request.metadata.tenantId)) continue;
+
+        for (const match of variant.text.matchAll(pattern.pattern)) {
+          const value = match[0];
+          const key = `${pattern.name}:${value}`;
+
+          // Already reported from the plain text
+          if (textContent.includes(value) || reported.has(key)) continue;
+          const evaluation = this.evaluateMatch(pattern, value, variant.text, match.index!);
+          if (!evaluation.accepted) continue;
+          reported.add(key);
+
+          findings.push({
+            type: pattern.name,
+            severity: pattern.severity,
+            message: `Detected ${pattern.name} revealed by ${describeTransformations(variant.transformations)}: ${this.maskValue(value)}`,
+            evidence: this.maskValue(value),
+            remediation: `Remove or redact ${pattern.name} from the request`,
+            confidence: evaluation.confidence,
+            metadata: {
+              category: pattern.category,
+              complianceStandards: pattern.complianceStandards,
+              description: pattern.description,
+              validation: evaluation.reasons,
+              transformations: variant.transformations,
+            },
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private isActive(pattern: PIIPattern, tenantId?: string): boolean {
+    if (!pattern.enabled) return false;
+    if (!pattern.pack) return true;
+
+    const tenantPacks = tenantId ? this.tenantPacks.get(tenantId) : undefined;
+    return tenantPacks ? tenantPacks.includes(pattern.pack) : this.enabledPacks.has(pattern.pack);
+  }
+
+  private assertPackExists(packId: string): void {
+    if (!getPatternPack(packId)) {
+      throw new Error(`Unknown PII pattern pack "${packId}"`);
+    }
+  }
+
+  /**
+   * Confidence starts at 0.7 for a bare regex match, 0.8 when a validator
+   * accepts it, 0.9 with a verified check digit and 0.5 with a failed one
+   * that was still accepted; nearby keywords add 0.1 and negative keywords
+   * subtract 0.3.
+   */
+  private evaluateMatch(pattern: PIIPattern, value: string, text: string, index: number): PIIMatchEvaluation {
+    const reasons: string[] = [];
+    const reject = (reason: string): PIIMatchEvaluation => ({
+      pattern: pattern.name,
+      value,
+      index,
+      accepted: false,
+      confidence: 0,
+      reasons: [...reasons, reason],
+    });
+
+    let confidence = 0.7;
+
+    if (pattern.validator) {
+      const outcome = pattern.validator(value);
+      const result: ValidationResult = typeof outcome === 'boolean'
+        ? { valid: outcome, reason: outcome ? 'Accepted by validator' : 'Rejected by validator' }
+        : outcome;
+
+      if (!result.valid) return reject(result.reason);
+      reasons.push(result.reason);
+      confidence = result.checksum === true ? 0.9 : result.checksum === false ? 0.5 : 0.8;
+    }
+
+    if (pattern.context) {
+      const window = pattern.context.window ?? 50;
+      const surrounding = text
+        .slice(Math.max(0, index - window), index + value.length + window)
+        .toLowerCase();
+      const keyword = this.findKeyword(surrounding, pattern.context.keywords);
+      const negative = this.findKeyword(surrounding, pattern.context.negativeKeywords);
+
+      if (keyword) {
+        confidence += 0.1;
+        reasons.push(`Keyword "${keyword}" nearby`);
+      } else if (pattern.context.required) {
+        return reject('No context keyword nearby');
+      }
+
+      if (negative) {
+        confidence -= 0.3;
+        reasons.push(`Negative keyword "${negative}" nearby`);
+      }
+    }
+
+    confidence = Math.round(Math.min(Math.max(confidence, 0.05), 0.99) * 100) / 100;
+    if (confidence < this.config.minConfidence!) {
+      return reject(`Confidence ${confidence} below minimum ${this.config.minConfidence}`);
+    }
+
+    return { pattern: pattern.name, value, index, accepted: true, confidence, reasons };
+  }
+
+  private findKeyword(text: string, keywords?: string[]): string | undefined {
+    return keywords?.find((keyword) =>
+      new RegExp(`(?:^|[^a-z0-9])${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:[^a-z0-9]|$)`).test(text)
+    );
+  }
+
   private maskValue(value: string): string {
     if (value.length <= 4) {
       return '*'.repeat(value.length);
@@ -508,95 +772,4 @@ export class PIIScanner extends BaseScanner {
 
     return Math.min(totalScore / findings.length, 1.0);
   }
-
-  /**
-   * Validate credit card using Luhn algorithm
-   */
-  private validateCreditCard(cardNumber: string): boolean {
-    const digits = cardNumber.replace(/\D/g, '');
-
-    // Must be 13-19 digits
-    if (digits.length < 13 || digits.length > 19) return false;
-
-    // If strict mode is disabled, accept any valid-looking card number
-    if (!this.config.strictMode) {
-      return true;
-    }
-
-    // Full Luhn algorithm validation (strict mode)
-    let sum = 0;
-    let isEven = false;
-
-    for (let i = digits.length - 1; i >= 0; i--) {
-      let digit = parseInt(digits[i], 10);
-
-      if (isEven) {
-        digit *= 2;
-        if (digit > 9) {
-          digit -= 9;
-        }
-      }
-
-      sum += digit;
-      isEven = !isEven;
-    }
-
-    return sum % 10 === 0;
-  }
-
-  /**
-   * Validate US Social Security Number
-   */
-  private validateSSN(ssn: string): boolean {
-    const digits = ssn.replace(/\D/g, '');
-
-    if (digits.length !== 9) return false;
-
-    // Invalid SSN patterns
-    const area = parseInt(digits.substring(0, 3), 10);
-    const group = parseInt(digits.substring(3, 5), 10);
-    const serial = parseInt(digits.substring(5, 9), 10);
-
-    // Area number cannot be 000, 666, or 900-999
-    if (area === 0 || area === 666 || area >= 900) return false;
-
-    // Group number cannot be 00
-    if (group === 0) return false;
-
-    // Serial number cannot be 0000
-    if (serial === 0) return false;
-
-    return true;
-  }
-
-  /**
-   * Validate US bank routing number using checksum
-   */
-  private validateRoutingNumber(routing: string): boolean {
-    const digits = routing.replace(/\D/g, '');
-
-    if (digits.length !== 9) return false;
-
-    // Routing number checksum algorithm
-    const checksum =
-      (3 * (parseInt(digits[0]) + parseInt(digits[3]) + parseInt(digits[6]))) +
-      (7 * (parseInt(digits[1]) + parseInt(digits[4]) + parseInt(digits[7]))) +
-      (1 * (parseInt(digits[2]) + parseInt(digits[5]) + parseInt(digits[8])));
-
-    return checksum % 10 === 0;
-  }
-
-  /**
-   * Validate IPv4 address
-   */
-  private validateIPAddress(ip: string): boolean {
-    const parts = ip.split('.');
-    if (parts.length !== 4) return false;
-
-    return parts.every((part) => {
-      const num = parseInt(part, 10);
-      return num >= 0 && num <= 255;
-    });
-  }
 }
-
@@ -0,0 +1,459 @@
+/**
+ * Checksum and structure validators for PII patterns
+ *
+ * Each validator explains its decision so the admin pattern tester can show
+ * why a match was accepted or rejected. `checksum` is set when a check digit
+ * was verified (true) or failed without rejecting the match (false).
+ */
+
+export interface ValidationResult {
+  valid: boolean;
+  reason: string;
+  checksum?: boolean;
+}
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Luhn (mod 10) check over a digit string
+ */
+export function luhnChecksum(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Payment card: 13-19 digits and Luhn. Outside strict mode a failed Luhn
+ * check only lowers confidence.
+ */
+export function validateCreditCard(value: string, strict: boolean): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length < 13 || digits.length > 19) {
+    return { valid: false, reason: `Card numbers have 13-19 digits, found ${digits.length}` };
+  }
+  if (luhnChecksum(digits)) {
+    return { valid: true, reason: 'Passes Luhn checksum', checksum: true };
+  }
+  return strict
+    ? { valid: false, reason: 'Fails Luhn checksum' }
+    : { valid: true, reason: 'Fails Luhn checksum (accepted outside strict mode)', checksum: false };
+}
+
+// ISO 13616 IBAN lengths by country
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CR: 22, CY: 28,
+  CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23,
+  GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28,
+  LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15,
+  PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SE: 24, SI: 19, SK: 24, SM: 27, TN: 24,
+  TR: 26, UA: 29, VG: 24, XK: 20,
+};
+
+/**
+ * IBAN: known country, country-specific length and ISO 7064 mod-97 check
+ */
+export function validateIBAN(value: string): ValidationResult {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  const country = iban.slice(0, 2);
+  const expectedLength = IBAN_LENGTHS[country];
+
+  if (!expectedLength) {
+    return { valid: false, reason: `Unknown IBAN country code ${country}` };
+  }
+  if (iban.length !== expectedLength) {
+    return { valid: false, reason: `${country} IBANs have ${expectedLength} characters, found ${iban.length}` };
+  }
+
+  // Move the first four characters to the end and map letters to 10-35
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1
+    ? { valid: true, reason: 'Passes IBAN mod-97 check', checksum: true }
+    : { valid: false, reason: 'Fails IBAN mod-97 check' };
+}
+
+/**
+ * NPI: 10 digits starting with 1 or 2; Luhn over the number prefixed with
+ * the 80840 health industry identifier
+ */
+export function validateNPI(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 10) {
+    return { valid: false, reason: 'NPIs have 10 digits' };
+  }
+  if (digits[0] !== '1' && digits[0] !== '2') {
+    return { valid: false, reason: 'NPIs start with 1 or 2' };
+  }
+
+  return luhnChecksum(`80840${digits}`)
+    ? { valid: true, reason: 'Passes NPI check digit', checksum: true }
+    : { valid: false, reason: 'Fails NPI check digit' };
+}
+
+const VIN_TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8, J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * VIN: 17 characters without I, O or Q, letters and digits mixed, and the
+ * North American check digit in position 9
+ */
+export function validateVIN(value: string): ValidationResult {
+  const vin = value.toUpperCase();
+
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(vin)) {
+    return { valid: false, reason: 'VINs have 17 characters excluding I, O and Q' };
+  }
+  if (!/[A-Z]/.test(vin) || !/[0-9]/.test(vin)) {
+    return { valid: false, reason: 'VINs mix letters and digits' };
+  }
+
+  const sum = Array.from(vin).reduce(
+    (total, char, i) => total + (/\d/.test(char) ? Number(char) : VIN_TRANSLITERATION[char]) * VIN_WEIGHTS[i],
+    0
+  );
+  const remainder = sum % 11;
+  const expected = remainder === 10 ? 'X' : String(remainder);
+
+  return vin[8] === expected
+    ? { valid: true, reason: 'Passes VIN check digit', checksum: true }
+    : { valid: false, reason: `Fails VIN check digit (expected ${expected} in position 9)` };
+}
+
+// Numbers the SSA has voided after public misuse
+const VOIDED_SSNS = new Set(['078051120', '219099999']);
+
+/**
+ * SSN area, group and serial rules
+ */
+export function validateSSN(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 9) {
+    return { valid: false, reason: 'SSNs have 9 digits' };
+  }
+
+  const area = Number(digits.slice(0, 3));
+  if (area === 0 || area === 666 || area >= 900) {
+    return { valid: false, reason: `Area number ${digits.slice(0, 3)} is never assigned` };
+  }
+  if (digits.slice(3, 5) === '00') {
+    return { valid: false, reason: 'Group number 00 is never assigned' };
+  }
+  if (digits.slice(5) === '0000') {
+    return { valid: false, reason: 'Serial number 0000 is never assigned' };
+  }
+  if (VOIDED_SSNS.has(digits)) {
+    return { valid: false, reason: 'Publicly voided SSN' };
+  }
+
+  return { valid: true, reason: 'Valid SSN area, group and serial' };
+}
+
+/**
+ * US phone: NANP area codes start with 2-9, which rules out most
+ * timestamps and order numbers
+ */
+export function validateUSPhone(value: string): ValidationResult {
+  let digits = digitsOf(value);
+  if (digits.length === 11 && digits.startsWith('1')) {
+    digits = digits.slice(1);
+  }
+
+  if (digits.length !== 10) {
+    return { valid: false, reason: 'US phone numbers have 10 digits' };
+  }
+  if (digits[0] === '0' || digits[0] === '1') {
+    return { valid: false, reason: `Area code ${digits.slice(0, 3)} cannot start with 0 or 1` };
+  }
+  if (/^(\d)\1{9}$/.test(digits)) {
+    return { valid: false, reason: 'Repeated digit' };
+  }
+
+  return { valid: true, reason: 'Valid NANP area code' };
+}
+
+/**
+ * ABA routing number checksum (weights 3, 7, 1)
+ */
+export function validateRoutingNumber(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 9) {
+    return { valid: false, reason: 'Routing numbers have 9 digits' };
+  }
+
+  const d = Array.from(digits, Number);
+  const checksum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+
+  return checksum % 10 === 0
+    ? { valid: true, reason: 'Passes ABA routing checksum', checksum: true }
+    : { valid: false, reason: 'Fails ABA routing checksum' };
+}
+
+/**
+ * IPv4 octets in range
+ */
+export function validateIPv4(value: string): ValidationResult {
+  const parts = value.split('.');
+  const valid = parts.length === 4 && parts.every((part) => Number(part) >= 0 && Number(part) <= 255);
+
+  return valid ? { valid: true, reason: 'Valid IPv4 octets' } : { valid: false, reason: 'Octet out of range' };
+}
+
+// ============ INTERNATIONAL IDENTIFIERS ============
+
+const UK_NINO_INVALID_PREFIXES = new Set(['BG', 'GB', 'KN', 'NK', 'NT', 'TN', 'ZZ']);
+
+/**
+ * UK National Insurance number: HMRC prefix letter rules (no check digit)
+ */
+export function validateUKNino(value: string): ValidationResult {
+  const nino = value.replace(/\s/g, '').toUpperCase();
+
+  if (!/^[A-Z]{2}\d{6}[A-D]$/.test(nino)) {
+    return { valid: false, reason: 'NI numbers are two letters, six digits and A-D' };
+  }
+  if (/[DFIQUV]/.test(nino[0]) || /[DFIOQUV]/.test(nino[1])) {
+    return { valid: false, reason: `Prefix ${nino.slice(0, 2)} uses letters HMRC never issues` };
+  }
+  if (UK_NINO_INVALID_PREFIXES.has(nino.slice(0, 2))) {
+    return { valid: false, reason: `Prefix ${nino.slice(0, 2)} is never allocated` };
+  }
+
+  return { valid: true, reason: 'Valid NI number prefix' };
+}
+
+/**
+ * German tax ID (Steuer-ID): one digit repeated two or three times in the
+ * first ten, and the ISO 7064 MOD 11,10 check digit
+ */
+export function validateSteuerId(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 11 || digits[0] === '0') {
+    return { valid: false, reason: 'Steuer-IDs have 11 digits and do not start with 0' };
+  }
+
+  const counts = new Map<string, number>();
+  for (const digit of digits.slice(0, 10)) {
+    counts.set(digit, (counts.get(digit) || 0) + 1);
+  }
+  const repeated = [...counts.values()].filter((count) => count > 1);
+  if (repeated.length !== 1 || repeated[0] > 3) {
+    return { valid: false, reason: 'Exactly one digit must repeat in the first ten' };
+  }
+
+  let product = 10;
+  for (const digit of digits.slice(0, 10)) {
+    let sum = (Number(digit) + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  const check = (11 - product) % 10;
+
+  return Number(digits[10]) === check
+    ? { valid: true, reason: 'Passes Steuer-ID check digit', checksum: true }
+    : { valid: false, reason: 'Fails Steuer-ID check digit' };
+}
+
+/**
+ * French social security number (INSEE/NIR): key = 97 - (number mod 97),
+ * with Corsican departments 2A and 2B counted as 19 and 18
+ */
+export function validateINSEE(value: string): ValidationResult {
+  const nir = value.replace(/\s/g, '').toUpperCase();
+
+  if (!/^[1-378]\d{4}(\d{2}|2A|2B)\d{8}$/.test(nir)) {
+    return { valid: false, reason: 'INSEE numbers have 13 characters and a 2-digit key' };
+  }
+
+  const body = nir.slice(0, 13).replace('2A', '19').replace('2B', '18');
+  let remainder = 0;
+  for (const digit of body) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+
+  return 97 - remainder === Number(nir.slice(13))
+    ? { valid: true, reason: 'Passes INSEE key', checksum: true }
+    : { valid: false, reason: 'Fails INSEE key' };
+}
+
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff check over a digit string (used by Aadhaar)
+ */
+export function verhoeffChecksum(digits: string): boolean {
+  let check = 0;
+  Array.from(digits).reverse().forEach((digit, i) => {
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[i % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+/**
+ * Indian Aadhaar: 12 digits, not starting with 0 or 1, Verhoeff check digit
+ */
+export function validateAadhaar(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 12 || digits[0] === '0' || digits[0] === '1') {
+    return { valid: false, reason: 'Aadhaar numbers have 12 digits starting with 2-9' };
+  }
+
+  return verhoeffChecksum(digits)
+    ? { valid: true, reason: 'Passes Aadhaar Verhoeff check', checksum: true }
+    : { valid: false, reason: 'Fails Aadhaar Verhoeff check' };
+}
+
+/**
+ * Indian PAN: AAAPA9999A where the fourth letter is the holder type
+ */
+export function validatePAN(value: string): ValidationResult {
+  const pan = value.toUpperCase();
+
+  if (!/^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(pan)) {
+    return { valid: false, reason: 'PANs are five letters (fourth is the holder type), four digits and a letter' };
+  }
+
+  return { valid: true, reason: `Valid PAN structure (holder type ${pan[3]})` };
+}
+
+/**
+ * Brazilian CPF: two mod-11 check digits
+ */
+export function validateCPF(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) {
+    return { valid: false, reason: 'CPFs have 11 digits that are not all the same' };
+  }
+
+  const checkDigit = (length: number): number => {
+    const sum = Array.from(digits.slice(0, length)).reduce((total, d, i) => total + Number(d) * (length + 1 - i), 0);
+    return ((sum * 10) % 11) % 10;
+  };
+
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10])
+    ? { valid: true, reason: 'Passes CPF check digits', checksum: true }
+    : { valid: false, reason: 'Fails CPF check digits' };
+}
+
+const CNPJ_WEIGHTS = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Brazilian CNPJ: two mod-11 check digits
+ */
+export function validateCNPJ(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 14 || /^(\d)\1{13}$/.test(digits)) {
+    return { valid: false, reason: 'CNPJs have 14 digits that are not all the same' };
+  }
+
+  const checkDigit = (length: number): number => {
+    const weights = CNPJ_WEIGHTS.slice(CNPJ_WEIGHTS.length - length);
+    const remainder = Array.from(digits.slice(0, length)).reduce((total, d, i) => total + Number(d) * weights[i], 0) % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+  };
+
+  return checkDigit(12) === Number(digits[12]) && checkDigit(13) === Number(digits[13])
+    ? { valid: true, reason: 'Passes CNPJ check digits', checksum: true }
+    : { valid: false, reason: 'Fails CNPJ check digits' };
+}
+
+const NRIC_WEIGHTS = [2, 7, 6, 5, 4, 3, 2];
+const NRIC_LETTERS: Record<string, { offset: number; letters: string }> = {
+  S: { offset: 0, letters: 'JZIHGFEDCBA' },
+  T: { offset: 4, letters: 'JZIHGFEDCBA' },
+  F: { offset: 0, letters: 'XWUTRQPNMLK' },
+  G: { offset: 4, letters: 'XWUTRQPNMLK' },
+  M: { offset: 3, letters: 'XWUTRQPNJLK' },
+};
+
+/**
+ * Singapore NRIC/FIN: prefix letter, seven digits and a check letter
+ */
+export function validateNRIC(value: string): ValidationResult {
+  const nric = value.toUpperCase();
+  const series = NRIC_LETTERS[nric[0]];
+
+  if (!series || !/^[A-Z]\d{7}[A-Z]$/.test(nric)) {
+    return { valid: false, reason: 'NRIC/FIN numbers are S, T, F, G or M, seven digits and a letter' };
+  }
+
+  const sum = NRIC_WEIGHTS.reduce((total, weight, i) => total + weight * Number(nric[i + 1]), series.offset);
+  const expected = series.letters[sum % 11];
+
+  return nric[8] === expected
+    ? { valid: true, reason: 'Passes NRIC check letter', checksum: true }
+    : { valid: false, reason: `Fails NRIC check letter (expected ${expected})` };
+}
+
+/**
+ * Japanese My Number (Individual Number): 12 digits with a mod-11 check digit
+ */
+export function validateMyNumber(value: string): ValidationResult {
+  const digits = digitsOf(value);
+
+  if (digits.length !== 12) {
+    return { valid: false, reason: 'My Numbers have 12 digits' };
+  }
+
+  // P(n) counts from the digit just before the check digit; Q(n) = n+1 up to 6, then n-5
+  let sum = 0;
+  for (let n = 1; n <= 11; n++) {
+    sum += Number(digits[11 - n]) * (n <= 6 ? n + 1 : n - 5);
+  }
+  const remainder = sum % 11;
+  const check = remainder <= 1 ? 0 : 11 - remainder;
+
+  return Number(digits[11]) === check
+    ? { valid: true, reason: 'Passes My Number check digit', checksum: true }
+    : { valid: false, reason: 'Fails My Number check digit' };
+}
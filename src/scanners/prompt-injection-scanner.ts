@@ -1,9 +1,21 @@
 /**
  * Prompt injection detection scanner
+ *
+ * User messages are checked for direct injection. Tool and function results,
+ * earlier assistant turns and document parts are untrusted data: they are
+ * checked for indirect injection, i.e. instructions embedded in content the
+ * model reads, including text hidden with zero-width or Unicode tag
+ * characters, HTML/markdown comments and invisible HTML elements.
+ * Every message is also checked after undoing obfuscation (encodings,
+ * homoglyphs, leetspeak, spaced letters); such findings name the
+ * transformation that revealed them.
+ * Findings are attributed to the message they were found in.
  */
 
-import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding } from '../types/index.js';
+import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding, Message } from '../types/index.js';
 import { BaseScanner } from './base-scanner.js';
+import { DecodedVariant, describeTransformations } from '../utils/text-normalizer.js';
+import { textExtractionCache } from '../utils/text-extractor.js';
 
 interface InjectionPattern {
   name: string;
@@ -12,9 +24,54 @@ interface InjectionPattern {
   description: string;
 }
 
+export interface PromptInjectionScannerConfig {
+  scanUntrustedContent?: boolean; // Check tool results, assistant turns and documents (default true)
+  untrustedRoles?: Message['role'][]; // Roles treated as untrusted data (default assistant, tool, function)
+}
+
+type ContentSource = 'user' | 'assistant' | 'tool' | 'document';
+
+interface ContentSegment {
+  text: string;
+  path: string;
+  source: ContentSource;
+}
+
+interface RevealedText {
+  text: string; // Zero-width characters removed, tag characters decoded
+  hiddenCharCount: number;
+  hiddenBlocks: string[]; // Comments, invisible elements and tag-character runs
+}
+
+const SOURCE_LABELS: Record<ContentSource, string> = {
+  user: 'user message',
+  assistant: 'assistant message',
+  tool: 'tool output',
+  document: 'document content',
+};
+
+// Zero-width space/joiners, word joiner, BOM
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+// Unicode tag block, used to smuggle invisible ASCII
+const TAG_CHARACTERS = /[\u{E0000}-\u{E007F}]+/gu;
+const HIDDEN_BLOCKS: RegExp[] = [
+  /<!--([\s\S]*?)-->/g,
+  /^\s*\[\/\/\]:\s*#\s*[("](.*)[)"]\s*$/gm,
+  /<(\w+)[^>]*style\s*=\s*["'][^"']*(?:display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0)[^"']*["'][^>]*>([\s\S]*?)<\/\1>/gi,
+];
+
 export class PromptInjectionScanner extends BaseScanner {
   id = 'prompt-injection-scanner';
   name = 'Prompt Injection Detection Scanner';
+  private config: Required<PromptInjectionScannerConfig>;
+
+  constructor(config: PromptInjectionScannerConfig = {}) {
+    super();
+    this.config = {
+      scanUntrustedContent: config.scanUntrustedContent ?? true,
+      untrustedRoles: config.untrustedRoles || ['assistant', 'tool', 'function'],
+    };
+  }
 
   private injectionPatterns: InjectionPattern[] = [
     {
@@ -95,24 +152,118 @@ export class PromptInjectionScanner extends BaseScanner {
     },
   ];
 
+  // Only checked in untrusted content, where instructions should never appear
+  private indirectPatterns: InjectionPattern[] = [
+    {
+      name: 'Embedded Instruction',
+      patterns: [
+        /\b(?:ai|assistant|chatbot|language\s+model|llm|agent)s?\s*[,:]\s*(?:please\s+)?(?:you\s+must|you\s+should|ignore|disregard|do\s+not|instead)\b/gi,
+        /\bwhen\s+(?:you|the\s+(?:ai|assistant|model|agent))\s+(?:read|see|process|summari[sz]e|encounter)s?\s+this\b/gi,
+        /\b(?:important|attention|note)\s+(?:to|for)\s+(?:the\s+)?(?:ai|assistant|model|agent)\b/gi,
+        /\bdo\s+not\s+(?:tell|inform|mention\s+(?:this\s+)?to)\s+the\s+user\b/gi,
+      ],
+      severity: ThreatLevel.HIGH,
+      description: 'Instructions addressed to the model',
+    },
+    {
+      name: 'Tool Invocation Coercion',
+      patterns: [
+        /\b(?:now|immediately|you\s+must|please)\s+(?:call|invoke|execute|run|use)\s+the\s+[\w.-]+\s+(?:tool|function|plugin)\b/gi,
+      ],
+      severity: ThreatLevel.HIGH,
+      description: 'Attempt to trigger tool calls',
+    },
+    {
+      name: 'Data Exfiltration Instruction',
+      patterns: [
+        /\b(?:send|forward|email|post|upload|exfiltrate)\b[^.\n]{0,80}?\b(?:to|at)\s+(?:https?:\/\/\S+|[\w.+-]+@[\w-]+\.[\w.]+)/gi,
+        /!\[[^\]]*\]\(https?:\/\/[^)\s]+\?[^)\s]*=[^)\s]*\)/gi,
+      ],
+      severity: ThreatLevel.HIGH,
+      description: 'Instruction to send data to an external destination',
+    },
+  ];
+
   async scan(request: UnifiedAIRequest): Promise<ScanResult> {
     const startTime = Date.now();
     const findings: Finding[] = [];
+    const segments = this.extractSegments(request.messages);
+    const decodedVariants = textExtractionCache.get(request).decodedVariants;
+
+    for (const segment of segments) {
+      const variants = decodedVariants.filter((variant) => variant.path === segment.path);
+      if (segment.source === 'user') {
+        findings.push(...this.scanDirect(segment, variants));
+      } else if (this.config.scanUntrustedContent) {
+        findings.push(...this.scanUntrusted(segment, variants));
+      }
+    }
 
-    // Extract text content from user messages only
-    const userMessages = request.messages.filter((m) => m.role === 'user');
-    const textContent = this.extractTextContent(userMessages);
+    // Check for anomalous patterns
+    const userText = segments
+      .filter((s) => s.source === 'user')
+      .map((s) => s.text)
+      .join('\n');
+    const anomalyFindings = this.detectAnomalies(userText);
+    findings.push(...anomalyFindings);
+
+    const executionTimeMs = Date.now() - startTime;
+    const passed = findings.length === 0;
+    const threatLevel = this.calculateThreatLevel(findings);
+    const score = this.calculateScore(findings);
+
+    return this.createResult(passed, threatLevel, score, findings, executionTimeMs);
+  }
+
+  /**
+   * Text of every message part with its location and trust level.
+   * System messages are operator-authored and not scanned.
+   */
+  private extractSegments(messages: UnifiedAIRequest['messages']): ContentSegment[] {
+    const segments: ContentSegment[] = [];
+
+    messages.forEach((message, index) => {
+      let source: ContentSource;
+      if (message.role === 'user') {
+        source = 'user';
+      } else if (this.config.untrustedRoles.includes(message.role)) {
+        source = message.role === 'assistant' ? 'assistant' : 'tool';
+      } else {
+        return;
+      }
+
+      if (typeof message.content === 'string') {
+        segments.push({ text: message.content, path: `request.messages[${index}]`, source });
+      } else if (Array.isArray(message.content)) {
+        message.content.forEach((part, partIndex) => {
+          if (!part.text) return;
+          if (part.type === 'text' || part.type === 'document') {
+            segments.push({
+              text: part.text,
+              path: `request.messages[${index}].content[${partIndex}]`,
+              // Retrieved documents are untrusted regardless of who sent them
+              source: part.type === 'document' ? 'document' : source,
+            });
+          }
+        });
+      }
+    });
+
+    return segments;
+  }
+
+  private scanDirect(segment: ContentSegment, variants: DecodedVariant[]): Finding[] {
+    const findings: Finding[] = [];
 
     // Check for injection patterns
     for (const injectionPattern of this.injectionPatterns) {
       for (const pattern of injectionPattern.patterns) {
-        const matches = textContent.matchAll(pattern);
-
-        for (const match of matches) {
+        for (const match of segment.text.matchAll(pattern)) {
           findings.push({
             type: injectionPattern.name,
             severity: injectionPattern.severity,
             message: `Potential prompt injection detected: ${injectionPattern.description}`,
+            location: { path: segment.path, offset: match.index },
             evidence: this.truncateEvidence(match[0]),
             remediation: 'Review and sanitize user input before processing',
             confidence: this.calculateConfidence(match[0], injectionPattern),
@@ -121,34 +272,152 @@ export class PromptInjectionScanner extends BaseScanner {
       }
     }
 
-    // Check for anomalous patterns
-    const anomalyFindings = this.detectAnomalies(textContent);
-    findings.push(...anomalyFindings);
+    findings.push(...this.scanDecodedVariants(segment, variants, this.injectionPatterns, segment.text));
 
-    const executionTimeMs = Date.now() - startTime;
-    const passed = findings.length === 0;
-    const threatLevel = this.calculateThreatLevel(findings);
-    const score = this.calculateScore(findings);
-
-    return this.createResult(passed, threatLevel, score, findings, executionTimeMs);
+    return findings;
   }
 
-  private extractTextContent(messages: UnifiedAIRequest['messages']): string {
-    const texts: string[] = [];
+  /**
+   * Indirect injection: instructions embedded in content the model treats as data
+   */
+  private scanUntrusted(segment: ContentSegment, variants: DecodedVariant[]): Finding[] {
+    const findings: Finding[] = [];
+    const label = SOURCE_LABELS[segment.source];
+    const revealed = this.revealHiddenText(segment.text);
+    const metadata = { indirect: true, source: segment.source };
 
-    for (const message of messages) {
-      if (typeof message.content === 'string') {
-        texts.push(message.content);
-      } else if (Array.isArray(message.content)) {
-        for (const part of message.content) {
-          if (part.type === 'text' && part.text) {
-            texts.push(part.text);
+    if (revealed.hiddenCharCount > 0) {
+      findings.push({
+        type: 'Hidden Characters',
+        severity: ThreatLevel.MEDIUM,
+        message: `Invisible characters found in ${label}`,
+        location: { path: segment.path },
+        evidence: `${revealed.hiddenCharCount} zero-width or tag characters`,
+        remediation: 'Strip invisible characters from untrusted content before forwarding',
+        confidence: 0.7,
+        metadata,
+      });
+    }
+
+    for (const injectionPattern of [...this.injectionPatterns, ...this.indirectPatterns]) {
+      for (const pattern of injectionPattern.patterns) {
+        for (const match of revealed.text.matchAll(pattern)) {
+          findings.push({
+            type: injectionPattern.name,
+            severity: injectionPattern.severity,
+            message: `Potential indirect prompt injection in ${label}: ${injectionPattern.description}`,
+            // Offsets are only meaningful when nothing was stripped
+            location: {
+              path: segment.path,
+              offset: revealed.text === segment.text ? match.index : undefined,
+            },
+            evidence: this.truncateEvidence(match[0]),
+            remediation: 'Treat tool and retrieved content as data; remove embedded instructions before forwarding',
+            confidence: this.calculateConfidence(match[0], injectionPattern),
+            metadata,
+          });
+        }
+      }
+    }
+
+    findings.push(
+      ...this.scanDecodedVariants(
+        segment,
+        variants,
+        [...this.injectionPatterns, ...this.indirectPatterns],
+        revealed.text,
+        metadata
+      )
+    );
+
+    for (const block of revealed.hiddenBlocks) {
+      if (!this.containsInstruction(block)) continue;
+
+      findings.push({
+        type: 'Hidden Instruction',
+        severity: ThreatLevel.HIGH,
+        message: `Instructions hidden from the reader found in ${label}`,
+        location: { path: segment.path },
+        evidence: this.truncateEvidence(block.trim()),
+        remediation: 'Remove comments and invisible markup from untrusted content before forwarding',
+        confidence: 0.9,
+        metadata,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Patterns that only match once obfuscation is undone, using the segment's
+   * variants from the shared extraction cache.
+   * Matches already visible in the scanned text are not reported twice.
+   */
+  private scanDecodedVariants(
+    segment: ContentSegment,
+    variants: DecodedVariant[],
+    patterns: InjectionPattern[],
+    visibleText: string,
+    metadata?: Record<string, unknown>
+  ): Finding[] {
+    const findings: Finding[] = [];
+    const reported = new Set<string>();
+
+    for (const variant of variants) {
+      for (const injectionPattern of patterns) {
+        for (const pattern of injectionPattern.patterns) {
+          for (const match of variant.text.matchAll(pattern)) {
+            const key = `${injectionPattern.name}:${match[0].toLowerCase()}`;
+            if (visibleText.includes(match[0]) || reported.has(key)) continue;
+            reported.add(key);
+
+            findings.push({
+              type: injectionPattern.name,
+              severity: injectionPattern.severity,
+              message: `Obfuscated prompt injection revealed by ${describeTransformations(variant.transformations)}: ${injectionPattern.description}`,
+              location: { path: segment.path },
+              evidence: this.truncateEvidence(match[0]),
+              remediation: 'Reject obfuscated input; encoded or disguised instructions indicate a deliberate evasion attempt',
+              confidence: this.calculateConfidence(match[0], injectionPattern),
+              metadata: { ...metadata, transformations: variant.transformations },
+            });
           }
         }
       }
     }
 
-    return texts.join('\n');
+    return findings;
+  }
+
+  private revealHiddenText(text: string): RevealedText {
+    const hiddenBlocks: string[] = [];
+    let hiddenCharCount = (text.match(/[\u200B\u200C\u2060\uFEFF]/g) || []).length;
+
+    // Decode tag characters back to the ASCII they smuggle
+    const decoded = text.replace(TAG_CHARACTERS, (run) => {
+      const chars = Array.from(run);
+      hiddenCharCount += chars.length;
+      const ascii = chars.map((c) => String.fromCodePoint(c.codePointAt(0)! - 0xe0000)).join('');
+      hiddenBlocks.push(ascii);
+      return ascii;
+    });
+
+    // Zero-width joiners also occur inside emoji sequences, so they are removed but not counted
+    const revealed = decoded.replace(ZERO_WIDTH, '');
+
+    for (const pattern of HIDDEN_BLOCKS) {
+      for (const match of revealed.matchAll(pattern)) {
+        hiddenBlocks.push(match[match.length - 1]);
+      }
+    }
+
+    return { text: revealed, hiddenCharCount, hiddenBlocks };
+  }
+
+  private containsInstruction(text: string): boolean {
+    return [...this.injectionPatterns, ...this.indirectPatterns].some((p) =>
+      p.patterns.some((pattern) => text.match(new RegExp(pattern.source, pattern.flags.replace('g', ''))))
+    );
   }
 
   private detectAnomalies(text: string): Finding[] {
@@ -1,26 +1,53 @@
 /**
  * Scanner orchestrator for managing and executing multiple scanners
+ *
+ * Scanners can be grouped into stages that run in order, e.g. a cheap
+ * pattern tier first and an expensive ML tier only when the first tier is
+ * inconclusive. Scanning can stop at the first CRITICAL finding, each
+ * scanner can have its own latency budget, and tenants can be limited to a
+ * subset of scanners. When the multimodal scanner is registered, text
+ * extracted from attachments is added to the request before any stage runs.
  */
 
-import { UnifiedAIRequest, AggregatedScanResult, ThreatLevel, Finding } from '../types/index.js';
+import { UnifiedAIRequest, AggregatedScanResult, ThreatLevel, Finding, ScanResult } from '../types/index.js';
 import { BaseScanner } from './base-scanner.js';
 import { PIIScanner } from './pii-scanner.js';
 import { PromptInjectionScanner } from './prompt-injection-scanner.js';
 import { ToxicityScanner } from './toxicity-scanner.js';
 import { DLPScanner } from './dlp-scanner.js';
 import { ComplianceScanner } from './compliance-scanner.js';
+import { MultimodalScanner } from './multimodal-scanner.js';
 import { logger } from '../utils/logger.js';
 import { metrics } from '../utils/metrics.js';
 
+export interface ScannerStage {
+  name: string;
+  scannerIds: string[];
+  runWhen?: 'always' | 'inconclusive'; // Default always
+}
+
 export interface ScannerOrchestratorConfig {
   enableParallelScanning: boolean;
   scanTimeout: number;
+  stages?: ScannerStage[]; // Scanners not assigned to a stage run in the first one
+  stopOnCritical?: boolean; // Skip remaining scanners once a CRITICAL result is in (default false)
+  inconclusiveThreatLevels?: ThreatLevel[]; // Levels that run 'inconclusive' stages (default LOW, MEDIUM)
+  scannerBudgets?: Record<string, number>; // Per-scanner latency budget in ms, overriding scanTimeout
+  tenantScanners?: Record<string, string[]>; // Scanner IDs a tenant runs; other scanners are skipped
+}
+
+interface ResolvedStage {
+  name: string;
+  scanners: BaseScanner[];
+  runWhen: 'always' | 'inconclusive';
 }
 
 export class ScannerOrchestrator {
   private scanners: BaseScanner[] = [];
+  private tenantScanners: Map<string, string[]>;
 
   constructor(private config: ScannerOrchestratorConfig) {
+    this.tenantScanners = new Map(Object.entries(config.tenantScanners || {}));
     this.registerDefaultScanners();
   }
 
@@ -53,6 +80,21 @@ export class ScannerOrchestrator {
     return this.scanners.find(s => s.id === 'compliance-scanner') as ComplianceScanner | undefined;
   }
 
+  /**
+   * Limit a tenant to the given scanners; undefined restores all scanners
+   */
+  setTenantScanners(tenantId: string, scannerIds: string[] | undefined): void {
+    if (scannerIds) {
+      this.tenantScanners.set(tenantId, [...scannerIds]);
+    } else {
+      this.tenantScanners.delete(tenantId);
+    }
+  }
+
+  getTenantScanners(tenantId: string): string[] | undefined {
+    return this.tenantScanners.get(tenantId);
+  }
+
   async scan(request: UnifiedAIRequest): Promise<AggregatedScanResult> {
     const startTime = Date.now();
 
@@ -62,9 +104,7 @@ export class ScannerOrchestrator {
     });
 
     try {
-      const scanResults = this.config.enableParallelScanning
-        ? await this.scanParallel(request)
-        : await this.scanSequential(request);
+      const { scanResults, skippedScanners } = await this.runStages(await this.expandAttachments(request));
 
       const totalExecutionTimeMs = Date.now() - startTime;
       const overallThreatLevel = this.calculateOverallThreatLevel(scanResults);
@@ -82,6 +122,7 @@ export class ScannerOrchestrator {
         findings: allFindings,
         totalExecutionTimeMs,
         timestamp: Date.now(),
+        skippedScanners,
       };
 
       // Record metrics
@@ -96,6 +137,7 @@ export class ScannerOrchestrator {
         overallScore,
         totalExecutionTimeMs,
         findingsCount: scanResults.reduce((sum, r) => sum + r.findings.length, 0),
+        skippedScanners,
       });
 
       return aggregated;
@@ -107,61 +149,181 @@ export class ScannerOrchestrator {
     }
   }
 
-  private async scanParallel(request: UnifiedAIRequest) {
-    const scanPromises = this.scanners.map((scanner) =>
-      this.executeScannerWithTimeout(scanner, request)
-    );
-
-    // Use allSettled to prevent one scanner failure from blocking others
-    const results = await Promise.allSettled(scanPromises);
-
-    return results.map((result, index) => {
-      if (result.status === 'fulfilled') {
-        return result.value;
-      } else {
-        // Handle rejected scanner
-        const scanner = this.scanners[index];
-        logger.error(`Scanner ${scanner.name} rejected`, result.reason);
-
-        return {
-          scannerId: scanner.id,
-          scannerName: scanner.name,
-          passed: false,
-          threatLevel: ThreatLevel.NONE,
-          score: 0,
-          findings: [
-            {
-              type: 'Scanner Error',
-              severity: ThreatLevel.LOW,
-              message: `Scanner failed: ${result.reason?.message || 'Unknown error'}`,
-              confidence: 1.0,
-            },
-          ],
-          executionTimeMs: this.config.scanTimeout,
-        };
+  /**
+   * Request with attachment text added for the other scanners, if the
+   * multimodal scanner runs for the tenant. Extraction (including OCR) gets
+   * the multimodal scanner's budget; past it the other scanners see the
+   * request without attachment text.
+   */
+  private async expandAttachments(request: UnifiedAIRequest): Promise<UnifiedAIRequest> {
+    const tenantId = request.metadata.tenantId;
+    const allowed = tenantId ? this.tenantScanners.get(tenantId) : undefined;
+    const scanner = this.scanners.find((s) => s.id === 'multimodal-scanner') as MultimodalScanner | undefined;
+    if (!scanner || (allowed && !allowed.includes(scanner.id))) return request;
+
+    const budget = this.config.scannerBudgets?.[scanner.id];
+    const timeoutMs = budget ?? this.config.scanTimeout;
+    let timeoutId: NodeJS.Timeout | null = null;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        if (budget !== undefined) {
+          metrics.counter('scanner.budget_exceeded', 1, { scanner: scanner.id });
+        }
+        reject(new Error(`Attachment extraction exceeded ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([scanner.expand(request), timeoutPromise]);
+    } catch (error) {
+      logger.error('Attachment extraction failed', error as Error, {
+        correlationId: request.metadata.correlationId,
+      });
+      return request;
+    } finally {
+      if (timeoutId !== null) {
+        clearTimeout(timeoutId);
       }
+    }
+  }
+
+  private async runStages(
+    request: UnifiedAIRequest
+  ): Promise<{ scanResults: ScanResult[]; skippedScanners: string[] }> {
+    const scanResults: ScanResult[] = [];
+    const skippedScanners: string[] = [];
+
+    for (const stage of this.resolveStages(request.metadata.tenantId)) {
+      const skipReason = this.getStageSkipReason(stage, scanResults);
+      if (skipReason) {
+        skippedScanners.push(...stage.scanners.map((s) => s.id));
+        metrics.counter('scan.stage_skipped', 1, { stage: stage.name, reason: skipReason });
+        continue;
+      }
+
+      const results = this.config.enableParallelScanning
+        ? await this.scanParallel(request, stage.scanners)
+        : await this.scanSequential(request, stage.scanners);
+
+      scanResults.push(...results);
+      skippedScanners.push(
+        ...stage.scanners.filter((s) => !results.some((r) => r.scannerId === s.id)).map((s) => s.id)
+      );
+    }
+
+    return { scanResults, skippedScanners };
+  }
+
+  /**
+   * Stages in order, limited to the tenant's scanners; without configured
+   * stages every scanner runs in a single stage
+   */
+  private resolveStages(tenantId?: string): ResolvedStage[] {
+    const allowed = tenantId ? this.tenantScanners.get(tenantId) : undefined;
+    const scanners = allowed ? this.scanners.filter((s) => allowed.includes(s.id)) : this.scanners;
+    const stages = this.config.stages || [];
+
+    if (stages.length === 0) {
+      return [{ name: 'default', scanners, runWhen: 'always' }];
+    }
+
+    const resolved: ResolvedStage[] = stages.map((stage) => ({
+      name: stage.name,
+      scanners: scanners.filter((s) => stage.scannerIds.includes(s.id)),
+      runWhen: stage.runWhen || 'always',
+    }));
+
+    const assigned = new Set(stages.flatMap((stage) => stage.scannerIds));
+    resolved[0].scanners.push(...scanners.filter((s) => !assigned.has(s.id)));
+
+    return resolved.filter((stage) => stage.scanners.length > 0);
+  }
+
+  private getStageSkipReason(stage: ResolvedStage, previous: ScanResult[]): string | undefined {
+    if (this.config.stopOnCritical && this.hasCritical(previous)) {
+      return 'critical';
+    }
+
+    if (stage.runWhen === 'inconclusive') {
+      const inconclusive = this.config.inconclusiveThreatLevels || [ThreatLevel.LOW, ThreatLevel.MEDIUM];
+      if (!inconclusive.includes(this.calculateOverallThreatLevel(previous))) {
+        return 'conclusive';
+      }
+    }
+
+    return undefined;
+  }
+
+  private hasCritical(results: ScanResult[]): boolean {
+    return results.some((r) => r.threatLevel === ThreatLevel.CRITICAL);
+  }
+
+  private async scanParallel(request: UnifiedAIRequest, scanners: BaseScanner[]): Promise<ScanResult[]> {
+    const results: Array<ScanResult | undefined> = new Array(scanners.length);
+
+    // Resolves when all scanners are done, or at the first CRITICAL result
+    // when stopOnCritical is set (slower scanners finish in the background)
+    await new Promise<void>((resolve) => {
+      let pending = scanners.length;
+      if (pending === 0) resolve();
+
+      scanners.forEach((scanner, index) => {
+        this.executeScannerWithTimeout(scanner, request)
+          .catch((reason) => {
+            // Handle rejected scanner so one failure does not block the others
+            logger.error(`Scanner ${scanner.name} rejected`, reason);
+            return this.createFailedResult(scanner, reason?.message || 'Unknown error');
+          })
+          .then((result) => {
+            results[index] = result;
+            pending--;
+
+            if (pending === 0) {
+              resolve();
+            } else if (this.config.stopOnCritical && result.threatLevel === ThreatLevel.CRITICAL) {
+              metrics.counter('scan.early_exit', 1, { scanner: scanner.id });
+              resolve();
+            }
+          });
+      });
     });
+
+    return results.filter((result): result is ScanResult => result !== undefined);
   }
 
-  private async scanSequential(request: UnifiedAIRequest) {
-    const results = [];
+  private async scanSequential(request: UnifiedAIRequest, scanners: BaseScanner[]): Promise<ScanResult[]> {
+    const results: ScanResult[] = [];
 
-    for (const scanner of this.scanners) {
+    for (const scanner of scanners) {
       const result = await this.executeScannerWithTimeout(scanner, request);
       results.push(result);
+
+      if (this.config.stopOnCritical && result.threatLevel === ThreatLevel.CRITICAL) {
+        metrics.counter('scan.early_exit', 1, { scanner: scanner.id });
+        break;
+      }
     }
 
     return results;
   }
 
-  private async executeScannerWithTimeout(scanner: BaseScanner, request: UnifiedAIRequest) {
+  private async executeScannerWithTimeout(scanner: BaseScanner, request: UnifiedAIRequest): Promise<ScanResult> {
+    const budget = this.config.scannerBudgets?.[scanner.id];
+    const timeoutMs = budget ?? this.config.scanTimeout;
+
     // Use AbortController for proper timeout cleanup
     let timeoutId: NodeJS.Timeout | null = null;
 
-    const timeoutPromise = new Promise((_, reject) => {
+    const timeoutPromise = new Promise<never>((_, reject) => {
       timeoutId = setTimeout(() => {
-        reject(new Error(`Scanner ${scanner.name} timed out`));
-      }, this.config.scanTimeout);
+        if (budget !== undefined) {
+          metrics.counter('scanner.budget_exceeded', 1, { scanner: scanner.id });
+          reject(new Error(`Scanner ${scanner.name} exceeded its ${budget}ms budget`));
+        } else {
+          reject(new Error(`Scanner ${scanner.name} timed out`));
+        }
+      }, timeoutMs);
     });
 
     try {
@@ -172,11 +334,11 @@ export class ScannerOrchestrator {
         clearTimeout(timeoutId);
       }
 
-      metrics.histogram('scanner.duration', (result as any).executionTimeMs, {
+      metrics.histogram('scanner.duration', result.executionTimeMs, {
         scanner: scanner.id,
       });
 
-      return result as any;
+      return result;
     } catch (error) {
       // Clear timeout on error
       if (timeoutId !== null) {
@@ -186,25 +348,29 @@ export class ScannerOrchestrator {
       logger.error(`Scanner ${scanner.name} failed`, error as Error);
 
       // Return a failed scan result instead of throwing
-      return {
-        scannerId: scanner.id,
-        scannerName: scanner.name,
-        passed: false,
-        threatLevel: ThreatLevel.NONE,
-        score: 0,
-        findings: [
-          {
-            type: 'Scanner Error',
-            severity: ThreatLevel.LOW,
-            message: `Scanner failed: ${(error as Error).message}`,
-            confidence: 1.0,
-          },
-        ],
-        executionTimeMs: this.config.scanTimeout,
-      };
+      return this.createFailedResult(scanner, (error as Error).message, timeoutMs);
     }
   }
 
+  private createFailedResult(scanner: BaseScanner, message: string, executionTimeMs = this.config.scanTimeout): ScanResult {
+    return {
+      scannerId: scanner.id,
+      scannerName: scanner.name,
+      passed: false,
+      threatLevel: ThreatLevel.NONE,
+      score: 0,
+      findings: [
+        {
+          type: 'Scanner Error',
+          severity: ThreatLevel.LOW,
+          message: `Scanner failed: ${message}`,
+          confidence: 1.0,
+        },
+      ],
+      executionTimeMs,
+    };
+  }
+
   private calculateOverallThreatLevel(results: AggregatedScanResult['scanResults']): ThreatLevel {
     const severityOrder = [
       ThreatLevel.NONE,
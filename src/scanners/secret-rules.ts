@@ -0,0 +1,293 @@
+/**
+ * Secret detection rules
+ *
+ * Built-in rules for common provider credentials, plus loading of
+ * gitleaks-style rule files (TOML or JSON):
+ *
+ *   [[rules]]
+ *   id = "acme-api-key"
+ *   description = "Acme API Key"
+ *   regex = '''acme_[a-z0-9]{32}'''
+ *   secretGroup = 1          # optional capture group holding the secret
+ *   entropy = 3.5            # optional minimum Shannon entropy of the secret
+ *   keywords = ["acme_"]     # optional; rule only runs when a keyword is present
+ *
+ * Go regex syntax is translated where JavaScript differs ((?i), (?P<name>,
+ * \z, POSIX classes); rules that still fail to compile are skipped.
+ */
+
+import * as fs from 'fs/promises';
+import { ThreatLevel } from '../types/index.js';
+import { parseToml } from '../utils/toml.js';
+
+export interface SecretAllowlist {
+  regexes?: RegExp[]; // Tested against the secret
+  stopwords?: string[]; // Secrets containing one of these are ignored
+}
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  regex: RegExp;
+  secretGroup?: number;
+  entropy?: number;
+  keywords?: string[]; // Lowercase
+  severity: ThreatLevel;
+  allowlist?: SecretAllowlist;
+}
+
+export interface SecretRuleSet {
+  rules: SecretRule[];
+  allowlist?: SecretAllowlist;
+  useDefault: boolean; // [extend] useDefault = true keeps the built-in rules
+  skipped: string[]; // Rule IDs that could not be compiled
+}
+
+/**
+ * Placeholders that look like secrets in documentation and templates
+ */
+export const DEFAULT_SECRET_ALLOWLIST: SecretAllowlist = {
+  regexes: [/^\$\{[^}]*\}$/, /^<[^>]*>$/, /^(.)\1{7,}$/],
+  stopwords: ['your_api_key', 'your-api-key', 'yourapikey', 'placeholder', 'changeme', 'redacted'],
+};
+
+const rule = (
+  id: string,
+  description: string,
+  regex: RegExp,
+  severity: ThreatLevel,
+  options: Partial<Pick<SecretRule, 'secretGroup' | 'entropy' | 'keywords'>> = {}
+): SecretRule => ({ id, description, regex, severity, ...options });
+
+export const DEFAULT_SECRET_RULES: SecretRule[] = [
+  rule('aws-access-token', 'AWS Access Key', /\b((?:A3T[A-Z0-9]|AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16})\b/g, ThreatLevel.CRITICAL, {
+    secretGroup: 1,
+    keywords: ['a3t', 'akia', 'asia', 'abia', 'acca'],
+  }),
+  rule(
+    'aws-secret-access-key',
+    'AWS Secret Access Key',
+    /aws_?secret_?(?:access_?)?key["'\s]*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    ThreatLevel.CRITICAL,
+    { secretGroup: 1, keywords: ['secret'] }
+  ),
+  rule('github-pat', 'GitHub Personal Access Token', /\bghp_[0-9a-zA-Z]{36}\b/g, ThreatLevel.CRITICAL, { keywords: ['ghp_'] }),
+  rule('github-fine-grained-pat', 'GitHub Fine-Grained Token', /\bgithub_pat_\w{82}\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['github_pat_'],
+  }),
+  rule('github-oauth', 'GitHub OAuth Token', /\bgho_[0-9a-zA-Z]{36}\b/g, ThreatLevel.CRITICAL, { keywords: ['gho_'] }),
+  rule('github-app-token', 'GitHub App Token', /\b(?:ghu|ghs)_[0-9a-zA-Z]{36}\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['ghu_', 'ghs_'],
+  }),
+  rule('gitlab-pat', 'GitLab Personal Access Token', /\bglpat-[\w-]{20}\b/g, ThreatLevel.CRITICAL, { keywords: ['glpat-'] }),
+  rule(
+    'openai-api-key',
+    'OpenAI API Key',
+    /\b(sk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,74}T3BlbkFJ[A-Za-z0-9_-]{20,74}|sk-[A-Za-z0-9]{48})\b/g,
+    ThreatLevel.CRITICAL,
+    { secretGroup: 1, keywords: ['sk-'] }
+  ),
+  rule('anthropic-api-key', 'Anthropic API Key', /\bsk-ant-(?:api03|admin01)-[\w-]{93}AA\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['sk-ant-'],
+  }),
+  rule('gcp-api-key', 'Google Cloud API Key', /\bAIza[\w-]{35}\b/g, ThreatLevel.CRITICAL, { keywords: ['aiza'] }),
+  rule(
+    'private-key',
+    'Private Key',
+    /-----BEGIN[ A-Z0-9_-]{0,100}PRIVATE KEY(?: BLOCK)?-----[\s\S]{64,}?-----END[ A-Z0-9_-]{0,100}PRIVATE KEY(?: BLOCK)?-----/g,
+    ThreatLevel.CRITICAL,
+    { keywords: ['private key'] }
+  ),
+  rule('azure-storage-key', 'Azure Storage Account Key', /AccountKey=([A-Za-z0-9+/]{86}==)/g, ThreatLevel.CRITICAL, {
+    secretGroup: 1,
+    keywords: ['accountkey='],
+  }),
+  rule('slack-bot-token', 'Slack Bot Token', /\bxoxb-[0-9]{10,13}-[0-9]{10,13}[a-zA-Z0-9-]*\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['xoxb'],
+  }),
+  rule('slack-user-token', 'Slack User Token', /\bxox[pe](?:-[0-9]{10,13}){3}-[a-zA-Z0-9-]{28,34}\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['xoxp-', 'xoxe-'],
+  }),
+  rule(
+    'slack-webhook-url',
+    'Slack Webhook URL',
+    /https?:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9+/]{43,46}/g,
+    ThreatLevel.HIGH,
+    { keywords: ['hooks.slack.com'] }
+  ),
+  rule('stripe-access-token', 'Stripe Access Token', /\b(?:sk|rk)_(?:test|live|prod)_[a-zA-Z0-9]{10,99}\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['sk_test', 'sk_live', 'sk_prod', 'rk_test', 'rk_live', 'rk_prod'],
+  }),
+  rule('sendgrid-api-token', 'SendGrid API Token', /\bSG\.[\w-]{22}\.[\w-]{43}\b/g, ThreatLevel.CRITICAL, { keywords: ['sg.'] }),
+  rule('twilio-api-key', 'Twilio API Key', /\bSK[0-9a-fA-F]{32}\b/g, ThreatLevel.HIGH, { keywords: ['sk'], entropy: 3 }),
+  rule('npm-access-token', 'npm Access Token', /\bnpm_[a-zA-Z0-9]{36}\b/g, ThreatLevel.CRITICAL, { keywords: ['npm_'] }),
+  rule('pypi-upload-token', 'PyPI Upload Token', /\bpypi-AgEIcHlwaS5vcmc[\w-]{50,}/g, ThreatLevel.CRITICAL, {
+    keywords: ['pypi-ageichlwas5vcmc'],
+  }),
+  rule('huggingface-access-token', 'Hugging Face Access Token', /\bhf_[a-zA-Z]{34}\b/g, ThreatLevel.HIGH, { keywords: ['hf_'] }),
+  rule('shopify-access-token', 'Shopify Access Token', /\bshp(?:at|ca|pa|ss)_[a-fA-F0-9]{32}\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['shpat_', 'shpca_', 'shppa_', 'shpss_'],
+  }),
+  rule('databricks-api-token', 'Databricks API Token', /\bdapi[a-f0-9]{32}(?:-\d)?\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['dapi'],
+  }),
+  rule('digitalocean-pat', 'DigitalOcean Personal Access Token', /\bdop_v1_[a-f0-9]{64}\b/g, ThreatLevel.CRITICAL, {
+    keywords: ['dop_v1_'],
+  }),
+  rule('jwt', 'JSON Web Token', /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g, ThreatLevel.HIGH, { keywords: ['eyj'] }),
+  rule(
+    'generic-api-key',
+    'Generic Secret Assignment',
+    /(?:key|api|token|secret|client|passwd|password|auth|access)[\w.-]{0,20}[\s'"]{0,3}(?:=|>|:{1,3}=|:|=>)[\s'"`=]{0,5}([\w.=-]{16,150})(?:['"`\s;]|$)/gi,
+    ThreatLevel.HIGH,
+    { secretGroup: 1, entropy: 3.5, keywords: ['key', 'api', 'token', 'secret', 'client', 'passwd', 'password', 'auth', 'access'] }
+  ),
+];
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Parse a gitleaks-style rule file; format is inferred from content
+ * unless given
+ */
+export function parseSecretRules(content: string, format?: 'toml' | 'json'): SecretRuleSet {
+  const resolvedFormat = format || (content.trimStart().startsWith('{') ? 'json' : 'toml');
+  const parsed: unknown = resolvedFormat === 'json' ? JSON.parse(content) : parseToml(content);
+  const document = parsed as RuleFileDocument;
+
+  const rules: SecretRule[] = [];
+  const skipped: string[] = [];
+
+  for (const raw of document.rules || []) {
+    if (!raw.id || (!raw.regex && !raw.path)) {
+      throw new Error('Secret rules require an id and a regex');
+    }
+    // Path-only rules match file names, which requests do not have
+    if (!raw.regex) continue;
+
+    const regex = compileGoRegex(raw.regex);
+    if (!regex) {
+      skipped.push(raw.id);
+      continue;
+    }
+
+    const allowlists = [raw.allowlist, ...(raw.allowlists || [])].filter(Boolean) as RawAllowlist[];
+    rules.push({
+      id: raw.id,
+      description: raw.description || raw.id,
+      regex,
+      secretGroup: raw.secretGroup,
+      entropy: raw.entropy,
+      keywords: raw.keywords?.map((k) => k.toLowerCase()),
+      severity: parseSeverity(raw.severity),
+      allowlist: allowlists.length > 0 ? mergeAllowlists(allowlists) : undefined,
+    });
+  }
+
+  const globalAllowlists = [document.allowlist, ...(document.allowlists || [])].filter(Boolean) as RawAllowlist[];
+
+  return {
+    rules,
+    allowlist: globalAllowlists.length > 0 ? mergeAllowlists(globalAllowlists) : undefined,
+    useDefault: document.extend?.useDefault === true,
+    skipped,
+  };
+}
+
+export async function loadSecretRules(path: string): Promise<SecretRuleSet> {
+  const content = await fs.readFile(path, 'utf-8');
+  return parseSecretRules(content, path.endsWith('.json') ? 'json' : path.endsWith('.toml') ? 'toml' : undefined);
+}
+
+interface RawAllowlist {
+  regexes?: string[];
+  stopwords?: string[];
+}
+
+interface RawRule {
+  id: string;
+  description?: string;
+  regex?: string;
+  path?: string;
+  secretGroup?: number;
+  entropy?: number;
+  keywords?: string[];
+  severity?: string; // Extension: gitleaks has no severities
+  allowlist?: RawAllowlist;
+  allowlists?: RawAllowlist[];
+}
+
+interface RuleFileDocument {
+  rules?: RawRule[];
+  allowlist?: RawAllowlist;
+  allowlists?: RawAllowlist[];
+  extend?: { useDefault?: boolean };
+}
+
+function mergeAllowlists(allowlists: RawAllowlist[]): SecretAllowlist {
+  return {
+    regexes: allowlists
+      .flatMap((a) => a.regexes || [])
+      .map((pattern) => compileGoRegex(pattern, ''))
+      .filter((regex): regex is RegExp => regex !== undefined),
+    stopwords: allowlists.flatMap((a) => a.stopwords || []).map((word) => word.toLowerCase()),
+  };
+}
+
+function parseSeverity(value?: string): ThreatLevel {
+  const levels = Object.values(ThreatLevel) as string[];
+  return value && levels.includes(value.toLowerCase()) ? (value.toLowerCase() as ThreatLevel) : ThreatLevel.HIGH;
+}
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: 'A-Za-z0-9',
+  alpha: 'A-Za-z',
+  digit: '0-9',
+  lower: 'a-z',
+  upper: 'A-Z',
+  space: '\\s',
+  xdigit: '0-9A-Fa-f',
+  punct: '!-\\/:-@\\[-`{-~',
+};
+
+/**
+ * Translate RE2 syntax to a JavaScript RegExp; undefined if it does not compile
+ */
+function compileGoRegex(pattern: string, flags = 'g'): RegExp | undefined {
+  let source = pattern;
+  let caseInsensitive = false;
+
+  // JavaScript has no inline flags, so (?i) anywhere applies to the whole pattern
+  source = source.replace(/\(\?i\)/g, () => {
+    caseInsensitive = true;
+    return '';
+  });
+  source = source
+    .replace(/\(\?P</g, '(?<')
+    .replace(/\\z/g, '$')
+    .replace(/\\A/g, '^')
+    .replace(/\[:(\w+):\]/g, (match, name: string) => POSIX_CLASSES[name] ?? match);
+
+  try {
+    return new RegExp(source, flags + (caseInsensitive ? 'i' : ''));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Secrets Scanner
+ *
+ * Detects credentials in request messages:
+ * - Provider key formats from a gitleaks-style rule set (built-in rules,
+ *   extended or replaced by a TOML/JSON rule file)
+ * - Unknown high-entropy tokens, reported with higher severity when a
+ *   context keyword (secret, token, password...) precedes them
+ * - Offline verifiers mark each secret as confirmed-live or likely-test,
+ *   which raises or lowers the finding's severity
+ */
+
+import { BaseScanner } from './base-scanner.js';
+import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding, Message } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { MetricsCollector } from '../utils/metrics.js';
+import {
+  SecretRule,
+  SecretAllowlist,
+  DEFAULT_SECRET_RULES,
+  DEFAULT_SECRET_ALLOWLIST,
+  loadSecretRules,
+  shannonEntropy,
+} from './secret-rules.js';
+import { SecretVerifier, SecretVerification, TestValueVerifier } from './secret-verifiers.js';
+
+export interface EntropyConfig {
+  enabled?: boolean; // Default true
+  minLength?: number; // Default 20
+  base64Threshold?: number; // Bits per character (default 4.5)
+  hexThreshold?: number; // Default 3.0
+}
+
+export interface SecretsScannerConfig {
+  rules?: SecretRule[]; // Replaces the built-in rules
+  allowlist?: SecretAllowlist; // Replaces the built-in placeholder allowlist
+  entropy?: EntropyConfig;
+  verifiers?: SecretVerifier[]; // Default: TestValueVerifier
+}
+
+const HIGH_ENTROPY_RULE_ID = 'high-entropy-string';
+const ENTROPY_CANDIDATE = /(?<![A-Za-z0-9+/_=-])[A-Za-z0-9+/_-]{20,}={0,2}(?![A-Za-z0-9+/_=-])/g;
+const CONTEXT_KEYWORDS = /(secret|token|api[_-]?key|apikey|password|passwd|pwd|credential|auth|private[_-]?key|access[_-]?key|bearer)[^\n]{0,40}$/i;
+
+const SEVERITY_SCORES: Record<ThreatLevel, number> = {
+  [ThreatLevel.CRITICAL]: 100,
+  [ThreatLevel.HIGH]: 75,
+  [ThreatLevel.MEDIUM]: 50,
+  [ThreatLevel.LOW]: 25,
+  [ThreatLevel.NONE]: 0,
+};
+
+interface DetectedSecret {
+  ruleId: string;
+  description: string;
+  secret: string;
+  severity: ThreatLevel;
+  confidence: number;
+  path: string;
+  entropy: number;
+  context?: boolean;
+}
+
+export class SecretsScanner extends BaseScanner {
+  id = 'secrets-scanner';
+  name = 'Secrets Scanner';
+  private logger: Logger;
+  private metrics: MetricsCollector;
+  private rules: SecretRule[];
+  private allowlist: SecretAllowlist;
+  private entropy: Required<EntropyConfig>;
+  private verifiers: SecretVerifier[];
+
+  constructor(config: SecretsScannerConfig = {}) {
+    super();
+    this.logger = new Logger();
+    this.metrics = MetricsCollector.getInstance();
+    this.rules = config.rules ? [...config.rules] : [...DEFAULT_SECRET_RULES];
+    this.allowlist = config.allowlist || DEFAULT_SECRET_ALLOWLIST;
+    this.entropy = {
+      enabled: config.entropy?.enabled ?? true,
+      minLength: config.entropy?.minLength ?? 20,
+      base64Threshold: config.entropy?.base64Threshold ?? 4.5,
+      hexThreshold: config.entropy?.hexThreshold ?? 3.0,
+    };
+    this.verifiers = config.verifiers || [new TestValueVerifier()];
+  }
+
+  /**
+   * Load a gitleaks-style rule file. Its rules replace the current set
+   * unless the file sets [extend] useDefault = true.
+   */
+  async loadRules(path: string): Promise<number> {
+    const ruleSet = await loadSecretRules(path);
+
+    this.rules = ruleSet.useDefault ? [...this.rules, ...ruleSet.rules] : ruleSet.rules;
+    if (ruleSet.allowlist) {
+      this.allowlist = {
+        regexes: [...(this.allowlist.regexes || []), ...(ruleSet.allowlist.regexes || [])],
+        stopwords: [...(this.allowlist.stopwords || []), ...(ruleSet.allowlist.stopwords || [])],
+      };
+    }
+
+    if (ruleSet.skipped.length > 0) {
+      this.logger.warn('Skipped secret rules with unsupported regex syntax', { path, ruleIds: ruleSet.skipped });
+    }
+    this.logger.info('Loaded secret rules', { path, loaded: ruleSet.rules.length, total: this.rules.length });
+
+    return ruleSet.rules.length;
+  }
+
+  addRules(rules: SecretRule[]): void {
+    this.rules.push(...rules);
+  }
+
+  getRules(): SecretRule[] {
+    return [...this.rules];
+  }
+
+  registerVerifier(verifier: SecretVerifier): void {
+    this.verifiers.push(verifier);
+  }
+
+  /**
+   * Positions of rule and high-entropy matches in the text, without
+   * verification (used to redact secrets in streamed responses)
+   */
+  locateSecrets(text: string): Array<{ ruleId: string; description: string; severity: ThreatLevel; start: number; end: number }> {
+    const seen = new Set<string>();
+    const detected = this.matchRules(text, 'text', seen);
+    if (this.entropy.enabled) {
+      detected.push(...this.matchHighEntropy(text, 'text', seen));
+    }
+
+    return detected.flatMap(({ ruleId, description, severity, secret }) => {
+      const located: Array<{ ruleId: string; description: string; severity: ThreatLevel; start: number; end: number }> = [];
+      for (let index = text.indexOf(secret); index !== -1; index = text.indexOf(secret, index + secret.length)) {
+        located.push({ ruleId, description, severity, start: index, end: index + secret.length });
+      }
+      return located;
+    });
+  }
+
+  async scan(request: UnifiedAIRequest): Promise<ScanResult> {
+    const startTime = Date.now();
+
+    try {
+      const detected: DetectedSecret[] = [];
+      const seen = new Set<string>();
+
+      request.messages.forEach((message, index) => {
+        const text = this.messageText(message);
+        if (!text) return;
+
+        const path = `request.messages[${index}]`;
+        detected.push(...this.matchRules(text, path, seen));
+        if (this.entropy.enabled) {
+          detected.push(...this.matchHighEntropy(text, path, seen));
+        }
+      });
+
+      const findings: Finding[] = [];
+      for (const secret of detected) {
+        findings.push(this.createFinding(secret, await this.verify(secret)));
+      }
+
+      const threatLevel = this.calculateThreatLevel(findings);
+      const executionTimeMs = Date.now() - startTime;
+
+      this.logger.info('Secrets scan completed', {
+        correlationId: request.metadata.correlationId,
+        findingsCount: findings.length,
+        threatLevel,
+        executionTimeMs,
+      });
+
+      return this.createResult(
+        threatLevel === ThreatLevel.NONE,
+        threatLevel,
+        findings.reduce((max, f) => Math.max(max, SEVERITY_SCORES[f.severity]), 0),
+        findings,
+        executionTimeMs
+      );
+    } catch (error) {
+      this.logger.error('Secrets scan failed', error as Error);
+      return this.createResult(true, ThreatLevel.NONE, 0, [], Date.now() - startTime);
+    }
+  }
+
+  private matchRules(text: string, path: string, seen: Set<string>): DetectedSecret[] {
+    const detected: DetectedSecret[] = [];
+    const lowerText = text.toLowerCase();
+
+    for (const rule of this.rules) {
+      // Keywords are a cheap prefilter before running the regex
+      if (rule.keywords?.length && !rule.keywords.some((k) => lowerText.includes(k))) continue;
+
+      for (const match of text.matchAll(rule.regex)) {
+        const secret = (rule.secretGroup ? match[rule.secretGroup] : match[0]) ?? match[0];
+        if (seen.has(secret) || this.isAllowed(secret, rule.allowlist)) continue;
+
+        const entropy = shannonEntropy(secret);
+        if (rule.entropy !== undefined && entropy < rule.entropy) continue;
+
+        seen.add(secret);
+        detected.push({
+          ruleId: rule.id,
+          description: rule.description,
+          secret,
+          severity: rule.severity,
+          confidence: 0.9,
+          path,
+          entropy,
+        });
+      }
+    }
+
+    return detected;
+  }
+
+  private matchHighEntropy(text: string, path: string, seen: Set<string>): DetectedSecret[] {
+    const detected: DetectedSecret[] = [];
+
+    for (const match of text.matchAll(ENTROPY_CANDIDATE)) {
+      const token = match[0];
+      if (token.length < this.entropy.minLength || seen.has(token) || this.isAllowed(token)) continue;
+      // Words, paths and identifiers rarely mix letters and digits
+      if (!/[A-Za-z]/.test(token) || !/[0-9]/.test(token)) continue;
+      // Overlaps a secret a rule already reported
+      if ([...seen].some((secret) => secret.includes(token) || token.includes(secret))) continue;
+
+      const isHex = /^[0-9a-fA-F]+$/.test(token);
+      const context = CONTEXT_KEYWORDS.test(text.slice(Math.max(0, match.index! - 60), match.index));
+      // Hex digests (commit SHAs, checksums) are only suspicious next to a keyword
+      if (isHex && !context) continue;
+
+      // Short strings cannot reach the nominal threshold, so scale it by length
+      const entropy = shannonEntropy(token);
+      const threshold = isHex
+        ? this.entropy.hexThreshold
+        : Math.min(this.entropy.base64Threshold, Math.log2(token.length) * 0.9);
+      if (entropy < threshold) continue;
+
+      seen.add(token);
+      detected.push({
+        ruleId: HIGH_ENTROPY_RULE_ID,
+        description: 'High-Entropy String',
+        secret: token,
+        severity: context ? ThreatLevel.HIGH : ThreatLevel.MEDIUM,
+        confidence: context ? 0.75 : 0.5,
+        path,
+        entropy,
+        context,
+      });
+    }
+
+    return detected;
+  }
+
+  private isAllowed(secret: string, ruleAllowlist?: SecretAllowlist): boolean {
+    const lower = secret.toLowerCase();
+
+    return [this.allowlist, ruleAllowlist].some(
+      (allowlist) =>
+        allowlist !== undefined &&
+        ((allowlist.regexes || []).some((regex) => {
+          regex.lastIndex = 0;
+          return regex.test(secret);
+        }) ||
+          (allowlist.stopwords || []).some((word) => lower.includes(word)))
+    );
+  }
+
+  /**
+   * First verifier with an opinion wins; verifier errors count as no opinion
+   */
+  private async verify(secret: DetectedSecret): Promise<SecretVerification & { verifier?: string }> {
+    for (const verifier of this.verifiers) {
+      if (verifier.ruleIds && !verifier.ruleIds.includes(secret.ruleId)) continue;
+
+      try {
+        const result = await verifier.verify(secret.secret, secret.ruleId);
+        if (result.status !== 'unverified') {
+          this.metrics.increment('secrets_verification_total', 1, { verifier: verifier.name, status: result.status });
+          return { ...result, verifier: verifier.name };
+        }
+      } catch (error) {
+        this.logger.warn('Secret verifier failed', {
+          verifier: verifier.name,
+          ruleId: secret.ruleId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { status: 'unverified' };
+  }
+
+  private createFinding(secret: DetectedSecret, verification: SecretVerification & { verifier?: string }): Finding {
+    let severity = secret.severity;
+    let confidence = secret.confidence;
+    let note = '';
+
+    if (verification.status === 'confirmed_live') {
+      severity = ThreatLevel.CRITICAL;
+      confidence = 0.99;
+      note = ' (confirmed live)';
+    } else if (verification.status === 'likely_test') {
+      severity = ThreatLevel.LOW;
+      confidence = Math.min(confidence, 0.4);
+      note = ' (likely a test value)';
+    }
+
+    return {
+      type: secret.description,
+      severity,
+      message: `${secret.description} detected${note}`,
+      location: { path: secret.path },
+      evidence: this.maskSecret(secret.secret),
+      remediation: 'Remove the credential from the request and rotate it if it is real',
+      confidence,
+      metadata: {
+        ruleId: secret.ruleId,
+        entropy: Math.round(secret.entropy * 100) / 100,
+        verification: verification.status,
+        verifier: verification.verifier,
+        verificationReason: verification.reason,
+        ...(secret.context !== undefined ? { contextKeyword: secret.context } : {}),
+      },
+    };
+  }
+
+  private messageText(message: Message): string {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+
+    return message.content
+      .filter((part) => (part.type === 'text' || part.type === 'document') && part.text)
+      .map((part) => part.text)
+      .join('\n');
+  }
+
+  private maskSecret(secret: string): string {
+    if (secret.length <= 8) {
+      return '***';
+    }
+    return `${secret.substring(0, 4)}...${secret.substring(secret.length - 4)}`;
+  }
+
+  private calculateThreatLevel(findings: Finding[]): ThreatLevel {
+    const order = [ThreatLevel.NONE, ThreatLevel.LOW, ThreatLevel.MEDIUM, ThreatLevel.HIGH, ThreatLevel.CRITICAL];
+    return findings.reduce(
+      (max, f) => (order.indexOf(f.severity) > order.indexOf(max) ? f.severity : max),
+      ThreatLevel.NONE as ThreatLevel
+    );
+  }
+}
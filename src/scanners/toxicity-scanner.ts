@@ -6,6 +6,8 @@
 import { BaseScanner } from './base-scanner.js';
 import { UnifiedAIRequest, ScanResult, ThreatLevel, Finding } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
+import { describeTransformations } from '../utils/text-normalizer.js';
+import { textExtractionCache } from '../utils/text-extractor.js';
 
 interface ToxicityPattern {
   category: string;
@@ -145,6 +147,21 @@ export class ToxicityScanner extends BaseScanner {
         findings.push(...matches);
       }
 
+      // Leetspeak, homoglyphs and encodings only show up in decoded variants
+      for (const variant of textExtractionCache.get(request).decodedVariants) {
+        for (const pattern of this.toxicityPatterns) {
+          for (const finding of this.findPatternMatches(variant.text, pattern)) {
+            if (findings.some((f) => f.metadata?.pattern === finding.metadata?.pattern)) continue;
+
+            findings.push({
+              ...finding,
+              message: `${finding.message} (revealed by ${describeTransformations(variant.transformations)})`,
+              metadata: { ...finding.metadata, transformations: variant.transformations },
+            });
+          }
+        }
+      }
+
       // Perform sentiment analysis
       const sentiment = this.analyzeSentiment(textContent);
       if (sentiment.toxicity > 0.7) {
@@ -202,7 +219,7 @@ export class ToxicityScanner extends BaseScanner {
         texts.push(message.content);
       } else if (Array.isArray(message.content)) {
         for (const part of message.content) {
-          if (part.type === 'text' && part.text) {
+          if ((part.type === 'text' || part.type === 'document') && part.text) {
             texts.push(part.text);
           }
         }
@@ -0,0 +1,243 @@
+/**
+ * File Storage Adapter
+ *
+ * Durable StorageAdapter backed by one append-only JSONL log per namespace:
+ * - Namespaces are loaded lazily and cached in memory
+ * - Operations on a namespace are applied in call order
+ * - Bursts of writes are batched into a single append
+ * - The log is compacted to one line per live record once it outgrows the
+ *   record count; compaction replaces the file atomically (temp file, then rename)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../utils/logger.js';
+import { StorageAdapter } from './storage-adapter.js';
+
+export interface FileStorageConfig {
+  directory: string;
+  compactThreshold?: number; // Minimum log length in lines before compaction is considered
+}
+
+type LogEntry =
+  | { op: 'set'; key: string; value: unknown }
+  | { op: 'delete'; key: string }
+  | { op: 'clear' };
+
+interface NamespaceState {
+  records: Map<string, unknown>;
+  queue: Promise<void>;
+  pending: string[]; // Serialized log entries not yet appended
+  logLines: number;
+  needsCompaction: boolean;
+  writing: Promise<void> | null;
+}
+
+export class FileStorageAdapter implements StorageAdapter {
+  private logger: Logger;
+  private config: Required<FileStorageConfig>;
+  private namespaces: Map<string, Promise<NamespaceState>> = new Map();
+
+  constructor(config: FileStorageConfig) {
+    this.logger = new Logger();
+    this.config = {
+      directory: config.directory,
+      compactThreshold: config.compactThreshold ?? 1000,
+    };
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    return this.enqueue(namespace, (state) => this.clone(state.records.get(key)) as T | undefined);
+  }
+
+  async set<T>(namespace: string, key: string, value: T): Promise<void> {
+    // Snapshot now so later in-memory mutations by the caller are not persisted early
+    const snapshot = this.clone(value);
+    await this.enqueue(namespace, (state) => {
+      state.records.set(key, snapshot);
+      this.append(namespace, state, { op: 'set', key, value: snapshot });
+    });
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await this.enqueue(namespace, (state) => {
+      if (state.records.delete(key)) {
+        this.append(namespace, state, { op: 'delete', key });
+      }
+    });
+  }
+
+  async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+    return this.enqueue(namespace, (state) =>
+      Array.from(state.records.entries()).map(([key, value]) => [key, this.clone(value) as T])
+    );
+  }
+
+  async clear(namespace: string): Promise<void> {
+    await this.enqueue(namespace, (state) => {
+      state.records.clear();
+      this.append(namespace, state, { op: 'clear' });
+    });
+  }
+
+  async flush(): Promise<void> {
+    const states = await Promise.all(this.namespaces.values());
+    for (const state of states) {
+      await state.queue;
+      while (state.writing) {
+        await state.writing;
+      }
+    }
+  }
+
+  /**
+   * Run an operation after all earlier operations on the same namespace
+   */
+  private async enqueue<R>(namespace: string, operation: (state: NamespaceState) => R): Promise<R> {
+    const state = await this.getState(namespace);
+    const result = state.queue.then(() => operation(state));
+    state.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private getState(namespace: string): Promise<NamespaceState> {
+    let state = this.namespaces.get(namespace);
+    if (!state) {
+      state = this.loadNamespace(namespace);
+      this.namespaces.set(namespace, state);
+    }
+    return state;
+  }
+
+  private async loadNamespace(namespace: string): Promise<NamespaceState> {
+    const records = new Map<string, unknown>();
+    let logLines = 0;
+    let needsCompaction = false;
+
+    try {
+      // Snapshot written by earlier versions; folded into the log on the next write
+      const legacy = await this.readFile(this.getLegacyFilePath(namespace));
+      if (legacy !== undefined) {
+        for (const [key, value] of Object.entries(JSON.parse(legacy) as Record<string, unknown>)) {
+          records.set(key, value);
+        }
+        needsCompaction = true;
+      }
+
+      const log = await this.readFile(this.getFilePath(namespace));
+      for (const line of log?.split('\n') ?? []) {
+        if (!line) continue;
+        logLines++;
+
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line) as LogEntry;
+        } catch {
+          // A torn final line from an interrupted append; the next compaction drops it
+          this.logger.warn('Skipping unreadable storage log entry', { namespace, line: logLines });
+          needsCompaction = true;
+          continue;
+        }
+
+        if (entry.op === 'set') records.set(entry.key, entry.value);
+        else if (entry.op === 'delete') records.delete(entry.key);
+        else if (entry.op === 'clear') records.clear();
+      }
+    } catch (error) {
+      this.namespaces.delete(namespace);
+      throw error;
+    }
+
+    this.logger.debug('Storage namespace loaded', { namespace, records: records.size, logLines });
+
+    return { records, queue: Promise.resolve(), pending: [], logLines, needsCompaction, writing: null };
+  }
+
+  private async readFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  private append(namespace: string, state: NamespaceState, entry: LogEntry): void {
+    state.pending.push(JSON.stringify(entry));
+    if (!state.writing) {
+      state.writing = this.writeLoop(namespace, state);
+    }
+  }
+
+  private async writeLoop(namespace: string, state: NamespaceState): Promise<void> {
+    try {
+      // Yield once so synchronous bursts of writes collapse into one append
+      await Promise.resolve();
+      while (state.pending.length > 0) {
+        const lines = state.pending;
+        state.pending = [];
+
+        if (this.shouldCompact(state, lines.length)) {
+          // The snapshot already reflects every pending entry
+          await this.compact(namespace, state);
+        } else {
+          await fs.mkdir(this.config.directory, { recursive: true });
+          await fs.appendFile(this.getFilePath(namespace), lines.join('\n') + '\n', 'utf-8');
+          state.logLines += lines.length;
+        }
+      }
+    } catch (error) {
+      // Entries in the failed batch are only in memory now; rewrite everything next time
+      state.needsCompaction = true;
+      this.logger.error(
+        'Failed to write storage namespace',
+        error instanceof Error ? error : new Error(String(error)),
+        { namespace }
+      );
+    } finally {
+      state.writing = null;
+    }
+  }
+
+  private shouldCompact(state: NamespaceState, appending: number): boolean {
+    const logLines = state.logLines + appending;
+    return state.needsCompaction || (logLines > this.config.compactThreshold && logLines > 2 * state.records.size);
+  }
+
+  /**
+   * Replace the log with one entry per live record
+   */
+  private async compact(namespace: string, state: NamespaceState): Promise<void> {
+    const filePath = this.getFilePath(namespace);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    // Leading clear keeps a leftover legacy snapshot from resurrecting deleted records
+    const lines = [JSON.stringify({ op: 'clear' })];
+    for (const [key, value] of state.records) {
+      lines.push(JSON.stringify({ op: 'set', key, value }));
+    }
+    state.needsCompaction = false;
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await fs.writeFile(tempPath, lines.join('\n') + '\n', 'utf-8');
+    await fs.rename(tempPath, filePath);
+    await fs.rm(this.getLegacyFilePath(namespace), { force: true });
+    state.logLines = lines.length;
+
+    this.logger.debug('Storage namespace compacted', { namespace, records: state.records.size });
+  }
+
+  private getFilePath(namespace: string): string {
+    return path.join(this.config.directory, `${encodeURIComponent(namespace)}.jsonl`);
+  }
+
+  private getLegacyFilePath(namespace: string): string {
+    return path.join(this.config.directory, `${encodeURIComponent(namespace)}.json`);
+  }
+
+  private clone(value: unknown): unknown {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Memory Storage Adapter
+ *
+ * Non-durable StorageAdapter for tests and single-process development.
+ * Values are stored serialized so callers get the same copy semantics
+ * as a real backend.
+ */
+
+import { StorageAdapter } from './storage-adapter.js';
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private namespaces: Map<string, Map<string, string>> = new Map();
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const raw = this.namespaces.get(namespace)?.get(key);
+    return raw === undefined ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(namespace: string, key: string, value: T): Promise<void> {
+    let records = this.namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(namespace, records);
+    }
+    records.set(key, JSON.stringify(value));
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.namespaces.get(namespace)?.delete(key);
+  }
+
+  async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+    const records = this.namespaces.get(namespace);
+    if (!records) {
+      return [];
+    }
+    return Array.from(records.entries()).map(([key, raw]) => [key, JSON.parse(raw) as T]);
+  }
+
+  async clear(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+
+  async flush(): Promise<void> {
+    // Writes are applied synchronously
+  }
+}
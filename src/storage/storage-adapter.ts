@@ -0,0 +1,90 @@
+/**
+ * Storage Adapter
+ *
+ * Pluggable persistence for stateful managers:
+ * - Namespaced key/value records (one namespace per collection)
+ * - JSON-serializable values only
+ * - Write-through from synchronous manager APIs
+ * - Memory and file-backed implementations
+ */
+
+import { Logger } from '../utils/logger.js';
+
+export interface StorageAdapter {
+  /**
+   * Get a single record
+   */
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+
+  /**
+   * Create or replace a record
+   */
+  set<T>(namespace: string, key: string, value: T): Promise<void>;
+
+  /**
+   * Delete a record
+   */
+  delete(namespace: string, key: string): Promise<void>;
+
+  /**
+   * List all records in a namespace, in insertion order
+   */
+  entries<T>(namespace: string): Promise<Array<[string, T]>>;
+
+  /**
+   * Delete every record in a namespace
+   */
+  clear(namespace: string): Promise<void>;
+
+  /**
+   * Wait until all pending writes are durable
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * A single namespace bound to an adapter.
+ *
+ * Managers keep their in-memory Maps as the source of truth for reads and
+ * use this to mirror every mutation to the adapter. Writes are fire-and-forget
+ * so manager APIs can stay synchronous; failures are logged, not thrown.
+ */
+export class PersistentCollection<T> {
+  private logger: Logger;
+
+  constructor(
+    private adapter: StorageAdapter,
+    readonly namespace: string
+  ) {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Load all persisted records
+   */
+  async load(): Promise<Map<string, T>> {
+    return new Map(await this.adapter.entries<T>(this.namespace));
+  }
+
+  /**
+   * Persist a record
+   */
+  save(key: string, value: T): void {
+    this.adapter.set(this.namespace, key, value).catch((error) => this.onError('set', key, error));
+  }
+
+  /**
+   * Remove a persisted record
+   */
+  remove(key: string): void {
+    this.adapter.delete(this.namespace, key).catch((error) => this.onError('delete', key, error));
+  }
+
+  private onError(operation: string, key: string, error: unknown): void {
+    this.logger.error(
+      'Storage write failed',
+      error instanceof Error ? error : new Error(String(error)),
+      { namespace: this.namespace, key, operation }
+    );
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * SSE Reassembler
+ *
+ * Rebuilds the assistant text of a streaming response from its SSE events so
+ * values split across deltas (an email in "test@" + "example.com") are
+ * scanned whole. Events are held back until the text they carry is at least
+ * `holdBackChars` behind the newest text, or for at most `maxHoldBackMs`;
+ * sensitive spans found in the held text are redacted before the events are
+ * re-encoded and released in their original order. Spans may carry their
+ * own replacement text, which is how tokenization placeholders are restored.
+ *
+ * Each channel (choice, content block, candidate) is scanned over a rolling
+ * window of already released text plus the held text. The text released to
+ * the client is kept as a transcript for auditing if the stream is stopped,
+ * and the token usage reported by the provider (or estimated from the
+ * deltas) is kept for cost accounting.
+ */
+
+import { AIServiceProvider } from '../types/index.js';
+import { estimateTokens } from '../utils/token-estimator.js';
+import { StreamDecoder, StreamTerminationContext, StreamUsage, getStreamDecoder } from './stream-decoders.js';
+
+export interface SensitiveSpan {
+  start: number;
+  end: number;
+  type: string;
+  replacement?: string; // Text put in place of the span instead of the redaction marker (restored values)
+}
+
+export interface SSEReassemblerConfig {
+  provider?: AIServiceProvider;
+  detect: (text: string) => Promise<SensitiveSpan[]>; // Spans in the given window text
+  windowSize: number; // Released characters kept as scanning context
+  holdBackChars: number;
+  maxHoldBackMs: number;
+  replacement?: string; // Default [REDACTED]
+}
+
+export interface RedactionEvent {
+  channel: number;
+  type: string;
+  leaked: boolean; // Part of the value was released before it was recognized
+}
+
+interface HeldDelta {
+  channel: number;
+  start: number; // Offsets in the channel's held text
+  end: number;
+}
+
+interface HeldEvent {
+  lines: string[];
+  payload?: any;
+  decoder?: StreamDecoder;
+  deltas: HeldDelta[];
+  receivedAt: number;
+}
+
+const MAX_TRANSCRIPT_CHARS = 65536; // Per channel
+
+interface ChannelState {
+  transcript: string; // Text sent to the client, after redaction
+  released: string; // Tail of the original released text
+  held: string; // Original text not yet released
+  spans: SensitiveSpan[]; // In held coordinates; a negative start was redacted in an earlier event
+}
+
+export class SSEReassembler {
+  private queue: HeldEvent[] = [];
+  private channels = new Map<number, ChannelState>();
+  private redactions: RedactionEvent[] = [];
+  private replacement: string;
+  private decoder?: StreamDecoder;
+  private response: Pick<StreamTerminationContext, 'id' | 'model' | 'created'> = {};
+  private usage: StreamUsage = {};
+  private estimatedOutputTokens = 0;
+
+  constructor(private config: SSEReassemblerConfig) {
+    this.replacement = config.replacement ?? '[REDACTED]';
+  }
+
+  /**
+   * Add one raw SSE event (without the blank-line separator); returns the
+   * events that can be released, re-encoded
+   */
+  async push(rawEvent: string, now: number = Date.now()): Promise<string[]> {
+    const event = this.parseEvent(rawEvent, now);
+    this.queue.push(event);
+
+    const changed = new Set<number>();
+    for (const delta of event.decoder?.extract(event.payload) || []) {
+      const channel = this.channel(delta.channel);
+      event.deltas.push({ channel: delta.channel, start: channel.held.length, end: channel.held.length + delta.text.length });
+      channel.held += delta.text;
+      changed.add(delta.channel);
+      this.estimatedOutputTokens += estimateTokens(delta.text);
+    }
+
+    for (const id of changed) {
+      await this.rescan(id);
+    }
+
+    const terminal = event.payload === '[DONE]' || (event.decoder?.isTerminal(event.payload) ?? false);
+    return this.release(terminal, now);
+  }
+
+  /**
+   * Release everything still held (end of stream)
+   */
+  flush(): string[] {
+    return this.release(true, Date.now());
+  }
+
+  /**
+   * Release events held longer than maxHoldBackMs, and whatever follows them
+   */
+  releaseExpired(now: number = Date.now()): string[] {
+    return this.release(false, now);
+  }
+
+  /**
+   * When the oldest held event must be released
+   */
+  holdDeadline(): number | undefined {
+    return this.queue.length > 0 ? this.queue[0].receivedAt + this.config.maxHoldBackMs : undefined;
+  }
+
+  /**
+   * Drop everything still held (the stream is being stopped)
+   */
+  discard(): void {
+    this.queue = [];
+    for (const channel of this.channels.values()) {
+      channel.held = '';
+      channel.spans = [];
+    }
+  }
+
+  /**
+   * Decoder of the stream's events, once one has been recognized
+   */
+  getDecoder(): StreamDecoder | undefined {
+    return this.decoder;
+  }
+
+  /**
+   * What a provider-shaped end of stream needs to know about this response
+   */
+  getTerminationContext(reason: string): StreamTerminationContext {
+    return { ...this.response, channels: [...this.channels.keys()].sort((a, b) => a - b), reason };
+  }
+
+  /**
+   * Text sent to the client so far, channels in order
+   */
+  getTranscript(): string {
+    return [...this.channels.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, channel]) => channel.transcript)
+      .join('\n\n');
+  }
+
+  /**
+   * Token usage reported by the provider; counts it did not report are missing
+   */
+  getUsage(): StreamUsage {
+    return { ...this.usage };
+  }
+
+  /**
+   * Output tokens estimated from the text deltas received so far
+   */
+  getEstimatedOutputTokens(): number {
+    return this.estimatedOutputTokens;
+  }
+
+  /**
+   * Redactions applied so far
+   */
+  getRedactions(): RedactionEvent[] {
+    return [...this.redactions];
+  }
+
+  private channel(id: number): ChannelState {
+    let channel = this.channels.get(id);
+    if (!channel) {
+      channel = { transcript: '', released: '', held: '', spans: [] };
+      this.channels.set(id, channel);
+    }
+    return channel;
+  }
+
+  private parseEvent(rawEvent: string, now: number): HeldEvent {
+    const lines = rawEvent.split('\n');
+    const data = lines
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(line.startsWith('data: ') ? 6 : 5))
+      .join('\n');
+    const event: HeldEvent = { lines, deltas: [], receivedAt: now };
+
+    if (!data) return event;
+    if (data === '[DONE]') {
+      event.payload = data;
+      return event;
+    }
+
+    try {
+      event.payload = JSON.parse(data);
+      event.decoder = getStreamDecoder(event.payload, this.config.provider);
+      this.decoder = this.decoder || event.decoder;
+      this.recordResponse(event.payload);
+      this.recordUsage(event.decoder?.usage(event.payload));
+    } catch {
+      // Not JSON: passed through unscanned
+    }
+    return event;
+  }
+
+  /**
+   * Response ID and model: top level (OpenAI), in message_start (Anthropic),
+   * or responseId/modelVersion (Gemini)
+   */
+  private recordResponse(payload: any): void {
+    const source = payload?.message || payload;
+    this.response.id = this.response.id ?? source?.id ?? source?.responseId;
+    this.response.model = this.response.model ?? source?.model ?? source?.modelVersion;
+    this.response.created = this.response.created ?? source?.created;
+  }
+
+  private recordUsage(usage: StreamUsage | undefined): void {
+    if (typeof usage?.inputTokens === 'number') this.usage.inputTokens = usage.inputTokens;
+    if (typeof usage?.outputTokens === 'number') this.usage.outputTokens = usage.outputTokens;
+  }
+
+  /**
+   * Merge spans found in the channel's window into its held spans
+   */
+  private async rescan(id: number): Promise<void> {
+    const channel = this.channel(id);
+    const offset = channel.released.length;
+    const found = await this.config.detect(channel.released + channel.held);
+
+    for (const span of found) {
+      const start = span.start - offset;
+      const end = span.end - offset;
+      if (end <= 0) continue; // Entirely released before
+
+      const overlapping = channel.spans.find((s) => s.start < end && start < s.end);
+      if (overlapping) {
+        overlapping.end = Math.max(overlapping.end, end);
+        if (start < overlapping.start && overlapping.start > 0) overlapping.start = Math.max(0, start);
+        continue;
+      }
+
+      channel.spans.push({ start: Math.max(0, start), end, type: span.type, replacement: span.replacement });
+      if (span.replacement === undefined) {
+        this.redactions.push({ channel: id, type: span.type, leaked: start < 0 });
+      }
+    }
+
+    channel.spans.sort((a, b) => a.start - b.start);
+  }
+
+  private release(force: boolean, now: number): string[] {
+    const released: string[] = [];
+    const expired = this.holdDeadline() !== undefined && now >= this.holdDeadline()!;
+    const safe = new Map<number, number>();
+
+    for (const [id, channel] of this.channels) {
+      let point = force || expired ? channel.held.length : Math.max(0, channel.held.length - this.config.holdBackChars);
+      // Never cut through a value that may still be growing
+      for (const span of channel.spans) {
+        if (!force && span.start < point && point < channel.held.length && span.end >= point) {
+          point = Math.min(point, Math.max(0, span.start));
+        }
+      }
+      safe.set(id, point);
+    }
+
+    const consumed = new Map<number, number>();
+    while (this.queue.length > 0) {
+      const event = this.queue[0];
+      if (!event.deltas.every((d) => d.end <= safe.get(d.channel)!)) break;
+
+      this.queue.shift();
+      released.push(this.encode(event));
+      for (const delta of event.deltas) {
+        consumed.set(delta.channel, Math.max(consumed.get(delta.channel) || 0, delta.end));
+      }
+    }
+
+    for (const [id, length] of consumed) {
+      this.trim(id, length);
+    }
+
+    return released;
+  }
+
+  /**
+   * Re-encode the event with its deltas' text redacted
+   */
+  private encode(event: HeldEvent): string {
+    if (event.deltas.length === 0 || !event.decoder) {
+      return event.lines.join('\n') + '\n\n';
+    }
+
+    const texts = new Map<number, string>();
+    let changed = false;
+    for (const delta of event.deltas) {
+      const channel = this.channel(delta.channel);
+      const text = this.redact(channel, delta.start, delta.end);
+      texts.set(delta.channel, text);
+      changed = changed || text !== channel.held.slice(delta.start, delta.end);
+      if (channel.transcript.length < MAX_TRANSCRIPT_CHARS) {
+        channel.transcript = (channel.transcript + text).slice(0, MAX_TRANSCRIPT_CHARS);
+      }
+    }
+    if (!changed) {
+      return event.lines.join('\n') + '\n\n';
+    }
+
+    const data = `data: ${JSON.stringify(event.decoder.rewrite(event.payload, texts))}`;
+    const lines = event.lines.filter((line) => !line.startsWith('data:'));
+    const dataIndex = event.lines.findIndex((line) => line.startsWith('data:'));
+    lines.splice(dataIndex, 0, data);
+    return lines.join('\n') + '\n\n';
+  }
+
+  /**
+   * The held text in [start, end) with spans replaced; the replacement goes
+   * where the span starts
+   */
+  private redact(channel: ChannelState, start: number, end: number): string {
+    let text = '';
+    let position = start;
+
+    for (const span of channel.spans) {
+      if (span.end <= start || span.start >= end) continue;
+      if (span.start > position) text += channel.held.slice(position, span.start);
+      if (span.start >= start) text += span.replacement ?? this.replacement;
+      position = Math.max(position, Math.min(end, span.end));
+    }
+
+    return text + channel.held.slice(position, end);
+  }
+
+  /**
+   * Move the first `length` held characters of the channel to its released text
+   */
+  private trim(id: number, length: number): void {
+    const channel = this.channel(id);
+    channel.released = (channel.released + channel.held.slice(0, length)).slice(-this.config.windowSize);
+    channel.held = channel.held.slice(length);
+    channel.spans = channel.spans
+      .map((span) => ({ ...span, start: span.start - length, end: span.end - length }))
+      .filter((span) => span.end > 0);
+
+    for (const event of this.queue) {
+      for (const delta of event.deltas) {
+        if (delta.channel === id) {
+          delta.start -= length;
+          delta.end -= length;
+        }
+      }
+    }
+  }
+}
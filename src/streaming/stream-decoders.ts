@@ -0,0 +1,199 @@
+/**
+ * Stream Decoders
+ *
+ * Provider-specific views of streaming (SSE) event payloads: which assistant
+ * text deltas an event carries, how to put rewritten text back into it, and
+ * whether it ends the generated text. A channel is one independent text
+ * stream: an OpenAI choice, an Anthropic content block or a Gemini candidate.
+ *
+ * Decoders also build the provider's own end-of-stream events, so a stream
+ * stopped by the proxy ends the way the client SDK expects instead of
+ * hanging or failing to parse, and read the token usage the provider reports
+ * in its final events.
+ */
+
+import { AIServiceProvider } from '../types/index.js';
+
+export interface StreamTextDelta {
+  channel: number;
+  text: string;
+}
+
+export interface StreamUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface StreamTerminationContext {
+  channels: number[]; // Channels that carried text
+  id?: string; // Response ID and model from the upstream events
+  model?: string;
+  created?: number;
+  reason: string;
+}
+
+export interface StreamDecoder {
+  name: string;
+  matches(data: any): boolean;
+  extract(data: any): StreamTextDelta[];
+  rewrite(data: any, texts: Map<number, string>): any; // Returns a rewritten copy
+  isTerminal(data: any): boolean;
+  usage(data: any): StreamUsage | undefined; // Counts so far; later events supersede earlier ones
+  terminate(context: StreamTerminationContext): string[]; // Raw SSE events ending the stream
+}
+
+function sseEvent(data: unknown, event?: string): string {
+  return `${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+function channelsOrFirst(context: StreamTerminationContext): number[] {
+  return context.channels.length > 0 ? context.channels : [0];
+}
+
+const openAIDecoder: StreamDecoder = {
+  name: 'openai',
+  matches: (data) => Array.isArray(data?.choices),
+  extract: (data) =>
+    data.choices
+      .map((choice: any, i: number) => ({ channel: choice.index ?? i, text: choice.delta?.content ?? choice.text }))
+      .filter((delta: StreamTextDelta) => typeof delta.text === 'string' && delta.text.length > 0),
+  rewrite: (data, texts) => ({
+    ...data,
+    choices: data.choices.map((choice: any, i: number) => {
+      const text = texts.get(choice.index ?? i);
+      if (text === undefined) return choice;
+      return typeof choice.delta?.content === 'string'
+        ? { ...choice, delta: { ...choice.delta, content: text } }
+        : { ...choice, text };
+    }),
+  }),
+  isTerminal: (data) => data.choices.some((choice: any) => choice.finish_reason),
+  // Final chunk with empty choices when the request sets stream_options.include_usage
+  usage: (data) =>
+    data.usage ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens } : undefined,
+  terminate: (context) => [
+    sseEvent({
+      id: context.id,
+      object: 'chat.completion.chunk',
+      created: context.created ?? Math.floor(Date.now() / 1000),
+      model: context.model,
+      choices: channelsOrFirst(context).map((index) => ({ index, delta: {}, finish_reason: 'content_filter' })),
+    }),
+    sseEvent('[DONE]'),
+  ],
+};
+
+const anthropicDecoder: StreamDecoder = {
+  name: 'anthropic',
+  matches: (data) => typeof data?.type === 'string' && !Array.isArray(data.choices),
+  extract: (data) =>
+    data.type === 'content_block_delta' && typeof data.delta?.text === 'string' && data.delta.text.length > 0
+      ? [{ channel: data.index ?? 0, text: data.delta.text }]
+      : [],
+  rewrite: (data, texts) => {
+    const text = texts.get(data.index ?? 0);
+    return text === undefined ? data : { ...data, delta: { ...data.delta, text } };
+  },
+  isTerminal: (data) => ['content_block_stop', 'message_delta', 'message_stop'].includes(data.type),
+  // message_start carries the input tokens, message_delta the cumulative output tokens
+  usage: (data) => {
+    const usage = data.type === 'message_start' ? data.message?.usage : data.usage;
+    return usage ? { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens } : undefined;
+  },
+  terminate: (context) => [
+    ...context.channels.map((index) => sseEvent({ type: 'content_block_stop', index }, 'content_block_stop')),
+    sseEvent(
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'refusal', stop_sequence: null },
+        usage: { output_tokens: 0 },
+      },
+      'message_delta'
+    ),
+    sseEvent(
+      { type: 'message_stop', error: { type: 'content_policy_violation', message: context.reason } },
+      'message_stop'
+    ),
+  ],
+};
+
+const geminiDecoder: StreamDecoder = {
+  name: 'gemini',
+  matches: (data) => Array.isArray(data?.candidates),
+  extract: (data) =>
+    data.candidates
+      .map((candidate: any, i: number) => ({
+        channel: candidate.index ?? i,
+        text: (candidate.content?.parts || [])
+          .map((part: any) => (typeof part.text === 'string' ? part.text : ''))
+          .join(''),
+      }))
+      .filter((delta: StreamTextDelta) => delta.text.length > 0),
+  // All of a candidate's text goes into its first text part
+  rewrite: (data, texts) => ({
+    ...data,
+    candidates: data.candidates.map((candidate: any, i: number) => {
+      const text = texts.get(candidate.index ?? i);
+      if (text === undefined || !candidate.content?.parts) return candidate;
+      const first = candidate.content.parts.findIndex((part: any) => typeof part.text === 'string');
+      return {
+        ...candidate,
+        content: {
+          ...candidate.content,
+          parts: candidate.content.parts.map((part: any, j: number) =>
+            typeof part.text !== 'string' ? part : { ...part, text: j === first ? text : '' }
+          ),
+        },
+      };
+    }),
+  }),
+  isTerminal: (data) => data.candidates.some((candidate: any) => candidate.finishReason),
+  // Cumulative on every chunk
+  usage: (data) =>
+    data.usageMetadata
+      ? { inputTokens: data.usageMetadata.promptTokenCount, outputTokens: data.usageMetadata.candidatesTokenCount }
+      : undefined,
+  terminate: (context) => [
+    sseEvent({
+      candidates: channelsOrFirst(context).map((index) => ({
+        content: { parts: [{ text: '' }], role: 'model' },
+        finishReason: 'SAFETY',
+        index,
+      })),
+      ...(context.model ? { modelVersion: context.model } : {}),
+    }),
+  ],
+};
+
+const DECODERS_BY_PROVIDER: Partial<Record<AIServiceProvider, StreamDecoder>> = {
+  [AIServiceProvider.OPENAI]: openAIDecoder,
+  [AIServiceProvider.ANTHROPIC]: anthropicDecoder,
+  [AIServiceProvider.GOOGLE]: geminiDecoder,
+};
+
+// Detection order for unknown providers: the most specific shapes first
+const DECODERS: StreamDecoder[] = [openAIDecoder, geminiDecoder, anthropicDecoder];
+
+/**
+ * Decoder for the provider's stream format, if it has one
+ */
+export function getProviderStreamDecoder(provider?: AIServiceProvider): StreamDecoder | undefined {
+  return provider ? DECODERS_BY_PROVIDER[provider] : undefined;
+}
+
+/**
+ * Generic SSE error event for streams in an unknown format
+ */
+export function streamErrorEvent(reason: string): string {
+  return sseEvent({ error: { type: 'content_policy_violation', message: reason } }, 'error');
+}
+
+/**
+ * Decoder for the provider's event payload; other providers (and payloads in
+ * another provider's format, e.g. after a redirect) are detected by shape
+ */
+export function getStreamDecoder(data: any, provider?: AIServiceProvider): StreamDecoder | undefined {
+  const preferred = provider ? DECODERS_BY_PROVIDER[provider] : undefined;
+  if (preferred?.matches(data)) return preferred;
+  return DECODERS.find((decoder) => decoder.matches(data));
+}
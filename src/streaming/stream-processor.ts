@@ -2,9 +2,19 @@
  * Streaming Response Processor
  * 
  * Handles Server-Sent Events (SSE) streaming responses with:
- * - Real-time security scanning of chunks
- * - PII detection and redaction in streams
- * - Content buffering and context maintenance
+ * - Provider-aware reassembly of the assistant text from delta events
+ *   (OpenAI choices, Anthropic content blocks, Gemini candidates)
+ * - PII and secret detection over a rolling window of the reassembled text,
+ *   with events held back briefly so values split across deltas are
+ *   redacted before any part reaches the client
+ * - Toxicity scanning of the same window
+ * - Optional mid-stream termination: at a finding of the configured threat
+ *   level the upstream is cancelled and the client gets the provider's own
+ *   end-of-stream events (e.g. OpenAI finish_reason "content_filter")
+ * - Tokenization placeholders (<EMAIL_1>) swapped back for the original
+ *   values in the reassembled text, with the vault entry released at the end
+ * - Token usage from the provider's final events (estimated from the text
+ *   when missing), reported once the stream ends for cost accounting
  * - Backpressure handling
  * - Error recovery
  */
@@ -12,15 +22,22 @@
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { PIIScanner } from '../scanners/pii-scanner.js';
+import { SecretsScanner } from '../scanners/secrets-scanner.js';
 import { ToxicityScanner } from '../scanners/toxicity-scanner.js';
 import { Finding, ThreatLevel, AIServiceProvider } from '../types/index.js';
+import { TokenVault } from '../policy/token-vault.js';
+import { StreamUsage, getProviderStreamDecoder, getStreamDecoder, streamErrorEvent } from './stream-decoders.js';
+import { SensitiveSpan, SSEReassembler } from './sse-reassembler.js';
 
 export interface StreamProcessorConfig {
   enablePIIRedaction: boolean;
+  enableSecretRedaction: boolean;
   enableToxicityScanning: boolean;
   bufferSize: number; // Size of sliding window buffer
   chunkTimeout: number; // Timeout for chunk processing
   maxBufferedChunks: number; // Max chunks to buffer
+  holdBackChars: number; // Newest characters held back until more text arrives
+  maxHoldBackMs: number; // Upper bound on how long an event is held back
 }
 
 export interface StreamChunk {
@@ -37,10 +54,46 @@ export interface StreamScanResult {
   processedChunk: string;
 }
 
+export interface StreamTermination {
+  correlationId: string;
+  provider?: AIServiceProvider;
+  reason: string;
+  findingType: string;
+  threatLevel: ThreatLevel;
+  transcript: string; // Text the client received before the stream was stopped
+}
+
+export interface StreamCompletion {
+  correlationId: string;
+  provider?: AIServiceProvider;
+  outcome: 'completed' | 'terminated' | 'cancelled' | 'failed';
+  usage: StreamUsage; // As reported by the provider; missing counts were not reported
+  estimatedOutputTokens: number; // Estimated from the text deltas received
+  duration: number;
+}
+
+export interface StreamProcessingOptions {
+  provider?: AIServiceProvider;
+  terminateOn?: ThreatLevel; // Stop the stream at a finding of this level or above
+  tokenVault?: TokenVault; // Restores placeholders tokenized for this correlation ID
+  onTerminate?: (termination: StreamTermination) => void | Promise<void>;
+  onComplete?: (completion: StreamCompletion) => void | Promise<void>; // Called once, however the stream ends
+}
+
+interface StreamDetection {
+  type: string;
+  severity: ThreatLevel;
+}
+
+const HOLD_EXPIRED = Symbol('hold-expired');
+
+const THREAT_LEVELS: ThreatLevel[] = [ThreatLevel.NONE, ThreatLevel.LOW, ThreatLevel.MEDIUM, ThreatLevel.HIGH, ThreatLevel.CRITICAL];
+
 export class StreamProcessor {
   private logger: Logger;
   private metrics: MetricsCollector;
   private piiScanner: PIIScanner;
+  private secretsScanner: SecretsScanner;
   private toxicityScanner: ToxicityScanner;
   private config: Required<StreamProcessorConfig>;
   private buffer: string[] = [];
@@ -50,14 +103,18 @@ export class StreamProcessor {
     this.logger = new Logger();
     this.metrics = MetricsCollector.getInstance();
     this.piiScanner = new PIIScanner();
+    this.secretsScanner = new SecretsScanner();
     this.toxicityScanner = new ToxicityScanner();
     
     this.config = {
       enablePIIRedaction: config.enablePIIRedaction ?? true,
+      enableSecretRedaction: config.enableSecretRedaction ?? true,
       enableToxicityScanning: config.enableToxicityScanning ?? true,
       bufferSize: config.bufferSize ?? 1024, // 1KB sliding window
       chunkTimeout: config.chunkTimeout ?? 5000, // 5 seconds
       maxBufferedChunks: config.maxBufferedChunks ?? 100,
+      holdBackChars: config.holdBackChars ?? 64,
+      maxHoldBackMs: config.maxHoldBackMs ?? 250,
     };
   }
 
@@ -67,81 +124,184 @@ export class StreamProcessor {
    */
   processStream(
     sourceStream: ReadableStream<Uint8Array>,
-    correlationId: string
+    correlationId: string,
+    options: StreamProcessingOptions = {}
   ): ReadableStream<Uint8Array> {
     const self = this;
+    const { provider, terminateOn } = options;
+    const vault = options.tokenVault?.has(correlationId) ? options.tokenVault : undefined;
     const decoder = new TextDecoder();
     const encoder = new TextEncoder();
+    const reader = sourceStream.getReader();
+    const reported = new Set<string>();
+    const detections: StreamDetection[] = [];
+    const reassembler = new SSEReassembler({
+      provider,
+      detect: async (text) => [
+        ...(await self.detectSensitiveSpans(text, correlationId, reported, detections)),
+        ...(vault ? self.placeholderSpans(text, vault, correlationId) : []),
+      ],
+      windowSize: this.config.bufferSize,
+      holdBackChars: this.config.holdBackChars,
+      maxHoldBackMs: this.config.maxHoldBackMs,
+    });
 
-    // Use array buffer for better string concatenation performance
-    const bufferParts: string[] = [];
-    let chunkCount = 0;
+    let pending = '';
+    let pendingRead: Promise<ReadableStreamReadResult<Uint8Array>> | undefined;
+    let eventCount = 0;
+    let completed = false;
     const startTime = Date.now();
 
+    const complete = async (outcome: StreamCompletion['outcome']) => {
+      if (completed) return;
+      completed = true;
+      vault?.release(correlationId);
+
+      const usage = reassembler.getUsage();
+      if (usage.outputTokens === undefined) {
+        self.metrics.increment('stream_usage_estimated_total', 1, { provider: provider || 'unknown' });
+      }
+
+      try {
+        await options.onComplete?.({
+          correlationId,
+          provider,
+          outcome,
+          usage,
+          estimatedOutputTokens: reassembler.getEstimatedOutputTokens(),
+          duration: Date.now() - startTime,
+        });
+      } catch (error) {
+        self.logger.error('Stream completion handler failed', error as Error, { correlationId });
+      }
+    };
+
+    const enqueue = (controller: ReadableStreamDefaultController<Uint8Array>, events: string[]): number => {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(event));
+      }
+      return events.length;
+    };
+
+    // Events released by a push are only sent if the push found nothing that stops the stream
+    const pushEvent = async (controller: ReadableStreamDefaultController<Uint8Array>, event: string): Promise<number | undefined> => {
+      const events = await reassembler.push(event);
+      eventCount++;
+
+      const trigger = terminateOn
+        ? detections.find((d) => THREAT_LEVELS.indexOf(d.severity) >= THREAT_LEVELS.indexOf(terminateOn))
+        : undefined;
+      if (trigger) {
+        await terminate(controller, trigger);
+        return undefined;
+      }
+      return enqueue(controller, events);
+    };
+
+    const terminate = async (controller: ReadableStreamDefaultController<Uint8Array>, trigger: StreamDetection) => {
+      const reason = `Response stopped by content policy: ${trigger.type} (${trigger.severity})`;
+      const transcript = reassembler.getTranscript();
+      reassembler.discard();
+
+      const streamDecoder = reassembler.getDecoder() || getProviderStreamDecoder(provider);
+      enqueue(
+        controller,
+        streamDecoder ? streamDecoder.terminate(reassembler.getTerminationContext(reason)) : [streamErrorEvent(reason)]
+      );
+      controller.close();
+      reader.cancel(reason).catch(() => {
+        // Upstream already closed
+      });
+
+      self.logger.warn('Stream terminated', {
+        correlationId,
+        findingType: trigger.type,
+        threatLevel: trigger.severity,
+        events: eventCount,
+      });
+      self.metrics.increment('stream_terminated_total', 1, { type: trigger.type });
+
+      try {
+        await options.onTerminate?.({
+          correlationId,
+          provider,
+          reason,
+          findingType: trigger.type,
+          threatLevel: trigger.severity,
+          transcript,
+        });
+      } catch (error) {
+        self.logger.error('Stream termination handler failed', error as Error, { correlationId });
+      }
+      await complete('terminated');
+    };
+
     return new ReadableStream({
-      async start(controller) {
-        self.logger.info('Starting stream processing', { correlationId });
+      async start() {
+        self.logger.info('Starting stream processing', { correlationId, provider });
         self.metrics.increment('stream_processing_started_total');
       },
 
       async pull(controller) {
-        const reader = sourceStream.getReader();
-        
         try {
-          const { done, value } = await reader.read();
-          
-          if (done) {
-            // Process any remaining buffer
-            if (bufferParts.length > 0) {
-              const remainingBuffer = bufferParts.join('');
-              const processed = await self.processChunk(remainingBuffer, correlationId, chunkCount++);
-              controller.enqueue(encoder.encode(processed.processedChunk));
+          // A pull that enqueues nothing is not repeated, so keep reading until events are released
+          let released = 0;
+          while (released === 0) {
+            // Wait for the next upstream chunk, but no longer than the held events may wait
+            pendingRead = pendingRead || reader.read();
+            const deadline = reassembler.holdDeadline();
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const result = deadline === undefined
+              ? await pendingRead
+              : await Promise.race([
+                pendingRead,
+                new Promise<typeof HOLD_EXPIRED>((resolve) => {
+                  timer = setTimeout(() => resolve(HOLD_EXPIRED), Math.max(0, deadline - Date.now()));
+                }),
+              ]);
+            clearTimeout(timer);
+
+            if (result === HOLD_EXPIRED) {
+              self.metrics.increment('stream_holdback_expired_total');
+              released += enqueue(controller, reassembler.releaseExpired());
+              continue;
             }
+            pendingRead = undefined;
 
-            const duration = Date.now() - startTime;
-            self.logger.info('Stream processing completed', {
-              correlationId,
-              duration,
-              chunks: chunkCount,
-            });
-            self.metrics.histogram('stream_processing_duration_ms', duration);
-            self.metrics.counter('stream_processing_completed_total');
-
-            controller.close();
-            return;
-          }
-
-          // Decode chunk
-          const chunk = decoder.decode(value, { stream: true });
-          bufferParts.push(chunk);
-
-          // Process complete SSE events (join only when needed)
-          const fullBuffer = bufferParts.join('');
-          const events = fullBuffer.split('\n\n');
+            if (result.done) {
+              // Process any remaining buffer
+              pending += decoder.decode();
+              if (pending.trim() && (await pushEvent(controller, pending.replace(/\n+$/, ''))) === undefined) {
+                return;
+              }
+              enqueue(controller, reassembler.flush());
+
+              const duration = Date.now() - startTime;
+              const redactions = reassembler.getRedactions();
+              self.logger.info('Stream processing completed', {
+                correlationId,
+                duration,
+                chunks: eventCount,
+                redactions: redactions.length,
+              });
+              self.metrics.histogram('stream_processing_duration_ms', duration);
+              self.metrics.counter('stream_processing_completed_total');
+
+              controller.close();
+              await complete('completed');
+              return;
+            }
 
-          // Keep incomplete event in buffer
-          const incomplete = events.pop() || '';
-          bufferParts.length = 0;
-          if (incomplete) {
-            bufferParts.push(incomplete);
-          }
+            // Complete SSE events end with a blank line
+            pending += decoder.decode(result.value, { stream: true }).replace(/\r\n/g, '\n');
+            const events = pending.split('\n\n');
+            pending = events.pop() || '';
 
-          for (const event of events) {
-            if (event.trim()) {
-              const processed = await self.processChunk(event + '\n\n', correlationId, chunkCount++);
-              
-              // Enqueue processed chunk
-              controller.enqueue(encoder.encode(processed.processedChunk));
-              
-              // Log findings
-              if (processed.findings.length > 0) {
-                self.logger.warn('Security findings in stream chunk', {
-                  correlationId,
-                  chunkIndex: chunkCount - 1,
-                  findings: processed.findings.length,
-                  threatLevel: processed.threatLevel,
-                });
-              }
+            for (const event of events) {
+              if (!event.trim()) continue;
+              const count = await pushEvent(controller, event);
+              if (count === undefined) return;
+              released += count;
             }
           }
         } catch (error) {
@@ -150,18 +310,98 @@ export class StreamProcessor {
           });
           self.metrics.increment('stream_processing_error_total');
           controller.error(error);
-        } finally {
-          reader.releaseLock();
+          await complete('failed');
         }
       },
 
-      cancel(reason) {
+      async cancel(reason) {
         self.logger.info('Stream processing cancelled', { correlationId, reason });
         self.metrics.increment('stream_processing_cancelled_total');
+        await reader.cancel(reason);
+        await complete('cancelled');
       },
     });
   }
 
+  /**
+   * PII and secret spans in a window of reassembled stream text; toxicity is
+   * reported once per finding type
+   */
+  private async detectSensitiveSpans(
+    text: string,
+    correlationId: string,
+    reported: Set<string>,
+    detections: StreamDetection[]
+  ): Promise<SensitiveSpan[]> {
+    const spans: Array<SensitiveSpan & { severity: ThreatLevel }> = [];
+
+    if (this.config.enablePIIRedaction) {
+      const severities = new Map(this.piiScanner.getAllPatterns().map((p) => [p.name, p.severity]));
+      for (const evaluation of this.piiScanner.explainMatches(text)) {
+        if (evaluation.accepted) {
+          spans.push({
+            start: evaluation.index,
+            end: evaluation.index + evaluation.value.length,
+            type: evaluation.pattern,
+            severity: severities.get(evaluation.pattern) || ThreatLevel.MEDIUM,
+          });
+        }
+      }
+    }
+
+    if (this.config.enableSecretRedaction) {
+      for (const secret of this.secretsScanner.locateSecrets(text)) {
+        spans.push({ start: secret.start, end: secret.end, type: secret.description, severity: secret.severity });
+      }
+    }
+
+    for (const span of spans) {
+      const key = `${span.type}:${text.slice(span.start, span.end)}`;
+      if (!reported.has(key)) {
+        reported.add(key);
+        detections.push({ type: span.type, severity: span.severity });
+        this.metrics.increment('stream_redactions_total', 1, { type: span.type });
+        this.logger.warn('Redacting sensitive value in stream', { correlationId, type: span.type });
+      }
+    }
+
+    if (this.config.enableToxicityScanning) {
+      const toxicityResult = await this.toxicityScanner.scan({
+        provider: AIServiceProvider.UNKNOWN,
+        model: 'unknown',
+        messages: [{ role: 'assistant', content: text }],
+        parameters: {},
+        streaming: true,
+        metadata: { correlationId, requestId: correlationId, timestamp: Date.now() },
+      });
+
+      for (const finding of toxicityResult.findings) {
+        if (!reported.has(`toxicity:${finding.type}`)) {
+          reported.add(`toxicity:${finding.type}`);
+          detections.push({ type: finding.type, severity: finding.severity });
+          this.metrics.increment('stream_chunk_toxicity_detected_total');
+          this.logger.warn('Security findings in stream', {
+            correlationId,
+            type: finding.type,
+            threatLevel: finding.severity,
+          });
+        }
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Placeholders in a window of reassembled stream text, replaced by their
+   * original values
+   */
+  private placeholderSpans(text: string, vault: TokenVault, correlationId: string): SensitiveSpan[] {
+    return vault
+      .findTokens(correlationId, text)
+      .map((token) => ({ start: token.start, end: token.end, type: 'placeholder', replacement: token.value }));
+  }
+
   /**
    * Process a single chunk
    */
@@ -312,33 +552,8 @@ export class StreamProcessor {
    * Extract content from chunk based on provider format
    */
   private extractContentFromChunk(data: any): string | null {
-    // OpenAI format
-    if (data.choices && Array.isArray(data.choices)) {
-      for (const choice of data.choices) {
-        if (choice.delta?.content) {
-          return choice.delta.content;
-        }
-        if (choice.text) {
-          return choice.text;
-        }
-      }
-    }
-
-    // Anthropic format
-    if (data.type === 'content_block_delta' && data.delta?.text) {
-      return data.delta.text;
-    }
-
-    // Google format
-    if (data.candidates && Array.isArray(data.candidates)) {
-      for (const candidate of data.candidates) {
-        if (candidate.content?.parts) {
-          return candidate.content.parts.map((p: any) => p.text).join('');
-        }
-      }
-    }
-
-    return null;
+    const deltas = getStreamDecoder(data)?.extract(data) || [];
+    return deltas.length > 0 ? deltas.map((delta) => delta.text).join('') : null;
   }
 
   /**
@@ -12,6 +12,7 @@
 import { Logger } from '../utils/logger.js';
 import { MetricsCollector } from '../utils/metrics.js';
 import { Policy } from '../policy/policy-engine.js';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
 
 export interface Tenant {
   id: string;
@@ -111,6 +112,8 @@ export class TenantManager {
   private metrics: MetricsCollector;
   private tenants: Map<string, Tenant>;
   private usage: Map<string, TenantUsage[]>;
+  private tenantStore?: PersistentCollection<Tenant>;
+  private usageStore?: PersistentCollection<TenantUsage[]>;
 
   constructor() {
     this.logger = new Logger();
@@ -119,6 +122,35 @@ export class TenantManager {
     this.usage = new Map();
   }
 
+  /**
+   * Load tenants and usage from durable storage and write through all future changes
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const tenantStore = new PersistentCollection<Tenant>(storage, 'tenants');
+    const usageStore = new PersistentCollection<TenantUsage[]>(storage, 'tenant_usage');
+
+    const [tenants, usage] = await Promise.all([tenantStore.load(), usageStore.load()]);
+
+    for (const [tenantId, tenant] of tenants) {
+      this.tenants.set(tenantId, tenant);
+    }
+    for (const [tenantId, usageList] of usage) {
+      this.usage.set(tenantId, usageList);
+    }
+
+    // Persist anything created before storage was attached
+    for (const [tenantId, tenant] of this.tenants) {
+      if (!tenants.has(tenantId)) tenantStore.save(tenantId, tenant);
+    }
+    for (const [tenantId, usageList] of this.usage) {
+      if (!usage.has(tenantId)) usageStore.save(tenantId, usageList);
+    }
+
+    this.tenantStore = tenantStore;
+    this.usageStore = usageStore;
+    this.logger.info('Tenant storage attached', { tenantCount: this.tenants.size });
+  }
+
   /**
    * Create a new tenant
    */
@@ -145,6 +177,7 @@ export class TenantManager {
     };
 
     this.tenants.set(tenant.id, tenant);
+    this.tenantStore?.save(tenant.id, tenant);
     this.logger.info('Tenant created', { tenantId: tenant.id, name: tenant.name });
     this.metrics.increment('tenant_created_total');
 
@@ -224,6 +257,7 @@ export class TenantManager {
     if (updates.metadata) tenant.metadata = { ...tenant.metadata, ...updates.metadata };
 
     this.tenants.set(tenantId, tenant);
+    this.tenantStore?.save(tenantId, tenant);
     this.logger.info('Tenant updated', { tenantId });
 
     return tenant;
@@ -240,6 +274,8 @@ export class TenantManager {
 
     this.tenants.delete(tenantId);
     this.usage.delete(tenantId);
+    this.tenantStore?.remove(tenantId);
+    this.usageStore?.remove(tenantId);
 
     this.logger.info('Tenant deleted', { tenantId });
     this.metrics.increment('tenant_deleted_total');
@@ -277,6 +313,8 @@ export class TenantManager {
       if (params.blocked) usage.blockedRequests++;
       if (params.error) usage.errors++;
     }
+
+    this.usageStore?.save(params.tenantId, this.usage.get(params.tenantId)!);
   }
 
   /**
@@ -79,6 +79,7 @@ export interface ContentPart {
   text?: string;
   imageUrl?: string;
   imageData?: string;
+  data?: string; // Document content: base64 or a data: URL
   mimeType?: string;
 }
 
@@ -117,6 +118,8 @@ export interface RequestMetadata {
   requestId?: string;
   timestamp?: number;
   endpoint?: string;
+  tenantId?: string;
+  headers?: Record<string, string>;
 }
 
 // Type alias for AIProvider (for backwards compatibility)
@@ -171,6 +174,7 @@ export interface AggregatedScanResult {
   findings: Finding[];
   totalExecutionTimeMs: number;
   timestamp: number;
+  skippedScanners?: string[]; // Not run: later stage not needed, early exit or tenant selection
 }
 
 // ============================================================================
@@ -193,16 +197,58 @@ export interface Policy {
   description: string;
   enabled: boolean;
   priority: number;
+  mode?: PolicyMode; // Defaults to 'enforce'
   conditions: PolicyCondition[];
   actions: PolicyActionConfig[];
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * 'shadow' policies are evaluated on live traffic and their would-be
+ * decisions recorded, but they never affect the enforced decision.
+ */
+export type PolicyMode = 'enforce' | 'shadow';
+
+export type PolicyConditionType =
+  // Scan results
+  | 'threat_level'
+  | 'scanner'
+  | 'finding_type'
+  // Request fields
+  | 'user'
+  | 'model'
+  | 'provider'
+  | 'tenant'
+  | 'department'
+  | 'token_estimate'
+  | 'tool_name'
+  | 'header'
+  // Environment
+  | 'time'
+  | 'custom'
+  // Boolean composition
+  | 'all'
+  | 'any'
+  | 'not';
+
+export type PolicyConditionOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'matches';
+
 export interface PolicyCondition {
-  type: 'threat_level' | 'scanner' | 'user' | 'time' | 'custom';
-  operator: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'matches';
-  value: unknown;
+  type: PolicyConditionType;
+  operator?: PolicyConditionOperator;
+  value?: unknown;
   field?: string;
+  conditions?: PolicyCondition[]; // Children of 'all' / 'any' / 'not' groups
 }
 
 export interface PolicyActionConfig {
@@ -210,13 +256,26 @@ export interface PolicyActionConfig {
   parameters?: Record<string, unknown>;
 }
 
+/**
+ * 'first_match' applies only the highest-priority matching policy;
+ * 'merge' applies every matching policy and the most restrictive action wins.
+ */
+export type PolicyEvaluationMode = 'first_match' | 'merge';
+
+export interface PolicyEvaluationSettings {
+  defaultAction: PolicyAction; // Applied when no enforced policy matches
+  evaluationMode: PolicyEvaluationMode;
+}
+
 export interface PolicyDecision {
   policyId: string;
   action: PolicyAction;
   reason: string;
   matchedConditions: PolicyCondition[];
   timestamp: number;
+  parameters?: Record<string, unknown>; // Parameters of the primary action's config
   metadata?: Record<string, unknown>;
+  shadowDecisions?: PolicyDecision[]; // Would-be decisions of matching shadow policies
 }
 
 // ============================================================================
@@ -5,6 +5,16 @@
  */
 
 import { UnifiedAIRequest, Message, ContentPart } from '../types/index.js';
+import { DecodedVariant, normalizeText } from './text-normalizer.js';
+
+export interface TextSegment {
+  path: string; // request.messages[i], request.messages[i].content[j] or request.tools[i]
+  text: string;
+}
+
+export interface SegmentVariant extends DecodedVariant {
+  path: string; // Segment the variant was decoded from
+}
 
 export interface ExtractedText {
   fullText: string;
@@ -13,6 +23,8 @@ export interface ExtractedText {
   userMessages: string[];
   assistantMessages: string[];
   toolDescriptions: string[];
+  segments: TextSegment[]; // Every message part and tool description with its location
+  decodedVariants: SegmentVariant[]; // De-obfuscated variants of each segment, normalized once per request
 }
 
 /**
@@ -24,8 +36,13 @@ export function extractTextContent(request: UnifiedAIRequest): ExtractedText {
   const systemPrompts: string[] = [];
   const userMessages: string[] = [];
   const assistantMessages: string[] = [];
+  const segments: TextSegment[] = [];
 
   // Extract from messages
+  request.messages.forEach((message, index) => {
+    segments.push(...extractMessageSegments(message, `request.messages[${index}]`));
+  });
+
   for (const message of request.messages) {
     const text = extractMessageText(message);
     if (text) {
@@ -49,9 +66,11 @@ export function extractTextContent(request: UnifiedAIRequest): ExtractedText {
   // Extract tool descriptions
   const toolDescriptions: string[] = [];
   if (request.tools) {
-    for (const tool of request.tools) {
-      toolDescriptions.push(`${tool.name}: ${tool.description}`);
-    }
+    request.tools.forEach((tool, index) => {
+      const description = `${tool.name}: ${tool.description}`;
+      toolDescriptions.push(description);
+      segments.push({ path: `request.tools[${index}]`, text: description });
+    });
   }
 
   // Combine all text
@@ -67,9 +86,32 @@ export function extractTextContent(request: UnifiedAIRequest): ExtractedText {
     userMessages,
     assistantMessages,
     toolDescriptions,
+    segments,
+    decodedVariants: segments.flatMap((segment) =>
+      normalizeText(segment.text).map((variant) => ({ ...variant, path: segment.path }))
+    ),
   };
 }
 
+/**
+ * Text parts of a message with their locations
+ */
+function extractMessageSegments(message: Message, path: string): TextSegment[] {
+  if (typeof message.content === 'string') {
+    return message.content ? [{ path, text: message.content }] : [];
+  }
+
+  if (Array.isArray(message.content)) {
+    return message.content.flatMap((part: ContentPart, partIndex) =>
+      (part.type === 'text' || part.type === 'document') && part.text
+        ? [{ path: `${path}.content[${partIndex}]`, text: part.text }]
+        : []
+    );
+  }
+
+  return [];
+}
+
 /**
  * Extract text from a single message
  */
@@ -81,7 +123,7 @@ function extractMessageText(message: Message): string {
   if (Array.isArray(message.content)) {
     return message.content
       .map((part: ContentPart) => {
-        if (part.type === 'text' && part.text) {
+        if ((part.type === 'text' || part.type === 'document') && part.text) {
           return part.text;
         }
         return '';
@@ -0,0 +1,258 @@
+/**
+ * Obfuscation-aware text normalization
+ *
+ * Produces decoded variants of text so scanners can match content hidden
+ * with common evasion tricks:
+ * - base64 and hex encoded segments (including \x41 escapes)
+ * - URL percent-encoding and \u0041 escapes
+ * - zero-width characters, homoglyphs and fullwidth forms
+ * - leetspeak (1gn0r3 -> ignore)
+ * - spaced-out letters (i g n o r e -> ignore)
+ *
+ * Decoded segments are normalized again, so layered encodings are undone up
+ * to a fixed depth. Each variant records the transformations that produced
+ * it, and only text that actually changed is returned.
+ *
+ * Base64 and hex segments are decoded in place, so every readable segment
+ * ends up in one variant per decoder. Padding a message with harmless encoded
+ * blobs therefore cannot push a malicious one past the variant limit, which
+ * only bounds the number of transformation chains explored.
+ */
+
+export type TextTransformation =
+  | 'base64'
+  | 'hex'
+  | 'url_encoding'
+  | 'unicode_escape'
+  | 'zero_width'
+  | 'homoglyph'
+  | 'leetspeak'
+  | 'spaced_letters';
+
+export interface DecodedVariant {
+  text: string;
+  transformations: TextTransformation[]; // In the order they were applied
+}
+
+export interface NormalizationOptions {
+  maxDepth?: number; // Nested decoding levels (default 2)
+  maxVariants?: number; // Default 20
+  maxInputLength?: number; // Longer input is truncated before normalizing (default 100000)
+}
+
+const TRANSFORMATION_LABELS: Record<TextTransformation, string> = {
+  base64: 'base64 decoding',
+  hex: 'hex decoding',
+  url_encoding: 'URL decoding',
+  unicode_escape: 'unicode escape decoding',
+  zero_width: 'zero-width character removal',
+  homoglyph: 'homoglyph folding',
+  leetspeak: 'leetspeak decoding',
+  spaced_letters: 'spaced letter joining',
+};
+
+// Cyrillic and Greek letters that render like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'т': 't',
+  'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'һ': 'h', 'ӏ': 'l', 'ԛ': 'q', 'ԝ': 'w',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T',
+  'Х': 'X', 'І': 'I', 'Ј': 'J', 'Ѕ': 'S',
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O',
+  'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+};
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's',
+};
+
+const ZERO_WIDTH = /[\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+const HOMOGLYPH_CHARS = new RegExp(`[${Object.keys(HOMOGLYPHS).join('')}]`);
+const MIXED_SCRIPT_WORD = /[\p{L}\p{M}]+/gu;
+const LEET_TOKEN = /[\p{L}0-9@$]+/gu;
+const SPACED_LETTERS = /(?<![\p{L}\p{N}])(?:[\p{L}0-9@$][ .\-_*|]){3,}[\p{L}0-9@$](?![\p{L}\p{N}])/gu;
+const BASE64_SEGMENT = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/_-]{16,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+const HEX_SEGMENT = /(?<![0-9A-Za-z])(?:[0-9a-fA-F]{2}[\s:]?){8,}(?![0-9A-Za-z])/g;
+const HEX_ESCAPES = /(?:\\x[0-9a-fA-F]{2}){4,}/g;
+const PERCENT_ESCAPE = /%[0-9a-fA-F]{2}/g;
+const UNICODE_ESCAPE = /\\u\{?([0-9a-fA-F]{4,6})\}?/g;
+
+/**
+ * Decoded and de-obfuscated variants of text, excluding the text itself
+ */
+export function normalizeText(text: string, options: NormalizationOptions = {}): DecodedVariant[] {
+  const maxDepth = options.maxDepth ?? 2;
+  const maxVariants = options.maxVariants ?? 20;
+  const input = text.slice(0, options.maxInputLength ?? 100000);
+
+  const variants: DecodedVariant[] = [];
+  const seen = new Set<string>([input]);
+
+  const add = (variantText: string, transformations: TextTransformation[]): boolean => {
+    if (variants.length >= maxVariants || !variantText.trim() || seen.has(variantText)) {
+      return false;
+    }
+    seen.add(variantText);
+    variants.push({ text: variantText, transformations });
+    return true;
+  };
+
+  const collect = (current: string, chain: TextTransformation[], depth: number): void => {
+    // Character-level clean-up applies to the whole text and stacks
+    let folded = current;
+    const applied = [...chain];
+
+    const withoutZeroWidth = folded.replace(ZERO_WIDTH, '');
+    if (withoutZeroWidth !== folded) {
+      folded = withoutZeroWidth;
+      applied.push('zero_width');
+    }
+
+    const withoutHomoglyphs = foldHomoglyphs(folded);
+    if (withoutHomoglyphs !== folded) {
+      folded = withoutHomoglyphs;
+      applied.push('homoglyph');
+    }
+    add(folded, [...applied]);
+
+    const joined = joinSpacedLetters(folded);
+    if (joined !== folded) {
+      applied.push('spaced_letters');
+      add(joined, [...applied]);
+    }
+
+    const unleet = decodeLeetspeak(joined);
+    if (unleet !== joined) {
+      add(unleet, [...applied, 'leetspeak']);
+    }
+
+    // Encoded segments are decoded in place, then the result is normalized itself
+    if (depth >= maxDepth) return;
+
+    const decoders: Array<[TextTransformation, (value: string) => string[]]> = [
+      ['base64', decodeBase64Segments],
+      ['hex', decodeHexSegments],
+      ['url_encoding', decodePercentEncoding],
+      ['unicode_escape', decodeUnicodeEscapes],
+    ];
+
+    for (const [transformation, decode] of decoders) {
+      for (const decoded of decode(folded)) {
+        if (add(decoded, [...chain, transformation])) {
+          collect(decoded, [...chain, transformation], depth + 1);
+        }
+      }
+    }
+  };
+
+  collect(input, [], 0);
+  return variants;
+}
+
+/**
+ * Human-readable description of a transformation chain, for finding messages
+ */
+export function describeTransformations(transformations: TextTransformation[]): string {
+  return transformations.map((t) => TRANSFORMATION_LABELS[t]).join(' + ');
+}
+
+/**
+ * NFKC folds fullwidth and compatibility forms; lookalike letters are only
+ * replaced in words that also contain Latin letters, so genuine Cyrillic and
+ * Greek text is left alone.
+ */
+function foldHomoglyphs(text: string): string {
+  return text.normalize('NFKC').replace(MIXED_SCRIPT_WORD, (word) =>
+    /[A-Za-z]/.test(word) && HOMOGLYPH_CHARS.test(word)
+      ? Array.from(word).map((c) => HOMOGLYPHS[c] ?? c).join('')
+      : word
+  );
+}
+
+/**
+ * Runs may include leet characters but must contain letters,
+ * so spaced-out numbers and version strings are kept.
+ */
+function joinSpacedLetters(text: string): string {
+  return text.replace(SPACED_LETTERS, (run) => (/\p{L}/u.test(run) ? run.replace(/[ .\-_*|]/g, '') : run));
+}
+
+/**
+ * Only tokens mixing letters with leet characters are decoded, so plain
+ * numbers (phone numbers, amounts) are preserved.
+ */
+function decodeLeetspeak(text: string): string {
+  return text.replace(LEET_TOKEN, (token) =>
+    /\p{L}/u.test(token) && /[0-9@$]/.test(token)
+      ? token.replace(/[0134578@$]/g, (c) => LEETSPEAK[c])
+      : token
+  );
+}
+
+function decodeBase64Segments(text: string): string[] {
+  const decoded = text.replace(BASE64_SEGMENT, (segment) => {
+    // Hex-only runs are left to the hex decoder
+    if (/^[0-9a-fA-F]+$/.test(segment)) return segment;
+
+    const value = Buffer.from(segment, 'base64').toString('utf-8');
+    return isReadable(value) ? value : segment;
+  });
+
+  return decoded !== text ? [decoded] : [];
+}
+
+function decodeHexSegments(text: string): string[] {
+  const decodeDigits = (segment: string, digits: string): string => {
+    if (digits.length % 2 !== 0) return segment;
+
+    const value = Buffer.from(digits, 'hex').toString('utf-8');
+    return isReadable(value) ? value : segment;
+  };
+
+  const decoded = text
+    .replace(HEX_ESCAPES, (segment) => decodeDigits(segment, segment.replace(/\\x/g, '')))
+    .replace(HEX_SEGMENT, (segment) => {
+      // Keep the separator that followed the last byte
+      const trailing = segment.match(/[\s:]$/)?.[0] ?? '';
+      const value = decodeDigits(segment, segment.replace(/[^0-9a-fA-F]/g, ''));
+      return value === segment ? segment : value + trailing;
+    });
+
+  return decoded !== text ? [decoded] : [];
+}
+
+function decodePercentEncoding(text: string): string[] {
+  if ((text.match(PERCENT_ESCAPE) || []).length < 3) return [];
+
+  try {
+    return [decodeURIComponent(text.replace(/%(?![0-9a-fA-F]{2})/g, '%25'))];
+  } catch {
+    // Invalid UTF-8 sequences; decode byte-wise instead
+    return [text.replace(PERCENT_ESCAPE, (escape) => String.fromCharCode(parseInt(escape.slice(1), 16)))];
+  }
+}
+
+function decodeUnicodeEscapes(text: string): string[] {
+  if (!UNICODE_ESCAPE.test(text)) return [];
+  UNICODE_ESCAPE.lastIndex = 0;
+
+  return [
+    text.replace(UNICODE_ESCAPE, (escape, code: string) => {
+      const codePoint = parseInt(code, 16);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : escape;
+    }),
+  ];
+}
+
+/**
+ * Decoded bytes count as text when they are valid UTF-8, contain letters
+ * and are almost entirely printable
+ */
+function isReadable(value: string): boolean {
+  if (value.length < 4 || value.includes('\uFFFD') || !/\p{L}/u.test(value)) {
+    return false;
+  }
+
+  const printable = (value.match(/[\p{L}\p{N}\p{P}\p{S}\s]/gu) || []).length;
+  return printable / Array.from(value).length >= 0.9;
+}
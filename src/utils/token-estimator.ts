@@ -0,0 +1,27 @@
+/**
+ * Token Estimator
+ *
+ * Approximates BPE tokenizer counts (cl100k-style) without a vocabulary, for
+ * usage accounting when a provider does not report token counts. Words are
+ * split into pieces of up to six letters, digits into groups of three, and
+ * punctuation and CJK characters count one token each; whitespace is folded
+ * into the following piece.
+ */
+
+const PIECE_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+|\p{N}{1,3}|[^\s\p{L}\p{N}]/gu;
+
+const LETTERS_PER_TOKEN = 6;
+
+/**
+ * Estimated number of tokens in the text
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    tokens += /^\p{L}{2,}$/u.test(piece) ? Math.ceil(piece.length / LETTERS_PER_TOKEN) : 1;
+  }
+
+  return tokens;
+}
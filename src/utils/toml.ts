@@ -0,0 +1,289 @@
+/**
+ * Minimal TOML parser
+ *
+ * Covers the subset used by rule files such as gitleaks configs:
+ * - [table] and [[array.of.tables]] headers (dotted paths resolve to the
+ *   last element of an array of tables)
+ * - bare and quoted keys
+ * - basic, literal and multi-line strings, integers, floats, booleans
+ * - arrays of values, spanning multiple lines with trailing commas
+ *
+ * Inline tables and dates are not supported and raise an error.
+ */
+
+type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export function parseToml(content: string): TomlTable {
+  return new TomlParser(content).parse();
+}
+
+class TomlParser {
+  private pos = 0;
+  private line = 1;
+  private root: TomlTable = {};
+  private current: TomlTable = this.root;
+
+  constructor(private input: string) {}
+
+  parse(): TomlTable {
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.pos >= this.input.length) break;
+
+      if (this.peek() === '[') {
+        this.parseHeader();
+      } else {
+        this.parseKeyValue();
+      }
+      this.expectLineEnd();
+    }
+    return this.root;
+  }
+
+  private parseHeader(): void {
+    const isArray = this.input.startsWith('[[', this.pos);
+    this.pos += isArray ? 2 : 1;
+
+    const path = this.parseKeyPath();
+    this.expect(isArray ? ']]' : ']');
+
+    let table = this.root;
+    for (const key of path.slice(0, -1)) {
+      table = this.descend(table, key);
+    }
+
+    const last = path[path.length - 1];
+    if (isArray) {
+      const existing = table[last] ?? [];
+      if (!Array.isArray(existing)) {
+        throw this.error(`"${last}" is not an array of tables`);
+      }
+      const element: TomlTable = {};
+      existing.push(element);
+      table[last] = existing;
+      this.current = element;
+    } else {
+      this.current = this.descend(table, last);
+    }
+  }
+
+  private descend(table: TomlTable, key: string): TomlTable {
+    const existing = table[key];
+    if (existing === undefined) {
+      const created: TomlTable = {};
+      table[key] = created;
+      return created;
+    }
+    if (Array.isArray(existing)) {
+      const last = existing[existing.length - 1];
+      if (last && typeof last === 'object' && !Array.isArray(last)) return last;
+    } else if (typeof existing === 'object') {
+      return existing;
+    }
+    throw this.error(`"${key}" is not a table`);
+  }
+
+  private parseKeyValue(): void {
+    const path = this.parseKeyPath();
+    this.skipInlineWhitespace();
+    this.expect('=');
+    this.skipInlineWhitespace();
+
+    let table = this.current;
+    for (const key of path.slice(0, -1)) {
+      table = this.descend(table, key);
+    }
+    table[path[path.length - 1]] = this.parseValue();
+  }
+
+  private parseKeyPath(): string[] {
+    const path: string[] = [];
+
+    for (;;) {
+      this.skipInlineWhitespace();
+      const ch = this.peek();
+      if (ch === '"') {
+        path.push(this.parseBasicString());
+      } else if (ch === "'") {
+        path.push(this.parseLiteralString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.input.slice(this.pos));
+        if (!match) throw this.error('Expected a key');
+        path.push(match[0]);
+        this.pos += match[0].length;
+      }
+      this.skipInlineWhitespace();
+
+      if (this.peek() !== '.') break;
+      this.pos++;
+    }
+
+    return path;
+  }
+
+  private parseValue(): TomlValue {
+    const rest = this.input.slice(this.pos);
+
+    if (rest.startsWith('"""')) return this.parseMultilineString('"""');
+    if (rest.startsWith("'''")) return this.parseMultilineString("'''");
+    if (rest.startsWith('"')) return this.parseBasicString();
+    if (rest.startsWith("'")) return this.parseLiteralString();
+    if (rest.startsWith('[')) return this.parseArray();
+    if (rest.startsWith('{')) throw this.error('Inline tables are not supported');
+
+    const match = /^(true|false|[+-]?(?:inf|nan|[0-9][0-9_]*(?:\.[0-9_]+)?(?:[eE][+-]?[0-9]+)?))(?=[\s,\]#]|$)/.exec(rest);
+    if (!match) throw this.error('Unsupported value');
+    this.pos += match[0].length;
+
+    if (match[0] === 'true') return true;
+    if (match[0] === 'false') return false;
+    return Number(match[0].replace(/_/g, '').replace('inf', 'Infinity'));
+  }
+
+  private parseArray(): TomlValue[] {
+    this.expect('[');
+    const values: TomlValue[] = [];
+
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ']') break;
+
+      values.push(this.parseValue());
+      this.skipWhitespaceAndComments(true);
+
+      if (this.peek() === ',') {
+        this.pos++;
+      } else if (this.peek() !== ']') {
+        throw this.error('Expected "," or "]" in array');
+      }
+    }
+
+    this.pos++;
+    return values;
+  }
+
+  private parseBasicString(): string {
+    this.expect('"');
+    let value = '';
+
+    while (this.peek() !== '"') {
+      if (this.pos >= this.input.length || this.peek() === '\n') {
+        throw this.error('Unterminated string');
+      }
+      value += this.peek() === '\\' ? this.parseEscape() : this.input[this.pos++];
+    }
+
+    this.pos++;
+    return value;
+  }
+
+  private parseLiteralString(): string {
+    this.expect("'");
+    const end = this.input.indexOf("'", this.pos);
+    if (end === -1 || this.input.slice(this.pos, end).includes('\n')) {
+      throw this.error('Unterminated string');
+    }
+
+    const value = this.input.slice(this.pos, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private parseMultilineString(delimiter: string): string {
+    this.pos += delimiter.length;
+    // A newline right after the opening delimiter is trimmed
+    if (this.peek() === '\n') {
+      this.pos++;
+      this.line++;
+    } else if (this.input.startsWith('\r\n', this.pos)) {
+      this.pos += 2;
+      this.line++;
+    }
+
+    let value = '';
+    while (!this.input.startsWith(delimiter, this.pos)) {
+      if (this.pos >= this.input.length) throw this.error('Unterminated string');
+
+      if (delimiter === '"""' && this.peek() === '\\') {
+        // Line-ending backslash trims the newline and leading whitespace
+        const trim = /^\\[ \t]*\r?\n[\s]*/.exec(this.input.slice(this.pos));
+        if (trim) {
+          this.line += trim[0].split('\n').length - 1;
+          this.pos += trim[0].length;
+          continue;
+        }
+        value += this.parseEscape();
+        continue;
+      }
+
+      if (this.peek() === '\n') this.line++;
+      value += this.input[this.pos++];
+    }
+
+    this.pos += delimiter.length;
+    return value;
+  }
+
+  private parseEscape(): string {
+    const escape = this.input[this.pos + 1];
+    const simple: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+
+    if (escape in simple) {
+      this.pos += 2;
+      return simple[escape];
+    }
+
+    if (escape === 'u' || escape === 'U') {
+      const length = escape === 'u' ? 4 : 8;
+      const hex = this.input.slice(this.pos + 2, this.pos + 2 + length);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) throw this.error('Invalid unicode escape');
+      this.pos += 2 + length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+
+    throw this.error(`Invalid escape sequence \\${escape}`);
+  }
+
+  private skipInlineWhitespace(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') this.pos++;
+  }
+
+  private skipWhitespaceAndComments(multiline: boolean): void {
+    for (;;) {
+      this.skipInlineWhitespace();
+      if (this.peek() === '#') {
+        while (this.pos < this.input.length && this.peek() !== '\n') this.pos++;
+      } else if (multiline && (this.peek() === '\n' || this.peek() === '\r')) {
+        if (this.peek() === '\n') this.line++;
+        this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespaceAndComments(false);
+    if (this.pos < this.input.length && this.peek() !== '\n' && this.peek() !== '\r') {
+      throw this.error('Expected end of line');
+    }
+  }
+
+  private expect(token: string): void {
+    if (!this.input.startsWith(token, this.pos)) {
+      throw this.error(`Expected "${token}"`);
+    }
+    this.pos += token.length;
+  }
+
+  private peek(): string {
+    return this.input[this.pos];
+  }
+
+  private error(message: string): Error {
+    return new Error(`TOML parse error on line ${this.line}: ${message}`);
+  }
+}
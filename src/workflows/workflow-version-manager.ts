@@ -7,6 +7,7 @@
 import { Logger } from '../utils/logger.js';
 import { WorkflowDefinition } from './workflow-types.js';
 import { v4 as uuidv4 } from 'uuid';
+import { StorageAdapter, PersistentCollection } from '../storage/storage-adapter.js';
 
 export interface WorkflowVersion {
   versionId: string;
@@ -31,6 +32,7 @@ export class WorkflowVersionManager {
   private logger: Logger;
   private versions: Map<string, WorkflowVersion[]>;  // workflowId -> versions
   private versionIndex: Map<string, WorkflowVersion>;  // versionId -> version
+  private store?: PersistentCollection<WorkflowVersion>;
 
   constructor() {
     this.logger = new Logger();
@@ -38,6 +40,36 @@ export class WorkflowVersionManager {
     this.versionIndex = new Map();
   }
 
+  /**
+   * Load version history from durable storage and write through all future changes
+   */
+  async attachStorage(storage: StorageAdapter): Promise<void> {
+    const store = new PersistentCollection<WorkflowVersion>(storage, 'workflow_versions');
+    const persisted = await store.load();
+
+    for (const [versionId, version] of persisted) {
+      if (this.versionIndex.has(versionId)) continue;
+
+      if (!this.versions.has(version.workflowId)) {
+        this.versions.set(version.workflowId, []);
+      }
+      this.versions.get(version.workflowId)!.push(version);
+      this.versionIndex.set(versionId, version);
+    }
+
+    for (const versions of this.versions.values()) {
+      versions.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    // Persist anything created before storage was attached
+    for (const [versionId, version] of this.versionIndex) {
+      if (!persisted.has(versionId)) store.save(versionId, version);
+    }
+
+    this.store = store;
+    this.logger.info('Workflow version storage attached', { totalVersions: this.versionIndex.size });
+  }
+
   /**
    * Create a new version
    */
@@ -71,6 +103,7 @@ export class WorkflowVersionManager {
     }
     this.versions.get(workflow.id)!.push(version);
     this.versionIndex.set(versionId, version);
+    this.store?.save(versionId, version);
 
     this.logger.info('Created workflow version', {
       workflowId: workflow.id,
@@ -228,6 +261,7 @@ export class WorkflowVersionManager {
 
     if (!version.tags.includes(tag)) {
       version.tags.push(tag);
+      this.store?.save(versionId, version);
       this.logger.info('Tagged version', { versionId, tag });
     }
   }
@@ -261,6 +295,7 @@ export class WorkflowVersionManager {
     }
 
     this.versionIndex.delete(versionId);
+    this.store?.remove(versionId);
     this.logger.info('Deleted version', { versionId });
     return true;
   }
@@ -333,6 +368,9 @@ export class WorkflowVersionManager {
    * Clear all versions
    */
   clear(): void {
+    for (const versionId of this.versionIndex.keys()) {
+      this.store?.remove(versionId);
+    }
     this.versions.clear();
     this.versionIndex.clear();
     this.logger.info('Cleared all workflow versions');
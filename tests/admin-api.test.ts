@@ -5,6 +5,10 @@ import { MetricsCollector } from '../src/utils/metrics.js';
 import { CostTracker } from '../src/cost/cost-tracker.js';
 import { AnalyticsEngine } from '../src/analytics/analytics-engine.js';
 import { ScannerOrchestrator } from '../src/scanners/scanner-orchestrator.js';
+import { TrafficRecorder } from '../src/policy/traffic-recorder.js';
+import { ApprovalManager } from '../src/approval/approval-manager.js';
+import { ActionQueue } from '../src/queue/action-queue.js';
+import { PriorityQueueManager } from '../src/queue/priority-queue-manager.js';
 import { Policy, PolicyAction, ThreatLevel, AIServiceProvider } from '../src/types/index.js';
 
 describe('AdminAPI', () => {
@@ -14,6 +18,7 @@ describe('AdminAPI', () => {
   let costTracker: CostTracker;
   let analyticsEngine: AnalyticsEngine;
   let scannerOrchestrator: ScannerOrchestrator;
+  let approvalManager: ApprovalManager;
 
   beforeEach(() => {
     policyEngine = new PolicyEngine();
@@ -25,6 +30,8 @@ describe('AdminAPI', () => {
       scanTimeout: 5000,
     });
 
+    approvalManager = new ApprovalManager(new ActionQueue(new PriorityQueueManager()));
+
     adminAPI = new AdminAPI(
       policyEngine,
       metricsCollector,
@@ -34,7 +41,8 @@ describe('AdminAPI', () => {
       {
         enableAuth: false, // Disable auth for testing
         corsOrigins: ['*'],
-      }
+      },
+      approvalManager
     );
   });
 
@@ -246,6 +254,243 @@ describe('AdminAPI', () => {
       expect(data.success).toBe(true);
       expect(policyEngine.getPolicy(testPolicy.id)?.enabled).toBe(false);
     });
+
+    it('should report shadow policy results', async () => {
+      policyEngine.addPolicy({
+        id: 'shadow-block',
+        name: 'Shadow Block',
+        description: 'Block everything in shadow mode',
+        enabled: true,
+        priority: 1000,
+        mode: 'shadow',
+        conditions: [],
+        actions: [{ action: PolicyAction.BLOCK }],
+      });
+
+      await policyEngine.evaluate(
+        {
+          provider: AIServiceProvider.OPENAI,
+          model: 'gpt-4',
+          messages: [{ role: 'user', content: 'Hello' }],
+          parameters: {},
+          streaming: false,
+          metadata: { correlationId: 'corr-1' },
+        },
+        {
+          overallThreatLevel: ThreatLevel.NONE,
+          overallScore: 0,
+          scanResults: [],
+          findings: [],
+          totalExecutionTimeMs: 0,
+          timestamp: Date.now(),
+        }
+      );
+
+      const res = await makeRequest('GET', '/api/policies/shadow-report');
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.count).toBe(1);
+      expect(data.data[0].wouldBlock).toBe(1);
+      expect(data.data[0].examples[0].correlationId).toBe('corr-1');
+
+      const single = await makeRequest('GET', '/api/policies/shadow-block/shadow-report');
+      expect(single.status).toBe(200);
+
+      const reset = await makeRequest('POST', '/api/policies/shadow-block/shadow-report/reset');
+      expect(reset.status).toBe(200);
+      expect(policyEngine.getShadowReport()).toHaveLength(0);
+    });
+
+    it('should return 404 for shadow report of unknown policy', async () => {
+      const res = await makeRequest('GET', '/api/policies/missing/shadow-report');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should require traffic recording for policy simulation', async () => {
+      const res = await makeRequest('POST', '/api/policies/simulate', { policies: [] });
+
+      expect(res.status).toBe(409);
+    });
+
+    it('should simulate candidate policies against recorded traffic', async () => {
+      policyEngine.setTrafficRecorder(new TrafficRecorder());
+      await policyEngine.evaluate(
+        {
+          provider: AIServiceProvider.OPENAI,
+          model: 'gpt-4',
+          messages: [{ role: 'user', content: 'Hello' }],
+          parameters: {},
+          streaming: false,
+          metadata: { correlationId: 'corr-1' },
+        },
+        {
+          overallThreatLevel: ThreatLevel.NONE,
+          overallScore: 0,
+          scanResults: [],
+          findings: [],
+          totalExecutionTimeMs: 0,
+          timestamp: Date.now(),
+        }
+      );
+
+      const res = await makeRequest('POST', '/api/policies/simulate', {
+        policies: [
+          {
+            id: 'candidate',
+            name: 'Candidate',
+            description: 'Block everything',
+            enabled: true,
+            priority: 1000,
+            conditions: [],
+            actions: [{ action: PolicyAction.BLOCK }],
+          },
+        ],
+      });
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data.changedRequests).toBe(1);
+      expect(data.data.diffs[0].correlationId).toBe('corr-1');
+      expect(policyEngine.getPolicy('candidate')).toBeUndefined();
+    });
+  });
+
+  describe('Policy Settings and Analysis Endpoints', () => {
+    it('should update and reset tenant policy settings', async () => {
+      const res = await makeRequest('PUT', '/api/policies/settings', {
+        tenantId: 'tenant-a',
+        defaultAction: 'allow',
+        evaluationMode: 'merge',
+      });
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data).toEqual({ defaultAction: 'allow', evaluationMode: 'merge' });
+
+      const all = await (await makeRequest('GET', '/api/policies/settings')).json();
+      expect(all.data.global.defaultAction).toBe('block');
+      expect(all.data.tenants['tenant-a']).toEqual({ defaultAction: 'allow', evaluationMode: 'merge' });
+
+      expect((await makeRequest('DELETE', '/api/policies/settings/tenant-a')).status).toBe(200);
+      expect((await makeRequest('DELETE', '/api/policies/settings/tenant-a')).status).toBe(404);
+    });
+
+    it('should reject invalid policy settings', async () => {
+      const res = await makeRequest('PUT', '/api/policies/settings', { defaultAction: 'deny' });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should manage business hours and holiday calendars', async () => {
+      const res = await makeRequest('PUT', '/api/policies/calendar/business-hours', {
+        tenantId: 'tenant-de',
+        timezone: 'Europe/Berlin',
+        days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+        start: '08:00',
+        end: '16:00',
+      });
+      expect(res.status).toBe(200);
+
+      const holidays = await makeRequest('PUT', '/api/policies/calendar/holidays/de', {
+        timezone: 'Europe/Berlin',
+        holidays: ['2025-10-03'],
+      });
+      expect(holidays.status).toBe(200);
+
+      const calendar = await (await makeRequest('GET', '/api/policies/calendar')).json();
+      expect(calendar.data.businessHours.tenants['tenant-de'].timezone).toBe('Europe/Berlin');
+      expect(calendar.data.holidayCalendars).toEqual([
+        { name: 'de', timezone: 'Europe/Berlin', holidays: [{ date: '2025-10-03' }] },
+      ]);
+
+      expect((await makeRequest('DELETE', '/api/policies/calendar/business-hours/tenant-de')).status).toBe(200);
+      expect((await makeRequest('DELETE', '/api/policies/calendar/business-hours/tenant-de')).status).toBe(404);
+      expect((await makeRequest('DELETE', '/api/policies/calendar/holidays/de')).status).toBe(200);
+    });
+
+    it('should reject invalid business hours', async () => {
+      const res = await makeRequest('PUT', '/api/policies/calendar/business-hours', {
+        timezone: 'Mars/Olympus',
+        days: ['mon'],
+        start: '09:00',
+        end: '17:00',
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should report shadowed policies', async () => {
+      policyEngine.addPolicy({
+        id: 'block-low',
+        name: 'Block Low',
+        description: 'Never reached',
+        enabled: true,
+        priority: 10,
+        conditions: [{ type: 'threat_level', operator: 'eq', value: ThreatLevel.LOW }],
+        actions: [{ action: PolicyAction.BLOCK }],
+      });
+
+      const res = await makeRequest('GET', '/api/policies/analysis');
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data.issues).toEqual([
+        expect.objectContaining({ type: 'shadowed', policyId: 'block-low', relatedPolicyIds: ['default-allow-safe'] }),
+      ]);
+    });
+  });
+
+  describe('Approval Endpoints', () => {
+    beforeEach(() => {
+      approvalManager.hold({
+        id: 'ticket-1',
+        policyId: 'review-pii',
+        reason: 'PII requires review',
+        threatLevel: ThreatLevel.MEDIUM,
+        findings: [{ type: 'Email Address', severity: ThreatLevel.MEDIUM, message: 'Email', confidence: 0.9 }],
+        userId: 'user-1',
+        provider: AIServiceProvider.OPENAI,
+        model: 'gpt-4',
+        request: { model: 'gpt-4', messages: [{ role: 'user', content: 'Mail john@example.com' }] },
+        execute: async (request) => ({ status: 200, headers: {}, body: { echoed: request } }),
+      });
+    });
+
+    it('should list pending approvals', async () => {
+      const res = await makeRequest('GET', '/api/approvals?status=pending');
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.count).toBe(1);
+      expect(data.data[0].findings[0].type).toBe('Email Address');
+    });
+
+    it('should forward an edited request and audit the decision', async () => {
+      const edited = { model: 'gpt-4', messages: [{ role: 'user', content: 'Mail [REDACTED]' }] };
+      const res = await makeRequest('POST', '/api/approvals/ticket-1/edit', {
+        request: edited,
+        reviewer: 'alice',
+        note: 'Removed email',
+      });
+
+      expect(res.status).toBe(200);
+
+      const ticket = await approvalManager.waitForResolution('ticket-1', 1000);
+      expect(ticket?.status).toBe('completed');
+      expect(ticket?.response?.body).toEqual({ echoed: edited });
+
+      const audit = await (await makeRequest('GET', '/api/approvals/audit?ticketId=ticket-1')).json();
+      expect(audit.data[0]).toMatchObject({ type: 'approval.edit', data: { reviewer: 'alice', edited: true } });
+    });
+
+    it('should return 404 and 409 for unknown or decided tickets', async () => {
+      expect((await makeRequest('POST', '/api/approvals/missing/approve')).status).toBe(404);
+
+      expect((await makeRequest('POST', '/api/approvals/ticket-1/deny', { note: 'No' })).status).toBe(200);
+      expect((await makeRequest('POST', '/api/approvals/ticket-1/approve')).status).toBe(409);
+    });
   });
 
   describe('Metrics Endpoints', () => {
@@ -372,6 +617,45 @@ describe('AdminAPI', () => {
     });
   });
 
+  describe('Security Endpoints', () => {
+    it('should test a raw regex pattern', async () => {
+      const res = await makeRequest('POST', '/api/security/test-pattern', { pattern: 'ab+', testText: 'abb ab c' });
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data).toEqual({ matches: 2, found: ['abb', 'ab'] });
+    });
+
+    it('should explain PII pattern matches', async () => {
+      const res = await makeRequest('POST', '/api/security/test-pattern', {
+        patternName: 'US Social Security Number',
+        testText: 'SSN 123-45-6789 and 666-12-3456',
+      });
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.data.found).toEqual(['123-45-6789']);
+      expect(data.data.evaluations[1]).toMatchObject({ accepted: false, reasons: ['Area number 666 is never assigned'] });
+
+      const missing = await makeRequest('POST', '/api/security/test-pattern', { patternName: 'Nope', testText: 'x' });
+      expect(missing.status).toBe(404);
+    });
+
+    it('should enable international PII packs globally and per tenant', async () => {
+      const enable = await makeRequest('PATCH', '/api/security/pii-packs/br', { enabled: true });
+      expect(enable.status).toBe(200);
+
+      const packs = await (await makeRequest('GET', '/api/security/pii-packs')).json();
+      expect(packs.data.find((p: any) => p.id === 'br')).toMatchObject({ locale: 'pt-BR', enabled: true });
+
+      const tenant = await makeRequest('PUT', '/api/security/pii-packs/tenants/acme', { packs: ['sg'] });
+      expect((await tenant.json()).data).toEqual({ tenantId: 'acme', packs: ['sg'] });
+
+      const unknown = await makeRequest('PATCH', '/api/security/pii-packs/xx', { enabled: true });
+      expect(unknown.status).toBe(404);
+    });
+  });
+
   describe('Authentication', () => {
     it('should require API key when auth is enabled', async () => {
       const authAPI = new AdminAPI(
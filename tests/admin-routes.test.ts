@@ -0,0 +1,299 @@
+/**
+ * Tests for the admin API routes mounted on the proxy app
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Hono } from 'hono';
+import { FileStorageAdapter } from '../src/storage/file-storage.js';
+import { PolicyAction } from '../src/types/index.js';
+
+describe('Admin API on the proxy app', () => {
+  let app: Hono;
+  let storageDir: string;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'proxilion-admin-'));
+    vi.stubEnv('STORAGE_DIR', storageDir);
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+    vi.stubEnv('API_KEYS', 'client-key');
+    vi.stubEnv('TRAFFIC_RECORDING_ENABLED', 'true');
+    ({ default: app } = await import('../src/index.js'));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  const admin = (method: string, path: string, body?: unknown) =>
+    app.fetch(new Request(`http://localhost${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'admin-key' },
+      body: body ? JSON.stringify(body) : undefined,
+    }));
+
+  const proxy = (path: string, body: unknown) =>
+    app.fetch(new Request(`http://localhost/proxy/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'client-key' },
+      body: JSON.stringify(body),
+    }));
+
+  it('should require the admin API key', async () => {
+    const res = await app.fetch(new Request('http://localhost/api/approvals'));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should not add admin CORS headers to proxy responses', async () => {
+    const res = await app.fetch(new Request('http://localhost/status', { headers: { Origin: 'https://example.com' } }));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should let reviewers deny a request held by a QUEUE policy', async () => {
+    const created = await admin('POST', '/api/policies', {
+      id: 'review-gpt-4',
+      name: 'Review GPT-4',
+      description: 'Hold GPT-4 requests for review',
+      enabled: true,
+      priority: 500,
+      conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4' }],
+      actions: [{ action: PolicyAction.QUEUE, parameters: { requireApproval: true } }],
+    });
+    expect(created.status).toBe(201);
+
+    const held = await proxy('api.openai.com/v1/chat/completions', {
+      model: 'gpt-4',
+      messages: [{ role: 'user', content: 'Summarize the quarterly report' }],
+    });
+    expect(held.status).toBe(202);
+    const { ticketId } = await held.json();
+
+    const pending = await (await admin('GET', '/api/approvals?status=pending')).json();
+    expect(pending.data.map((ticket: { id: string }) => ticket.id)).toContain(ticketId);
+
+    const denied = await admin('POST', `/api/approvals/${ticketId}/deny`, { reviewer: 'sec-team', note: 'Not approved' });
+    expect(denied.status).toBe(200);
+    expect((await denied.json()).data.status).toBe('denied');
+
+    await admin('DELETE', '/api/policies/review-gpt-4');
+  });
+
+  it('should reject streaming requests matched by a QUEUE policy', async () => {
+    await admin('POST', '/api/policies', {
+      id: 'review-gpt-4-turbo',
+      name: 'Review GPT-4 Turbo',
+      description: 'Hold GPT-4 Turbo requests for review',
+      enabled: true,
+      priority: 500,
+      conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4-turbo' }],
+      actions: [{ action: PolicyAction.QUEUE, parameters: { requireApproval: true } }],
+    });
+
+    const res = await proxy('api.openai.com/v1/chat/completions', {
+      model: 'gpt-4-turbo',
+      stream: true,
+      messages: [{ role: 'user', content: 'Summarize the quarterly report' }],
+    });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe('QUEUE_STREAMING_UNSUPPORTED');
+    const pending = await (await admin('GET', '/api/approvals?status=pending')).json();
+    expect(pending.data).toHaveLength(0);
+
+    await admin('DELETE', '/api/policies/review-gpt-4-turbo');
+  });
+
+  it('should report what a shadow policy would have changed', async () => {
+    await admin('POST', '/api/policies', {
+      id: 'block-claude',
+      name: 'Block Claude',
+      description: 'Block Claude Haiku',
+      enabled: true,
+      priority: 500,
+      conditions: [{ type: 'model', operator: 'eq', value: 'claude-3-haiku-20240307' }],
+      actions: [{ action: PolicyAction.BLOCK }],
+    });
+    await admin('POST', '/api/policies', {
+      id: 'shadow-queue-claude',
+      name: 'Queue Claude (shadow)',
+      description: 'Trial: hold Claude Haiku for review instead',
+      enabled: true,
+      priority: 600,
+      mode: 'shadow',
+      conditions: [{ type: 'model', operator: 'eq', value: 'claude-3-haiku-20240307' }],
+      actions: [{ action: PolicyAction.QUEUE }],
+    });
+
+    const blocked = await proxy('api.anthropic.com/v1/messages', {
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+    expect(blocked.status).toBe(403);
+    const { correlationId } = await blocked.json();
+
+    const res = await admin('GET', '/api/policies/shadow-queue-claude/shadow-report');
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toMatchObject({ matched: 1, wouldChange: 1 });
+    expect(data.examples[0]).toMatchObject({ correlationId, shadowAction: PolicyAction.QUEUE, enforcedAction: PolicyAction.BLOCK });
+
+    const all = await (await admin('GET', '/api/policies/shadow-report')).json();
+    expect(all.data.map((report: { policyId: string }) => report.policyId)).toContain('shadow-queue-claude');
+
+    await admin('DELETE', '/api/policies/block-claude');
+    await admin('DELETE', '/api/policies/shadow-queue-claude');
+  });
+
+  it('should simulate candidate policies against recorded traffic', async () => {
+    const startTime = Date.now();
+    await admin('POST', '/api/policies', {
+      id: 'block-gpt-4o-mini',
+      name: 'Block GPT-4o mini',
+      description: 'Block GPT-4o mini',
+      enabled: true,
+      priority: 500,
+      conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4o-mini' }],
+      actions: [{ action: PolicyAction.BLOCK }],
+    });
+
+    const blocked = await proxy('api.openai.com/v1/chat/completions', {
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+    const { correlationId } = await blocked.json();
+
+    const res = await admin('POST', '/api/policies/simulate', {
+      startTime,
+      policies: [{
+        id: 'allow-gpt-4o-mini',
+        name: 'Allow GPT-4o mini',
+        description: 'Candidate: allow GPT-4o mini',
+        enabled: true,
+        priority: 700,
+        conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4o-mini' }],
+        actions: [{ action: PolicyAction.ALLOW }],
+      }],
+    });
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data).toMatchObject({ totalRequests: 1, changedRequests: 1, transitions: { 'block->allow': 1 } });
+    expect(data.diffs[0].correlationId).toBe(correlationId);
+
+    await admin('DELETE', '/api/policies/block-gpt-4o-mini');
+  });
+
+  it('should analyze the live policy set', async () => {
+    await admin('POST', '/api/policies', {
+      id: 'block-gemini',
+      name: 'Block Gemini',
+      description: 'Block every Gemini request',
+      enabled: true,
+      priority: 500,
+      conditions: [{ type: 'provider', operator: 'eq', value: 'google' }],
+      actions: [{ action: PolicyAction.BLOCK }],
+    });
+    await admin('POST', '/api/policies', {
+      id: 'alert-gemini-pro',
+      name: 'Alert on Gemini Pro',
+      description: 'Never reached: Gemini is already blocked',
+      enabled: true,
+      priority: 400,
+      conditions: [
+        { type: 'provider', operator: 'eq', value: 'google' },
+        { type: 'model', operator: 'eq', value: 'gemini-pro' },
+      ],
+      actions: [{ action: PolicyAction.ALERT }],
+    });
+
+    const res = await admin('GET', '/api/policies/analysis');
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.issues).toContainEqual(expect.objectContaining({
+      type: 'shadowed',
+      policyId: 'alert-gemini-pro',
+      relatedPolicyIds: ['block-gemini'],
+    }));
+
+    await admin('DELETE', '/api/policies/block-gemini');
+    await admin('DELETE', '/api/policies/alert-gemini-pro');
+  });
+
+  it('should manage per-tenant policy settings', async () => {
+    const updated = await admin('PUT', '/api/policies/settings', { tenantId: 'acme', defaultAction: PolicyAction.ALERT });
+    expect(updated.status).toBe(200);
+
+    const settings = await (await admin('GET', '/api/policies/settings?tenantId=acme')).json();
+    expect(settings.data.defaultAction).toBe(PolicyAction.ALERT);
+
+    expect((await admin('DELETE', '/api/policies/settings/acme')).status).toBe(200);
+    const reset = await (await admin('GET', '/api/policies/settings?tenantId=acme')).json();
+    expect(reset.data.defaultAction).not.toBe(PolicyAction.ALERT);
+  });
+
+  it('should manage and persist business hours and holiday calendars', async () => {
+    const holidays = await admin('PUT', '/api/policies/calendar/holidays/uk', {
+      timezone: 'Europe/London',
+      holidays: ['2026-12-25', { date: '2026-12-28', name: 'Boxing Day (substitute)' }],
+    });
+    expect(holidays.status).toBe(200);
+
+    const hours = await admin('PUT', '/api/policies/calendar/business-hours', {
+      tenantId: 'acme-uk',
+      timezone: 'Europe/London',
+      days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+      start: '08:00',
+      end: '16:00',
+      holidays: 'uk',
+    });
+    expect(hours.status).toBe(200);
+
+    const { data } = await (await admin('GET', '/api/policies/calendar?tenantId=acme-uk')).json();
+    expect(data.businessHours).toMatchObject({ timezone: 'Europe/London', start: '08:00', holidays: 'uk' });
+    expect(data.holidayCalendars.map((calendar: { name: string }) => calendar.name)).toContain('uk');
+
+    // Written through to STORAGE_DIR, so a restart keeps them
+    await vi.waitFor(async () => {
+      const storage = new FileStorageAdapter({ directory: storageDir });
+      expect((await storage.entries('holiday_calendars')).map(([name]) => name)).toContain('uk');
+      expect((await storage.entries('business_hours')).map(([tenantId]) => tenantId)).toContain('acme-uk');
+    });
+  });
+
+  it('should explain accepted and rejected pattern matches', async () => {
+    const res = await admin('POST', '/api/security/test-pattern', {
+      patternName: 'US Social Security Number',
+      testText: 'SSN 123-45-6789 and 666-12-3456',
+    });
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.found).toEqual(['123-45-6789']);
+    expect(data.evaluations).toContainEqual(expect.objectContaining({ value: '666-12-3456', accepted: false }));
+    expect(data.evaluations.every((evaluation: { reasons: string[] }) => evaluation.reasons.length > 0)).toBe(true);
+  });
+
+  it('should enable PII pattern packs globally and per tenant', async () => {
+    expect((await admin('PATCH', '/api/security/pii-packs/br', { enabled: true })).status).toBe(200);
+
+    const packs = await (await admin('GET', '/api/security/pii-packs')).json();
+    expect(packs.data.find((pack: { id: string }) => pack.id === 'br').enabled).toBe(true);
+
+    const tenant = await (await admin('PUT', '/api/security/pii-packs/tenants/acme-sg', { packs: ['sg'] })).json();
+    expect(tenant.data).toEqual({ tenantId: 'acme-sg', packs: ['sg'] });
+
+    const cleared = await (await admin('PUT', '/api/security/pii-packs/tenants/acme-sg', { packs: null })).json();
+    expect(cleared.data.packs).toBeNull();
+
+    await admin('PATCH', '/api/security/pii-packs/br', { enabled: false });
+  });
+});
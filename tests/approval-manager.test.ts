@@ -0,0 +1,164 @@
+/**
+ * Approval Manager Tests
+ *
+ * Human-in-the-loop review of requests held by QUEUE policies
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ApprovalManager, ApprovalHoldRequest } from '../src/approval/approval-manager.js';
+import { ActionQueue } from '../src/queue/action-queue.js';
+import { PriorityQueueManager } from '../src/queue/priority-queue-manager.js';
+import { AIServiceProvider, AuditEvent, ProxilionResponse, ThreatLevel } from '../src/types/index.js';
+
+function createHold(overrides: Partial<ApprovalHoldRequest> = {}): ApprovalHoldRequest {
+  return {
+    id: 'ticket-1',
+    policyId: 'review-pii',
+    reason: 'PII requires review',
+    threatLevel: ThreatLevel.MEDIUM,
+    findings: [{ type: 'Email Address', severity: ThreatLevel.MEDIUM, message: 'Email detected', confidence: 0.9 }],
+    userId: 'user-1',
+    provider: AIServiceProvider.OPENAI,
+    model: 'gpt-4',
+    request: { model: 'gpt-4', messages: [{ role: 'user', content: 'Mail john@example.com' }] },
+    execute: async (request): Promise<ProxilionResponse> => ({ status: 200, headers: {}, body: { forwarded: request } }),
+    ...overrides,
+  };
+}
+
+describe('ApprovalManager', () => {
+  let queueManager: PriorityQueueManager;
+  let actionQueue: ActionQueue;
+  let manager: ApprovalManager;
+  let audited: AuditEvent[];
+
+  beforeEach(() => {
+    audited = [];
+    queueManager = new PriorityQueueManager({ maxConcurrent: 1 });
+    actionQueue = new ActionQueue(queueManager);
+    manager = new ApprovalManager(actionQueue, { onAudit: (event) => { audited.push(event); } });
+  });
+
+  afterEach(() => {
+    manager.cleanup();
+    actionQueue.cleanup();
+    queueManager.cleanup();
+  });
+
+  it('should hold requests with their findings until approved', async () => {
+    let executed = false;
+    const ticket = manager.hold(createHold({
+      execute: async () => {
+        executed = true;
+        return { status: 200, headers: {}, body: { ok: true } };
+      },
+    }));
+
+    expect(ticket.status).toBe('pending');
+    expect(ticket.findings[0].type).toBe('Email Address');
+    expect(actionQueue.getEntry('ticket-1')?.status).toBe('awaiting_approval');
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(executed).toBe(false);
+
+    manager.approve('ticket-1', 'alice', 'Looks fine');
+    const resolved = await manager.waitForResolution('ticket-1', 1000);
+
+    expect(executed).toBe(true);
+    expect(resolved?.status).toBe('completed');
+    expect(resolved?.response?.body).toEqual({ ok: true });
+    expect(resolved?.decision).toMatchObject({ type: 'approve', reviewer: 'alice', note: 'Looks fine' });
+  });
+
+  it('should forward the reviewer-edited request body', async () => {
+    manager.hold(createHold());
+
+    const edited = { model: 'gpt-4', messages: [{ role: 'user', content: 'Mail [REDACTED]' }] };
+    const ticket = manager.edit('ticket-1', edited, 'alice');
+    expect(ticket.edited).toBe(true);
+
+    const resolved = await manager.waitForResolution('ticket-1', 1000);
+    expect(resolved?.response?.body).toEqual({ forwarded: edited });
+
+    expect(() => manager.edit('ticket-1', 'not a body', 'alice')).toThrow('Edited request must be a JSON object');
+  });
+
+  it('should never forward denied requests', async () => {
+    let executed = false;
+    manager.hold(createHold({
+      execute: async () => {
+        executed = true;
+        return { status: 200, headers: {}, body: {} };
+      },
+    }));
+
+    const ticket = manager.deny('ticket-1', 'bob', 'Customer data');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(ticket.status).toBe('denied');
+    expect(executed).toBe(false);
+    expect(actionQueue.getEntry('ticket-1')).toBeUndefined();
+    expect(() => manager.approve('ticket-1', 'alice')).toThrow(/already denied/);
+    expect(() => manager.deny('missing', 'bob')).toThrow(/not found/);
+  });
+
+  it('should expire tickets that are not decided in time', async () => {
+    manager.hold(createHold({ timeoutMs: 20 }));
+
+    const resolved = await manager.waitForResolution('ticket-1', 1000);
+
+    expect(resolved?.status).toBe('expired');
+    expect(resolved?.decision).toMatchObject({ type: 'expire', reviewer: 'system' });
+    expect(actionQueue.getEntry('ticket-1')).toBeUndefined();
+  });
+
+  it('should return the current ticket when a long-poll times out', async () => {
+    manager.hold(createHold());
+
+    const started = Date.now();
+    const ticket = await manager.waitForResolution('ticket-1', 30);
+
+    expect(ticket?.status).toBe('pending');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+    expect(await manager.waitForResolution('missing', 30)).toBeUndefined();
+  });
+
+  it('should hide tickets from other users and tenants', async () => {
+    manager.hold(createHold({ id: 'ticket-1', userId: 'user-1', tenantId: 'acme' }));
+    manager.approve('ticket-1', 'alice');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect((await manager.waitForResolution('ticket-1', 0, { userId: 'user-1', tenantId: 'acme' }))?.status).toBe('completed');
+    expect(await manager.waitForResolution('ticket-1', 0, { userId: 'user-2', tenantId: 'acme' })).toBeUndefined();
+    expect(await manager.waitForResolution('ticket-1', 0, { userId: 'user-1', tenantId: 'globex' })).toBeUndefined();
+    expect(await manager.waitForResolution('ticket-1', 0, { userId: 'user-1' })).toBeUndefined();
+  });
+
+  it('should record an audit event for every decision', async () => {
+    manager.hold(createHold({ id: 'ticket-1' }));
+    manager.hold(createHold({ id: 'ticket-2' }));
+
+    manager.approve('ticket-1', 'alice');
+    manager.deny('ticket-2', 'bob', 'Not allowed');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(manager.getAuditTrail().map((e) => e.type)).toEqual(['approval.approve', 'approval.deny']);
+    expect(manager.getAuditTrail('ticket-2')[0]).toMatchObject({
+      correlationId: 'ticket-2',
+      policyId: 'review-pii',
+      userId: 'user-1',
+      data: { reviewer: 'bob', note: 'Not allowed' },
+    });
+    expect(audited).toHaveLength(2);
+  });
+
+  it('should list tickets by status', () => {
+    manager.hold(createHold({ id: 'ticket-1' }));
+    manager.hold(createHold({ id: 'ticket-2' }));
+    manager.deny('ticket-1', 'bob');
+
+    expect(manager.listTickets('pending').map((t) => t.id)).toEqual(['ticket-2']);
+    expect(manager.listTickets()).toHaveLength(2);
+    expect(() => manager.hold(createHold({ id: 'ticket-2' }))).toThrow(/already exists/);
+  });
+});
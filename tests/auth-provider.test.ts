@@ -0,0 +1,277 @@
+/**
+ * Auth Provider Tests
+ *
+ * JWT verification (HS256 and JWKS-backed RS256/ES256) and OAuth introspection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthProvider } from '../src/integrations/auth/auth-provider.js';
+import { MetricsCollector } from '../src/utils/metrics.js';
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signToken(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  key: crypto.KeyObject | string
+): string {
+  const data = `${base64url(header)}.${base64url(payload)}`;
+  let signature: Buffer;
+
+  if (typeof key === 'string') {
+    signature = crypto.createHmac('sha256', key).update(data).digest();
+  } else {
+    signature = crypto.sign('sha256', Buffer.from(data), {
+      key,
+      dsaEncoding: header.alg === 'ES256' ? 'ieee-p1363' : undefined,
+    });
+  }
+
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('AuthProvider JWT', () => {
+  let directory: string;
+  let jwksPath: string;
+  const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  async function writeJwks(keys: Array<{ kid: string; publicKey: crypto.KeyObject; alg: string }>): Promise<void> {
+    await fs.writeFile(jwksPath, JSON.stringify({
+      keys: keys.map(({ kid, publicKey, alg }) => ({ ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' })),
+    }));
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'proxilion-jwks-'));
+    jwksPath = path.join(directory, 'jwks.json');
+    await writeJwks([
+      { kid: 'rsa-1', publicKey: rsa.publicKey, alg: 'RS256' },
+      { kid: 'ec-1', publicKey: ec.publicKey, alg: 'ES256' },
+    ]);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should verify RS256 and ES256 tokens against a JWKS file', async () => {
+    const provider = new AuthProvider({ method: 'JWT', jwksUri: `file://${jwksPath}`, jwtAudience: 'proxilion' });
+    const payload = { sub: 'user-1', aud: ['proxilion'], exp: now() + 300, tenant_id: 'acme', roles: ['admin'] };
+
+    const rsaContext = await provider.authenticate(bearer(signToken({ alg: 'RS256', kid: 'rsa-1' }, payload, rsa.privateKey)));
+    expect(rsaContext).toMatchObject({ authenticated: true, userId: 'user-1', tenantId: 'acme', roles: ['admin'] });
+
+    const ecContext = await provider.authenticate(bearer(signToken({ alg: 'ES256', kid: 'ec-1' }, payload, ec.privateKey)));
+    expect(ecContext.authenticated).toBe(true);
+  });
+
+  it('should reject tokens with a bad signature, algorithm or audience', async () => {
+    const provider = new AuthProvider({ method: 'JWT', jwksUri: jwksPath, jwtAudience: 'proxilion' });
+    const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const payload = { sub: 'user-1', aud: 'proxilion', exp: now() + 300 };
+
+    const forged = signToken({ alg: 'RS256', kid: 'rsa-1' }, payload, other.privateKey);
+    expect((await provider.authenticate(bearer(forged))).authenticated).toBe(false);
+
+    const unsigned = `${base64url({ alg: 'none' })}.${base64url(payload)}.`;
+    expect((await provider.authenticate(bearer(unsigned))).authenticated).toBe(false);
+
+    // HS256 is not allowed without a shared secret
+    const hmac = signToken({ alg: 'HS256' }, payload, 'guessed-secret');
+    expect((await provider.authenticate(bearer(hmac))).authenticated).toBe(false);
+
+    const wrongAudience = signToken({ alg: 'RS256', kid: 'rsa-1' }, { ...payload, aud: 'billing' }, rsa.privateKey);
+    expect((await provider.authenticate(bearer(wrongAudience))).authenticated).toBe(false);
+  });
+
+  it('should tolerate clock skew on exp and nbf', async () => {
+    const provider = new AuthProvider({ method: 'JWT', jwtSecret: 'secret', clockSkewSeconds: 30 });
+
+    const recentlyExpired = signToken({ alg: 'HS256' }, { sub: 'u', exp: now() - 10 }, 'secret');
+    expect((await provider.authenticate(bearer(recentlyExpired))).authenticated).toBe(true);
+
+    const expired = signToken({ alg: 'HS256' }, { sub: 'u', exp: now() - 60 }, 'secret');
+    expect((await provider.authenticate(bearer(expired))).authenticated).toBe(false);
+
+    const notYetValid = signToken({ alg: 'HS256' }, { sub: 'u', nbf: now() + 60 }, 'secret');
+    expect((await provider.authenticate(bearer(notYetValid))).authenticated).toBe(false);
+  });
+
+  it('should pick up rotated keys by key ID', async () => {
+    const provider = new AuthProvider({ method: 'JWT', jwksUri: jwksPath });
+    const payload = { sub: 'user-1', exp: now() + 300 };
+
+    expect((await provider.authenticate(bearer(signToken({ alg: 'RS256', kid: 'rsa-1' }, payload, rsa.privateKey)))).authenticated).toBe(true);
+
+    const rotated = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    await writeJwks([{ kid: 'rsa-2', publicKey: rotated.publicKey, alg: 'RS256' }]);
+
+    // Past the minimum refresh interval, an unknown kid triggers a refetch
+    const realNow = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(realNow + 60000);
+
+    const token = signToken({ alg: 'RS256', kid: 'rsa-2' }, { sub: 'user-1', exp: now() + 300 }, rotated.privateKey);
+    expect((await provider.authenticate(bearer(token))).authenticated).toBe(true);
+  });
+});
+
+describe('AuthProvider OAuth introspection', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function introspectionResponse(body: Record<string, unknown>) {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => body });
+  }
+
+  it('should map RFC 7662 responses into the auth context', async () => {
+    const provider = new AuthProvider({
+      method: 'OAUTH',
+      oauthEndpoint: 'https://idp.example.com/introspect',
+      oauthClientId: 'proxilion',
+      oauthClientSecret: 'secret',
+      tenantClaim: 'org',
+    });
+    introspectionResponse({
+      active: true,
+      sub: 'user-1',
+      scope: 'ai:request ai:admin',
+      roles: 'analyst reviewer',
+      org: 'acme',
+      exp: now() + 300,
+    });
+
+    const context = await provider.authenticate(bearer('opaque-token'));
+
+    expect(context).toMatchObject({
+      authenticated: true,
+      userId: 'user-1',
+      tenantId: 'acme',
+      roles: ['analyst', 'reviewer'],
+      permissions: ['ai:request', 'ai:admin'],
+    });
+
+    const body = mockFetch.mock.calls[0][1].body as URLSearchParams;
+    expect(body.get('token')).toBe('opaque-token');
+    expect(body.get('token_type_hint')).toBe('access_token');
+  });
+
+  it('should reject inactive tokens and audience mismatches', async () => {
+    const provider = new AuthProvider({
+      method: 'OAUTH',
+      oauthEndpoint: 'https://idp.example.com/introspect',
+      jwtAudience: 'proxilion',
+    });
+
+    introspectionResponse({ active: false });
+    expect((await provider.authenticate(bearer('revoked'))).authenticated).toBe(false);
+
+    introspectionResponse({ active: true, sub: 'user-1', aud: 'billing' });
+    expect((await provider.authenticate(bearer('other-audience'))).authenticated).toBe(false);
+  });
+
+  it('should not accept an introspected token on a route whose chain excludes OAUTH', async () => {
+    const provider = new AuthProvider({
+      method: 'OAUTH',
+      oauthEndpoint: 'https://idp.example.com/introspect',
+      jwtSecret: 'secret',
+      routeMethods: { '/approvals': ['JWT'] },
+    });
+    introspectionResponse({ active: true, sub: 'user-1', exp: now() + 300 });
+
+    expect(await provider.authenticate(bearer('opaque-token'), { path: '/proxy/openai' })).toMatchObject({
+      authenticated: true,
+      method: 'OAUTH',
+    });
+    expect((await provider.authenticate(bearer('opaque-token'), { path: '/approvals/123' })).authenticated).toBe(false);
+  });
+});
+
+describe('AuthProvider method chains', () => {
+  const jwt = signToken({ alg: 'HS256' }, { sub: 'browser-user', exp: now() + 300 }, 'secret');
+
+  it('should accept any method in the chain, first success wins', async () => {
+    const provider = new AuthProvider({
+      method: 'API_KEY',
+      methods: ['API_KEY', 'JWT'],
+      apiKeys: ['service-key'],
+      jwtSecret: 'secret',
+    });
+
+    expect(await provider.authenticate(bearer('service-key'))).toMatchObject({ authenticated: true, method: 'API_KEY' });
+    expect(await provider.authenticate(bearer(jwt))).toMatchObject({
+      authenticated: true,
+      method: 'JWT',
+      userId: 'browser-user',
+    });
+    expect((await provider.authenticate(bearer('unknown'))).authenticated).toBe(false);
+  });
+
+  it('should select chains by route prefix and tenant', async () => {
+    const provider = new AuthProvider({
+      method: 'API_KEY',
+      apiKeys: ['service-key'],
+      jwtSecret: 'secret',
+      routeMethods: { '/approvals': ['JWT'], '/approvals/internal': ['API_KEY'] },
+      tenantMethods: { acme: ['JWT', 'API_KEY'] },
+    });
+
+    expect(provider.getMethodChain({ path: '/approvals/123' })).toEqual(['JWT']);
+    expect(provider.getMethodChain({ path: '/approvals/internal/1' })).toEqual(['API_KEY']);
+    expect(provider.getMethodChain({ path: '/proxy/openai' })).toEqual(['API_KEY']);
+    expect(provider.getMethodChain({ path: '/approvals/123', tenantId: 'acme' })).toEqual(['JWT', 'API_KEY']);
+
+    expect((await provider.authenticate(bearer(jwt), { path: '/proxy/openai' })).authenticated).toBe(false);
+    expect((await provider.authenticate(bearer(jwt), { path: '/approvals/123' })).authenticated).toBe(true);
+    expect((await provider.authenticate(bearer('service-key'), { path: '/approvals/123' })).authenticated).toBe(false);
+  });
+
+  it('should only accept credentials of the tenant whose chain the hint selected', async () => {
+    const provider = new AuthProvider({
+      method: 'JWT',
+      apiKeys: ['service-key'],
+      jwtSecret: 'secret',
+      tenantMethods: { acme: ['API_KEY', 'JWT'] },
+    });
+    const acmeJwt = signToken({ alg: 'HS256' }, { sub: 'acme-user', tenant: 'acme', exp: now() + 300 }, 'secret');
+    const globexJwt = signToken({ alg: 'HS256' }, { sub: 'globex-user', tenant: 'globex', exp: now() + 300 }, 'secret');
+
+    expect(await provider.authenticate(bearer(acmeJwt), { tenantId: 'acme' })).toMatchObject({
+      authenticated: true,
+      tenantId: 'acme',
+    });
+    expect((await provider.authenticate(bearer('service-key'), { tenantId: 'acme' })).authenticated).toBe(false);
+    expect((await provider.authenticate(bearer(globexJwt), { tenantId: 'acme' })).authenticated).toBe(false);
+    expect((await provider.authenticate(bearer('service-key'))).authenticated).toBe(false);
+  });
+
+  it('should record which method authenticated the request', async () => {
+    const provider = new AuthProvider({ method: 'JWT', methods: ['BASIC', 'JWT'], jwtSecret: 'secret' });
+    const metrics = MetricsCollector.getInstance();
+    const before = metrics.getMetrics('auth_method_success_total').length;
+
+    await provider.authenticate(bearer(jwt));
+
+    const events = metrics.getMetrics('auth_method_success_total');
+    expect(events).toHaveLength(before + 1);
+    expect(events[events.length - 1].tags).toEqual({ method: 'JWT' });
+  });
+});
@@ -155,5 +155,67 @@ describe('AWSBedrockParser', () => {
       expect(unified.usage?.totalTokens).toBe(20);
     });
   });
-});
 
+  describe('Converse API', () => {
+    it('should parse Converse request', async () => {
+      const request = new Request('https://bedrock-runtime.us-east-1.amazonaws.com/model/meta.llama3-70b-instruct-v1%3A0/converse', {
+        method: 'POST',
+        body: JSON.stringify({
+          system: [{ text: 'You are concise.' }],
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { text: 'Summarize this file' },
+                { document: { format: 'pdf', name: 'report', source: { bytes: 'JVBERi0=' } } },
+              ],
+            },
+          ],
+          inferenceConfig: { maxTokens: 200, temperature: 0.2 },
+          toolConfig: {
+            tools: [{ toolSpec: { name: 'search', description: 'Web search', inputSchema: { json: { type: 'object' } } } }],
+          },
+        }),
+      });
+
+      const unified = await parser.parseRequest(request, 'meta.llama3-70b-instruct-v1:0');
+
+      expect(unified.provider).toBe(AIServiceProvider.CUSTOM);
+      expect(unified.streaming).toBe(false);
+      expect(unified.messages[0]).toEqual({ role: 'system', content: 'You are concise.' });
+      expect(unified.messages[1].content).toEqual([
+        { type: 'text', text: 'Summarize this file' },
+        { type: 'document', data: 'JVBERi0=', mimeType: 'application/pdf' },
+      ]);
+      expect(unified.parameters.maxTokens).toBe(200);
+      expect(unified.tools?.[0].name).toBe('search');
+    });
+
+    it('should mark ConverseStream requests as streaming', async () => {
+      const request = new Request('https://bedrock-runtime.us-east-1.amazonaws.com/model/anthropic.claude-3-haiku-20240307-v1:0/converse-stream', {
+        method: 'POST',
+        body: JSON.stringify({ messages: [{ role: 'user', content: [{ text: 'Hi' }] }] }),
+      });
+
+      const unified = await parser.parseRequest(request, 'anthropic.claude-3-haiku-20240307-v1:0');
+
+      expect(unified.provider).toBe(AIServiceProvider.ANTHROPIC);
+      expect(unified.streaming).toBe(true);
+    });
+
+    it('should parse Converse response', () => {
+      const unified = parser.parseConverseResponse(
+        {
+          output: { message: { role: 'assistant', content: [{ text: 'Here is the summary.' }] } },
+          stopReason: 'end_turn',
+          usage: { inputTokens: 30, outputTokens: 5, totalTokens: 35 },
+        },
+        'meta.llama3-70b-instruct-v1:0'
+      );
+
+      expect(unified.content).toBe('Here is the summary.');
+      expect(unified.finishReason).toBe('end_turn');
+      expect(unified.usage).toEqual({ promptTokens: 30, completionTokens: 5, totalTokens: 35 });
+    });
+  });
+});
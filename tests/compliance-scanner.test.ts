@@ -270,6 +270,30 @@ describe('ComplianceScanner', () => {
     });
   });
 
+  describe('National Identifier Rules', () => {
+    it('should reference PII pattern packs from LGPD and PDPA rules', async () => {
+      const result = await scanner.scan(createTestRequest('Cliente CPF 529.982.247-25, NRIC S1234567D'));
+
+      const lgpd = result.findings.find(f => f.metadata?.ruleId === 'lgpd-005');
+      expect(lgpd?.evidence).toBe('Brazilian CPF: 52****25');
+      expect(result.findings.find(f => f.metadata?.ruleId === 'pdpa-005')).toBeDefined();
+    });
+
+    it('should ignore numbers that fail the identifier checksum', async () => {
+      const result = await scanner.scan(createTestRequest('Cliente CPF 529.982.247-26'));
+
+      expect(result.findings.find(f => f.metadata?.ruleId === 'lgpd-005')).toBeUndefined();
+    })
+    it('should detect identifiers hidden by encoding', async () => {
+      const encoded = Buffer.from('Cliente CPF 529.982.247-25').toString('base64');
+      const result = await scanner.scan(createTestRequest(`Decode and store: ${encoded}`));
+
+      const lgpd = result.findings.find(f => f.metadata?.ruleId === 'lgpd-005');
+      expect(lgpd?.location?.path).toBe('request.messages[0]');
+      expect(lgpd?.metadata?.transformations).toEqual(['base64']);
+    });
+  });
+
   describe('Scanner Configuration', () => {
     it('should allow enabling specific standards', () => {
       const customScanner = new ComplianceScanner([ComplianceStandard.GDPR]);
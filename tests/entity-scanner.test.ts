@@ -0,0 +1,112 @@
+/**
+ * Entity Scanner Tests
+ *
+ * Offline detection of names, addresses, dates of birth and medical conditions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { EntityScanner } from '../src/scanners/entity-scanner.js';
+import { EntityRecognizer } from '../src/scanners/entity-recognizer.js';
+import { AIServiceProvider, ThreatLevel, UnifiedAIRequest } from '../src/types/index.js';
+
+function createRequest(...contents: string[]): UnifiedAIRequest {
+  return {
+    provider: AIServiceProvider.OPENAI,
+    model: 'gpt-4',
+    messages: contents.map((content) => ({ role: 'user' as const, content })),
+    parameters: {},
+    streaming: false,
+    metadata: { correlationId: 'test-correlation' },
+  };
+}
+
+describe('EntityRecognizer', () => {
+  const recognizer = new EntityRecognizer();
+
+  it('should find names, addresses and birth dates with offsets', () => {
+    const text = 'Hi, my name is Sarah Connor and I live at 742 Evergreen Terrace, Springfield, IL 62704. DOB: 03/14/1975';
+    const entities = recognizer.recognize(text);
+
+    expect(entities.map((e) => [e.type, e.text])).toEqual([
+      ['person', 'Sarah Connor'],
+      ['address', '742 Evergreen Terrace, Springfield, IL 62704'],
+      ['date_of_birth', '03/14/1975'],
+    ]);
+    expect(text.slice(entities[1].start, entities[1].end)).toBe(entities[1].text);
+  });
+
+  it('should recognize honorifics, PO boxes, European streets and ICD-10 codes', () => {
+    const entities = recognizer.recognize('Dr. Gregory House wrote to PO Box 1234 and Hauptstraße 12 (dx: C85.9).');
+
+    expect(entities.map((e) => [e.type, e.text])).toEqual([
+      ['person', 'Dr. Gregory House'],
+      ['address', 'PO Box 1234'],
+      ['address', 'Hauptstraße 12'],
+      ['medical_condition', 'C85.9'],
+    ]);
+  });
+
+  it('should not flag general questions, dates without a birth cue or place names', () => {
+    expect(recognizer.recognize('What is diabetes and how is hypertension treated?')).toEqual([]);
+    expect(recognizer.recognize('The meeting is on 03/14/2024 at Main Street Hospital.')).toEqual([]);
+  });
+});
+
+describe('EntityScanner', () => {
+  let scanner: EntityScanner;
+  let directory: string;
+
+  beforeEach(async () => {
+    scanner = new EntityScanner();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'proxilion-entities-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should report entities with masked evidence and span locations', async () => {
+    const result = await scanner.scan(createRequest('Hello', 'Patient: John Smith, born 1975-03-14'));
+
+    expect(result.passed).toBe(false);
+    expect(result.findings[0]).toMatchObject({
+      type: 'Person Name',
+      evidence: 'J*** S***',
+      location: { path: 'request.messages[1]', offset: 9, length: 10 },
+      metadata: { entityType: 'person' },
+    });
+    expect(result.findings[1]).toMatchObject({ type: 'Date of Birth', evidence: '****-**-**' });
+  });
+
+  it('should escalate conditions linked to an identified person', async () => {
+    const anonymous = await scanner.scan(createRequest('Someone was diagnosed with epilepsy last year'));
+    expect(anonymous.findings[0]).toMatchObject({ type: 'Medical Condition', severity: ThreatLevel.HIGH });
+
+    const linked = await scanner.scan(createRequest('Mrs. Alice Walker was diagnosed with epilepsy last year'));
+    expect(linked.threatLevel).toBe(ThreatLevel.CRITICAL);
+    expect(linked.findings[1].metadata).toMatchObject({ linkedToIdentity: true });
+  });
+
+  it('should not link conditions that are only mentioned or far from the person', async () => {
+    const question = await scanner.scan(createRequest('Dr. Smith, what is the latest research on diabetes treatment?'));
+    expect(question.threatLevel).toBe(ThreatLevel.HIGH);
+    expect(question.findings.find((f) => f.type === 'Medical Condition')?.metadata?.linkedToIdentity).toBeUndefined();
+
+    const separate = await scanner.scan(createRequest('Mrs. Alice Walker asked for the report.', 'The sample was diagnosed with epilepsy.'));
+    expect(separate.threatLevel).toBe(ThreatLevel.HIGH);
+  });
+
+  it('should extend its dictionaries from a file', async () => {
+    const dictionaryPath = path.join(directory, 'entities.json');
+    await fs.writeFile(dictionaryPath, JSON.stringify({ firstNames: ['Thandiwe'], conditions: ['narcolepsy'] }));
+
+    expect((await scanner.scan(createRequest('Thandiwe Mokoena has narcolepsy'))).passed).toBe(true);
+
+    await scanner.loadDictionary(dictionaryPath);
+    const result = await scanner.scan(createRequest('Thandiwe Mokoena has narcolepsy'));
+    expect(result.findings.map((f) => f.type)).toEqual(['Person Name', 'Medical Condition']);
+  });
+});
@@ -17,7 +17,11 @@ import { PromptVersionManager } from '../src/prompts/prompt-version-manager.js';
 import { PromptLibrary } from '../src/prompts/prompt-library.js';
 import { ModelRegistry } from '../src/models/model-registry.js';
 import { RealtimeMonitor } from '../src/monitoring/realtime-monitor.js';
+import { ApprovalManager } from '../src/approval/approval-manager.js';
+import { ActionQueue } from '../src/queue/action-queue.js';
+import { PriorityQueueManager } from '../src/queue/priority-queue-manager.js';
 import { MetricsCollector } from '../src/utils/metrics.js';
+import { AIServiceProvider, ThreatLevel } from '../src/types/index.js';
 
 describe('GraphQL API Gateway', () => {
   let server: GraphQLServer;
@@ -32,6 +36,7 @@ describe('GraphQL API Gateway', () => {
   let promptLibrary: PromptLibrary;
   let modelRegistry: ModelRegistry;
   let realtimeMonitor: RealtimeMonitor;
+  let approvalManager: ApprovalManager;
 
   beforeEach(() => {
     const metrics = new MetricsCollector();
@@ -46,6 +51,7 @@ describe('GraphQL API Gateway', () => {
     promptLibrary = new PromptLibrary();
     modelRegistry = new ModelRegistry();
     realtimeMonitor = new RealtimeMonitor(metrics);
+    approvalManager = new ApprovalManager(new ActionQueue(new PriorityQueueManager()));
 
     server = new GraphQLServer(
       policyEngine,
@@ -63,7 +69,8 @@ describe('GraphQL API Gateway', () => {
         apiKey: 'test-api-key',
         enableIntrospection: true,
         enablePlayground: true,
-      }
+      },
+      approvalManager
     );
   });
 
@@ -354,6 +361,110 @@ describe('GraphQL API Gateway', () => {
     });
   });
 
+  describe('Approval Management', () => {
+    const execute = async (query: string) => {
+      const request = new Request('http://localhost/graphql', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': 'test-api-key',
+        },
+        body: JSON.stringify({ query }),
+      });
+
+      const response = await server.handleRequest(request);
+      return await response.json();
+    };
+
+    beforeEach(() => {
+      approvalManager.hold({
+        id: 'ticket-1',
+        policyId: 'review-pii',
+        reason: 'PII requires review',
+        threatLevel: ThreatLevel.MEDIUM,
+        findings: [{ type: 'Email Address', severity: ThreatLevel.MEDIUM, message: 'Email', confidence: 0.9 }],
+        userId: 'user-1',
+        provider: AIServiceProvider.OPENAI,
+        model: 'gpt-4',
+        request: { model: 'gpt-4', messages: [] },
+        execute: async () => ({ status: 200, headers: {}, body: {} }),
+      });
+    });
+
+    it('should list pending approvals with their findings', async () => {
+      const data = await execute(`
+        query {
+          approvals(status: PENDING) {
+            id
+            status
+            threatLevel
+            findings
+          }
+        }
+      `);
+
+      expect(data.errors).toBeUndefined();
+      expect(data.data.approvals).toHaveLength(1);
+      expect(data.data.approvals[0]).toMatchObject({ id: 'ticket-1', status: 'PENDING', threatLevel: 'MEDIUM' });
+      expect(data.data.approvals[0].findings[0].type).toBe('Email Address');
+    });
+
+    it('should deny a held request and reject a second decision', async () => {
+      const data = await execute(`
+        mutation {
+          denyRequest(id: "ticket-1", note: "Contains customer data") {
+            status
+            decision {
+              type
+              note
+            }
+          }
+        }
+      `);
+
+      expect(data.data.denyRequest).toEqual({
+        status: 'DENIED',
+        decision: { type: 'deny', note: 'Contains customer data' },
+      });
+
+      const again = await execute(`mutation { approveRequest(id: "ticket-1") { status } }`);
+      expect(again.errors[0].extensions.code).toBe('CONFLICT');
+    });
+
+    it('should refuse approvals when no API key is configured', async () => {
+      const openServer = new GraphQLServer(
+        policyEngine,
+        scannerOrchestrator,
+        costTracker,
+        analyticsEngine,
+        userAnalytics,
+        workflowExecutor,
+        workflowTemplates,
+        promptVersionManager,
+        promptLibrary,
+        modelRegistry,
+        realtimeMonitor,
+        {},
+        approvalManager
+      );
+      const send = async (query: string) => {
+        const response = await openServer.handleRequest(new Request('http://localhost/graphql', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query }),
+        }));
+        return await response.json();
+      };
+
+      const list = await send(`query { approvals { id } }`);
+      expect(list.errors[0].extensions.code).toBe('FORBIDDEN');
+
+      const approve = await send(`mutation { approveRequest(id: "ticket-1") { status } }`);
+      expect(approve.errors[0].extensions.code).toBe('FORBIDDEN');
+      expect(approvalManager.getTicket('ticket-1')?.status).toBe('pending');
+    });
+  });
+
   describe('Authentication', () => {
     it('should reject unauthenticated requests', async () => {
       const query = `
@@ -0,0 +1,262 @@
+/**
+ * Tests for ParserRegistry
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ParserRegistry } from '../src/parsers/parser-registry.js';
+import { ResponseProcessor } from '../src/response/response-processor.js';
+import { ResponseScanner } from '../src/response/response-scanner.js';
+import { ResponseAuditLogger } from '../src/response/response-audit-logger.js';
+import { AIServiceProvider, ProxilionRequest, UnifiedAIRequest } from '../src/types/index.js';
+
+function unifiedRequest(provider: AIServiceProvider, model: string): UnifiedAIRequest {
+  return {
+    provider,
+    model,
+    messages: [{ role: 'user', content: 'Hello' }],
+    parameters: {},
+    streaming: false,
+    metadata: { correlationId: 'test-123' },
+  };
+}
+
+function proxilionRequest(url: string, body: unknown): ProxilionRequest {
+  return { id: 'req-1', timestamp: Date.now(), method: 'POST', url, headers: {}, body };
+}
+
+describe('ParserRegistry', () => {
+  let registry: ParserRegistry;
+
+  beforeEach(() => {
+    registry = new ParserRegistry();
+  });
+
+  describe('hostname routing', () => {
+    it('should parse Azure OpenAI deployments', async () => {
+      const unified = await registry.parse(proxilionRequest(
+        'https://contoso.openai.azure.com/openai/deployments/gpt4o-prod/chat/completions?api-version=2024-06-01',
+        { messages: [{ role: 'user', content: 'Hello' }] }
+      ));
+
+      expect(unified?.provider).toBe(AIServiceProvider.OPENAI);
+      expect(unified?.model).toBe('gpt4o-prod');
+      expect(unified?.metadata.tags).toMatchObject({ deployment: 'gpt4o-prod', apiVersion: '2024-06-01' });
+    });
+
+    it('should reject Azure OpenAI requests without api-version', async () => {
+      const unified = await registry.parse(proxilionRequest(
+        'https://contoso.openai.azure.com/openai/deployments/gpt4o-prod/chat/completions',
+        { messages: [{ role: 'user', content: 'Hello' }] }
+      ));
+
+      expect(unified).toBeNull();
+    });
+
+    it('should parse Bedrock InvokeModel with the model from the path', async () => {
+      const unified = await registry.parse(proxilionRequest(
+        'https://bedrock-runtime.eu-west-1.amazonaws.com/model/anthropic.claude-3-sonnet-20240229-v1%3A0/invoke',
+        { anthropic_version: 'bedrock-2023-05-31', max_tokens: 100, messages: [{ role: 'user', content: 'Hello' }] }
+      ));
+
+      expect(unified?.provider).toBe(AIServiceProvider.ANTHROPIC);
+      expect(unified?.model).toBe('anthropic.claude-3-sonnet-20240229-v1:0');
+      expect(unified?.messages[0].content).toBe('Hello');
+    });
+
+    it('should parse Bedrock Converse', async () => {
+      const unified = await registry.parse(proxilionRequest(
+        'https://bedrock-runtime.us-east-1.amazonaws.com/model/amazon.titan-text-premier-v1:0/converse',
+        { messages: [{ role: 'user', content: [{ text: 'Hello' }] }] }
+      ));
+
+      expect(unified?.model).toBe('amazon.titan-text-premier-v1:0');
+      expect(unified?.metadata.tags).toMatchObject({ api: 'converse' });
+    });
+
+    it('should reject Bedrock streaming operations', async () => {
+      const body = { messages: [{ role: 'user', content: [{ text: 'Hello' }] }] };
+
+      expect(await registry.parse(proxilionRequest(
+        'https://bedrock-runtime.us-east-1.amazonaws.com/model/amazon.titan-text-premier-v1:0/converse-stream',
+        body
+      ))).toBeNull();
+      expect(await registry.parse(proxilionRequest(
+        'https://bedrock-runtime.us-east-1.amazonaws.com/model/anthropic.claude-3-haiku-20240307-v1:0/invoke-with-response-stream',
+        { anthropic_version: 'bedrock-2023-05-31', max_tokens: 100, messages: [{ role: 'user', content: 'Hello' }] }
+      ))).toBeNull();
+    });
+
+    it('should not route other AWS hosts to Bedrock', async () => {
+      const unified = await registry.parse(proxilionRequest('https://s3.us-east-1.amazonaws.com/bucket/key', {}));
+
+      expect(unified).toBeNull();
+    });
+
+    it('should decode Bedrock Converse responses', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.CUSTOM, 'amazon.titan-text-premier-v1:0'), {
+        output: { message: { role: 'assistant', content: [{ text: 'Hi' }] } },
+        stopReason: 'end_turn',
+        usage: { inputTokens: 3, outputTokens: 1, totalTokens: 4 },
+      });
+
+      expect(response?.content).toBe('Hi');
+      expect(response?.usage?.totalTokens).toBe(4);
+    });
+  });
+
+  describe('decodeResponse', () => {
+    it('should decode OpenAI chat completions', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.OPENAI, 'gpt-4'), {
+        id: 'chatcmpl-1',
+        model: 'gpt-4-0613',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi there' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 },
+      });
+
+      expect(response).toMatchObject({
+        provider: AIServiceProvider.OPENAI,
+        model: 'gpt-4-0613',
+        content: 'Hi there',
+        finishReason: 'stop',
+        usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12 },
+        metadata: { id: 'chatcmpl-1' },
+      });
+    });
+
+    it('should decode Anthropic messages', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.ANTHROPIC, 'claude-3-opus-20240229'), {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-opus-20240229',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'weather' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 11 },
+      });
+
+      expect(response?.content).toBe('Let me check.');
+      expect(response?.finishReason).toBe('tool_use');
+      expect(response?.usage).toEqual({ promptTokens: 20, completionTokens: 11, totalTokens: 31 });
+      expect(response?.metadata?.toolCalls).toHaveLength(1);
+    });
+
+    it('should decode Gemini candidates', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.GOOGLE, 'gemini-pro'), {
+        candidates: [{ content: { role: 'model', parts: [{ text: 'Bonjour' }, { text: ' !' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 },
+        modelVersion: 'gemini-1.5-pro-002',
+      });
+
+      expect(response).toMatchObject({
+        provider: AIServiceProvider.GOOGLE,
+        model: 'gemini-1.5-pro-002',
+        content: 'Bonjour !',
+        finishReason: 'STOP',
+        usage: { promptTokens: 4, completionTokens: 2, totalTokens: 6 },
+      });
+    });
+
+    it('should decode Cohere chat billed units', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.COHERE, 'command-r'), {
+        response_id: 'r-1',
+        generation_id: 'g-1',
+        text: 'Sure thing',
+        finish_reason: 'COMPLETE',
+        meta: { billed_units: { input_tokens: 15, output_tokens: 2 } },
+      });
+
+      expect(response).toMatchObject({
+        provider: AIServiceProvider.COHERE,
+        model: 'command-r',
+        content: 'Sure thing',
+        finishReason: 'COMPLETE',
+        usage: { promptTokens: 15, completionTokens: 2, totalTokens: 17 },
+        metadata: { id: 'g-1' },
+      });
+    });
+
+    it('should decode a body in another provider format by shape', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.OPENAI, 'gpt-4'), {
+        candidates: [{ content: { role: 'model', parts: [{ text: 'Redirected' }] } }],
+      });
+
+      expect(response?.provider).toBe(AIServiceProvider.GOOGLE);
+      expect(response?.content).toBe('Redirected');
+    });
+
+    it('should parse JSON string bodies', () => {
+      const response = registry.decodeResponse(
+        unifiedRequest(AIServiceProvider.OPENAI, 'gpt-4'),
+        JSON.stringify({ choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' } }] })
+      );
+
+      expect(response?.content).toBe('Hi');
+      expect(response?.usage).toBeUndefined();
+    });
+
+    it('should not decode error bodies', () => {
+      const response = registry.decodeResponse(unifiedRequest(AIServiceProvider.ANTHROPIC, 'claude-3-haiku-20240307'), {
+        type: 'error',
+        error: { type: 'overloaded_error', message: 'Overloaded' },
+      });
+
+      expect(response).toBeUndefined();
+    });
+  });
+
+  describe('response processing', () => {
+    it('should scan and redact Gemini responses through the decoder', async () => {
+      const processor = new ResponseProcessor({ parsers: registry });
+      const result = await processor.process(
+        {
+          status: 200,
+          headers: {},
+          body: {
+            candidates: [{ content: { role: 'model', parts: [{ text: 'Contact jane.doe@example.com' }] } }],
+            usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 6 },
+          },
+        },
+        { request: unifiedRequest(AIServiceProvider.GOOGLE, 'gemini-pro') }
+      );
+
+      const body = JSON.parse(result.response.body as string);
+      expect(body.candidates[0].content.parts[0].text).toBe('Contact [REDACTED]');
+      expect(result.decoded?.content).toBe('Contact jane.doe@example.com');
+      expect(result.decoded?.usage?.completionTokens).toBe(6);
+    });
+
+    it('should scan the decoded response and record it in the audit log', async () => {
+      const auditLogger = new ResponseAuditLogger();
+      const processor = new ResponseProcessor({ parsers: registry, responseScanner: new ResponseScanner(), auditLogger });
+      const result = await processor.process(
+        {
+          status: 200,
+          headers: {},
+          body: {
+            id: 'msg_1',
+            type: 'message',
+            model: 'claude-3-haiku-20240307',
+            content: [{ type: 'text', text: 'Her SSN is 123-45-6789' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 8, output_tokens: 7 },
+          },
+        },
+        { request: unifiedRequest(AIServiceProvider.ANTHROPIC, 'claude-3-haiku-20240307') }
+      );
+
+      expect(result.responseScan?.safe).toBe(false);
+      expect(result.responseScan?.findings.some((f) => f.type === 'pii')).toBe(true);
+
+      const [entry] = auditLogger.queryAuditLog();
+      expect(entry).toMatchObject({
+        correlationId: 'test-123',
+        provider: AIServiceProvider.ANTHROPIC,
+        model: 'claude-3-haiku-20240307',
+        filterResult: { modified: true, blocked: false, appliedFilters: ['pii_redaction'] },
+      });
+    });
+  });
+});
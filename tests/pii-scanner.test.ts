@@ -120,6 +120,55 @@ describe('PIIScanner', () => {
     expect(result.findings.length).toBeGreaterThanOrEqual(2);
   });
 
+  it('should detect PII hidden by encoding or fullwidth digits', async () => {
+    const encoded = Buffer.from('SSN 123-45-6789').toString('base64');
+    const encodedResult = await scanner.scan(createTestRequest(`Here is my record: ${encoded}`));
+
+    expect(encodedResult.passed).toBe(false);
+    expect(encodedResult.findings[0].metadata?.transformations).toEqual(['base64']);
+
+    const fullwidth = await scanner.scan(createTestRequest('Email me at ｊｏｈｎ＠ｅｘａｍｐｌｅ．ｃｏｍ'));
+    expect(fullwidth.findings.map((f) => f.type)).toContain('Email Address');
+  });
+
+  it('should score confidence from checksums and nearby keywords', async () => {
+    const card = await scanner.scan(createTestRequest('Charge my visa card 4111 1111 1111 1111'));
+    expect(card.findings[0]).toMatchObject({ type: 'Credit Card Number (Visa)', confidence: 0.99 });
+    expect(card.findings[0].metadata?.validation).toEqual(['Passes Luhn checksum', 'Keyword "card" nearby']);
+
+    // Fails Luhn and sits next to "order": dropped below the minimum confidence
+    const order = await scanner.scan(createTestRequest('Your order number is 4111 1111 1111 1112'));
+    expect(order.findings.filter((f) => f.type.startsWith('Credit Card'))).toHaveLength(0);
+
+    const npi = await scanner.scan(createTestRequest('Prescriber NPI: 1234567893'));
+    expect(npi.findings.map((f) => f.type)).toContain('US National Provider Identifier (NPI)');
+    const bareNumber = await scanner.scan(createTestRequest('Reference 1234567893'));
+    expect(bareNumber.findings.map((f) => f.type)).not.toContain('US National Provider Identifier (NPI)');
+  });
+
+  it('should explain why matches were accepted or rejected', () => {
+    const evaluations = scanner.explainMatches('IBAN GB82WEST12345698765433', ['IBAN']);
+
+    expect(evaluations).toHaveLength(1);
+    expect(evaluations[0]).toMatchObject({ accepted: false, reasons: ['Fails IBAN mod-97 check'] });
+  });
+
+  it('should run international packs only when enabled globally or for the tenant', async () => {
+    const packScanner = new PIIScanner({ tenantPatternPacks: { 'acme-br': ['br'] } });
+    const request = createTestRequest('Meu CPF é 529.982.247-25');
+    const findCPF = (result: { findings: Array<{ type: string; metadata?: Record<string, any> }> }) =>
+      result.findings.find((f) => f.type === 'Brazilian CPF');
+
+    expect(findCPF(await packScanner.scan(request))).toBeUndefined();
+
+    request.metadata.tenantId = 'acme-br';
+    expect(findCPF(await packScanner.scan(request))?.metadata).toMatchObject({ locale: 'pt-BR' });
+
+    packScanner.enablePatternPack('sg');
+    expect(packScanner.getPatternPacks().find((p) => p.id === 'sg')?.enabled).toBe(true);
+    expect(() => packScanner.enablePatternPack('xx')).toThrow('Unknown PII pattern pack "xx"');
+  });
+
   it('should complete scan within reasonable time', async () => {
     const longContent = 'Hello world. '.repeat(1000);
     const request = createTestRequest(longContent);
@@ -0,0 +1,91 @@
+/**
+ * Tests for PII checksum and structure validators
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateCreditCard,
+  validateIBAN,
+  validateNPI,
+  validateVIN,
+  validateSSN,
+  validateUSPhone,
+  validateRoutingNumber,
+  validateUKNino,
+  validateSteuerId,
+  validateINSEE,
+  validateAadhaar,
+  validatePAN,
+  validateCPF,
+  validateCNPJ,
+  validateNRIC,
+  validateMyNumber,
+} from '../src/scanners/pii-validators';
+
+describe('PII validators', () => {
+  it('should check card numbers with Luhn, rejecting failures only in strict mode', () => {
+    expect(validateCreditCard('4111 1111 1111 1111', true)).toMatchObject({ valid: true, checksum: true });
+    expect(validateCreditCard('4111 1111 1111 1112', true).valid).toBe(false);
+    expect(validateCreditCard('4111 1111 1111 1112', false)).toMatchObject({ valid: true, checksum: false });
+  });
+
+  it('should check IBAN country length and mod-97', () => {
+    expect(validateIBAN('GB82 WEST 1234 5698 7654 32')).toMatchObject({ valid: true, checksum: true });
+    expect(validateIBAN('GB82 WEST 1234 5698 7654 33').reason).toBe('Fails IBAN mod-97 check');
+    expect(validateIBAN('GB82WEST123456987654').valid).toBe(false);
+    expect(validateIBAN('ZZ82WEST12345698765432').reason).toBe('Unknown IBAN country code ZZ');
+  });
+
+  it('should check NPI and VIN check digits', () => {
+    expect(validateNPI('1234567893').valid).toBe(true);
+    expect(validateNPI('1234567890').valid).toBe(false);
+    expect(validateNPI('3234567893').reason).toBe('NPIs start with 1 or 2');
+
+    expect(validateVIN('1HGCM82633A004352').valid).toBe(true);
+    expect(validateVIN('1HGCM82643A004352').reason).toBe('Fails VIN check digit (expected 3 in position 9)');
+    expect(validateVIN('ABCDEFGHJKLMNPRST').valid).toBe(false);
+  });
+
+  it('should apply SSN area, group and serial rules', () => {
+    expect(validateSSN('123-45-6789').valid).toBe(true);
+    expect(validateSSN('666-12-3456').valid).toBe(false);
+    expect(validateSSN('912-12-3456').valid).toBe(false);
+    expect(validateSSN('123-00-4567').valid).toBe(false);
+    expect(validateSSN('123-45-0000').valid).toBe(false);
+    expect(validateSSN('078-05-1120').reason).toBe('Publicly voided SSN');
+  });
+
+  it('should check phone area codes and routing checksums', () => {
+    expect(validateUSPhone('(555) 123-4567').valid).toBe(true);
+    expect(validateUSPhone('+1 212 555 0100').valid).toBe(true);
+    expect(validateUSPhone('123-456-7890').valid).toBe(false);
+
+    expect(validateRoutingNumber('021000021').valid).toBe(true);
+    expect(validateRoutingNumber('021000022').valid).toBe(false);
+  });
+
+  it('should validate European national identifiers', () => {
+    expect(validateUKNino('AB 12 34 56 C').valid).toBe(true);
+    expect(validateUKNino('GB123456A').reason).toBe('Prefix GB is never allocated');
+    expect(validateSteuerId('86095742719').valid).toBe(true);
+    expect(validateSteuerId('86095742718').valid).toBe(false);
+    expect(validateSteuerId('12345678903').reason).toBe('Exactly one digit must repeat in the first ten');
+    expect(validateINSEE('2 69 05 49 588 157 80').valid).toBe(true);
+    expect(validateINSEE('2 69 05 49 588 157 81').valid).toBe(false);
+  });
+
+  it('should validate Indian, Brazilian, Singaporean and Japanese identifiers', () => {
+    expect(validateAadhaar('2341 2341 2346').valid).toBe(true);
+    expect(validateAadhaar('2341 2341 2347').valid).toBe(false);
+    expect(validatePAN('ABCPE1234F').valid).toBe(true);
+    expect(validatePAN('ABCXE1234F').valid).toBe(false);
+    expect(validateCPF('529.982.247-25').valid).toBe(true);
+    expect(validateCPF('111.111.111-11').valid).toBe(false);
+    expect(validateCNPJ('11.222.333/0001-81').valid).toBe(true);
+    expect(validateCNPJ('11.222.333/0001-82').valid).toBe(false);
+    expect(validateNRIC('S1234567D').valid).toBe(true);
+    expect(validateNRIC('S1234567A').reason).toBe('Fails NRIC check letter (expected D)');
+    expect(validateMyNumber('1234 5678 9018').valid).toBe(true);
+    expect(validateMyNumber('1234 5678 9017').valid).toBe(false);
+  });
+});
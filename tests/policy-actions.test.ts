@@ -0,0 +1,430 @@
+/**
+ * Policy Action Tests
+ *
+ * MODIFY, REDIRECT and QUEUE action executors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RequestModifier } from '../src/policy/request-modifier.js';
+import { RequestRedirector } from '../src/policy/request-redirector.js';
+import { EntityScanner } from '../src/scanners/entity-scanner.js';
+import { PIIScanner } from '../src/scanners/pii-scanner.js';
+import { TokenVault } from '../src/policy/token-vault.js';
+import { ResponseProcessor } from '../src/response/response-processor.js';
+import { PolicyEngine } from '../src/policy/policy-engine.js';
+import { ActionQueue } from '../src/queue/action-queue.js';
+import { PriorityQueueManager } from '../src/queue/priority-queue-manager.js';
+import {
+  AggregatedScanResult,
+  AIServiceProvider,
+  PolicyAction,
+  ProxilionError,
+  ProxilionRequest,
+  ThreatLevel,
+  UnifiedAIRequest,
+} from '../src/types/index.js';
+
+function createScanResult(findingTypes: string[] = []): AggregatedScanResult {
+  return {
+    overallThreatLevel: ThreatLevel.MEDIUM,
+    overallScore: 0.5,
+    scanResults: [],
+    findings: findingTypes.map((type) => ({
+      type,
+      severity: ThreatLevel.MEDIUM,
+      message: `${type} detected`,
+      confidence: 0.9,
+    })),
+    totalExecutionTimeMs: 0,
+    timestamp: Date.now(),
+  };
+}
+
+function createOpenAIRequest(body: Record<string, unknown>): {
+  request: ProxilionRequest;
+  unified: UnifiedAIRequest;
+} {
+  return {
+    request: {
+      id: 'req-1',
+      timestamp: Date.now(),
+      method: 'POST',
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers: { 'content-type': 'application/json', authorization: 'Bearer sk-caller' },
+      body,
+    },
+    unified: {
+      provider: AIServiceProvider.OPENAI,
+      model: body.model as string,
+      messages: [],
+      parameters: {},
+      streaming: body.stream === true,
+      metadata: { correlationId: 'req-1' },
+    },
+  };
+}
+
+describe('PolicyEngine action parameters', () => {
+  it('should expose the primary action parameters on the decision', async () => {
+    const engine = new PolicyEngine();
+    engine.addPolicy({
+      id: 'redirect-gpt-4',
+      name: 'Redirect GPT-4',
+      description: 'Use a cheaper model',
+      enabled: true,
+      priority: 1000,
+      conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4' }],
+      actions: [
+        { action: PolicyAction.LOG },
+        { action: PolicyAction.REDIRECT, parameters: { model: 'gpt-4o-mini' } },
+      ],
+    });
+
+    const { unified } = createOpenAIRequest({ model: 'gpt-4', messages: [] });
+    const decision = await engine.evaluate(unified, createScanResult());
+
+    expect(decision.action).toBe(PolicyAction.REDIRECT);
+    expect(decision.parameters).toEqual({ model: 'gpt-4o-mini' });
+  });
+});
+
+describe('RequestModifier', () => {
+  let modifier: RequestModifier;
+
+  beforeEach(() => {
+    modifier = new RequestModifier();
+  });
+
+  it('should redact values for reported finding types in provider format', () => {
+    const body = {
+      model: 'gpt-4',
+      messages: [{ role: 'user', content: 'Mail john@example.com, SSN 123-45-6789' }],
+    };
+
+    const result = modifier.modify(body, createScanResult(['Email Address']));
+
+    expect((result.body as any).messages[0].content).toBe('Mail [REDACTED], SSN 123-45-6789');
+    expect(result.redactions).toBe(1);
+    expect(body.messages[0].content).toContain('john@example.com');
+  });
+
+  it('should limit redaction to configured finding types and extra patterns', () => {
+    const body = {
+      messages: [{ role: 'user', content: 'john@example.com 123-45-6789 project-falcon' }],
+    };
+
+    const result = modifier.modify(body, createScanResult(['Email Address', 'US Social Security Number']), {
+      redact: ['social security'],
+      patterns: ['project-\\w+'],
+      replacement: '***',
+    });
+
+    expect((result.body as any).messages[0].content).toBe('john@example.com *** ***');
+  });
+
+  it('should never redact identifiers or binary data', () => {
+    const body = {
+      model: 'gpt-4',
+      messages: [
+        {
+          role: 'user',
+          content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,QUJDREVGR0hJSktMTU5PUFFSU1RVVldYWVoxMjM0NTY3ODkw' } }],
+        },
+      ],
+    };
+
+    const result = modifier.modify(body, createScanResult(['API Key']));
+
+    expect(result.redactions).toBe(0);
+    expect(result.body).toEqual(body);
+  });
+
+  it('should redact the exact spans of findings that carry offsets', async () => {
+    const content = 'Patient: Maria Lopez lives at 12 Oak Street, Springfield.';
+    const body = { model: 'gpt-4', messages: [{ role: 'user', content }] };
+    const { unified } = createOpenAIRequest(body);
+    unified.messages = [{ role: 'user', content }];
+    const scanResult = createScanResult();
+    scanResult.findings = (await new EntityScanner().scan(unified)).findings;
+
+    const result = modifier.modify(body, scanResult, { redact: ['person'] }, unified);
+
+    expect((result.body as any).messages[0].content).toBe('Patient: [REDACTED] lives at 12 Oak Street, Springfield.');
+  });
+
+  it('should override and remove body fields', () => {
+    const body = { model: 'gpt-4', max_tokens: 4000, tools: [{ name: 'shell' }], messages: [] };
+
+    const result = modifier.modify(body, createScanResult(), {
+      redact: false,
+      set: { max_tokens: 256, 'metadata.modified_by': 'proxilion' },
+      remove: ['tools', 'missing'],
+    });
+
+    expect(result.body).toEqual({
+      model: 'gpt-4',
+      max_tokens: 256,
+      messages: [],
+      metadata: { modified_by: 'proxilion' },
+    });
+    expect(result.changedFields).toEqual(['max_tokens', 'metadata.modified_by', 'tools']);
+  });
+});
+
+describe('Reversible tokenization', () => {
+  let vault: TokenVault;
+  let modifier: RequestModifier;
+
+  beforeEach(() => {
+    vault = new TokenVault();
+    modifier = new RequestModifier({ piiScanner: new PIIScanner(), vault });
+  });
+
+  it('should replace PII with stable placeholders held in the vault', async () => {
+    const content = 'Email john@example.com and cc john@example.com, then mary@example.org';
+    const body = { model: 'gpt-4', messages: [{ role: 'user', content }] };
+    const { unified } = createOpenAIRequest(body);
+    unified.messages = [{ role: 'user', content }];
+
+    const result = modifier.modify(body, createScanResult(['Email Address']), { tokenize: true }, unified);
+
+    expect((result.body as any).messages[0].content).toBe('Email <EMAIL_1> and cc <EMAIL_1>, then <EMAIL_2>');
+    expect(result.tokens).toBe(2);
+    expect(result.redactions).toBe(0);
+    expect(vault.count('req-1')).toBe(2);
+  });
+
+  it('should restore placeholders in the response and release the mapping', async () => {
+    vault.tokenize('req-1', 'john@example.com', 'EMAIL');
+    const processor = new ResponseProcessor({ tokenVault: vault });
+
+    const processed = await processor.process(
+      {
+        status: 200,
+        headers: {},
+        body: { choices: [{ message: { role: 'assistant', content: 'I wrote to <EMAIL_1> and <EMAIL_9>.' } }] },
+      },
+      { correlationId: 'req-1' }
+    );
+
+    expect((processed.response.body as any).choices[0].message.content).toBe('I wrote to john@example.com and <EMAIL_9>.');
+    expect(processed.restoredTokens).toBe(1);
+    expect(vault.has('req-1')).toBe(false);
+  });
+
+  it('should expire mappings whose response never arrives', () => {
+    const shortVault = new TokenVault({ ttlMs: 0 });
+    shortVault.tokenize('req-1', '123-45-6789', 'SSN');
+
+    expect(shortVault.has('req-1')).toBe(false);
+    expect(shortVault.restore('req-1', '<SSN_1>').text).toBe('<SSN_1>');
+  });
+});
+
+describe('RequestRedirector', () => {
+  let redirector: RequestRedirector;
+
+  beforeEach(() => {
+    redirector = new RequestRedirector({ credentials: { anthropic: 'sk-ant-proxy' } });
+  });
+
+  it('should swap the model within the same provider', async () => {
+    const { request, unified } = createOpenAIRequest({ model: 'gpt-4', messages: [] });
+
+    const result = await redirector.redirect(request, unified, { model: 'gpt-4o-mini' });
+
+    expect(result.translated).toBe(false);
+    expect((result.request.body as any).model).toBe('gpt-4o-mini');
+    expect(result.request.headers.authorization).toBe('Bearer sk-caller');
+    expect((request.body as any).model).toBe('gpt-4');
+  });
+
+  it('should rewrite the model in the URL for path-addressed providers', async () => {
+    const request: ProxilionRequest = {
+      id: 'req-1',
+      timestamp: Date.now(),
+      method: 'POST',
+      url: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent',
+      headers: {},
+      body: { contents: [] },
+    };
+    const unified: UnifiedAIRequest = {
+      provider: AIServiceProvider.GOOGLE,
+      model: 'gemini-pro',
+      messages: [],
+      parameters: {},
+      streaming: false,
+      metadata: { correlationId: 'req-1' },
+    };
+
+    const result = await redirector.redirect(request, unified, { model: 'gemini-1.5-flash' });
+
+    expect(result.request.url).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent'
+    );
+  });
+
+  it('should translate requests to another provider with proxy credentials', async () => {
+    const { request, unified } = createOpenAIRequest({
+      model: 'gpt-4',
+      messages: [{ role: 'user', content: 'Hello' }],
+      max_tokens: 100,
+    });
+
+    const result = await redirector.redirect(request, unified, {
+      provider: 'anthropic',
+      model: 'claude-3-haiku-20240307',
+    });
+
+    expect(result.translated).toBe(true);
+    expect(result.request.url).toBe('https://api.anthropic.com/v1/messages');
+    expect(result.request.headers['x-api-key']).toBe('sk-ant-proxy');
+    expect(result.request.headers.authorization).toBeUndefined();
+    expect(result.request.body).toMatchObject({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+  });
+
+  it('should translate redirected responses back to the caller format', async () => {
+    const { request, unified } = createOpenAIRequest({ model: 'gpt-4', messages: [] });
+    const result = await redirector.redirect(request, unified, { provider: 'anthropic' });
+
+    const response = await redirector.restoreResponse(result, {
+      status: 200,
+      headers: {},
+      body: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-opus-20240229',
+        content: [{ type: 'text', text: 'Hi there' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 5, output_tokens: 3 },
+      },
+    });
+
+    expect((response.body as any).choices[0].message.content).toBe('Hi there');
+  });
+
+  it('should reject redirects it cannot perform safely', async () => {
+    const { request, unified } = createOpenAIRequest({ model: 'gpt-4', messages: [], stream: true });
+
+    await expect(redirector.redirect(request, unified, { provider: 'anthropic' })).rejects.toMatchObject({
+      code: 'REDIRECT_STREAMING_UNSUPPORTED',
+    });
+    await expect(redirector.redirect(request, unified, { provider: 'cohere' })).rejects.toBeInstanceOf(
+      ProxilionError
+    );
+    await expect(redirector.redirect(request, unified, {})).rejects.toMatchObject({
+      code: 'REDIRECT_TARGET_MISSING',
+    });
+  });
+});
+
+describe('ActionQueue', () => {
+  let queueManager: PriorityQueueManager;
+  let queue: ActionQueue;
+
+  beforeEach(() => {
+    queueManager = new PriorityQueueManager({ maxConcurrent: 1 });
+    queue = new ActionQueue(queueManager);
+  });
+
+  afterEach(() => {
+    queue.cleanup();
+    queueManager.cleanup();
+  });
+
+  it('should hold requests until approved', async () => {
+    let executed = false;
+    const { entry, result } = queue.submit({
+      id: 'req-1',
+      userId: 'user-1',
+      execute: async () => {
+        executed = true;
+        return 'response';
+      },
+    });
+
+    expect(entry.status).toBe('awaiting_approval');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(executed).toBe(false);
+
+    expect(queue.approve('req-1')).toBe(true);
+    await expect(result).resolves.toBe('response');
+    expect(queue.getEntry('req-1')).toBeUndefined();
+  });
+
+  it('should reject held requests', async () => {
+    const { result } = queue.submit({ id: 'req-1', userId: 'user-1', execute: async () => 'response' });
+
+    expect(queue.reject('req-1', 'Denied by reviewer')).toBe(true);
+    await expect(result).rejects.toMatchObject({ code: 'QUEUE_REJECTED', message: 'Denied by reviewer' });
+    expect(queue.approve('req-1')).toBe(false);
+  });
+
+  it('should run delayed requests without approval after the delay', async () => {
+    const started = Date.now();
+    const { entry, result } = queue.submit({
+      id: 'req-1',
+      userId: 'user-1',
+      parameters: { requireApproval: false, delayMs: 50 },
+      execute: async () => Date.now() - started,
+    });
+
+    expect(entry.status).toBe('delayed');
+    expect(await result).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should run released requests by priority within the concurrency limit', async () => {
+    const order: string[] = [];
+    let releaseFirst!: () => void;
+
+    const first = queue.submit({
+      id: 'first',
+      userId: 'user-1',
+      parameters: { requireApproval: false },
+      execute: () => new Promise<void>((resolve) => {
+        order.push('first');
+        releaseFirst = resolve;
+      }),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const low = queue.submit({
+      id: 'low',
+      userId: 'user-2',
+      parameters: { requireApproval: false, priority: 'low' },
+      execute: async () => { order.push('low'); },
+    });
+    const critical = queue.submit({
+      id: 'critical',
+      userId: 'user-3',
+      parameters: { requireApproval: false, priority: 'critical' },
+      execute: async () => { order.push('critical'); },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(queue.getEntry('low')?.status).toBe('queued');
+
+    releaseFirst();
+    await Promise.all([first.result, low.result, critical.result]);
+
+    expect(order).toEqual(['first', 'critical', 'low']);
+  });
+
+  it('should surface execution failures', async () => {
+    const { result } = queue.submit({
+      id: 'req-1',
+      userId: 'user-1',
+      parameters: { requireApproval: false },
+      execute: async () => {
+        throw new Error('upstream unavailable');
+      },
+    });
+
+    await expect(result).rejects.toThrow('upstream unavailable');
+  });
+});
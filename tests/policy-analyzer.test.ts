@@ -0,0 +1,139 @@
+/**
+ * Policy Analyzer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PolicyAnalyzer } from '../src/policy/policy-analyzer.js';
+import { PolicyEngine } from '../src/policy/policy-engine.js';
+import { Policy, PolicyAction, PolicyCondition, ThreatLevel } from '../src/types/index.js';
+
+function policy(
+  id: string,
+  priority: number,
+  conditions: PolicyCondition[],
+  action: PolicyAction = PolicyAction.BLOCK
+): Policy {
+  return {
+    id,
+    name: id,
+    description: id,
+    enabled: true,
+    priority,
+    conditions,
+    actions: [{ action }],
+  };
+}
+
+function analyze(policies: Policy[], engine = new PolicyEngine(policies)) {
+  return new PolicyAnalyzer(engine).analyze();
+}
+
+describe('PolicyAnalyzer', () => {
+  it('should report nothing for the default policy set', () => {
+    expect(new PolicyAnalyzer(new PolicyEngine()).analyze().issues).toEqual([]);
+  });
+
+  it('should flag policies shadowed by a broader higher-priority policy', () => {
+    const report = analyze([
+      policy('allow-safe', 100, [{ type: 'threat_level', operator: 'lte', value: ThreatLevel.MEDIUM }], PolicyAction.ALLOW),
+      policy('block-low-gpt-4', 50, [
+        { type: 'threat_level', operator: 'eq', value: ThreatLevel.LOW },
+        { type: 'model', operator: 'in', value: ['gpt-4', 'gpt-4o'] },
+      ]),
+      policy('block-high', 40, [{ type: 'threat_level', operator: 'gte', value: ThreatLevel.HIGH }]),
+    ]);
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'shadowed', policyId: 'block-low-gpt-4', relatedPolicyIds: ['allow-safe'] }),
+    ]);
+  });
+
+  it('should treat a policy without conditions as matching everything', () => {
+    const report = analyze([
+      policy('catch-all', 100, [], PolicyAction.ALLOW),
+      policy('block-gpt-4', 50, [{ type: 'model', operator: 'eq', value: 'gpt-4' }]),
+    ]);
+
+    expect(report.issues.map((i) => i.type)).toEqual(['shadowed']);
+  });
+
+  it('should not flag policies that only partially overlap', () => {
+    const report = analyze([
+      policy('block-gpt-4', 100, [{ type: 'model', operator: 'eq', value: 'gpt-4' }]),
+      policy('block-large', 50, [{ type: 'token_estimate', operator: 'gt', value: 4000 }]),
+      policy('block-pii', 40, [{ type: 'any', conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4' }] }]),
+    ]);
+
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should flag policies whose conditions contradict each other', () => {
+    const report = analyze([
+      policy('two-models', 100, [
+        { type: 'model', operator: 'eq', value: 'gpt-4' },
+        { type: 'all', conditions: [{ type: 'model', operator: 'eq', value: 'claude-3' }] },
+      ]),
+      policy('empty-range', 90, [
+        { type: 'token_estimate', operator: 'gt', value: 1000 },
+        { type: 'token_estimate', operator: 'lte', value: 1000 },
+      ]),
+      policy('excluded-finding', 80, [
+        { type: 'finding_type', operator: 'eq', value: 'Email Address' },
+        { type: 'finding_type', operator: 'not_in', value: ['Email Address', 'Phone Number'] },
+      ]),
+      policy('two-findings', 70, [
+        { type: 'finding_type', operator: 'eq', value: 'Email Address' },
+        { type: 'finding_type', operator: 'eq', value: 'Phone Number' },
+      ]),
+    ]);
+
+    expect(report.issues.map((i) => [i.type, i.policyId])).toEqual([
+      ['unsatisfiable', 'two-models'],
+      ['unsatisfiable', 'empty-range'],
+      ['unsatisfiable', 'excluded-finding'],
+    ]);
+  });
+
+  it('should flag overlapping policies with equal priority and different actions', () => {
+    const report = analyze([
+      policy('allow-gpt-4', 100, [{ type: 'model', operator: 'eq', value: 'gpt-4' }], PolicyAction.ALLOW),
+      policy('block-gpt-4-pii', 100, [
+        { type: 'model', operator: 'eq', value: 'gpt-4' },
+        { type: 'finding_type', operator: 'eq', value: 'Email Address' },
+      ]),
+    ]);
+
+    expect(report.issues.map((i) => i.type).sort()).toEqual(['conflict', 'shadowed']);
+  });
+
+  it('should flag actions discarded by merging in merge mode', () => {
+    const engine = new PolicyEngine([
+      policy('block-gpt-4', 100, [{ type: 'model', operator: 'eq', value: 'gpt-4' }]),
+      policy('allow-gpt-4-internal', 50, [
+        { type: 'model', operator: 'eq', value: 'gpt-4' },
+        { type: 'department', operator: 'eq', value: 'research' },
+      ], PolicyAction.ALLOW),
+      policy('block-research', 40, [{ type: 'department', operator: 'eq', value: 'research' }]),
+    ]);
+    engine.updateEvaluationSettings({ evaluationMode: 'merge' }, 'tenant-a');
+
+    const report = new PolicyAnalyzer(engine).analyze('tenant-a');
+
+    expect(report.evaluationMode).toBe('merge');
+    expect(report.issues.map((i) => [i.type, i.policyId, i.relatedPolicyIds[0]])).toEqual([
+      ['conflict', 'allow-gpt-4-internal', 'block-gpt-4'],
+      ['conflict', 'allow-gpt-4-internal', 'block-research'],
+    ]);
+  });
+
+  it('should ignore disabled and shadow policies', () => {
+    const report = analyze([
+      { ...policy('catch-all', 100, [], PolicyAction.ALLOW), enabled: false },
+      { ...policy('shadow-catch-all', 90, [], PolicyAction.ALLOW), mode: 'shadow' },
+      policy('block-gpt-4', 50, [{ type: 'model', operator: 'eq', value: 'gpt-4' }]),
+    ]);
+
+    expect(report.policyCount).toBe(1);
+    expect(report.issues).toEqual([]);
+  });
+});
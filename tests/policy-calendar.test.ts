@@ -0,0 +1,142 @@
+/**
+ * Policy Calendar Tests
+ *
+ * Time zone aware windows, holidays and business hours
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PolicyCalendar } from '../src/policy/policy-calendar.js';
+import { MemoryStorageAdapter } from '../src/storage/memory-storage.js';
+
+// Friday 2025-01-03 23:30 UTC = Saturday 08:30 in Tokyo, Friday 15:30 in Los Angeles
+const NOW = new Date('2025-01-03T23:30:00Z');
+
+describe('PolicyCalendar', () => {
+  let calendar: PolicyCalendar;
+
+  beforeEach(() => {
+    calendar = new PolicyCalendar();
+  });
+
+  it('should evaluate windows in the configured time zone', () => {
+    const window = { days: ['fri' as const], start: '09:00', end: '17:00' };
+
+    expect(calendar.isWithinWindow(window, NOW)).toBe(false);
+    expect(calendar.isWithinWindow({ ...window, timezone: 'America/Los_Angeles' }, NOW)).toBe(true);
+    expect(calendar.isWithinWindow({ ...window, timezone: 'Asia/Tokyo' }, NOW)).toBe(false);
+  });
+
+  it('should handle windows that span midnight', () => {
+    const overnight = { start: '22:00', end: '06:00' };
+
+    expect(calendar.isWithinWindow(overnight, NOW)).toBe(true);
+    expect(calendar.isWithinWindow(overnight, new Date('2025-01-03T12:00:00Z'))).toBe(false);
+    expect(calendar.isWithinWindow(overnight, new Date('2025-01-04T05:59:00Z'))).toBe(true);
+    expect(calendar.isWithinWindow(overnight, new Date('2025-01-04T06:00:00Z'))).toBe(false);
+  });
+
+  it('should apply inclusive date ranges on the local date', () => {
+    const freeze = { timezone: 'Asia/Tokyo', from: '2025-01-04', to: '2025-01-05' };
+
+    expect(calendar.isWithinWindow(freeze, NOW)).toBe(true);
+    expect(calendar.isWithinWindow({ ...freeze, timezone: 'UTC' }, NOW)).toBe(false);
+  });
+
+  it('should exclude holidays from business hours', () => {
+    calendar.setHolidayCalendar({ name: 'us', timezone: 'America/New_York', holidays: [{ date: '2025-01-03' }] });
+    calendar.setBusinessHours(
+      { timezone: 'America/Los_Angeles', days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' },
+      'tenant-us'
+    );
+
+    expect(calendar.isBusinessHours('tenant-us', NOW)).toBe(true);
+
+    calendar.setBusinessHours({ ...calendar.getBusinessHours('tenant-us'), holidays: 'us' }, 'tenant-us');
+    expect(calendar.isBusinessHours('tenant-us', NOW)).toBe(false);
+    expect(calendar.isHoliday('us', NOW)).toBe(true); // 18:30 in New York
+    expect(calendar.isHoliday('us', NOW, 'Asia/Tokyo')).toBe(false);
+
+    expect(calendar.resetBusinessHours('tenant-us')).toBe(true);
+    expect(calendar.getBusinessHours('tenant-us').timezone).toBe('UTC');
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => calendar.isWithinWindow({ timezone: 'Mars/Olympus' }, NOW)).toThrow('Invalid time zone');
+    expect(() => calendar.isWithinWindow({ start: '9am' }, NOW)).toThrow('Invalid time of day');
+    expect(() => calendar.isWithinWindow({ days: ['friday' as any] }, NOW)).toThrow('Invalid weekday');
+    expect(() => calendar.setHolidayCalendar({ name: 'x', holidays: [{ date: '03/01/2025' }] })).toThrow(
+      'Invalid holiday date'
+    );
+  });
+
+  it('should persist business hours', async () => {
+    const storage = new MemoryStorageAdapter();
+    await calendar.attachStorage(storage);
+    calendar.setBusinessHours({ timezone: 'Europe/Berlin', days: ['mon'], start: '08:00', end: '16:00' }, 'tenant-de');
+    await storage.flush();
+
+    const restored = new PolicyCalendar();
+    await restored.attachStorage(storage);
+
+    expect(restored.getBusinessHours('tenant-de').timezone).toBe('Europe/Berlin');
+  });
+
+  it('should persist holiday calendars managed at runtime', async () => {
+    const storage = new MemoryStorageAdapter();
+    await calendar.attachStorage(storage);
+    calendar.setHolidayCalendar({ name: 'de', holidays: [{ date: '2025-10-03', name: 'Unity Day' }] });
+    calendar.setHolidayCalendar({ name: 'fr', holidays: [{ date: '2025-07-14' }] });
+    calendar.removeHolidayCalendar('fr');
+    await storage.flush();
+
+    const restored = new PolicyCalendar();
+    await restored.attachStorage(storage);
+
+    expect(restored.getHolidayCalendar('de')?.holidays).toEqual([{ date: '2025-10-03', name: 'Unity Day' }]);
+    expect(restored.getHolidayCalendar('fr')).toBeUndefined();
+  });
+
+  describe('holiday files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'proxilion-calendar-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load holiday calendars from a file', async () => {
+      const file = path.join(directory, 'holidays.json');
+      await fs.writeFile(file, JSON.stringify({
+        jp: { timezone: 'Asia/Tokyo', holidays: ['2025-01-04', { date: '2025-01-13', name: 'Coming of Age Day' }] },
+      }));
+
+      expect(await calendar.loadHolidayFile(file)).toBe(1);
+      expect(calendar.isHoliday('jp', NOW)).toBe(true);
+      expect(calendar.getHolidayCalendar('jp')?.holidays[1].name).toBe('Coming of Age Day');
+    });
+
+    it('should keep stored runtime calendars over file definitions', async () => {
+      const storage = new MemoryStorageAdapter();
+      await calendar.attachStorage(storage);
+      calendar.setHolidayCalendar({ name: 'jp', holidays: [{ date: '2025-02-11' }] });
+      await storage.flush();
+
+      const file = path.join(directory, 'holidays.json');
+      await fs.writeFile(file, JSON.stringify({ jp: { holidays: ['2025-01-04'] }, uk: { holidays: ['2025-12-26'] } }));
+
+      const restarted = new PolicyCalendar();
+      await restarted.attachStorage(storage);
+      await restarted.loadHolidayFile(file);
+
+      expect(restarted.getHolidayCalendar('jp')?.holidays).toEqual([{ date: '2025-02-11' }]);
+      expect(restarted.getHolidayCalendar('uk')).toBeDefined();
+      expect((await storage.entries('holiday_calendars')).map(([name]) => name)).toEqual(['jp']);
+    });
+  });
+});
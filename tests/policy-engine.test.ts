@@ -0,0 +1,434 @@
+/**
+ * Policy Engine Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PolicyEngine } from '../src/policy/policy-engine.js';
+import {
+  AggregatedScanResult,
+  AIServiceProvider,
+  PolicyAction,
+  PolicyCondition,
+  ThreatLevel,
+  UnifiedAIRequest,
+} from '../src/types/index.js';
+
+function createRequest(overrides: Partial<UnifiedAIRequest> = {}): UnifiedAIRequest {
+  return {
+    provider: AIServiceProvider.OPENAI,
+    model: 'gpt-4',
+    messages: [{ role: 'user', content: 'Summarize the quarterly report' }],
+    parameters: { maxTokens: 100 },
+    streaming: false,
+    metadata: { correlationId: 'test-correlation' },
+    ...overrides,
+  };
+}
+
+function createScanResult(overrides: Partial<AggregatedScanResult> = {}): AggregatedScanResult {
+  return {
+    overallThreatLevel: ThreatLevel.NONE,
+    overallScore: 0,
+    scanResults: [],
+    findings: [],
+    totalExecutionTimeMs: 0,
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('PolicyEngine condition DSL', () => {
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    engine = new PolicyEngine();
+  });
+
+  function addRule(conditions: PolicyCondition[]): void {
+    engine.addPolicy({
+      id: 'rule',
+      name: 'Rule',
+      description: 'Test rule',
+      enabled: true,
+      priority: 1000,
+      conditions,
+      actions: [{ action: PolicyAction.BLOCK }],
+    });
+  }
+
+  async function matches(
+    request: UnifiedAIRequest = createRequest(),
+    scanResult: AggregatedScanResult = createScanResult()
+  ): Promise<boolean> {
+    const decision = await engine.evaluate(request, scanResult);
+    return decision.policyId === 'rule';
+  }
+
+  it('should combine nested all/any/not groups', async () => {
+    // Block GPT-4 for contractors outside the EU unless the compliance scanner passed
+    addRule([
+      {
+        type: 'all',
+        conditions: [
+          { type: 'model', operator: 'matches', value: '^gpt-4' },
+          { type: 'department', operator: 'eq', value: 'contractors' },
+          { type: 'header', field: 'x-region', operator: 'not_in', value: ['eu-west-1', 'eu-central-1'] },
+          {
+            type: 'not',
+            conditions: [{ type: 'scanner', field: 'compliance-scanner', operator: 'eq', value: true }],
+          },
+        ],
+      },
+    ]);
+
+    const contractorRequest = (region: string) =>
+      createRequest({
+        metadata: {
+          correlationId: 'c1',
+          department: 'contractors',
+          headers: { 'X-Region': region },
+        },
+      });
+    const complianceResult = (passed: boolean) =>
+      createScanResult({
+        scanResults: [
+          {
+            scannerId: 'compliance-scanner',
+            scannerName: 'Compliance',
+            passed,
+            threatLevel: ThreatLevel.NONE,
+            score: 0,
+            findings: [],
+            executionTimeMs: 0,
+          },
+        ],
+      });
+
+    expect(await matches(contractorRequest('us-east-1'), complianceResult(false))).toBe(true);
+    expect(await matches(contractorRequest('us-east-1'), complianceResult(true))).toBe(false);
+    expect(await matches(contractorRequest('eu-west-1'), complianceResult(false))).toBe(false);
+    expect(await matches(createRequest({ model: 'gpt-3.5-turbo', metadata: contractorRequest('us-east-1').metadata }))).toBe(false);
+  });
+
+  it('should match any group when at least one child matches', async () => {
+    addRule([
+      {
+        type: 'any',
+        conditions: [
+          { type: 'provider', operator: 'eq', value: AIServiceProvider.ANTHROPIC },
+          { type: 'tenant', operator: 'in', value: ['acme', 'globex'] },
+        ],
+      },
+    ]);
+
+    expect(await matches(createRequest({ provider: AIServiceProvider.ANTHROPIC }))).toBe(true);
+    expect(await matches(createRequest({ metadata: { correlationId: 'c', tenantId: 'globex' } }))).toBe(true);
+    expect(await matches(createRequest())).toBe(false);
+  });
+
+  it('should compare token estimates numerically', async () => {
+    addRule([{ type: 'token_estimate', field: 'total', operator: 'gt', value: 1000 }]);
+
+    expect(await matches(createRequest({ parameters: { maxTokens: 100 } }))).toBe(false);
+    expect(await matches(createRequest({ parameters: { maxTokens: 2000 } }))).toBe(true);
+  });
+
+  it('should match finding types and tool names across all values', async () => {
+    addRule([
+      { type: 'finding_type', operator: 'in', value: ['credit_card', 'ssn'] },
+      { type: 'tool_name', operator: 'contains', value: 'shell' },
+    ]);
+
+    const request = createRequest({
+      tools: [
+        { name: 'search', description: 'Search', parameters: {} },
+        { name: 'run_shell', description: 'Run commands', parameters: {} },
+      ],
+    });
+    const scanResult = createScanResult({
+      findings: [{ type: 'ssn', severity: ThreatLevel.HIGH, message: 'SSN detected', confidence: 0.9 }],
+    });
+
+    expect(await matches(request, scanResult)).toBe(true);
+    expect(await matches(createRequest(), scanResult)).toBe(false);
+  });
+
+  it('should treat missing request fields as non-matching except for negative operators', async () => {
+    addRule([
+      { type: 'tenant', operator: 'ne', value: 'acme' },
+      { type: 'header', field: 'x-team', operator: 'not_in', value: ['security'] },
+    ]);
+
+    expect(await matches(createRequest())).toBe(true);
+    expect(await matches(createRequest({ metadata: { correlationId: 'c', tenantId: 'acme' } }))).toBe(false);
+  });
+
+  it('should not match invalid regular expressions', async () => {
+    addRule([{ type: 'model', operator: 'matches', value: '(' }]);
+
+    expect(await matches()).toBe(false);
+  });
+
+  it('should evaluate custom conditions with registered predicates', async () => {
+    engine.registerPredicate('long-conversation', (request, _scanResult, condition) =>
+      request.messages.length > (condition.value as number)
+    );
+    addRule([{ type: 'custom', field: 'long-conversation', value: 2 }]);
+
+    expect(await matches()).toBe(false);
+    expect(await matches(createRequest({
+      messages: [
+        { role: 'user', content: 'One' },
+        { role: 'assistant', content: 'Two' },
+        { role: 'user', content: 'Three' },
+      ],
+    }))).toBe(true);
+  });
+
+  it('should reject custom conditions naming an unregistered predicate', () => {
+    expect(() => addRule([{ type: 'not', conditions: [{ type: 'custom', field: 'missing' }] }]))
+      .toThrow('Unknown custom condition predicate: missing');
+    expect(engine.getPolicy('rule')).toBeUndefined();
+    expect(() => engine.updatePolicy('default-block-critical', { conditions: [{ type: 'custom' }] }))
+      .toThrow(/Unknown custom condition predicate/);
+  });
+});
+
+describe('PolicyEngine shadow mode', () => {
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    engine = new PolicyEngine();
+  });
+
+  function addShadowPolicy(priority: number, action: PolicyAction, conditions: PolicyCondition[] = []): void {
+    engine.addPolicy({
+      id: 'shadow',
+      name: 'Shadow',
+      description: 'Shadow policy',
+      enabled: true,
+      priority,
+      mode: 'shadow',
+      conditions,
+      actions: [{ action }],
+    });
+  }
+
+  it('should never enforce shadow policies', async () => {
+    addShadowPolicy(1000, PolicyAction.BLOCK);
+
+    const decision = await engine.evaluate(createRequest(), createScanResult());
+
+    expect(decision.action).toBe(PolicyAction.ALLOW);
+    expect(decision.shadowDecisions).toHaveLength(1);
+    expect(decision.shadowDecisions![0].policyId).toBe('shadow');
+    expect(decision.shadowDecisions![0].action).toBe(PolicyAction.BLOCK);
+  });
+
+  it('should count would-be blocks with example correlation IDs', async () => {
+    addShadowPolicy(1000, PolicyAction.BLOCK, [{ type: 'model', operator: 'eq', value: 'gpt-4' }]);
+
+    for (let i = 0; i < 15; i++) {
+      await engine.evaluate(
+        createRequest({ metadata: { correlationId: `req-${i}` } }),
+        createScanResult()
+      );
+    }
+    await engine.evaluate(createRequest({ model: 'claude-3' }), createScanResult());
+
+    const [report] = engine.getShadowReport('shadow');
+    expect(report.evaluated).toBe(16);
+    expect(report.matched).toBe(15);
+    expect(report.wouldBlock).toBe(15);
+    expect(report.examples).toHaveLength(10);
+    expect(report.examples[9].correlationId).toBe('req-14');
+    expect(report.examples[9].enforcedAction).toBe(PolicyAction.ALLOW);
+  });
+
+  it('should not count matches outranked by an enforced policy', async () => {
+    // Lower priority than the default critical-block policy
+    addShadowPolicy(1, PolicyAction.LOG);
+
+    await engine.evaluate(
+      createRequest(),
+      createScanResult({ overallThreatLevel: ThreatLevel.CRITICAL })
+    );
+
+    const [report] = engine.getShadowReport();
+    expect(report.matched).toBe(1);
+    expect(report.wouldChange).toBe(0);
+    expect(report.examples).toHaveLength(0);
+  });
+
+  it('should keep results after the policy is promoted', async () => {
+    addShadowPolicy(1000, PolicyAction.MODIFY);
+    await engine.evaluate(createRequest(), createScanResult());
+
+    engine.updatePolicy('shadow', { mode: 'enforce' });
+    const decision = await engine.evaluate(createRequest(), createScanResult());
+
+    expect(decision.action).toBe(PolicyAction.MODIFY);
+    const [report] = engine.getShadowReport();
+    expect(report.mode).toBe('enforce');
+    expect(report.wouldModify).toBe(1);
+  });
+});
+
+describe('PolicyEngine evaluation settings', () => {
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    engine = new PolicyEngine([
+      {
+        id: 'log-gpt-4',
+        name: 'Log GPT-4',
+        description: 'Log GPT-4 usage',
+        enabled: true,
+        priority: 200,
+        conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4' }],
+        actions: [{ action: PolicyAction.LOG }],
+      },
+      {
+        id: 'redact-email',
+        name: 'Redact Email',
+        description: 'Redact email addresses',
+        enabled: true,
+        priority: 100,
+        conditions: [{ type: 'finding_type', operator: 'contains', value: 'email' }],
+        actions: [{ action: PolicyAction.MODIFY, parameters: { redact: ['email'] } }],
+      },
+      {
+        id: 'redact-all',
+        name: 'Redact Everything',
+        description: 'Redact all findings with a custom marker',
+        enabled: true,
+        priority: 50,
+        conditions: [{ type: 'finding_type', operator: 'contains', value: 'email' }],
+        actions: [{ action: PolicyAction.MODIFY, parameters: { redact: true, replacement: '***' } }],
+      },
+    ]);
+  });
+
+  const emailScan = () => createScanResult({
+    findings: [{ type: 'Email Address', severity: ThreatLevel.MEDIUM, message: 'Email', confidence: 0.9 }],
+  });
+
+  it('should apply the configured default action per tenant', async () => {
+    const request = createRequest({ model: 'gpt-3.5-turbo' });
+
+    expect((await engine.evaluate(request, createScanResult())).action).toBe(PolicyAction.BLOCK);
+
+    engine.updateEvaluationSettings({ defaultAction: PolicyAction.ALLOW }, 'tenant-a');
+    const tenantRequest = createRequest({
+      model: 'gpt-3.5-turbo',
+      metadata: { correlationId: 'c', tenantId: 'tenant-a' },
+    });
+
+    const decision = await engine.evaluate(tenantRequest, createScanResult());
+    expect(decision.policyId).toBe('default-fallback');
+    expect(decision.action).toBe(PolicyAction.ALLOW);
+    expect((await engine.evaluate(request, createScanResult())).action).toBe(PolicyAction.BLOCK);
+
+    expect(engine.resetEvaluationSettings('tenant-a')).toBe(true);
+    expect((await engine.evaluate(tenantRequest, createScanResult())).action).toBe(PolicyAction.BLOCK);
+  });
+
+  it('should apply only the first matching policy by default', async () => {
+    const decision = await engine.evaluate(createRequest(), emailScan());
+
+    expect(decision.policyId).toBe('log-gpt-4');
+    expect(decision.action).toBe(PolicyAction.LOG);
+  });
+
+  it('should merge all matching policies in merge mode', async () => {
+    engine.updateEvaluationSettings({ evaluationMode: 'merge' });
+
+    const decision = await engine.evaluate(createRequest(), emailScan());
+
+    expect(decision.action).toBe(PolicyAction.MODIFY);
+    expect(decision.policyId).toBe('redact-email');
+    expect(decision.parameters).toEqual({ redact: ['email'], replacement: '***' });
+    expect(decision.metadata?.mergedPolicyIds).toEqual(['log-gpt-4', 'redact-email', 'redact-all']);
+    expect(decision.metadata?.allActions).toEqual([PolicyAction.LOG, PolicyAction.MODIFY]);
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => engine.updateEvaluationSettings({ defaultAction: 'deny' as PolicyAction })).toThrow(
+      'Invalid default action'
+    );
+    expect(() => engine.updateEvaluationSettings({ evaluationMode: 'all' as any })).toThrow(
+      'Invalid evaluation mode'
+    );
+  });
+});
+
+describe('PolicyEngine time conditions', () => {
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    engine = new PolicyEngine([]);
+    // Monday 2025-03-03 18:30 UTC = 10:30 in Los Angeles
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-03T18:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function addRule(condition: PolicyCondition): void {
+    engine.addPolicy({
+      id: 'rule',
+      name: 'Rule',
+      description: 'Test rule',
+      enabled: true,
+      priority: 1000,
+      conditions: [condition],
+      actions: [{ action: PolicyAction.ALLOW }],
+    });
+  }
+
+  async function matches(tenantId?: string): Promise<boolean> {
+    const decision = await engine.evaluate(
+      createRequest({ metadata: { correlationId: 'c', tenantId } }),
+      createScanResult()
+    );
+    return decision.policyId === 'rule';
+  }
+
+  it('should evaluate business hours per tenant in its own time zone', async () => {
+    addRule({ type: 'time', field: 'business_hours' });
+    expect(await matches()).toBe(false); // 18:30 UTC is after the default 17:00 UTC
+
+    engine.getCalendar().setBusinessHours(
+      { timezone: 'America/Los_Angeles', days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' },
+      'tenant-us'
+    );
+    expect(await matches('tenant-us')).toBe(true);
+  });
+
+  it('should evaluate time windows and negate them with ne', async () => {
+    addRule({
+      type: 'time',
+      field: 'window',
+      operator: 'ne',
+      value: { timezone: 'Asia/Tokyo', start: '22:00', end: '06:00' },
+    });
+
+    // 03:30 on Tuesday in Tokyo falls inside the overnight window
+    expect(await matches()).toBe(false);
+  });
+
+  it('should match holiday calendars', async () => {
+    engine.getCalendar().setHolidayCalendar({ name: 'us', timezone: 'America/New_York', holidays: [{ date: '2025-03-03' }] });
+    addRule({ type: 'time', field: 'holiday', value: 'us' });
+
+    expect(await matches()).toBe(true);
+  });
+
+  it('should never match malformed windows', async () => {
+    addRule({ type: 'time', field: 'window', value: { timezone: 'Mars/Olympus', start: '09:00' } });
+
+    expect(await matches()).toBe(false);
+  });
+});
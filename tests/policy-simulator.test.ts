@@ -0,0 +1,140 @@
+/**
+ * Policy Simulation Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PolicyEngine } from '../src/policy/policy-engine.js';
+import { PolicySimulator } from '../src/policy/policy-simulator.js';
+import { TrafficRecorder } from '../src/policy/traffic-recorder.js';
+import {
+  AggregatedScanResult,
+  AIServiceProvider,
+  Policy,
+  PolicyAction,
+  ThreatLevel,
+  UnifiedAIRequest,
+} from '../src/types/index.js';
+
+function createRequest(correlationId: string, model = 'gpt-4'): UnifiedAIRequest {
+  return {
+    provider: AIServiceProvider.OPENAI,
+    model,
+    messages: [{ role: 'user', content: 'Hello' }],
+    parameters: {},
+    streaming: false,
+    metadata: { correlationId },
+  };
+}
+
+function createScanResult(threatLevel: ThreatLevel = ThreatLevel.NONE): AggregatedScanResult {
+  return {
+    overallThreatLevel: threatLevel,
+    overallScore: 0,
+    scanResults: [],
+    findings: [],
+    totalExecutionTimeMs: 0,
+    timestamp: Date.now(),
+  };
+}
+
+const blockGpt4: Policy = {
+  id: 'block-gpt-4',
+  name: 'Block GPT-4',
+  description: 'Block GPT-4 requests',
+  enabled: true,
+  priority: 500,
+  conditions: [{ type: 'model', operator: 'eq', value: 'gpt-4' }],
+  actions: [{ action: PolicyAction.BLOCK }],
+};
+
+describe('TrafficRecorder', () => {
+  it('should keep only the most recent entries', async () => {
+    const recorder = new TrafficRecorder({ maxEntries: 3 });
+    const engine = new PolicyEngine();
+    engine.setTrafficRecorder(recorder);
+
+    for (let i = 0; i < 5; i++) {
+      await engine.evaluate(createRequest(`req-${i}`), createScanResult());
+    }
+
+    expect(recorder.getEntries().map((e) => e.correlationId)).toEqual(['req-2', 'req-3', 'req-4']);
+    expect(recorder.getEntries({ limit: 1 })[0].correlationId).toBe('req-4');
+  });
+
+  it('should not be affected by later changes to the live request', async () => {
+    const recorder = new TrafficRecorder();
+    const engine = new PolicyEngine();
+    engine.setTrafficRecorder(recorder);
+
+    const request = createRequest('req-1');
+    await engine.evaluate(request, createScanResult());
+    request.messages[0].content = '[REDACTED]';
+
+    expect(recorder.getEntries()[0].request.messages[0].content).toBe('Hello');
+  });
+
+  it('should drop entries older than the retention period', () => {
+    const recorder = new TrafficRecorder({ retentionPeriod: 1000 });
+    recorder.record(createRequest('old'), createScanResult(), {
+      policyId: 'p',
+      action: PolicyAction.ALLOW,
+      reason: 'test',
+      matchedConditions: [],
+      timestamp: Date.now() - 5000,
+    });
+
+    expect(recorder.getEntries()).toHaveLength(0);
+    expect(recorder.getSize()).toBe(0);
+  });
+});
+
+describe('PolicySimulator', () => {
+  let recorder: TrafficRecorder;
+  let engine: PolicyEngine;
+  let simulator: PolicySimulator;
+
+  beforeEach(async () => {
+    recorder = new TrafficRecorder();
+    engine = new PolicyEngine();
+    engine.setTrafficRecorder(recorder);
+    simulator = new PolicySimulator(recorder, engine);
+
+    await engine.evaluate(createRequest('req-1', 'gpt-4'), createScanResult());
+    await engine.evaluate(createRequest('req-2', 'gpt-3.5-turbo'), createScanResult());
+    await engine.evaluate(createRequest('req-3', 'gpt-4'), createScanResult(ThreatLevel.CRITICAL));
+  });
+
+  it('should diff candidate decisions against recorded decisions', async () => {
+    const result = await simulator.simulate({ policies: [blockGpt4] });
+
+    expect(result.totalRequests).toBe(3);
+    expect(result.changedRequests).toBe(1);
+    expect(result.transitions).toEqual({ 'allow->block': 1 });
+    expect(result.recordedActions).toEqual({ allow: 2, block: 1 });
+    expect(result.simulatedActions).toEqual({ allow: 1, block: 2 });
+    expect(result.diffs[0].correlationId).toBe('req-1');
+    expect(result.diffs[0].simulated.policyId).toBe('block-gpt-4');
+  });
+
+  it('should not modify live policies or record simulated traffic', async () => {
+    await simulator.simulate({ policies: [blockGpt4] });
+
+    expect(engine.getPolicy('block-gpt-4')).toBeUndefined();
+    expect(recorder.getSize()).toBe(3);
+  });
+
+  it('should use only candidate policies when replacing the set', async () => {
+    const result = await simulator.simulate({ policies: [blockGpt4], replace: true });
+
+    // Without the default allow policy, gpt-3.5 falls through to the default block
+    expect(result.simulatedActions).toEqual({ block: 3 });
+    expect(result.changedRequests).toBe(2);
+  });
+
+  it('should cap the number of returned diffs', async () => {
+    const result = await simulator.simulate({ policies: [blockGpt4], replace: true, maxDiffs: 1 });
+
+    expect(result.diffs).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+  });
+});
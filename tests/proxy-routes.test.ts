@@ -0,0 +1,200 @@
+/**
+ * Tests for policy actions on the proxy app, against a stubbed upstream
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { Hono } from 'hono';
+import { PolicyAction } from '../src/types/index.js';
+
+type Upstream = (url: string, body: any) => Response;
+
+function sse(events: unknown[]): Response {
+  const text = events.map((event) => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('');
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function chunk(content: string) {
+  return { id: 'chatcmpl-1', object: 'chat.completion.chunk', model: 'gpt-4', choices: [{ index: 0, delta: { content } }] };
+}
+
+function completion(content: string) {
+  return Response.json({
+    id: 'chatcmpl-1',
+    model: 'gpt-4',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+  });
+}
+
+describe('Policy actions on the proxy app', () => {
+  let app: Hono;
+  let upstream: Upstream;
+
+  beforeAll(async () => {
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+    vi.stubEnv('API_KEYS', 'client-key');
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) =>
+      upstream(url, init?.body ? JSON.parse(init.body as string) : undefined)
+    ));
+    ({ default: app } = await import('../src/index.js'));
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  const admin = (method: string, path: string, body?: unknown) =>
+    app.fetch(new Request(`http://localhost${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'admin-key' },
+      body: body ? JSON.stringify(body) : undefined,
+    }));
+
+  // Each test routes its requests to its own policy through the X-Test-Case header
+  const addPolicy = (testCase: string, action: PolicyAction, parameters?: Record<string, unknown>) =>
+    admin('POST', '/api/policies', {
+      id: `test-${testCase}`,
+      name: `Test ${testCase}`,
+      description: `Applies ${action} to the ${testCase} test`,
+      enabled: true,
+      priority: 500,
+      conditions: [{ type: 'header', field: 'x-test-case', operator: 'eq', value: testCase }],
+      actions: [{ action, parameters }],
+    });
+
+  const proxy = (testCase: string, body: unknown, headers: Record<string, string> = {}) =>
+    app.fetch(new Request('http://localhost/proxy/api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'client-key', 'X-Test-Case': testCase, ...headers },
+      body: JSON.stringify(body),
+    }));
+
+  const costEntries = async (requestId?: string) => {
+    const { entries } = await (await admin('GET', '/admin/cost/entries')).json();
+    return (entries as Array<{ requestId: string; model: string; inputTokens: number; outputTokens: number }>)
+      .filter((entry) => !requestId || entry.requestId === requestId);
+  };
+
+  describe('ALERT', () => {
+    it('should scan and redact streamed responses and record their usage', async () => {
+      await addPolicy('alert-stream', PolicyAction.ALERT);
+      upstream = () => sse([
+        chunk('Write to jane.doe@'),
+        chunk('example.com for access'),
+        { id: 'chatcmpl-1', object: 'chat.completion.chunk', model: 'gpt-4', choices: [], usage: { prompt_tokens: 9, completion_tokens: 7 } },
+        '[DONE]',
+      ]);
+      const before = (await costEntries()).length;
+
+      const res = await proxy('alert-stream', {
+        model: 'gpt-4',
+        stream: true,
+        messages: [{ role: 'user', content: 'Who do I contact for access?' }],
+      });
+      const text = await res.text();
+
+      expect(res.headers.get('content-type')).toContain('text/event-stream');
+      expect(text).toContain('data: [DONE]');
+      expect(text).not.toContain('jane.doe@');
+
+      await vi.waitFor(async () => {
+        const entries = await costEntries();
+        expect(entries.length).toBe(before + 1);
+        expect(entries[entries.length - 1]).toMatchObject({ model: 'gpt-4', inputTokens: 9, outputTokens: 7 });
+      });
+    });
+
+    it('should record usage for non-streaming responses', async () => {
+      await addPolicy('alert-json', PolicyAction.ALERT);
+      upstream = () => completion('Access is granted by the security team');
+      const before = (await costEntries()).length;
+
+      const res = await proxy('alert-json', {
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'How is access granted?' }],
+      });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).choices[0].message.content).toBe('Access is granted by the security team');
+
+      const entries = await costEntries();
+      expect(entries.length).toBe(before + 1);
+      expect(entries[entries.length - 1]).toMatchObject({ inputTokens: 12, outputTokens: 8 });
+    });
+  });
+
+  describe('MODIFY, QUEUE and REDIRECT', () => {
+    it('should record usage for modified requests', async () => {
+      await addPolicy('modify-json', PolicyAction.MODIFY, { set: { temperature: 0 } });
+      upstream = () => completion('Done');
+      const before = (await costEntries()).length;
+
+      const res = await proxy('modify-json', { model: 'gpt-4', messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(res.headers.get('x-proxilion-request-modified')).toBe('true');
+      const entries = await costEntries();
+      expect(entries.length).toBe(before + 1);
+      expect(entries[entries.length - 1]).toMatchObject({ model: 'gpt-4', inputTokens: 12, outputTokens: 8 });
+    });
+
+    it('should record usage for delayed requests', async () => {
+      await addPolicy('queue-json', PolicyAction.QUEUE, { requireApproval: false });
+      upstream = () => completion('Done');
+      const before = (await costEntries()).length;
+
+      const res = await proxy('queue-json', { model: 'gpt-4', messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(res.status).toBe(200);
+      const entries = await costEntries();
+      expect(entries.length).toBe(before + 1);
+      expect(entries[entries.length - 1]).toMatchObject({ model: 'gpt-4', inputTokens: 12, outputTokens: 8 });
+    });
+
+    it('should record usage against the model a request was redirected to', async () => {
+      await addPolicy('redirect-json', PolicyAction.REDIRECT, { model: 'gpt-3.5-turbo' });
+      let forwardedModel: string | undefined;
+      upstream = (_url, body) => {
+        forwardedModel = body.model;
+        return completion('Done');
+      };
+      const before = (await costEntries()).length;
+
+      const res = await proxy('redirect-json', { model: 'gpt-4', messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(res.status).toBe(200);
+      expect(forwardedModel).toBe('gpt-3.5-turbo');
+      const entries = await costEntries();
+      expect(entries.length).toBe(before + 1);
+      expect(entries[entries.length - 1]).toMatchObject({ model: 'gpt-3.5-turbo', inputTokens: 12, outputTokens: 8 });
+    });
+  });
+
+  describe('Tenant header', () => {
+    it('should not apply tenant policies for a tenant the credential does not carry', async () => {
+      await admin('POST', '/admin/tenants', { id: 'acme-trusted', name: 'Acme (trusted)' });
+      await admin('POST', '/api/policies', {
+        id: 'allow-acme-trusted',
+        name: 'Allow Acme (trusted)',
+        description: 'Allow every request from the trusted tenant',
+        enabled: true,
+        priority: 600,
+        conditions: [{ type: 'tenant', operator: 'eq', value: 'acme-trusted' }],
+        actions: [{ action: PolicyAction.ALLOW }],
+      });
+      await addPolicy('tenant-header', PolicyAction.BLOCK);
+      upstream = () => completion('Done');
+
+      // API keys carry no tenant, so the header must not select the tenant's policy
+      const res = await proxy(
+        'tenant-header',
+        { model: 'gpt-4', messages: [{ role: 'user', content: 'Hello' }] },
+        { 'X-Tenant-ID': 'acme-trusted' }
+      );
+
+      expect(res.status).toBe(403);
+
+      await admin('DELETE', '/api/policies/allow-acme-trusted');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Scanner Orchestrator Tests
+ *
+ * Stages, early exit, latency budgets and per-tenant scanner selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ScannerOrchestrator, ScannerOrchestratorConfig } from '../src/scanners/scanner-orchestrator.js';
+import { BaseScanner } from '../src/scanners/base-scanner.js';
+import { AIServiceProvider, ScanResult, ThreatLevel, UnifiedAIRequest } from '../src/types/index.js';
+
+class FakeScanner extends BaseScanner {
+  calls = 0;
+
+  constructor(public id: string, public name: string, private threatLevel: ThreatLevel, private delayMs = 0) {
+    super();
+  }
+
+  async scan(): Promise<ScanResult> {
+    this.calls++;
+    await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+
+    const findings = this.threatLevel === ThreatLevel.NONE
+      ? []
+      : [{ type: `${this.id} finding`, severity: this.threatLevel, message: 'Detected', confidence: 0.9 }];
+
+    return this.createResult(findings.length === 0, this.threatLevel, findings.length ? 50 : 0, findings, this.delayMs);
+  }
+}
+
+function createRequest(tenantId?: string): UnifiedAIRequest {
+  return {
+    provider: AIServiceProvider.OPENAI,
+    model: 'gpt-4',
+    messages: [{ role: 'user', content: 'Hello, how are you?' }],
+    parameters: {},
+    streaming: false,
+    metadata: { correlationId: 'test-correlation', tenantId },
+  };
+}
+
+function createOrchestrator(config: Partial<ScannerOrchestratorConfig>, scanners: FakeScanner[]): ScannerOrchestrator {
+  const orchestrator = new ScannerOrchestrator({ enableParallelScanning: true, scanTimeout: 5000, ...config });
+  scanners.forEach((scanner) => orchestrator.register(scanner));
+  return orchestrator;
+}
+
+describe('ScannerOrchestrator stages', () => {
+  it('should run the expensive stage only when earlier stages are inconclusive', async () => {
+    const cheap = new FakeScanner('cheap', 'Cheap', ThreatLevel.NONE);
+    const expensive = new FakeScanner('expensive', 'Expensive', ThreatLevel.HIGH);
+    const stages = [
+      { name: 'patterns', scannerIds: ['cheap'] },
+      { name: 'ml', scannerIds: ['expensive'], runWhen: 'inconclusive' as const },
+    ];
+
+    const clean = await createOrchestrator({ stages }, [cheap, expensive]).scan(createRequest());
+    expect(expensive.calls).toBe(0);
+    expect(clean.skippedScanners).toEqual(['expensive']);
+    // Unassigned default scanners joined the first stage
+    expect(clean.scanResults.map((r) => r.scannerId)).toContain('pii-scanner');
+
+    const suspicious = new FakeScanner('cheap', 'Cheap', ThreatLevel.MEDIUM);
+    const result = await createOrchestrator({ stages }, [suspicious, expensive]).scan(createRequest());
+    expect(expensive.calls).toBe(1);
+    expect(result.overallThreatLevel).toBe(ThreatLevel.HIGH);
+  });
+
+  it('should stop at the first CRITICAL result', async () => {
+    const critical = new FakeScanner('critical', 'Critical', ThreatLevel.CRITICAL);
+    const slow = new FakeScanner('slow', 'Slow', ThreatLevel.NONE, 200);
+    const later = new FakeScanner('later', 'Later', ThreatLevel.NONE);
+
+    const result = await createOrchestrator(
+      {
+        stopOnCritical: true,
+        stages: [
+          { name: 'first', scannerIds: ['critical', 'slow'] },
+          { name: 'second', scannerIds: ['later'] },
+        ],
+      },
+      [critical, slow, later]
+    ).scan(createRequest());
+
+    expect(result.overallThreatLevel).toBe(ThreatLevel.CRITICAL);
+    expect(result.totalExecutionTimeMs).toBeLessThan(200);
+    expect(result.skippedScanners).toEqual(expect.arrayContaining(['slow', 'later']));
+    expect(later.calls).toBe(0);
+
+    const sequential = new FakeScanner('after', 'After', ThreatLevel.NONE);
+    await createOrchestrator(
+      { enableParallelScanning: false, stopOnCritical: true, stages: [{ name: 'only', scannerIds: ['critical', 'after'] }] },
+      [new FakeScanner('critical', 'Critical', ThreatLevel.CRITICAL), sequential]
+    ).scan(createRequest());
+    expect(sequential.calls).toBe(0);
+  });
+
+  it('should enforce per-scanner latency budgets', async () => {
+    const slow = new FakeScanner('slow', 'Slow', ThreatLevel.HIGH, 100);
+
+    const result = await createOrchestrator({ scannerBudgets: { slow: 20 } }, [slow]).scan(createRequest());
+
+    const slowResult = result.scanResults.find((r) => r.scannerId === 'slow')!;
+    expect(slowResult.threatLevel).toBe(ThreatLevel.NONE);
+    expect(slowResult.findings[0].message).toBe('Scanner failed: Scanner Slow exceeded its 20ms budget');
+  });
+
+  it('should run only the scanners selected for a tenant', async () => {
+    const dlp = new FakeScanner('custom-dlp', 'Custom DLP', ThreatLevel.NONE);
+    const orchestrator = createOrchestrator({ tenantScanners: { acme: ['custom-dlp'] } }, [dlp]);
+
+    const acme = await orchestrator.scan(createRequest('acme'));
+    expect(acme.scanResults.map((r) => r.scannerId)).toEqual(['custom-dlp']);
+
+    const other = await orchestrator.scan(createRequest('globex'));
+    expect(other.scanResults.length).toBeGreaterThan(1);
+
+    orchestrator.setTenantScanners('acme', undefined);
+    expect(orchestrator.getTenantScanners('acme')).toBeUndefined();
+    expect((await orchestrator.scan(createRequest('acme'))).scanResults.length).toBe(other.scanResults.length);
+  });
+});
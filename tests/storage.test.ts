@@ -0,0 +1,285 @@
+/**
+ * Durable Storage Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryStorageAdapter } from '../src/storage/memory-storage.js';
+import { FileStorageAdapter } from '../src/storage/file-storage.js';
+import { PolicyEngine } from '../src/policy/policy-engine.js';
+import { TenantManager } from '../src/tenancy/tenant-manager.js';
+import { CostTracker } from '../src/cost/cost-tracker.js';
+import { APIKeyManager } from '../src/identity/api-key-manager.js';
+import { PromptLibrary } from '../src/prompts/prompt-library.js';
+import { WorkflowVersionManager } from '../src/workflows/workflow-version-manager.js';
+import { PolicyAction, ThreatLevel } from '../src/types/index.js';
+
+describe('MemoryStorageAdapter', () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it('should store and retrieve records by namespace', async () => {
+    await storage.set('a', 'key', { value: 1 });
+    await storage.set('b', 'key', { value: 2 });
+
+    expect(await storage.get('a', 'key')).toEqual({ value: 1 });
+    expect(await storage.get('b', 'key')).toEqual({ value: 2 });
+    expect(await storage.get('a', 'missing')).toBeUndefined();
+  });
+
+  it('should return copies rather than live references', async () => {
+    const record = { count: 1 };
+    await storage.set('ns', 'key', record);
+    record.count = 2;
+
+    expect(await storage.get('ns', 'key')).toEqual({ count: 1 });
+  });
+
+  it('should list, delete and clear records', async () => {
+    await storage.set('ns', 'one', 1);
+    await storage.set('ns', 'two', 2);
+    await storage.delete('ns', 'one');
+
+    expect(await storage.entries('ns')).toEqual([['two', 2]]);
+
+    await storage.clear('ns');
+    expect(await storage.entries('ns')).toEqual([]);
+  });
+});
+
+describe('FileStorageAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'proxilion-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist records across adapter instances', async () => {
+    const first = new FileStorageAdapter({ directory });
+    await first.set('policies', 'p1', { id: 'p1', name: 'First' });
+    await first.set('policies', 'p2', { id: 'p2', name: 'Second' });
+    await first.delete('policies', 'p1');
+    await first.flush();
+
+    const second = new FileStorageAdapter({ directory });
+    expect(await second.entries('policies')).toEqual([['p2', { id: 'p2', name: 'Second' }]]);
+  });
+
+  it('should apply operations on a namespace in call order', async () => {
+    const storage = new FileStorageAdapter({ directory });
+    const writes = [];
+    for (let i = 0; i < 50; i++) {
+      writes.push(storage.set('counters', 'value', i));
+    }
+    writes.push(storage.delete('counters', 'other'));
+    await Promise.all(writes);
+    await storage.flush();
+
+    const reloaded = new FileStorageAdapter({ directory });
+    expect(await reloaded.get('counters', 'value')).toBe(49);
+  });
+
+  it('should write one file per namespace', async () => {
+    const storage = new FileStorageAdapter({ directory });
+    await storage.set('tenants', 't1', { id: 't1' });
+    await storage.set('cost_entries', 'c1', { id: 'c1' });
+    await storage.flush();
+
+    const files = (await fs.readdir(directory)).sort();
+    expect(files).toEqual(['cost_entries.jsonl', 'tenants.jsonl']);
+  });
+
+  it('should append changes and compact the log once it outgrows the records', async () => {
+    const storage = new FileStorageAdapter({ directory, compactThreshold: 10 });
+    for (let i = 0; i < 8; i++) {
+      await storage.set('counters', 'value', i);
+    }
+    await storage.flush();
+
+    const logPath = path.join(directory, 'counters.jsonl');
+    expect((await fs.readFile(logPath, 'utf-8')).trim().split('\n')).toHaveLength(8);
+
+    await Promise.all([8, 9, 10, 11].map((i) => storage.set('counters', 'value', i)));
+    await storage.flush();
+
+    expect((await fs.readFile(logPath, 'utf-8')).trim().split('\n')).toHaveLength(2);
+    const reloaded = new FileStorageAdapter({ directory });
+    expect(await reloaded.entries('counters')).toEqual([['value', 11]]);
+  });
+
+  it('should load legacy snapshots and ignore a torn final log line', async () => {
+    await fs.writeFile(path.join(directory, 'tenants.json'), JSON.stringify({ t1: { id: 't1' }, t2: { id: 't2' } }));
+    await fs.writeFile(
+      path.join(directory, 'tenants.jsonl'),
+      JSON.stringify({ op: 'delete', key: 't1' }) + '\n{"op":"set","key":"t3'
+    );
+
+    const storage = new FileStorageAdapter({ directory });
+    expect(await storage.entries('tenants')).toEqual([['t2', { id: 't2' }]]);
+
+    await storage.set('tenants', 't4', { id: 't4' });
+    await storage.flush();
+
+    expect(await fs.readdir(directory)).toEqual(['tenants.jsonl']);
+    const reloaded = new FileStorageAdapter({ directory });
+    expect((await reloaded.entries('tenants')).map(([key]) => key)).toEqual(['t2', 't4']);
+  });
+});
+
+describe('Manager persistence', () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it('should seed default policies and restore custom policies after restart', async () => {
+    const engine = new PolicyEngine();
+    await engine.attachStorage(storage);
+
+    engine.addPolicy({
+      id: 'custom-block',
+      name: 'Custom Block',
+      description: 'Block medium threats',
+      enabled: true,
+      priority: 200,
+      conditions: [{ type: 'threat_level', operator: 'eq', value: ThreatLevel.MEDIUM }],
+      actions: [{ action: PolicyAction.BLOCK }],
+    });
+    engine.removePolicy('default-log-medium');
+    engine.updatePolicy('default-alert-high', { enabled: false });
+
+    const restarted = new PolicyEngine();
+    await restarted.attachStorage(storage);
+
+    const ids = restarted.getPolicies().map((p) => p.id);
+    expect(ids[0]).toBe('custom-block');
+    expect(ids).not.toContain('default-log-medium');
+    expect(restarted.getPolicy('default-alert-high')?.enabled).toBe(false);
+  });
+
+  it('should restore tenants and usage after restart', async () => {
+    const manager = new TenantManager();
+    await manager.attachStorage(storage);
+
+    manager.createTenant({ id: 'acme', name: 'Acme' });
+    manager.recordUsage({ tenantId: 'acme', requests: 3, tokens: 300 });
+
+    const restarted = new TenantManager();
+    await restarted.attachStorage(storage);
+
+    expect(restarted.getTenant('acme')?.name).toBe('Acme');
+    const dayUsage = restarted.getTenantUsage('acme', 'day');
+    expect(dayUsage[0].requests).toBe(3);
+    expect(dayUsage[0].tokens).toBe(300);
+  });
+
+  it('should keep budgets enforceable across restarts', async () => {
+    const tracker = new CostTracker();
+    await tracker.attachStorage(storage);
+
+    tracker.addBudgetLimit({
+      id: 'tenant-budget',
+      name: 'Tenant budget',
+      scope: 'tenant',
+      scopeId: 'acme',
+      limit: 0.05,
+      period: 'daily',
+      alertThreshold: 80,
+      enabled: true,
+    });
+    tracker.trackCost({
+      provider: 'openai',
+      model: 'gpt-4',
+      inputTokens: 1000,
+      outputTokens: 500,
+      tenantId: 'acme',
+      requestId: 'req-1',
+    });
+
+    const restarted = new CostTracker();
+    await restarted.attachStorage(storage);
+
+    const [status] = restarted.checkBudgetLimits(undefined, 'acme');
+    expect(status.limitId).toBe('tenant-budget');
+    expect(status.exceeded).toBe(true);
+    expect(restarted.getCostEntries()).toHaveLength(1);
+  });
+
+  it('should persist only API key prefixes', async () => {
+    const manager = new APIKeyManager();
+    await manager.attachStorage(storage);
+
+    manager.registerKey({
+      apiKey: 'sk-1234567890abcdef-very-secret-suffix',
+      userId: 'user-1',
+      organizationId: 'org-1',
+    });
+    manager.trackUsage('sk-1234567890abcdef-very-secret-suffix', true);
+
+    const stored = await storage.entries('api_keys');
+    expect(JSON.stringify(stored)).not.toContain('very-secret-suffix');
+
+    const restarted = new APIKeyManager();
+    await restarted.attachStorage(storage);
+    expect(restarted.getKeyMetadata('sk-1234567890abcdef')?.userId).toBe('user-1');
+    expect(restarted.getKeyUsage('sk-1234567890abcdef')?.totalRequests).toBe(1);
+  });
+
+  it('should restore prompt library indexes and favorites', async () => {
+    const library = new PromptLibrary();
+    await library.attachStorage(storage);
+
+    const prompt = library.createPrompt({
+      name: 'Summarizer',
+      description: 'Summarize text',
+      category: 'writing',
+      tags: ['summary'],
+      author: 'alice',
+      visibility: 'public',
+      currentVersionId: 'v1',
+    });
+    library.addFavorite('bob', prompt.id);
+    library.ratePrompt({ promptId: prompt.id, userId: 'bob', rating: 4 });
+
+    const restarted = new PromptLibrary();
+    await restarted.attachStorage(storage);
+
+    expect(restarted.search({ tags: ['summary'] }).total).toBe(1);
+    expect(restarted.getFavorites('bob').map((p) => p.id)).toEqual([prompt.id]);
+    expect(restarted.getPrompt(prompt.id)?.rating).toBe(4);
+  });
+
+  it('should restore workflow version history in order', async () => {
+    const manager = new WorkflowVersionManager();
+    await manager.attachStorage(storage);
+
+    const workflow = {
+      id: 'wf-1',
+      name: 'Workflow',
+      description: 'Test workflow',
+      version: '1.0.0',
+      steps: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    } as any;
+    const first = manager.createVersion(workflow, 'initial');
+    manager.createVersion({ ...workflow, version: '1.0.1' }, 'second');
+    manager.tagVersion(first.versionId, 'stable');
+
+    const restarted = new WorkflowVersionManager();
+    await restarted.attachStorage(storage);
+
+    expect(restarted.getVersions('wf-1').map((v) => v.version)).toEqual(['1.0.0', '1.0.1']);
+    expect(restarted.getVersionsByTag('wf-1', 'stable')).toHaveLength(1);
+  });
+});
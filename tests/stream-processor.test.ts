@@ -3,8 +3,43 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { StreamProcessor } from '../src/streaming/stream-processor.js';
-import { ThreatLevel } from '../src/types/index.js';
+import { StreamProcessor, StreamTermination, StreamCompletion } from '../src/streaming/stream-processor.js';
+import { TokenVault } from '../src/policy/token-vault.js';
+import { AIServiceProvider, ThreatLevel } from '../src/types/index.js';
+
+function sourceStream(events: string[], delayMs = 0): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream({
+    async pull(controller) {
+      if (index >= events.length) {
+        controller.close();
+        return;
+      }
+      if (delayMs && index > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+      controller.enqueue(encoder.encode(events[index++]));
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let result = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    result += decoder.decode(value, { stream: true });
+  }
+  return result;
+}
+
+function payloads(output: string): any[] {
+  return output
+    .split('\n\n')
+    .flatMap((event) => event.split('\n').filter((line) => line.startsWith('data: ') && line !== 'data: [DONE]'))
+    .map((line) => JSON.parse(line.slice(6)));
+}
 
 describe('StreamProcessor', () => {
   let processor: StreamProcessor;
@@ -321,5 +356,269 @@ describe('StreamProcessor', () => {
       expect([ThreatLevel.NONE, ThreatLevel.LOW, ThreatLevel.MEDIUM, ThreatLevel.HIGH, ThreatLevel.CRITICAL]).toContain(result.threatLevel);
     });
   });
-});
 
+  describe('provider-aware reassembly', () => {
+    it('should redact an email split across OpenAI deltas', async () => {
+      const output = await readAll(processor.processStream(sourceStream([
+        'data: {"choices":[{"index":0,"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"Contact me at jane.d"}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"oe@exam"}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"ple.com for details."}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\n',
+        'data: [DONE]\n\n',
+      ]), 'test-123', { provider: AIServiceProvider.OPENAI }));
+
+      const events = payloads(output);
+      const text = events.map((e) => e.choices[0].delta.content || '').join('');
+      expect(text).toBe('Contact me at [REDACTED] for details.');
+      expect(output).not.toContain('exam');
+      // Role first, finish last, [DONE] kept
+      expect(events[0].choices[0].delta.role).toBe('assistant');
+      expect(events[events.length - 1].choices[0].finish_reason).toBe('stop');
+      expect(output.trim().endsWith('data: [DONE]')).toBe(true);
+    });
+
+    it('should redact an SSN split across Anthropic content block deltas', async () => {
+      const output = await readAll(processor.processStream(sourceStream([
+        'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"The SSN is 123-4"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"5-6789."}}\n\n',
+        'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ]), 'test-123', { provider: AIServiceProvider.ANTHROPIC }));
+
+      const text = payloads(output).map((e) => e.delta?.text || '').join('');
+      expect(text).toBe('The SSN is [REDACTED].');
+      expect(output).toContain('event: content_block_delta\ndata: ');
+      expect(output).not.toContain('6789');
+    });
+
+    it('should redact a secret split across Gemini candidates', async () => {
+      const token = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+      const output = await readAll(processor.processStream(sourceStream([
+        `data: {"candidates":[{"content":{"parts":[{"text":"Use ${token.slice(0, 15)}"}],"role":"model"}}]}\n\n`,
+        `data: {"candidates":[{"content":{"parts":[{"text":"${token.slice(15)} to push."}],"role":"model"},"finishReason":"STOP"}]}\n\n`,
+      ]), 'test-123', { provider: AIServiceProvider.GOOGLE }));
+
+      const text = payloads(output).map((e) => e.candidates[0].content.parts[0].text).join('');
+      expect(text).toBe('Use [REDACTED] to push.');
+    });
+
+    it('should keep choices separate', async () => {
+      const output = await readAll(processor.processStream(sourceStream([
+        'data: {"choices":[{"index":0,"delta":{"content":"Call 555-"}},{"index":1,"delta":{"content":"No contact "}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"123-4567 now"}},{"index":1,"delta":{"content":"details."}}]}\n\n',
+        'data: [DONE]\n\n',
+      ]), 'test-123'));
+
+      const events = payloads(output);
+      const text = (index: number) => events.map((e) => e.choices[index]?.delta.content || '').join('');
+      expect(text(0)).toBe('Call [REDACTED] now');
+      expect(text(1)).toBe('No contact details.');
+    });
+
+    it('should restore tokenization placeholders split across deltas', async () => {
+      const vault = new TokenVault();
+      const token = vault.tokenize('test-123', 'jane.doe@example.com', 'EMAIL');
+
+      const output = await readAll(processor.processStream(sourceStream([
+        `data: {"choices":[{"index":0,"delta":{"content":"I will write to ${token.slice(0, 4)}"}}]}\n\n`,
+        `data: {"choices":[{"index":0,"delta":{"content":"${token.slice(4)} today."}}]}\n\n`,
+        'data: [DONE]\n\n',
+      ]), 'test-123', { provider: AIServiceProvider.OPENAI, tokenVault: vault }));
+
+      const text = payloads(output).map((e) => e.choices[0].delta.content || '').join('');
+      expect(text).toBe('I will write to jane.doe@example.com today.');
+      expect(output).not.toContain('EMAIL_1');
+      expect(vault.has('test-123')).toBe(false);
+    });
+
+    it('should release held events after maxHoldBackMs', async () => {
+      const slowProcessor = new StreamProcessor({ enableToxicityScanning: false, holdBackChars: 64, maxHoldBackMs: 20 });
+      const reader = slowProcessor.processStream(sourceStream([
+        'data: {"choices":[{"index":0,"delta":{"content":"Hello"}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":" world"}}]}\n\n',
+      ], 300), 'test-123').getReader();
+
+      const startTime = Date.now();
+      const { value } = await reader.read();
+
+      expect(Date.now() - startTime).toBeLessThan(250);
+      expect(new TextDecoder().decode(value)).toContain('Hello');
+      await reader.cancel();
+    });
+  });
+
+  describe('mid-stream termination', () => {
+    it('should end an OpenAI stream with finish_reason content_filter', async () => {
+      const terminations: StreamTermination[] = [];
+      let upstreamCancelled = false;
+      const events = [
+        'data: {"id":"chatcmpl-1","created":1700000000,"model":"gpt-4","choices":[{"index":0,"delta":{"content":"Sure. The customer SSN"}}]}\n\n',
+        'data: {"id":"chatcmpl-1","created":1700000000,"model":"gpt-4","choices":[{"index":0,"delta":{"content":" is 123-45-6789 and"}}]}\n\n',
+        'data: {"id":"chatcmpl-1","created":1700000000,"model":"gpt-4","choices":[{"index":0,"delta":{"content":" more follows"}}]}\n\n',
+      ];
+      const encoder = new TextEncoder();
+      let index = 0;
+      const source = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (index < events.length) controller.enqueue(encoder.encode(events[index++]));
+        },
+        cancel() {
+          upstreamCancelled = true;
+        },
+      });
+
+      const output = await readAll(processor.processStream(source, 'test-123', {
+        provider: AIServiceProvider.OPENAI,
+        terminateOn: ThreatLevel.CRITICAL,
+        onTerminate: (termination) => {
+          terminations.push(termination);
+        },
+      }));
+
+      const last = payloads(output).pop();
+      expect(last).toEqual({
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1700000000,
+        model: 'gpt-4',
+        choices: [{ index: 0, delta: {}, finish_reason: 'content_filter' }],
+      });
+      expect(output.trim().endsWith('data: [DONE]')).toBe(true);
+      expect(output).not.toContain('6789');
+      expect(output).not.toContain('more follows');
+      expect(upstreamCancelled).toBe(true);
+
+      expect(terminations).toHaveLength(1);
+      expect(terminations[0]).toMatchObject({
+        correlationId: 'test-123',
+        findingType: 'US Social Security Number',
+        threatLevel: ThreatLevel.CRITICAL,
+      });
+    });
+
+    it('should end an Anthropic stream with a refusal and message_stop', async () => {
+      const output = await readAll(processor.processStream(sourceStream([
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","model":"claude-3-opus-20240229"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"SSN: 123-45-6789"}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ]), 'test-123', { provider: AIServiceProvider.ANTHROPIC, terminateOn: ThreatLevel.HIGH }));
+
+      const events = output.trim().split('\n\n');
+      expect(events[0]).toContain('event: message_start');
+      expect(events.slice(1).map((e) => e.split('\n')[0])).toEqual([
+        'event: content_block_stop',
+        'event: message_delta',
+        'event: message_stop',
+      ]);
+      const [, , delta, stop] = payloads(output);
+      expect(delta.delta.stop_reason).toBe('refusal');
+      expect(stop.error.type).toBe('content_policy_violation');
+    });
+
+    it('should keep the transcript the client received', async () => {
+      const terminations: StreamTermination[] = [];
+      const filler = 'This is a long and harmless introduction to the answer. '.repeat(3);
+      await readAll(processor.processStream(sourceStream([
+        `data: {"choices":[{"index":0,"delta":{"content":"${filler}"}}]}\n\n`,
+        `data: {"choices":[{"index":0,"delta":{"content":"${filler}"}}]}\n\n`,
+        'data: {"choices":[{"index":0,"delta":{"content":"SSN 123-45-6789"}}]}\n\n',
+      ]), 'test-123', {
+        terminateOn: ThreatLevel.CRITICAL,
+        onTerminate: (termination) => {
+          terminations.push(termination);
+        },
+      }));
+
+      expect(terminations[0].transcript.startsWith(filler)).toBe(true);
+      expect(terminations[0].transcript).not.toContain('6789');
+    });
+
+    it('should only redact below the termination level', async () => {
+      const output = await readAll(processor.processStream(sourceStream([
+        'data: {"choices":[{"index":0,"delta":{"content":"Mail jane.doe@example.com"}}]}\n\n',
+        'data: [DONE]\n\n',
+      ]), 'test-123', { terminateOn: ThreatLevel.CRITICAL }));
+
+      expect(payloads(output)[0].choices[0].delta.content).toBe('Mail [REDACTED]');
+      expect(output).not.toContain('content_filter');
+    });
+  });
+
+  describe('usage accounting', () => {
+    async function complete(events: string[], provider?: AIServiceProvider): Promise<StreamCompletion[]> {
+      const completions: StreamCompletion[] = [];
+      await readAll(processor.processStream(sourceStream(events), 'test-123', {
+        provider,
+        onComplete: (completion) => {
+          completions.push(completion);
+        },
+      }));
+      return completions;
+    }
+
+    it('should read OpenAI include_usage chunks', async () => {
+      const completions = await complete([
+        'data: {"choices":[{"index":0,"delta":{"content":"Hello there"},"finish_reason":null}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3,"total_tokens":15}}\n\n',
+        'data: [DONE]\n\n',
+      ], AIServiceProvider.OPENAI);
+
+      expect(completions).toHaveLength(1);
+      expect(completions[0]).toMatchObject({
+        correlationId: 'test-123',
+        outcome: 'completed',
+        usage: { inputTokens: 12, outputTokens: 3 },
+      });
+    });
+
+    it('should combine Anthropic message_start and message_delta usage', async () => {
+      const completions = await complete([
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"msg_1","usage":{"input_tokens":25,"output_tokens":1}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":15}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ], AIServiceProvider.ANTHROPIC);
+
+      expect(completions[0].usage).toEqual({ inputTokens: 25, outputTokens: 15 });
+    });
+
+    it('should take the last Gemini usageMetadata', async () => {
+      const completions = await complete([
+        'data: {"candidates":[{"content":{"parts":[{"text":"One"}]}}],"usageMetadata":{"promptTokenCount":8,"candidatesTokenCount":1}}\n\n',
+        'data: {"candidates":[{"content":{"parts":[{"text":" two"}]},"finishReason":"STOP"}],"usageMetadata":{"promptTokenCount":8,"candidatesTokenCount":2}}\n\n',
+      ], AIServiceProvider.GOOGLE);
+
+      expect(completions[0].usage).toEqual({ inputTokens: 8, outputTokens: 2 });
+    });
+
+    it('should estimate output tokens when usage is not reported', async () => {
+      const completions = await complete([
+        'data: {"choices":[{"index":0,"delta":{"content":"The answer"}}]}\n\n',
+        'data: {"choices":[{"index":0,"delta":{"content":" is 42."}}]}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+
+      expect(completions[0].usage).toEqual({});
+      expect(completions[0].estimatedOutputTokens).toBe(5);
+    });
+
+    it('should report terminated streams', async () => {
+      const completions: StreamCompletion[] = [];
+      await readAll(processor.processStream(sourceStream([
+        'data: {"choices":[{"index":0,"delta":{"content":"SSN 123-45-6789"}}]}\n\n',
+      ]), 'test-123', {
+        terminateOn: ThreatLevel.CRITICAL,
+        onComplete: (completion) => {
+          completions.push(completion);
+        },
+      }));
+
+      expect(completions).toHaveLength(1);
+      expect(completions[0].outcome).toBe('terminated');
+      expect(completions[0].estimatedOutputTokens).toBeGreaterThan(0);
+    });
+  });
+});
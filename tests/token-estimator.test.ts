@@ -0,0 +1,28 @@
+/**
+ * Tests for the token estimator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateTokens } from '../src/utils/token-estimator.js';
+
+describe('estimateTokens', () => {
+  it('should count short words and punctuation as one token each', () => {
+    expect(estimateTokens('Hello, world!')).toBe(4);
+  });
+
+  it('should split long words', () => {
+    expect(estimateTokens('internationalization')).toBe(4);
+  });
+
+  it('should group digits in threes', () => {
+    expect(estimateTokens('1234567')).toBe(3);
+  });
+
+  it('should count CJK characters individually', () => {
+    expect(estimateTokens('你好世界')).toBe(4);
+  });
+
+  it('should return zero for whitespace', () => {
+    expect(estimateTokens('  \n\t')).toBe(0);
+  });
+});